@@ -2,6 +2,7 @@ import React from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import TierBadge from './TierBadge';
+import CompareButton from './CompareButton';
 
 interface Clinic {
   id: string;
@@ -275,6 +276,7 @@ const ClinicCard: React.FC<ClinicCardProps> = ({
             </a>
           )}
         </div>
+        <CompareButton clinic={clinic} className="mt-4" />
       </div>
     </div>
   );
@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { ClinicSchedule, Weekday } from '../types';
+import {
+  clinicLocalDate,
+  describeOpenStatus,
+  formatIntervals,
+  getOpenStatus,
+  OpenStatus,
+  WEEKDAY_LABELS
+} from '../lib/clinicHours';
+
+interface ClinicHoursProps {
+  schedule?: ClinicSchedule;
+  hours?: { day: string; hours: string }[]; // Shown as listed when there's no parsed schedule
+}
+
+const DISPLAY_ORDER: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+// Upcoming special hours within this many days are listed under the week
+const UPCOMING_EXCEPTION_DAYS = 30;
+
+const formatExceptionDate = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+
+// Opening hours with live open/closed status, in the clinic's time zone
+const ClinicHours: React.FC<ClinicHoursProps> = ({ schedule, hours }) => {
+  // Status depends on the current time, so it's only worked out in the browser (and kept fresh)
+  const [now, setNow] = useState<Date | null>(null);
+
+  useEffect(() => {
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!schedule) {
+    if (!hours || hours.length === 0) return null;
+    return (
+      <table className="text-sm">
+        <tbody>
+          {hours.map((row, index) => (
+            <tr key={`${row.day}-${index}`}>
+              <td className="pr-4 py-0.5 text-gray-400">{row.day}</td>
+              <td className="py-0.5 text-gray-300">{row.hours}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  const status: OpenStatus | null = now ? getOpenStatus(schedule, now) : null;
+  const today = now ? clinicLocalDate(schedule, now) : null;
+  const upcomingExceptions = today
+    ? (schedule.exceptions || []).filter(exception => {
+        const daysAway = (Date.parse(`${exception.date}T00:00:00Z`) - Date.parse(`${today.date}T00:00:00Z`)) / 86400000;
+        return daysAway >= 0 && daysAway <= UPCOMING_EXCEPTION_DAYS;
+      })
+    : [];
+
+  return (
+    <div className="space-y-3">
+      {status && (
+        <p className={`inline-flex items-center gap-2 text-sm font-medium ${status.isOpen ? 'text-green-400' : 'text-red-400'}`}>
+          <span className={`w-2 h-2 rounded-full ${status.isOpen ? 'bg-green-400' : 'bg-red-400'}`}></span>
+          {describeOpenStatus(status)}
+        </p>
+      )}
+
+      <table className="text-sm">
+        <tbody>
+          {DISPLAY_ORDER.map(day => (
+            <tr key={day} className={today?.weekday === day ? 'text-white font-medium' : 'text-gray-300'}>
+              <td className="pr-4 py-0.5 text-gray-400">{WEEKDAY_LABELS[day]}</td>
+              <td className="py-0.5">{formatIntervals(schedule.weekly[day] || [])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {upcomingExceptions.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-1">Special hours</h4>
+          <ul className="text-sm text-gray-300 space-y-0.5">
+            {upcomingExceptions.map(exception => (
+              <li key={exception.date}>
+                <span className="text-gray-400">
+                  {formatExceptionDate(exception.date)}{exception.label ? ` (${exception.label})` : ''}:
+                </span>{' '}
+                {formatIntervals(exception.intervals)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {schedule.closedOnHolidays ? 'Closed on major holidays. ' : ''}Times are local to the clinic.
+      </p>
+    </div>
+  );
+};
+
+export default ClinicHours;
@@ -0,0 +1,55 @@
+import React from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import useCompareList from '../utils/hooks/useCompareList';
+import { compareUrl, MAX_COMPARE_CLINICS } from '../lib/compare';
+
+// Bottom bar listing the clinics picked with CompareButton, on every page but /compare
+const CompareBar: React.FC = () => {
+  const router = useRouter();
+  const { items, toggle, clear } = useCompareList();
+
+  if (items.length === 0 || router.pathname === '/compare') return null;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 bg-[#111111] border-t border-[#222222] shadow-lg">
+      <div className="container mx-auto px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex-1 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">Compare ({items.length}/{MAX_COMPARE_CLINICS}):</span>
+          {items.map(item => (
+            <span key={item.id} className="inline-flex items-center gap-1 px-3 py-1 bg-[#222222] rounded-full">
+              {item.name}
+              <button
+                onClick={() => toggle(item)}
+                className="text-gray-500 hover:text-white"
+                aria-label={`Remove ${item.name} from comparison`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={clear}
+            className="px-4 py-2 bg-[#222222] text-gray-300 text-sm rounded-lg hover:bg-[#333333] transition-colors"
+          >
+            Clear
+          </button>
+          {items.length >= 2 ? (
+            <Link
+              href={compareUrl(items.map(item => item.id))}
+              className="px-4 py-2 bg-primary hover:bg-primary-dark text-white text-sm rounded-lg transition-colors"
+            >
+              Compare Clinics
+            </Link>
+          ) : (
+            <span className="px-4 py-2 text-sm text-gray-500">Pick at least 2 clinics</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareBar;
@@ -0,0 +1,43 @@
+import React from 'react';
+import useCompareList from '../utils/hooks/useCompareList';
+
+interface CompareButtonProps {
+  clinic: { id?: string; name: string };
+  className?: string;
+}
+
+// Adds a clinic to (or removes it from) the compare list shown in CompareBar
+const CompareButton: React.FC<CompareButtonProps> = ({ clinic, className = '' }) => {
+  const { isComparing, toggle, isFull } = useCompareList();
+
+  if (!clinic.id) return null;
+
+  const selected = isComparing(clinic.id);
+  const disabled = !selected && isFull;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        toggle({ id: clinic.id!, name: clinic.name });
+      }}
+      disabled={disabled}
+      title={disabled ? 'You can compare up to 4 clinics' : undefined}
+      className={`inline-flex items-center justify-center gap-2 text-sm transition-colors ${
+        selected ? 'text-primary' : disabled ? 'text-gray-600 cursor-not-allowed' : 'text-gray-400 hover:text-white'
+      } ${className}`}
+    >
+      <span className={`w-4 h-4 rounded border flex items-center justify-center ${selected ? 'bg-primary border-primary' : 'border-gray-500'}`}>
+        {selected && (
+          <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+          </svg>
+        )}
+      </span>
+      Compare
+    </button>
+  );
+};
+
+export default CompareButton;
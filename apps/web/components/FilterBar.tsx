@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { SearchFacets } from '../types';
 
 interface FilterBarProps {
   filters: {
@@ -6,9 +7,15 @@ interface FilterBarProps {
     tiers: string[];
     states: string[];
     verifiedOnly: boolean;
+    minRating?: number;
+    telehealthOnly?: boolean;
+    openNow?: boolean;
+    openWeekends?: boolean;
+    openEvenings?: boolean;
   };
   onFiltersChange: (filters: any) => void;
   totalResults: number;
+  facets?: SearchFacets | null; // Live option counts from the search index, when available
   isSticky?: boolean;
 }
 
@@ -18,36 +25,56 @@ interface FilterOption {
   count?: number;
 }
 
+// Service category IDs (see serviceCategoryMap in lib/utils)
 const SERVICE_OPTIONS: FilterOption[] = [
-  { id: 'hormone-optimization', label: 'Hormone Optimization', count: 45 },
-  { id: 'sexual-health', label: 'Sexual Health', count: 38 },
-  { id: 'peptides-performance', label: 'Peptides & Performance', count: 24 },
-  { id: 'hair-loss-aesthetics', label: 'Hair Loss & Aesthetics', count: 32 },
-  { id: 'weight-loss-metabolic', label: 'Weight Loss & Metabolic', count: 28 },
-  { id: 'iv-injection-therapy', label: 'IV & Injection Therapy', count: 19 },
-  { id: 'regenerative-medicine', label: 'Regenerative Medicine', count: 15 },
-  { id: 'diagnostics-panels', label: 'Diagnostics & Panels', count: 42 }
+  { id: 'hormone-optimization', label: 'Hormone Optimization' },
+  { id: 'sexual-health', label: 'Sexual Health' },
+  { id: 'peptides-performance', label: 'Peptides & Performance' },
+  { id: 'hair-loss-aesthetics', label: 'Hair Loss & Aesthetics' },
+  { id: 'weight-loss-metabolic', label: 'Weight Loss & Metabolic' },
+  { id: 'iv-injection-therapy', label: 'IV & Injection Therapy' },
+  { id: 'regenerative-medicine', label: 'Regenerative Medicine' },
+  { id: 'diagnostics-panels', label: 'Diagnostics & Panels' }
 ];
 
 const TIER_OPTIONS: FilterOption[] = [
-  { id: 'high', label: 'Premium', count: 15 },
-  { id: 'low', label: 'Enhanced', count: 23 },
-  { id: 'free', label: 'Free', count: 67 }];
+  { id: 'advanced', label: 'Premium' },
+  { id: 'standard', label: 'Enhanced' },
+  { id: 'free', label: 'Free' }];
 
 const STATE_OPTIONS: FilterOption[] = [
-  { id: 'TX', label: 'Texas', count: 28 },
-  { id: 'CA', label: 'California', count: 22 },
-  { id: 'FL', label: 'Florida', count: 18 },
-  { id: 'NY', label: 'New York', count: 15 },
-  { id: 'IL', label: 'Illinois', count: 12 },
-  { id: 'AZ', label: 'Arizona', count: 11 },
-  { id: 'GA', label: 'Georgia', count: 9 },
-  { id: 'CO', label: 'Colorado', count: 8 }];
+  { id: 'TX', label: 'Texas' },
+  { id: 'CA', label: 'California' },
+  { id: 'FL', label: 'Florida' },
+  { id: 'NY', label: 'New York' },
+  { id: 'IL', label: 'Illinois' },
+  { id: 'AZ', label: 'Arizona' },
+  { id: 'GA', label: 'Georgia' },
+  { id: 'CO', label: 'Colorado' }];
+
+// Minimum ratings; ids match the keys of the ratings facet
+const RATING_OPTIONS: FilterOption[] = [
+  { id: '4.5', label: '4.5+ stars' },
+  { id: '4', label: '4+ stars' },
+  { id: '3', label: '3+ stars' }];
+
+// Ids are the filter keys and the keys of the hours facet
+const HOURS_OPTIONS: FilterOption[] = [
+  { id: 'openNow', label: 'Open now' },
+  { id: 'openWeekends', label: 'Open weekends' },
+  { id: 'openEvenings', label: 'Open evenings' }];
+
+type HoursFilterKey = 'openNow' | 'openWeekends' | 'openEvenings';
+
+// Attach counts from a facet, or leave options uncounted without one
+const withCounts = (options: FilterOption[], counts?: Record<string, number>): FilterOption[] =>
+  counts ? options.map(option => ({ ...option, count: counts[option.id] || 0 })) : options;
 
 const FilterBar: React.FC<FilterBarProps> = ({
   filters,
   onFiltersChange,
   totalResults,
+  facets,
   isSticky = true
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -106,16 +133,38 @@ const FilterBar: React.FC<FilterBarProps> = ({
     onFiltersChange({ ...filters, states: newStates });
   };
 
+  // Only one minimum rating applies; picking the current one clears it
+  const handleRatingToggle = (ratingId: string) => {
+    const rating = Number(ratingId);
+    onFiltersChange({ ...filters, minRating: filters.minRating === rating ? 0 : rating });
+  };
+
+  const handleHoursToggle = (hoursId: string) => {
+    const key = hoursId as HoursFilterKey;
+    onFiltersChange({ ...filters, [key]: !filters[key] });
+  };
+
+  const selectedHours = HOURS_OPTIONS.filter(option => filters[option.id as HoursFilterKey]).map(option => option.id);
+
   const handleVerifiedToggle = () => {
     onFiltersChange({ ...filters, verifiedOnly: !filters.verifiedOnly });
   };
 
+  const handleTelehealthToggle = () => {
+    onFiltersChange({ ...filters, telehealthOnly: !filters.telehealthOnly });
+  };
+
   const clearAllFilters = () => {
     onFiltersChange({
       services: [],
       tiers: [],
       states: [],
-      verifiedOnly: false
+      verifiedOnly: false,
+      minRating: 0,
+      telehealthOnly: false,
+      openNow: false,
+      openWeekends: false,
+      openEvenings: false
     });
     setActiveDropdown(null);
   };
@@ -123,10 +172,15 @@ const FilterBar: React.FC<FilterBarProps> = ({
   const hasActiveFilters = filters.services.length > 0 || 
                           filters.tiers.length > 0 || 
                           filters.states.length > 0 || 
-                          filters.verifiedOnly;
+                          filters.verifiedOnly ||
+                          !!filters.minRating ||
+                          !!filters.telehealthOnly ||
+                          selectedHours.length > 0;
 
   const getActiveFilterCount = () => {
-    return filters.services.length + filters.tiers.length + filters.states.length + (filters.verifiedOnly ? 1 : 0);
+    return filters.services.length + filters.tiers.length + filters.states.length +
+      (filters.verifiedOnly ? 1 : 0) + (filters.minRating ? 1 : 0) + (filters.telehealthOnly ? 1 : 0) +
+      selectedHours.length;
   };
 
   const FilterDropdown: React.FC<{
@@ -171,11 +225,13 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors ${
                   selected.includes(option.id)
                     ? 'bg-primary text-white'
-                    : 'text-gray-300 hover:bg-gray-700'
+                    : option.count === 0
+                      ? 'text-gray-500 hover:bg-gray-700'
+                      : 'text-gray-300 hover:bg-gray-700'
                 }`}
               >
                 <span>{option.label}</span>
-                {option.count && (
+                {option.count !== undefined && (
                   <span className="text-xs text-gray-400">
                     {option.count}
                   </span>
@@ -237,7 +293,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
               <div className="flex flex-wrap gap-3 flex-1">
                 <FilterDropdown
                   title="Services"
-                  options={SERVICE_OPTIONS}
+                  options={withCounts(SERVICE_OPTIONS, facets?.categories)}
                   selected={filters.services}
                   onToggle={handleServiceToggle}
                   dropdownKey="services"
@@ -245,7 +301,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
 
                 <FilterDropdown
                   title="Tier"
-                  options={TIER_OPTIONS}
+                  options={withCounts(TIER_OPTIONS, facets?.tiers)}
                   selected={filters.tiers}
                   onToggle={handleTierToggle}
                   dropdownKey="tiers"
@@ -253,12 +309,28 @@ const FilterBar: React.FC<FilterBarProps> = ({
 
                 <FilterDropdown
                   title="State"
-                  options={STATE_OPTIONS}
+                  options={withCounts(STATE_OPTIONS, facets?.states)}
                   selected={filters.states}
                   onToggle={handleStateToggle}
                   dropdownKey="states"
                 />
 
+                <FilterDropdown
+                  title="Rating"
+                  options={withCounts(RATING_OPTIONS, facets?.ratings)}
+                  selected={filters.minRating ? [String(filters.minRating)] : []}
+                  onToggle={handleRatingToggle}
+                  dropdownKey="rating"
+                />
+
+                <FilterDropdown
+                  title="Hours"
+                  options={withCounts(HOURS_OPTIONS, facets?.hours)}
+                  selected={selectedHours}
+                  onToggle={handleHoursToggle}
+                  dropdownKey="hours"
+                />
+
                 {/* Verified Only Toggle */}
                 <button
                   onClick={handleVerifiedToggle}
@@ -273,6 +345,24 @@ const FilterBar: React.FC<FilterBarProps> = ({
                   </svg>
                   <span>Verified Only</span>
                 </button>
+
+                {/* Telehealth Toggle */}
+                <button
+                  onClick={handleTelehealthToggle}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${
+                    filters.telehealthOnly
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                  <span>Telehealth</span>
+                  {facets && (
+                    <span className="text-xs opacity-70">{facets.telehealth}</span>
+                  )}
+                </button>
               </div>
 
               {/* Clear Filters */}
@@ -1,6 +1,7 @@
 import React from 'react';
 import Header from './Header';
 import Footer from './Footer';
+import CompareBar from './CompareBar';
 import { DevAdminBypass } from './DevAdminBypass';
 
 interface LayoutProps {
@@ -20,6 +21,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         {children}
       </main>
       <Footer />
+      <CompareBar />
       <DevAdminBypass onAdminLogin={handleAuthChange} />
     </div>
   );
@@ -24,6 +24,9 @@ const FALLBACK_SUGGESTIONS: SearchSuggestion[] = [
   { text: 'Chicago, IL', type: 'city' }
 ];
 
+// Tags searches started here for the search demand report (see pages/search.tsx)
+const SEARCH_SOURCE = 'location-aware-search';
+
 const LocationAwareSearch: React.FC = () => {
   const [searchText, setSearchText] = useState('');
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
@@ -166,6 +169,7 @@ const LocationAwareSearch: React.FC = () => {
     router.push({
       pathname: '/search',
       query: { 
+        src: SEARCH_SOURCE,
         q: searchText,
         ...(location && { 
           lat: location.lat, 
@@ -191,6 +195,7 @@ const LocationAwareSearch: React.FC = () => {
       router.push({
         pathname: '/search',
         query: { 
+          src: SEARCH_SOURCE,
           city: suggestion.data.city, 
           state: suggestion.data.state,
           ...(location && { lat: location.lat, lng: location.lng })
@@ -201,6 +206,7 @@ const LocationAwareSearch: React.FC = () => {
       router.push({
         pathname: '/search',
         query: { 
+          src: SEARCH_SOURCE,
           service: suggestion.text,
           ...(location && { 
             lat: location.lat, 
@@ -215,6 +221,7 @@ const LocationAwareSearch: React.FC = () => {
       router.push({
         pathname: '/search',
         query: { 
+          src: SEARCH_SOURCE,
           q: suggestion.text,
           ...(location && { 
             lat: location.lat, 
@@ -233,6 +240,7 @@ const LocationAwareSearch: React.FC = () => {
       router.push({
         pathname: '/search',
         query: { 
+          src: SEARCH_SOURCE,
           lat: location.lat,
           lng: location.lng,
           city: location.city,
@@ -365,6 +373,7 @@ const LocationAwareSearch: React.FC = () => {
                       router.push({
                         pathname: '/search',
                         query: { 
+                          src: SEARCH_SOURCE,
                           q: search,
                           ...(location && { 
                             lat: location.lat, 
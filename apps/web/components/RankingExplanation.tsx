@@ -0,0 +1,55 @@
+import React from 'react';
+import Link from 'next/link';
+import { RANKING_FACTOR_LABELS } from '../lib/ranking';
+import { RankingBreakdown } from '../types';
+
+interface RankingExplanationProps {
+  ranking: RankingBreakdown;
+  position: number; // 1-based
+}
+
+// Admin-only "why is this ranked here" panel for a search result
+const RankingExplanation: React.FC<RankingExplanationProps> = ({ ranking, position }) => {
+  const factors = [...ranking.factors].sort((a, b) => b.contribution - a.contribution);
+
+  return (
+    <div className="mt-4 p-4 bg-[#111111] border border-[#222222] rounded-md text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <p className="font-semibold">
+          Ranked #{position} with a score of {ranking.score.toFixed(1)} / 100
+        </p>
+        <Link href="/admin/settings/ranking" className="text-xs text-primary hover:underline">
+          Edit weights
+        </Link>
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-[#222222]">
+            <th className="py-1">Factor</th>
+            <th className="py-1">Signal</th>
+            <th className="py-1 w-1/4">Value</th>
+            <th className="py-1 text-right">Weight</th>
+            <th className="py-1 text-right">Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {factors.map(factor => (
+            <tr key={factor.factor} className="border-b border-[#222222] last:border-0">
+              <td className="py-1 pr-2">{RANKING_FACTOR_LABELS[factor.factor].label}</td>
+              <td className="py-1 pr-2 text-gray-400">{factor.detail}</td>
+              <td className="py-1 pr-2">
+                <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-primary" style={{ width: `${factor.value * 100}%` }}></div>
+                </div>
+              </td>
+              <td className="py-1 text-right text-gray-400">{factor.weight}</td>
+              <td className="py-1 text-right">+{factor.contribution.toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RankingExplanation;
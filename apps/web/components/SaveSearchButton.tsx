@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '../lib/contexts/authContext';
+import { saveSearch, SavedSearchInput } from '../lib/api/savedSearchService';
+
+const RADIUS_OPTIONS = [10, 25, 50, 100]; // Miles
+const DEFAULT_RADIUS = 25;
+
+interface SaveSearchButtonProps {
+  search: Omit<SavedSearchInput, 'name' | 'radius'>;
+  defaultName: string;
+}
+
+// "Save this search" on the search page; saved searches get new-clinic email alerts
+const SaveSearchButton: React.FC<SaveSearchButtonProps> = ({ search, defaultName }) => {
+  const { currentUser, userData } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [radius, setRadius] = useState(DEFAULT_RADIUS);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const email = userData?.email || currentUser?.email;
+
+  if (!currentUser || !email) {
+    return (
+      <Link href="/login" className="text-sm text-[#AAAAAA] hover:text-white transition-colors">
+        Log in to save this search
+      </Link>
+    );
+  }
+
+  if (saved) {
+    return (
+      <p className="text-sm text-green-400">
+        Search saved. We&apos;ll email {email} when new clinics match.{' '}
+        <Link href="/dashboard?tab=searches" className="text-primary hover:underline">Manage</Link>
+      </p>
+    );
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveSearch(currentUser.uid, email, { ...search, name: name.trim() || defaultName, radius });
+      setSaved(true);
+    } catch (err) {
+      setError('Failed to save this search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => {
+          setName(defaultName);
+          setOpen(true);
+        }}
+        className="px-4 py-2 bg-[#222222] text-white text-sm rounded-lg hover:bg-[#333333] transition-colors inline-flex items-center gap-2"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        Save Search &amp; Get Alerts
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="bg-[#111111] border border-[#222222] rounded-lg p-4 flex flex-col sm:flex-row sm:items-end gap-3">
+      <div className="flex-1">
+        <label className="block text-xs text-[#AAAAAA] mb-1">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={80}
+          className="input w-full py-2"
+        />
+      </div>
+      {search.location?.lat !== undefined && (
+        <div>
+          <label className="block text-xs text-[#AAAAAA] mb-1">Within</label>
+          <select
+            value={radius}
+            onChange={(e) => setRadius(Number(e.target.value))}
+            className="input py-2"
+          >
+            {RADIUS_OPTIONS.map(miles => (
+              <option key={miles} value={miles}>{miles} miles</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-4 py-2 bg-[#222222] text-gray-300 text-sm rounded-lg hover:bg-[#333333] transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className={`px-4 py-2 text-sm rounded-lg ${
+            saving ? 'bg-gray-800 text-gray-400 cursor-not-allowed' : 'bg-primary hover:bg-primary-dark text-white'
+          }`}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400 sm:self-center">{error}</p>}
+    </form>
+  );
+};
+
+export default SaveSearchButton;
@@ -2,40 +2,96 @@ import React, { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import TierBadge from './TierBadge';
 import { convertTierToEnum } from '../lib/utils';
-import { Clinic, ClinicFilter } from '../types';
-import { searchClinicsOptimized } from '../lib/optimizedSearch';
+import { ClinicFilter, ClinicSearchPage, ExtendedClinic, PopularCity, SearchHighlight, SearchRelaxation } from '../types';
+import { fetchClinicSearch, filtersToIndexQuery } from '../lib/api/searchIndexService';
+import { searchQueryKey } from '../lib/searchQuery';
+import { logZeroResultSearch } from '../lib/api/searchDemandService';
 import TrackedPhoneLink from './TrackedPhoneLink';
-import { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import ZeroResultSuggestions from './ZeroResultSuggestions';
+import RankingExplanation from './RankingExplanation';
+import CompareButton from './CompareButton';
+import { useAuth } from '../lib/contexts/authContext';
 import { useRouter } from 'next/router';
 
 interface SearchResultsListProps {
   initialFilters: ClinicFilter;
+  initialPage?: ClinicSearchPage | null; // First page for initialFilters, rendered on the server
   userLocation?: { lat: number; lng: number } | null;
+  searchLocation?: string | null; // "City, ST" the user is searching from
+  onRelax: (relaxation: SearchRelaxation) => void;
+  onSelectCity: (city: PopularCity) => void;
+  onResultClick?: (clinicId: string, position: number) => void; // position is 1-based
 }
 
-const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, userLocation }) => {
+// Clinics per page; pages rendering the first page on the server use the same size
+export const RESULTS_PAGE_SIZE = 10;
+
+// Render a highlighted field value with the matched words marked
+const HighlightedText: React.FC<{ segments: SearchHighlight['segments'] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, i) => segment.match ? (
+      <mark key={i} className="bg-transparent text-primary font-semibold">{segment.text}</mark>
+    ) : (
+      <React.Fragment key={i}>{segment.text}</React.Fragment>
+    ))}
+  </>
+);
+
+const SearchResultsList: React.FC<SearchResultsListProps> = ({
+  initialFilters,
+  initialPage,
+  userLocation,
+  searchLocation,
+  onRelax,
+  onSelectCity,
+  onResultClick
+}) => {
   const router = useRouter();
-  const [clinics, setClinics] = useState<Clinic[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
+  const { userData } = useAuth();
+  const isAdmin = Boolean(userData?.isAdmin || userData?.role === 'admin');
+  const [explainedId, setExplainedId] = useState<string | null>(null); // Result showing its ranking breakdown
+  const [clinics, setClinics] = useState<ExtendedClinic[]>(initialPage?.clinics || []);
+  const [loading, setLoading] = useState<boolean>(!initialPage);
   const [error, setError] = useState<string | null>(null);
-  const [hasMore, setHasMore] = useState<boolean>(true);
-  const [lastDoc, setLastDoc] = useState<DocumentData | null>(null);
+  const [hasMore, setHasMore] = useState<boolean>(initialPage ? Boolean(initialPage.nextCursor) : true);
+  const [cursor, setCursor] = useState<string | null>(initialPage?.nextCursor || null); // Next page from /api/search
   const [filters, setFilters] = useState<ClinicFilter>(initialFilters);
   const [sortBy, setSortBy] = useState<'relevance' | 'distance' | 'rating'>('relevance');
+  const [highlights, setHighlights] = useState<Record<string, SearchHighlight[]>>(initialPage?.highlights || {});
+  const [relaxations, setRelaxations] = useState<SearchRelaxation[]>(initialPage?.relaxations || []); // Suggested when nothing matches
+  const [partial, setPartial] = useState<boolean>(Boolean(initialPage?.partial)); // Radius too large to read in full
+  
+  // The server-rendered page stands in for the first fetch until the filters move away from it
+  const serverPage = useRef(initialPage ? { key: searchQueryKey(filtersToIndexQuery(initialFilters)), page: initialPage } : null);
   
   const observerTarget = useRef<HTMLDivElement>(null);
-  const PAGE_SIZE = 10;
 
   // Update filters when initialFilters change
   useEffect(() => {
     setFilters(initialFilters);
-    setClinics([]); // Reset results
-    setLastDoc(null); // Reset pagination
     setHasMore(true); // Reset hasMore flag
+    setRelaxations([]);
+    
+    const rendered = serverPage.current;
+    if (rendered && rendered.key === searchQueryKey(filtersToIndexQuery(initialFilters))) {
+      setClinics(rendered.page.clinics);
+      setHighlights(rendered.page.highlights);
+      setRelaxations(rendered.page.relaxations);
+      setCursor(rendered.page.nextCursor);
+      setHasMore(Boolean(rendered.page.nextCursor));
+      setPartial(Boolean(rendered.page.partial));
+      setLoading(false);
+      return;
+    }
+    
+    serverPage.current = null;
+    setClinics([]); // Reset results
+    setCursor(null); // Reset pagination
+    setHighlights({});
     setLoading(true); // Set loading state
   }, [initialFilters]);
 
-  // Fetch clinics when filters or lastDoc change
+  // Fetch clinics when the filters change or the next page is wanted
   useEffect(() => {
     const fetchClinics = async () => {
       try {
@@ -47,23 +103,20 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
           return;
         }
         
-        // Add user location to filters if available
-        const searchFilters = userLocation ? 
-          { ...filters, lat: userLocation.lat, lng: userLocation.lng } : 
-          filters;
+        // Ranked on the server, from the search index (or Firestore until it's built)
+        const page = await fetchClinicSearch(filtersToIndexQuery(filters), cursor, RESULTS_PAGE_SIZE);
         
-        const result = await searchClinicsOptimized(searchFilters, PAGE_SIZE, lastDoc);
+        // A new search (no cursor) replaces the current results; later pages are appended
+        setClinics(prevClinics => cursor ? [...prevClinics, ...page.clinics] : page.clinics);
+        setHighlights(prevHighlights => cursor ? { ...prevHighlights, ...page.highlights } : page.highlights);
+        setCursor(page.nextCursor);
+        setHasMore(Boolean(page.nextCursor));
+        setPartial(Boolean(page.partial));
         
-        // If this is a new search (lastDoc is null), replace the current results
-        // Otherwise, append the new results
-        if (!lastDoc) {
-          setClinics(result.clinics);
-        } else {
-          setClinics(prevClinics => [...prevClinics, ...result.clinics]);
+        if (!cursor && page.clinics.length === 0) {
+          setRelaxations(page.relaxations);
+          logZeroResultSearch(filtersToIndexQuery(filters), searchLocation || null, 'search');
         }
-        
-        setHasMore(result.hasMore);
-        setLastDoc(result.lastDoc || null);
       } catch (err) {
         console.error('Error fetching clinics:', err);
         setError('Failed to load clinics. Please try again.');
@@ -73,10 +126,10 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
     };
     
     // Only fetch if we're loading and it's either the initial load or there are more results
-    if (loading && (hasMore || !lastDoc)) {
+    if (loading && (hasMore || !cursor)) {
       fetchClinics();
     }
-  }, [filters, loading, lastDoc, hasMore]);
+  }, [filters, loading, cursor, hasMore, searchLocation]);
 
   // Set up intersection observer for infinite scroll
   useEffect(() => {
@@ -105,6 +158,7 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
   const sortedClinics = React.useMemo(() => {
     if (!clinics.length) return [];
     
+    // Results arrive ranked from the server
     let sorted = [...clinics];
     
     if (sortBy === 'distance' && userLocation) {
@@ -134,33 +188,6 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
         const ratingB = b.reviewStats?.averageRating || b.rating || 0;
         return ratingB - ratingA; // Higher ratings first
       });
-    } else {
-      // Default sort - by relevance (advanced first, then standard, then free)
-      sorted.sort((a, b) => {
-        // Sort by tier/package first
-        const tierOrder: { [key: string]: number } = { 
-          'advanced': 0,
-          'high': 0, // Legacy value
-          'premium': 0, // Legacy value
-          'standard': 1,
-          'low': 1, // Legacy value
-          'basic': 1, // Legacy value
-          'free': 2
-        };
-        
-        const aTier = a.tier || a.package || 'free';
-        const bTier = b.tier || b.package || 'free';
-        
-        const tierDiff = (tierOrder[aTier.toLowerCase()] || 2) - (tierOrder[bTier.toLowerCase()] || 2);
-        
-        if (tierDiff !== 0) return tierDiff;
-        
-        // If tiers are the same, sort by traffic/popularity
-        const aClicks = a.trafficMeta?.totalClicks || 0;
-        const bClicks = b.trafficMeta?.totalClicks || 0;
-        
-        return bClicks - aClicks;
-      });
     }
     
     return sorted;
@@ -226,18 +253,18 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
     );
   }
 
-  // Render no results state
+  // Render no results state, with ways to find something instead
   if (!loading && clinics.length === 0 && Object.keys(filters).length > 0) {
+    const [locationCity, locationState] = (searchLocation || '').split(', ');
     return (
-      <div className="py-8 text-center">
-        <p className="mb-4">No clinics found matching your search criteria.</p>
-        <button 
-          onClick={() => router.push('/search')} 
-          className="bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded-md"
-        >
-          Reset Search
-        </button>
-      </div>
+      <ZeroResultSuggestions
+        relaxations={relaxations}
+        state={filters.state || locationState}
+        city={filters.city || locationCity}
+        onRelax={onRelax}
+        onSelectCity={onSelectCity}
+        onReset={() => router.push('/search')}
+      />
     );
   }
 
@@ -280,9 +307,13 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
       
       {/* Results list */}
       <div className="space-y-6">
-        {sortedClinics.map((clinic) => {
+        {sortedClinics.map((clinic, index) => {
           // Use a string type to avoid TypeScript errors with string comparisons
           const tier: string = clinic.tier || clinic.package || 'free';
+          const clinicHighlights = highlights[clinic.id || ''] || [];
+          const nameHighlight = clinicHighlights.find(highlight => highlight.field === 'name');
+          const treatmentHighlights = clinicHighlights.filter(highlight => highlight.field === 'treatments');
+          const handleResultClick = () => onResultClick?.(clinic.id || '', index + 1);
           
           // Calculate distance if user location is available
           let distanceText = '';
@@ -310,8 +341,9 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
                       <Link 
                         href={`/clinic/${clinic.slug || clinic.id}`}
                         className="text-xl font-bold hover:text-primary transition-colors"
+                        onClick={handleResultClick}
                       >
-                        {clinic.name}
+                        {nameHighlight ? <HighlightedText segments={nameHighlight.segments} /> : clinic.name}
                       </Link>
                       <div className="flex items-center flex-wrap gap-2">
                         <p className="text-gray-400">{clinic.city}, {clinic.state}</p>
@@ -329,7 +361,7 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
                     <div className="flex items-center space-x-2">
                       <TierBadge tier={convertTierToEnum(tier)} />
                       
-                      {clinic.validationStatus?.verified && (
+                      {(clinic.validationStatus?.verified || clinic.verified) && (
                         <span className="bg-green-900 text-green-300 text-xs px-2 py-1 rounded flex items-center">
                           <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
                             <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd"></path>
@@ -351,21 +383,36 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
                     </p>
                   )}
                   
+                  {treatmentHighlights.length > 0 && (
+                    <p className="text-sm text-gray-400">
+                      Offers:{' '}
+                      {treatmentHighlights.map((highlight, i) => (
+                        <React.Fragment key={highlight.value}>
+                          {i > 0 && ', '}
+                          <HighlightedText segments={highlight.segments} />
+                        </React.Fragment>
+                      ))}
+                    </p>
+                  )}
+                  
                   <div className="flex flex-wrap gap-2 mt-4">
-                    {(clinic.services || []).map((service) => (
-                      <span 
-                        key={service} 
-                        className="bg-gray-800 text-xs px-3 py-1 rounded-full hover:bg-gray-700 transition-colors cursor-pointer"
-                        onClick={() => {
-                          router.push({
-                            pathname: '/search',
-                            query: { ...router.query, service }
-                          });
-                        }}
-                      >
-                        {service}
-                      </span>
-                    ))}
+                    {(clinic.services || []).map((service) => {
+                      const serviceHighlight = clinicHighlights.find(highlight => highlight.field === 'services' && highlight.value === service);
+                      return (
+                        <span 
+                          key={service} 
+                          className="bg-gray-800 text-xs px-3 py-1 rounded-full hover:bg-gray-700 transition-colors cursor-pointer"
+                          onClick={() => {
+                            router.push({
+                              pathname: '/search',
+                              query: { ...router.query, service }
+                            });
+                          }}
+                        >
+                          {serviceHighlight ? <HighlightedText segments={serviceHighlight.segments} /> : service}
+                        </span>
+                      );
+                    })}
                   </div>
                 </div>
                 
@@ -373,6 +420,7 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
                   <Link 
                     href={`/clinic/${clinic.slug || clinic.id}`}
                     className="btn text-center"
+                    onClick={handleResultClick}
                   >
                     View Profile
                   </Link>
@@ -381,6 +429,7 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
                     <Link 
                       href={`/clinic/${clinic.slug || clinic.id}#book`}
                       className="btn bg-green-600 hover:bg-green-700 text-center"
+                      onClick={handleResultClick}
                     >
                       Book Appointment
                     </Link>
@@ -396,8 +445,24 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
                       Visit Website →
                     </a>
                   )}
+                  
+                  <CompareButton clinic={clinic} />
+                  
+                  {isAdmin && clinic.ranking && (
+                    <button
+                      type="button"
+                      onClick={() => setExplainedId(explainedId === clinic.id ? null : clinic.id || null)}
+                      className="text-xs text-center text-gray-500 hover:text-primary transition-colors"
+                    >
+                      {explainedId === clinic.id ? 'Hide ranking' : `Why #${index + 1}?`}
+                    </button>
+                  )}
                 </div>
               </div>
+              
+              {isAdmin && clinic.ranking && explainedId === clinic.id && (
+                <RankingExplanation ranking={clinic.ranking} position={index + 1} />
+              )}
             </div>
           );
         })}
@@ -418,7 +483,9 @@ const SearchResultsList: React.FC<SearchResultsListProps> = ({ initialFilters, u
         {/* End of results message */}
         {!hasMore && clinics.length > 0 && (
           <div className="text-center py-4 text-gray-500">
-            No more clinics to display
+            {partial
+              ? 'There are more clinics in this area than we could load - try a smaller radius to see them all'
+              : 'No more clinics to display'}
           </div>
         )}
       </div>
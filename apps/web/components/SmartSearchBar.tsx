@@ -100,6 +100,7 @@ const SmartSearchBar: React.FC<SmartSearchBarProps> = ({
       if (query) queryParams.set('q', query);
       if (service) queryParams.set('service', service);
       if (location) queryParams.set('location', location);
+      queryParams.set('src', 'smart-search-bar'); // Attributes the search in the search demand report
       
       if (coordinates) {
         queryParams.set('lat', coordinates.lat.toString());
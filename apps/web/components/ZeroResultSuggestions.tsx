@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { PopularCity, SearchIndexFilter, SearchRelaxation } from '../types';
+import { getPopularCities } from '../lib/api/searchDemandService';
+
+interface ZeroResultSuggestionsProps {
+  relaxations: SearchRelaxation[];
+  state?: string; // Searched state (code or name), so cities nearby come first
+  city?: string; // Searched city, left out of the city suggestions
+  onRelax: (relaxation: SearchRelaxation) => void;
+  onSelectCity: (city: PopularCity) => void;
+  onReset: () => void;
+}
+
+const RELAXATION_LABELS: Record<Exclude<SearchIndexFilter, 'radius'>, string> = {
+  text: 'Clear your search text',
+  services: 'Show all services',
+  categories: 'Show all service categories',
+  tiers: 'Show all listing types',
+  states: 'Search all states',
+  city: 'Search the whole state',
+  verifiedOnly: 'Include unverified clinics',
+  minRating: 'Show any rating',
+  telehealthOnly: 'Include in-person clinics',
+  openNow: 'Include clinics closed right now',
+  openWeekends: 'Include clinics closed on weekends',
+  openEvenings: 'Include clinics without evening hours'
+};
+
+// Popular cities are fetched in one ordered batch and filtered client-side
+const POPULAR_CITY_POOL = 50;
+const MAX_CITIES = 6;
+
+const describeRelaxation = (relaxation: SearchRelaxation): string =>
+  relaxation.filter === 'radius'
+    ? `Search within ${relaxation.radius} miles`
+    : RELAXATION_LABELS[relaxation.filter];
+
+const ZeroResultSuggestions: React.FC<ZeroResultSuggestionsProps> = ({
+  relaxations,
+  state,
+  city,
+  onRelax,
+  onSelectCity,
+  onReset
+}) => {
+  const [popularCities, setPopularCities] = useState<PopularCity[]>([]);
+
+  useEffect(() => {
+    getPopularCities(POPULAR_CITY_POOL).then(setPopularCities);
+  }, []);
+
+  const nearbyCities = React.useMemo(() => {
+    const inState = (candidate: PopularCity) => !!state &&
+      [candidate.stateCode, candidate.state].some(value => value?.toUpperCase() === state.toUpperCase());
+
+    // Same state first, each group still ordered by clinic count
+    return popularCities
+      .filter(candidate => !city || candidate.city.toLowerCase() !== city.toLowerCase())
+      .sort((a, b) => Number(inState(b)) - Number(inState(a)))
+      .slice(0, MAX_CITIES);
+  }, [popularCities, state, city]);
+
+  return (
+    <div className="py-8 text-center">
+      <p className="mb-4">No clinics found matching your search criteria.</p>
+
+      {relaxations.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm text-gray-400 mb-2">Try broadening your search:</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {relaxations.map(relaxation => (
+              <button
+                key={`${relaxation.filter}-${relaxation.radius || ''}`}
+                onClick={() => onRelax(relaxation)}
+                className="bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded-md text-sm"
+              >
+                {describeRelaxation(relaxation)}
+                <span className="ml-2 text-gray-400">
+                  {relaxation.total} {relaxation.total === 1 ? 'clinic' : 'clinics'}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {nearbyCities.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm text-gray-400 mb-2">Popular cities{state ? ' nearby' : ''}:</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {nearbyCities.map(candidate => (
+              <button
+                key={candidate.slug}
+                onClick={() => onSelectCity(candidate)}
+                className="bg-gray-800 text-xs px-3 py-1 rounded-full hover:bg-gray-700 transition-colors"
+              >
+                {candidate.city}, {candidate.stateCode}
+                <span className="ml-1 text-gray-400">({candidate.clinicCount})</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={onReset}
+        className="bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded-md"
+      >
+        Reset Search
+      </button>
+    </div>
+  );
+};
+
+export default ZeroResultSuggestions;
@@ -169,6 +169,15 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, title }) => {
                       </svg>
                       Business Discovery
                     </Link>
+                    <Link 
+                      href="/admin/search-demand" 
+                      className={`flex items-center px-3 py-2 rounded-md text-sm ${isActive('/admin/search-demand')}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                      </svg>
+                      Search Demand
+                    </Link>
                   </div>
                 </div>
 
@@ -203,6 +212,15 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, title }) => {
                       </svg>
                       Outreach Campaigns
                     </Link>
+                    <Link 
+                      href="/admin/settings/ranking" 
+                      className={`flex items-center px-3 py-2 rounded-md text-sm ${isActive('/admin/settings/ranking')}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h13M3 8h9m-9 4h6m4 0l4-4m0 0l4 4m-4-4v12" />
+                      </svg>
+                      Search Ranking
+                    </Link>
                   </div>
                 </div>
               </div>
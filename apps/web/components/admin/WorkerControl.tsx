@@ -1,11 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { doc, onSnapshot, updateDoc } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import JobsConsole from './worker/JobsConsole';
 
 interface WorkerConfig {
   isPaused: boolean;
   lastUpdated: Date;
-  schedules?: Record<string, number>;
 }
 
 export default function WorkerControl() {
@@ -22,8 +22,7 @@ export default function WorkerControl() {
           const data = snapshot.data();
           setWorkerConfig({
             isPaused: data.isPaused !== false,
-            lastUpdated: data.lastUpdated?.toDate() || new Date(),
-            schedules: data.schedules
+            lastUpdated: data.lastUpdated?.toDate() || new Date()
           });
         } else {
           // No config exists yet
@@ -128,23 +127,10 @@ export default function WorkerControl() {
         </div>
       )}
 
-      {workerConfig.schedules && (
-        <div className="mt-6 pt-6 border-t border-[#222222]">
-          <h4 className="text-sm font-medium text-white mb-3">Job Schedules</h4>
-          <div className="grid grid-cols-2 gap-3">
-            {Object.entries(workerConfig.schedules).map(([job, interval]) => (
-              <div key={job} className="text-sm">
-                <span className="font-medium text-gray-300 capitalize">
-                  {job.replace(/([A-Z])/g, ' $1').trim()}:
-                </span>
-                <span className="text-gray-500 ml-1">
-                  Every {interval / 1000 / 60} minutes
-                </span>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
+      <div className="mt-6 pt-6 border-t border-[#222222]">
+        <h4 className="text-sm font-medium text-white mb-3">Jobs</h4>
+        <JobsConsole isPaused={isPaused} />
+      </div>
 
       <div className="mt-4 text-xs text-gray-500">
         Last updated: {workerConfig.lastUpdated.toLocaleString()}
@@ -1,8 +1,7 @@
 import React, { useState } from 'react';
 import { Clinic } from '@/types';
 import { generateTierFeatures, getTierDisplayName } from '@/utils/tierUtils';
-import { doc, updateDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { updateClinicWithHistory } from '@/lib/api/clinicHistoryService';
 
 interface TierEditorProps {
   clinic: Clinic;
@@ -37,16 +36,15 @@ const TierEditor: React.FC<TierEditorProps> = ({ clinic, onUpdate }) => {
     setSuccess('');
     
     try {
-      const clinicRef = doc(db, 'clinics', clinic.id);
       const newTierFeatures = generateTierFeatures(selectedTier);
       
       // Update in Firestore
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinic.id, {
         tier: selectedTier,
         tierFeatures: newTierFeatures,
         verified: selectedTier !== 'free', // Standard and Advanced tiers are verified
         lastUpdated: new Date()
-      });
+      }, { action: 'tier' });
       
       // Update local state
       const updatedClinic = {
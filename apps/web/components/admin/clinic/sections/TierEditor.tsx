@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { doc, updateDoc, getFirestore } from 'firebase/firestore';
+import { updateClinicWithHistory } from '../../../../lib/api/clinicHistoryService';
 import { DetailedClinic } from '../../../../utils/admin/useClinicData';
 import { 
   generateTierFeatures, 
@@ -41,16 +41,12 @@ const TierEditor: React.FC<TierEditorProps> = ({ clinic, onUpdate }) => {
       // Generate tier features based on selected tier
       const tierFeatures = generateTierFeatures(selectedTier);
       
-      // Get Firestore reference
-      const db = getFirestore();
-      const clinicRef = doc(db, 'clinics', clinic.id || '');
-      
       // Update the document
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinic.id || '', {
         tier: selectedTier,
         tierFeatures,
         lastUpdated: new Date()
-      });
+      }, { action: 'tier' });
       
       // Show success message
       setSuccess(true);
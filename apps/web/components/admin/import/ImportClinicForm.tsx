@@ -1,8 +1,24 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import { CheckCircleIcon, ExclamationTriangleIcon, ChevronUpDownIcon } from '@heroicons/react/24/outline';
 
-import { ImportOptions } from '../../../utils/hooks/useClinicImport';
+import { ImportOptions, readImportSheets } from '../../../utils/hooks/useClinicImport';
+import {
+  HeaderMapping,
+  IMPORT_FIELDS,
+  ImportSheet,
+  SPLIT_TARGETS,
+  suggestHeaderMapping
+} from '../../../utils/importFileParsers';
+import {
+  MappingProfile,
+  ProfileSuggestion,
+  loadMappingProfiles,
+  profileToHeaderMapping,
+  saveMappingProfile,
+  suggestMappingProfile
+} from '../../../utils/importMappingProfiles';
+import { useAuth } from '../../../lib/contexts/authContext';
 
 interface ImportClinicFormProps {
   onImportComplete?: (file: File, options: ImportOptions) => Promise<void>;
@@ -10,6 +26,7 @@ interface ImportClinicFormProps {
 
 const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete }) => {
   const router = useRouter();
+  const { currentUser } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [isUploading, setIsUploading] = useState(false);
@@ -18,9 +35,26 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
     mergeWithExisting: true,
     checkForDuplicates: true,
     backfillMissingData: false,
-    importSource: 'admin-ui'
+    importSource: 'admin-ui',
+    dryRun: false
   });
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
+  const [sheets, setSheets] = useState<ImportSheet[]>([]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [headerMapping, setHeaderMapping] = useState<HeaderMapping>({});
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
+  const [profileSuggestion, setProfileSuggestion] = useState<ProfileSuggestion | null>(null);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  
+  // Load saved column mapping profiles
+  useEffect(() => {
+    loadMappingProfiles()
+      .then(setProfiles)
+      .catch(error => console.error('Error loading mapping profiles:', error));
+  }, []);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [importResult, setImportResult] = useState<{
     success: boolean;
@@ -40,14 +74,83 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
     }));
   };
 
-  // Handle file selection
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Handle file selection; tabular files are previewed for sheet selection and header mapping
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
     setFileName(file.name);
     setImportResult(null);
+    setSheets([]);
+    setSelectedSheets([]);
+    setHeaderMapping({});
+    setPreviewError(null);
+    setSelectedProfileId('');
+    setProfileSuggestion(null);
+    
+    if (!/\.(csv|xlsx)$/i.test(file.name)) return;
+    
+    try {
+      const fileSheets = await readImportSheets(file);
+      const firstWithData = fileSheets.find(sheet => sheet.rows.length > 0) || fileSheets[0];
+      setSheets(fileSheets);
+      setSelectedSheets(firstWithData ? [firstWithData.name] : []);
+      
+      // Prefer a saved profile whose headers match this file; fall back to alias matching
+      const headers = Array.from(new Set(fileSheets.flatMap(sheet => sheet.headers)));
+      const suggestion = suggestMappingProfile(headers, profiles);
+      setProfileSuggestion(suggestion);
+      if (suggestion) {
+        setSelectedProfileId(suggestion.profile.id);
+        setHeaderMapping(profileToHeaderMapping(suggestion.profile, headers));
+      } else {
+        setHeaderMapping(suggestHeaderMapping(headers));
+      }
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setPreviewError(error instanceof Error ? error.message : 'Could not read file');
+    }
   };
+  
+  const handleProfileChange = (profileId: string) => {
+    const headers = Array.from(new Set(sheets.flatMap(sheet => sheet.headers)));
+    const profile = profiles.find(candidate => candidate.id === profileId);
+    
+    setSelectedProfileId(profileId);
+    setHeaderMapping(profile ? profileToHeaderMapping(profile, headers) : suggestHeaderMapping(headers));
+  };
+  
+  const handleSaveProfile = async () => {
+    if (!newProfileName.trim()) return;
+    
+    try {
+      setSavingProfile(true);
+      const headers = Array.from(new Set(sheets.flatMap(sheet => sheet.headers)));
+      const profile = await saveMappingProfile(newProfileName.trim(), headerMapping, headers, currentUser?.email || 'unknown');
+      setProfiles(prev => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedProfileId(profile.id);
+      setNewProfileName('');
+    } catch (error) {
+      console.error('Error saving mapping profile:', error);
+      setPreviewError('Failed to save mapping profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+  
+  const selectedProfile = profiles.find(profile => profile.id === selectedProfileId);
+  
+  const toggleSheet = (name: string) => {
+    setSelectedSheets(prev => prev.includes(name) ? prev.filter(sheet => sheet !== name) : [...prev, name]);
+  };
+  
+  // Headers shown in the mapping step: those of the selected sheets
+  const mappedHeaders = Array.from(new Set(
+    sheets.filter(sheet => selectedSheets.includes(sheet.name)).flatMap(sheet => sheet.headers)
+  ));
+  const selectedRowCount = sheets
+    .filter(sheet => selectedSheets.includes(sheet.name))
+    .reduce((total, sheet) => total + sheet.rows.length, 0);
 
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
@@ -73,7 +176,16 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
       
       // Call the onImportComplete callback with file and options
       if (onImportComplete) {
-        await onImportComplete(file, importOptions);
+        await onImportComplete(file, sheets.length > 0
+          ? {
+              ...importOptions,
+              sheets: selectedSheets,
+              headerMapping,
+              mappingProfileId: selectedProfile?.id,
+              fieldDefaults: selectedProfile?.defaults
+            }
+          : importOptions
+        );
       }
       
       // Clear the progress interval
@@ -101,7 +213,7 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
       <div className="px-4 py-5 sm:px-6 bg-gray-50 border-b border-gray-200">
         <h3 className="text-lg font-medium leading-6 text-gray-900">Import Clinics</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Upload a CSV or JSON file to import clinic data
+          Upload a CSV, Excel (.xlsx) or JSON file (including Google Places exports) to import clinic data
         </p>
       </div>
       
@@ -140,7 +252,7 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
                     name="file-upload" 
                     type="file" 
                     className="sr-only"
-                    accept=".csv,.json"
+                    accept=".csv,.xlsx,.json"
                     ref={fileInputRef}
                     onChange={handleFileChange}
                     disabled={isUploading}
@@ -149,7 +261,7 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
                 <p className="pl-1">or drag and drop</p>
               </div>
               <p className="text-xs text-gray-500">
-                CSV or JSON up to 10MB
+                CSV, XLSX or JSON up to 10MB
               </p>
               
               {fileName && (
@@ -161,6 +273,106 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
           </div>
         </div>
         
+        {previewError && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded p-3">
+            <p className="text-sm text-red-600">{previewError}</p>
+          </div>
+        )}
+        
+        {/* Sheet selection (multi-sheet workbooks) */}
+        {sheets.length > 1 && (
+          <div className="mb-6">
+            <h4 className="text-base font-medium text-gray-900 mb-2">Sheets</h4>
+            <div className="space-y-2">
+              {sheets.map(sheet => (
+                <label key={sheet.name} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedSheets.includes(sheet.name)}
+                    onChange={() => toggleSheet(sheet.name)}
+                    className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                  />
+                  {sheet.name}
+                  <span className="ml-2 text-gray-500">({sheet.rows.length} rows)</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Header mapping */}
+        {mappedHeaders.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-base font-medium text-gray-900 mb-1">Column Mapping</h4>
+            <p className="text-sm text-gray-500 mb-3">
+              {selectedRowCount} rows selected. Choose which clinic field each column fills; unmapped columns are ignored.
+            </p>
+            
+            {/* Saved profiles */}
+            <div className="flex items-center mb-3">
+              <label htmlFor="mappingProfile" className="text-sm font-medium text-gray-700 mr-2">Profile</label>
+              <select
+                id="mappingProfile"
+                value={selectedProfileId}
+                onChange={e => handleProfileChange(e.target.value)}
+                className="flex-grow rounded-md border border-gray-300 py-1 px-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+              >
+                <option value="">Auto-detect from headers</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+            {profileSuggestion && profileSuggestion.profile.id === selectedProfileId && (
+              <p className="text-sm text-indigo-600 mb-3">
+                Suggested profile “{profileSuggestion.profile.name}” matches {Math.round(profileSuggestion.score * 100)}% of its columns.
+              </p>
+            )}
+            
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {mappedHeaders.map(header => (
+                <div key={header} className="flex items-center justify-between">
+                  <span className="text-sm text-gray-700 truncate mr-2">{header}</span>
+                  <select
+                    value={headerMapping[header] || ''}
+                    onChange={e => setHeaderMapping(prev => ({ ...prev, [header]: e.target.value as HeaderMapping[string] }))}
+                    className="w-40 rounded-md border border-gray-300 py-1 px-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+                  >
+                    <option value="">Ignore</option>
+                    {IMPORT_FIELDS.map(field => (
+                      <option key={field} value={field}>{field}</option>
+                    ))}
+                    {Object.entries(SPLIT_TARGETS).map(([target, label]) => (
+                      <option key={target} value={target}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {!Object.values(headerMapping).includes('name') && (
+              <p className="mt-2 text-sm text-yellow-700">Map a column to “name” — rows without a name are skipped.</p>
+            )}
+            
+            <div className="flex items-center mt-3">
+              <input
+                type="text"
+                value={newProfileName}
+                onChange={e => setNewProfileName(e.target.value)}
+                placeholder="Profile name, e.g. vendorX"
+                className="flex-grow rounded-md border border-gray-300 py-1 px-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={handleSaveProfile}
+                disabled={!newProfileName.trim() || savingProfile}
+                className="ml-2 py-1 px-3 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {savingProfile ? 'Saving...' : 'Save as Profile'}
+              </button>
+            </div>
+          </div>
+        )}
+        
         {/* Basic import options */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -220,6 +432,28 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
               </div>
             </div>
             
+            {/* Dry run option */}
+            <div className="flex items-start">
+              <div className="flex items-center h-5">
+                <input
+                  id="dryRun"
+                  name="dryRun"
+                  type="checkbox"
+                  checked={importOptions.dryRun}
+                  onChange={handleOptionChange}
+                  className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                />
+              </div>
+              <div className="ml-3 text-sm">
+                <label htmlFor="dryRun" className="font-medium text-gray-700">
+                  Preview changes before importing (dry run)
+                </label>
+                <p className="text-gray-500">
+                  Build a per-row plan of inserts, updates, duplicates and branches for approval before anything is written
+                </p>
+              </div>
+            </div>
+            
             {/* Advanced options */}
             {showAdvancedOptions && (
               <>
@@ -338,7 +572,7 @@ const ImportClinicForm: React.FC<ImportClinicFormProps> = ({ onImportComplete })
           </button>
           <button
             type="submit"
-            disabled={!fileName || isUploading}
+            disabled={!fileName || isUploading || (sheets.length > 0 && selectedSheets.length === 0)}
             className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-300 disabled:cursor-not-allowed"
           >
             {isUploading ? 'Uploading...' : 'Start Import'}
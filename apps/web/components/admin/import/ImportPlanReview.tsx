@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { collection, doc, getDocs, orderBy, query, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../../../lib/firebase';
+import { useAuth } from '../../../lib/contexts/authContext';
+
+export type ImportPlanAction = 'insert' | 'update' | 'skip' | 'branch';
+
+export interface ImportPlanRow {
+  index: number;
+  name: string;
+  action: ImportPlanAction;
+  slug?: string;
+  existingId?: string;
+  confidence?: number;
+  reason?: string;
+  diff?: Array<{ field: string; before: any; after: any }>;
+}
+
+export interface ImportPlanSummary {
+  total: number;
+  insert: number;
+  update: number;
+  skip: number;
+  branch: number;
+}
+
+interface ImportPlanReviewProps {
+  sessionId: string;
+  status: string;
+  summary?: ImportPlanSummary;
+  jobId?: string;
+}
+
+const ACTION_STYLES: Record<ImportPlanAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-800',
+  branch: 'bg-purple-100 text-purple-800'
+};
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+export default function ImportPlanReview({ sessionId, status, summary, jobId }: ImportPlanReviewProps) {
+  const { currentUser } = useAuth();
+  const [rows, setRows] = useState<ImportPlanRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ImportPlanAction | 'all'>('all');
+  const [expandedRow, setExpandedRow] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!summary) return;
+
+    const loadPlan = async () => {
+      try {
+        setLoading(true);
+        const snapshot = await getDocs(
+          query(collection(db, 'import_sessions', sessionId, 'plan_rows'), orderBy('index'))
+        );
+        setRows(snapshot.docs.map(rowDoc => rowDoc.data() as ImportPlanRow));
+      } catch (err) {
+        console.error('Error loading import plan:', err);
+        setError('Failed to load import plan');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPlan();
+  }, [sessionId, summary]);
+
+  // Record the decision; approving re-queues the linked worker job to run the plan
+  const handleDecision = async (decision: 'approved' | 'rejected') => {
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      await updateDoc(doc(db, 'import_sessions', sessionId), {
+        status: decision,
+        reviewedAt: serverTimestamp(),
+        reviewedBy: currentUser?.email || 'unknown'
+      });
+
+      if (jobId) {
+        await updateDoc(doc(db, 'import_jobs', jobId), decision === 'approved'
+          ? { status: 'pending', dryRun: false, planApproved: true }
+          : { status: 'rejected' }
+        );
+      }
+    } catch (err) {
+      console.error('Error updating import plan decision:', err);
+      setError('Failed to save decision');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!summary) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <p className="text-sm text-gray-500">Building import plan...</p>
+      </div>
+    );
+  }
+
+  const visibleRows = filter === 'all' ? rows : rows.filter(row => row.action === filter);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Import Plan</h3>
+        {status === 'awaiting_approval' && (
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => handleDecision('rejected')}
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Reject
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDecision('approved')}
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {submitting ? 'Saving...' : 'Approve & Run Import'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {status === 'approved' && !jobId && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
+          <p className="text-sm text-blue-800">
+            Plan approved. Run <span className="font-mono">npm run worker import &lt;file&gt; --apply {sessionId}</span> to execute it.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded p-3 mb-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Summary / filters */}
+      <div className="grid grid-cols-5 gap-2 mb-4">
+        {(['all', 'insert', 'update', 'branch', 'skip'] as const).map(action => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => setFilter(action)}
+            className={`rounded-lg border p-3 text-center ${
+              filter === action ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-gray-200'
+            }`}
+          >
+            <p className="text-xl font-bold text-gray-900">
+              {action === 'all' ? summary.total : summary[action]}
+            </p>
+            <p className="text-xs text-gray-600 capitalize">{action}</p>
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse h-24 bg-gray-100 rounded" />
+      ) : (
+        <div className="max-h-96 overflow-y-auto border border-gray-200 rounded">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Clinic</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleRows.map(row => (
+                <React.Fragment key={row.index}>
+                  <tr
+                    className={row.diff?.length ? 'cursor-pointer hover:bg-gray-50' : ''}
+                    onClick={() => row.diff?.length && setExpandedRow(expandedRow === row.index ? null : row.index)}
+                  >
+                    <td className="px-3 py-2 text-sm text-gray-500">{row.index + 1}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{row.name}</td>
+                    <td className="px-3 py-2 text-sm">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[row.action]}`}>
+                        {row.action}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600">
+                      {row.slug && <span className="font-mono">{row.slug}</span>}
+                      {row.existingId && <span className="font-mono">→ {row.existingId}</span>}
+                      {typeof row.confidence === 'number' && (
+                        <span className="ml-2 text-gray-500">{Math.round(row.confidence * 100)}% match</span>
+                      )}
+                      {row.reason && <span className="ml-2 text-gray-500">{row.reason}</span>}
+                      {row.diff?.length ? (
+                        <span className="ml-2 text-indigo-600">{row.diff.length} field change(s)</span>
+                      ) : null}
+                    </td>
+                  </tr>
+                  {expandedRow === row.index && row.diff && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={4} className="px-6 py-3">
+                        <div className="space-y-1">
+                          {row.diff.map(change => (
+                            <div key={change.field} className="grid grid-cols-3 gap-4 text-sm">
+                              <span className="font-medium text-gray-700">{change.field}</span>
+                              <span className="text-red-600 line-through">{formatValue(change.before)}</span>
+                              <span className="text-green-700">{formatValue(change.after)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { doc, onSnapshot } from 'firebase/firestore';
 import { db } from '../../../lib/firebase';
 import Link from 'next/link';
+import ImportPlanReview, { ImportPlanSummary } from './ImportPlanReview';
+import ImportRollbackPanel, { ImportRollbackState } from './ImportRollbackPanel';
 
 interface ImportSession {
   id: string;
   startTime: Date;
   endTime?: Date;
-  status: 'preparing' | 'processing' | 'completed' | 'failed';
+  status: 'preparing' | 'planning' | 'awaiting_approval' | 'approved' | 'rejected' | 'processing' | 'resuming' | 'completed' | 'failed' | 'rolled_back';
+  mode?: 'import' | 'dry-run';
+  planSummary?: ImportPlanSummary;
+  jobId?: string;
   totalClinics: number;
   processed: number;
   successful: number;
@@ -21,6 +26,17 @@ interface ImportSession {
     timestamp: Date;
   }>;
   successfulSlugs: string[];
+  checkpoint?: {
+    lastProcessedIndex: number;
+    inputHash: string;
+  };
+  rollback?: ImportRollbackState;
+  streaming?: boolean;
+  totalEstimated?: boolean;
+  throughput?: {
+    rowsPerSecond: number;
+    etaSeconds: number | null;
+  };
 }
 
 interface ImportProgressTrackerProps {
@@ -82,9 +98,14 @@ export default function ImportProgressTracker({ importId }: ImportProgressTracke
     ? session.endTime.getTime() - session.startTime.getTime()
     : Date.now() - session.startTime.getTime();
 
-  const estimatedTimeRemaining = session.processed > 0 && session.status === 'processing'
-    ? ((duration / session.processed) * (session.totalClinics - session.processed)) / 1000
-    : 0;
+  // Streaming imports report their own rate and ETA; fall back to the average for row-by-row imports
+  const estimatedTimeRemaining = session.status !== 'processing'
+    ? 0
+    : session.throughput?.etaSeconds != null
+      ? session.throughput.etaSeconds
+      : session.processed > 0
+        ? ((duration / session.processed) * (session.totalClinics - session.processed)) / 1000
+        : 0;
 
   return (
     <div className="space-y-6">
@@ -96,16 +117,21 @@ export default function ImportProgressTracker({ importId }: ImportProgressTracke
             session.status === 'processing' ? 'bg-blue-100 text-blue-800' :
             session.status === 'completed' ? 'bg-green-100 text-green-800' :
             session.status === 'failed' ? 'bg-red-100 text-red-800' :
+            session.status === 'awaiting_approval' ? 'bg-yellow-100 text-yellow-800' :
+            session.status === 'rolled_back' ? 'bg-orange-100 text-orange-800' :
             'bg-gray-100 text-gray-800'
           }`}>
-            {session.status.charAt(0).toUpperCase() + session.status.slice(1)}
+            {session.status.charAt(0).toUpperCase() + session.status.slice(1).replace(/_/g, ' ')}
           </span>
         </div>
 
         {/* Progress Bar */}
         <div className="mb-6">
           <div className="flex justify-between text-sm text-gray-600 mb-2">
-            <span>{session.processed} of {session.totalClinics} clinics</span>
+            <span>
+              {session.processed} of {session.totalEstimated ? '~' : ''}{session.totalClinics} clinics
+              {session.status === 'processing' && session.throughput && ` (${session.throughput.rowsPerSecond.toFixed(1)} rows/sec)`}
+            </span>
             <span>{progress.toFixed(1)}%</span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
@@ -131,6 +157,18 @@ export default function ImportProgressTracker({ importId }: ImportProgressTracke
           </div>
         )}
 
+        {/* Checkpoint for interrupted sessions */}
+        {(session.status === 'failed' || session.status === 'resuming') && session.checkpoint && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+            <p className="text-sm text-yellow-800">
+              <span className="font-medium">Checkpoint:</span> row {session.checkpoint.lastProcessedIndex + 1} of {session.totalClinics}.
+              {session.status === 'failed' && (
+                <> Resume with <span className="font-mono">npm run worker import --resume {session.id}</span></>
+              )}
+            </p>
+          </div>
+        )}
+
         {/* Statistics */}
         <div className="grid grid-cols-4 gap-4">
           <div className="text-center">
@@ -154,6 +192,21 @@ export default function ImportProgressTracker({ importId }: ImportProgressTracke
         </div>
       </div>
 
+      {/* Dry-run plan awaiting review */}
+      {session.mode === 'dry-run' && (
+        <ImportPlanReview
+          sessionId={session.id}
+          status={session.status}
+          summary={session.planSummary}
+          jobId={session.jobId}
+        />
+      )}
+
+      {/* Undo a finished import (applied dry-run plans included) */}
+      {['completed', 'failed', 'rolled_back'].includes(session.status) && (
+        <ImportRollbackPanel sessionId={session.id} rollback={session.rollback} />
+      )}
+
       {/* Recent Errors */}
       {session.errors.length > 0 && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { db } from '../../../lib/firebase';
+import { useAuth } from '../../../lib/contexts/authContext';
+
+export interface ImportRollbackConflict {
+  clinicId: string;
+  action: 'inserted' | 'updated';
+  reason: 'modified' | 'deleted';
+  changedAt?: string;
+  changedBy?: string;
+}
+
+export interface ImportRollbackState {
+  status: 'requested' | 'rolling_back' | 'completed' | 'partial' | 'failed';
+  requestedBy?: string;
+  force?: boolean;
+  restored?: number;
+  deleted?: number;
+  skipped?: number;
+  conflicts?: ImportRollbackConflict[];
+  conflictCount?: number;
+  errors?: string[];
+}
+
+interface ImportRollbackPanelProps {
+  sessionId: string;
+  rollback?: ImportRollbackState;
+}
+
+export default function ImportRollbackPanel({ sessionId, rollback }: ImportRollbackPanelProps) {
+  const { currentUser } = useAuth();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The worker's import-jobs loop picks up the request and writes the report back onto the session
+  const requestRollback = async (force: boolean) => {
+    const message = force
+      ? 'Roll back the conflicting clinics too? Edits made to them since the import will be lost.'
+      : 'Roll back this import? Updated clinics are restored and inserted clinics are deleted.';
+    if (!window.confirm(message)) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      await updateDoc(doc(db, 'import_sessions', sessionId), {
+        rollback: {
+          status: 'requested',
+          force,
+          requestedBy: currentUser?.email || 'unknown',
+          requestedAt: serverTimestamp()
+        }
+      });
+    } catch (err) {
+      console.error('Error requesting import rollback:', err);
+      setError('Failed to request rollback');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inProgress = rollback?.status === 'requested' || rollback?.status === 'rolling_back';
+  const conflicts = rollback?.conflicts || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Rollback</h3>
+        {(!rollback || rollback.status === 'failed') && (
+          <button
+            type="button"
+            onClick={() => requestRollback(false)}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+          >
+            {submitting ? 'Requesting...' : 'Roll Back Import'}
+          </button>
+        )}
+        {rollback?.status === 'partial' && conflicts.length > 0 && (
+          <button
+            type="button"
+            onClick={() => requestRollback(true)}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            Force Roll Back Conflicts
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded p-3 mb-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!rollback && (
+        <p className="text-sm text-gray-600">
+          Restores every clinic this import updated and deletes the clinics it created. Clinics edited since the
+          import are reported as conflicts and left untouched.
+        </p>
+      )}
+
+      {inProgress && (
+        <p className="text-sm text-blue-800">
+          Rollback {rollback?.status === 'requested' ? 'queued' : 'in progress'}
+          {rollback?.requestedBy && ` (requested by ${rollback.requestedBy})`}...
+        </p>
+      )}
+
+      {rollback && !inProgress && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div className="text-center">
+              <p className="text-2xl font-bold text-blue-600">{rollback.restored || 0}</p>
+              <p className="text-sm text-gray-600">Restored</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-red-600">{rollback.deleted || 0}</p>
+              <p className="text-sm text-gray-600">Deleted</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-yellow-600">{rollback.conflictCount || 0}</p>
+              <p className="text-sm text-gray-600">Conflicts</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-gray-600">{rollback.skipped || 0}</p>
+              <p className="text-sm text-gray-600">Skipped</p>
+            </div>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div>
+              <p className="text-sm text-yellow-800 mb-2">
+                {rollback.force
+                  ? 'These clinics had changed since the import and were rolled back anyway:'
+                  : 'These clinics changed since the import and were not rolled back:'}
+              </p>
+              <div className="max-h-60 overflow-y-auto border border-yellow-200 rounded divide-y divide-yellow-100">
+                {conflicts.map(conflict => (
+                  <div key={conflict.clinicId} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <Link href={`/admin/clinic/${conflict.clinicId}`} className="font-mono text-blue-600 hover:underline">
+                      {conflict.clinicId}
+                    </Link>
+                    <span className="text-gray-600">
+                      {conflict.action}, {conflict.reason === 'deleted' ? 'deleted since' : 'edited since'}
+                      {conflict.changedAt && ` (${new Date(conflict.changedAt).toLocaleString()}${conflict.changedBy ? ` by ${conflict.changedBy}` : ''})`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {(rollback.conflictCount || 0) > conflicts.length && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Showing {conflicts.length} of {rollback.conflictCount}. Run{' '}
+                  <span className="font-mono">npm run worker -- import:rollback {sessionId} --dry-run</span> for the full list.
+                </p>
+              )}
+            </div>
+          )}
+
+          {rollback.errors && rollback.errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 space-y-1">
+              {rollback.errors.map((rollbackError, index) => (
+                <p key={index} className="text-sm text-red-600">{rollbackError}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
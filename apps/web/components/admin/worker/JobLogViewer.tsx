@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { subscribeToJobRunLogs, subscribeToJobRuns } from '../../../lib/api/workerJobsService';
+import type { WorkerJobLogLine, WorkerJobRun } from '../../../types';
+
+interface JobLogViewerProps {
+  jobName: string;
+  runId: string | null; // Run to open with; the newest run when null
+  onClose: () => void;
+}
+
+const RECENT_RUNS = 10;
+
+const LEVEL_CLASSES: Record<WorkerJobLogLine['level'], string> = {
+  info: 'text-gray-300',
+  warn: 'text-yellow-400',
+  error: 'text-red-400'
+};
+
+function formatRunLabel(run: WorkerJobRun): string {
+  const started = run.startedAt?.toDate().toLocaleString() || 'pending';
+  return `${started} - ${run.status}${run.trigger === 'manual' ? ' (manual)' : ''}`;
+}
+
+export default function JobLogViewer({ jobName, runId, onClose }: JobLogViewerProps) {
+  const [runs, setRuns] = useState<WorkerJobRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(runId);
+  const [lines, setLines] = useState<WorkerJobLogLine[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [follow, setFollow] = useState(true);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setSelectedRunId(runId);
+  }, [runId]);
+
+  useEffect(() => {
+    return subscribeToJobRuns(jobName, RECENT_RUNS, setRuns, (err) => {
+      console.error('Error watching job runs:', err);
+      setError('Failed to load runs');
+    });
+  }, [jobName]);
+
+  const activeRunId = selectedRunId || runs[0]?.id || null;
+  const activeRun = runs.find(run => run.id === activeRunId);
+
+  useEffect(() => {
+    setLines([]);
+    if (!activeRunId) return;
+
+    return subscribeToJobRunLogs(activeRunId, setLines, (err) => {
+      console.error('Error tailing job logs:', err);
+      setError('Failed to load logs');
+    });
+  }, [activeRunId]);
+
+  // Keep the newest line in view while following
+  useEffect(() => {
+    if (follow && logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [lines, follow]);
+
+  return (
+    <div className="mt-4 p-4 bg-[#0a0a0a] border border-[#222222] rounded-md">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-sm font-medium text-white">
+          Logs: {jobName}
+          {activeRun?.status === 'running' && (
+            <span className="ml-2 text-xs text-green-400 animate-pulse">● live</span>
+          )}
+        </h4>
+        <div className="flex items-center gap-3">
+          <select
+            value={activeRunId || ''}
+            onChange={(e) => setSelectedRunId(e.target.value || null)}
+            className="px-2 py-1 bg-[#111111] border border-[#333333] rounded text-xs text-gray-300"
+          >
+            {runs.length === 0 && <option value="">No runs yet</option>}
+            {runs.map(run => (
+              <option key={run.id} value={run.id}>{formatRunLabel(run)}</option>
+            ))}
+          </select>
+          <label className="flex items-center text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={follow}
+              onChange={(e) => setFollow(e.target.checked)}
+              className="mr-1"
+            />
+            Follow
+          </label>
+          <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-gray-300">
+            Close
+          </button>
+        </div>
+      </div>
+
+      {activeRun && (
+        <div className="mb-2 text-xs text-gray-500 space-x-3">
+          <span>Worker: {activeRun.workerId}</span>
+          {activeRun.requestedBy && <span>Requested by: {activeRun.requestedBy}</span>}
+          {activeRun.params && Object.keys(activeRun.params).length > 0 && (
+            <span>Params: <code>{JSON.stringify(activeRun.params)}</code></span>
+          )}
+          {activeRun.cancelRequested && (
+            <span className="text-yellow-500">
+              Cancel requested by {activeRun.cancelledBy || 'an admin'}
+              {activeRun.status !== 'running' && activeRun.status !== 'cancelled' && ' (finished first)'}
+            </span>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mb-2 text-sm text-red-400">{error}</p>}
+
+      <div ref={logRef} className="h-72 overflow-y-auto bg-black rounded p-3 font-mono text-xs leading-5">
+        {lines.length === 0 ? (
+          <p className="text-gray-600">{activeRunId ? 'No output yet' : 'Select a run'}</p>
+        ) : (
+          lines.map(line => (
+            <div key={line.seq} className={`whitespace-pre-wrap break-words ${LEVEL_CLASSES[line.level] || 'text-gray-300'}`}>
+              <span className="text-gray-600 mr-2">{line.at?.toDate().toLocaleTimeString()}</span>
+              {line.message}
+            </div>
+          ))
+        )}
+      </div>
+
+      {activeRun?.error && (
+        <p className="mt-2 text-xs text-red-400 break-words">Error: {activeRun.error}</p>
+      )}
+    </div>
+  );
+}
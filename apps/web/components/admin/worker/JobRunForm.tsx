@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../../lib/contexts/authContext';
+import { requestJobRun } from '../../../lib/api/workerJobsService';
+import { validateJobParams } from '../../../lib/jobParams';
+import type { WorkerJobParamSchema } from '../../../types';
+
+interface JobRunFormProps {
+  jobName: string;
+  paramSchema?: WorkerJobParamSchema;
+  onClose: () => void;
+}
+
+// Params are checked against the job's schema, then layered over its settings and defaults
+const PARAMS_PLACEHOLDER = '{\n  "dryRun": true\n}';
+
+export default function JobRunForm({ jobName, paramSchema = {}, onClose }: JobRunFormProps) {
+  const { currentUser } = useAuth();
+  const [paramsText, setParamsText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let params: Record<string, any> = {};
+    if (paramsText.trim()) {
+      try {
+        params = JSON.parse(paramsText);
+      } catch {
+        setError('Parameters must be valid JSON');
+        return;
+      }
+      if (!params || typeof params !== 'object' || Array.isArray(params)) {
+        setError('Parameters must be a JSON object');
+        return;
+      }
+    }
+
+    const paramErrors = validateJobParams(paramSchema, params);
+    if (paramErrors.length > 0) {
+      setError(paramErrors.join('; '));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await requestJobRun(jobName, params, currentUser?.email || 'unknown');
+      onClose();
+    } catch (err) {
+      setError('Failed to request the run');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-4 bg-[#0a0a0a] border border-[#222222] rounded-md">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-white">Run {jobName} now</h4>
+        <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-gray-300">
+          Close
+        </button>
+      </div>
+      <label htmlFor="job-params" className="block text-xs text-gray-400 mb-1">
+        Parameters (JSON, optional)
+      </label>
+      <textarea
+        id="job-params"
+        value={paramsText}
+        onChange={(e) => setParamsText(e.target.value)}
+        placeholder={PARAMS_PLACEHOLDER}
+        rows={4}
+        className="w-full px-3 py-2 bg-[#111111] border border-[#333333] rounded-md text-sm text-gray-200 font-mono focus:outline-none focus:border-gray-500"
+      />
+      {Object.keys(paramSchema).length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-gray-500">
+          {Object.entries(paramSchema).map(([name, spec]) => (
+            <li key={name}>
+              <code className="text-gray-400">{name}</code> ({spec.type}) {spec.description}
+              {spec.default !== undefined && <> · default {JSON.stringify(spec.default)}</>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+      <div className="mt-3 flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          The next free worker runs it within a minute, after any run in progress.
+        </p>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitting ? 'Requesting...' : 'Run Job'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  getJobOverrideAudit,
+  hasJobSettings,
+  resetJobOverride,
+  saveJobOverride,
+  subscribeToJobOverride
+} from '../../../lib/api/workerJobsService';
+import { cronError, formatJobParamValue, parseJobParamInput, validateJobParams } from '../../../lib/jobParams';
+import type { WorkerJob, WorkerJobOverride, WorkerJobOverrideAuditEntry } from '../../../types';
+
+interface JobSettingsFormProps {
+  job: WorkerJob;
+  onClose: () => void;
+}
+
+// Changes listed under the form
+const AUDIT_ENTRIES = 10;
+
+function describeValue(settings: WorkerJobOverrideAuditEntry['before'], field: string): string {
+  if (!settings) return 'default';
+  if (field === 'enabled') return settings.enabled === false ? 'disabled' : 'enabled';
+  if (field === 'schedule') return settings.schedule || 'default';
+
+  const value = settings.params?.[field.replace(/^params\./, '')];
+  return value === undefined ? 'default' : JSON.stringify(value);
+}
+
+export default function JobSettingsForm({ job, onClose }: JobSettingsFormProps) {
+  const [override, setOverride] = useState<WorkerJobOverride | null | undefined>(undefined);
+  const [enabled, setEnabled] = useState(true);
+  const [schedule, setSchedule] = useState('');
+  const [paramInputs, setParamInputs] = useState<Record<string, string>>({});
+  const [audit, setAudit] = useState<WorkerJobOverrideAuditEntry[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const paramSchema = job.paramSchema || {};
+  const defaultSchedule = job.defaultSchedule || job.schedule;
+
+  const loadAudit = useCallback(async () => {
+    try {
+      setAudit(await getJobOverrideAudit(job.name, AUDIT_ENTRIES));
+    } catch (err) {
+      setError('Failed to load the settings history');
+    }
+  }, [job.name]);
+
+  useEffect(() => {
+    return subscribeToJobOverride(job.name, setOverride, (err) => {
+      console.error(`Error watching ${job.name} settings:`, err);
+      setError('Failed to load settings');
+    });
+  }, [job.name]);
+
+  useEffect(() => {
+    loadAudit();
+  }, [loadAudit]);
+
+  // Fill the form from the saved override (and again if someone else changes it)
+  useEffect(() => {
+    if (override === undefined) return;
+    setEnabled(override?.enabled !== false);
+    setSchedule(override?.schedule || '');
+    setParamInputs(Object.fromEntries(
+      Object.entries(override?.params || {}).map(([name, value]) => [name, formatJobParamValue(value)])
+    ));
+  }, [override]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedSchedule = schedule.trim();
+    const scheduleError = trimmedSchedule ? cronError(trimmedSchedule) : null;
+    if (scheduleError) {
+      setError(`Schedule: ${scheduleError}`);
+      return;
+    }
+
+    const params: Record<string, unknown> = {};
+    Object.entries(paramSchema).forEach(([name, spec]) => {
+      const value = parseJobParamInput(spec, paramInputs[name] || '');
+      if (value !== undefined) params[name] = value;
+    });
+
+    const paramErrors = validateJobParams(paramSchema, params);
+    if (paramErrors.length > 0) {
+      setError(paramErrors.join('; '));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const fields = await saveJobOverride(job.name, { enabled, schedule: trimmedSchedule || null, params });
+      setMessage(fields.length > 0 ? `Saved ${fields.join(', ')} - the worker picks it up straight away` : 'Nothing changed');
+      await loadAudit();
+    } catch (err) {
+      setError('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm(`Put ${job.name} back on its default settings?`)) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await resetJobOverride(job.name);
+      setMessage('Reset to defaults');
+      await loadAudit();
+    } catch (err) {
+      setError('Failed to reset settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-4 bg-[#0a0a0a] border border-[#222222] rounded-md">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-white">{job.name} settings</h4>
+        <button type="button" onClick={onClose} className="text-xs text-gray-500 hover:text-gray-300">
+          Close
+        </button>
+      </div>
+
+      {job.overrideErrors && job.overrideErrors.length > 0 && (
+        <p className="mb-3 text-xs text-red-400">
+          The worker is ignoring the saved settings: {job.overrideErrors.join('; ')}
+        </p>
+      )}
+
+      <label className="flex items-center gap-2 mb-3 text-sm text-gray-300">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        Run on schedule
+        <span className="text-xs text-gray-500">(requested runs go ahead either way)</span>
+      </label>
+
+      <label htmlFor="job-schedule" className="block text-xs text-gray-400 mb-1">
+        Schedule (cron, UTC - empty for the default)
+      </label>
+      <input
+        id="job-schedule"
+        type="text"
+        value={schedule}
+        onChange={(e) => setSchedule(e.target.value)}
+        placeholder={defaultSchedule}
+        className="w-full mb-3 px-3 py-2 bg-[#111111] border border-[#333333] rounded-md text-sm text-gray-200 font-mono focus:outline-none focus:border-gray-500"
+      />
+
+      {Object.keys(paramSchema).length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+          {Object.entries(paramSchema).map(([name, spec]) => (
+            <div key={name}>
+              <label htmlFor={`job-param-${name}`} className="block text-xs text-gray-400 mb-1">
+                <code>{name}</code> - {spec.description}
+              </label>
+              {spec.type === 'boolean' ? (
+                <select
+                  id={`job-param-${name}`}
+                  value={paramInputs[name] || ''}
+                  onChange={(e) => setParamInputs(inputs => ({ ...inputs, [name]: e.target.value }))}
+                  className="w-full px-3 py-2 bg-[#111111] border border-[#333333] rounded-md text-sm text-gray-200 focus:outline-none focus:border-gray-500"
+                >
+                  <option value="">Default ({formatJobParamValue(spec.default) || 'unset'})</option>
+                  <option value="true">true</option>
+                  <option value="false">false</option>
+                </select>
+              ) : (
+                <input
+                  id={`job-param-${name}`}
+                  type="text"
+                  value={paramInputs[name] || ''}
+                  onChange={(e) => setParamInputs(inputs => ({ ...inputs, [name]: e.target.value }))}
+                  placeholder={spec.default !== undefined ? formatJobParamValue(spec.default) : spec.type === 'string[]' ? 'comma-separated' : 'unset'}
+                  className="w-full px-3 py-2 bg-[#111111] border border-[#333333] rounded-md text-sm text-gray-200 font-mono focus:outline-none focus:border-gray-500"
+                />
+              )}
+              {(spec.min !== undefined || spec.max !== undefined || spec.options) && (
+                <p className="mt-1 text-xs text-gray-600">
+                  {spec.options ? `One of ${spec.options.join(', ')}` : `Range ${spec.min ?? '…'}-${spec.max ?? '…'}`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mb-2 text-sm text-red-400">{error}</p>}
+      {message && !error && <p className="mb-2 text-sm text-green-400">{message}</p>}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          {hasJobSettings(override) ? `Last changed by ${override?.updatedBy || 'unknown'}` : 'Running on its defaults'}
+        </p>
+        <div className="space-x-2">
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={saving || !hasJobSettings(override)}
+            className="px-3 py-1.5 text-sm text-gray-300 border border-[#333333] rounded-md hover:bg-[#1a1a1a] disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            disabled={saving || override === undefined}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      </div>
+
+      {audit.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-[#222222]">
+          <h5 className="text-xs uppercase text-gray-500 mb-2">History</h5>
+          <ul className="space-y-1 text-xs text-gray-400">
+            {audit.map(entry => (
+              <li key={entry.id}>
+                <span className="text-gray-500">{entry.changedAt ? entry.changedAt.toDate().toLocaleString() : '-'}</span>{' '}
+                {entry.changedBy}:{' '}
+                {entry.after === null && <span className="text-yellow-400">reset to defaults </span>}
+                {entry.fields.map(field => (
+                  <span key={field} className="mr-2">
+                    <code>{field}</code> {describeValue(entry.before, field)} → {describeValue(entry.after, field)}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </form>
+  );
+}
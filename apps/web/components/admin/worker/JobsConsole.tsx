@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../../lib/contexts/authContext';
+import {
+  cancelJobRun,
+  clearJobRunRequest,
+  subscribeToJobRuns,
+  subscribeToWorkerJobs,
+  summarizeJobRuns
+} from '../../../lib/api/workerJobsService';
+import type { WorkerJob, WorkerJobRun, WorkerJobRunStatus } from '../../../types';
+import JobRunForm from './JobRunForm';
+import JobLogViewer from './JobLogViewer';
+import JobSettingsForm from './JobSettingsForm';
+
+interface JobsConsoleProps {
+  isPaused: boolean;
+}
+
+// Runs behind each job's success rate and duration trend
+const STATS_RUNS = 20;
+
+const STATUS_CLASSES: Record<WorkerJobRunStatus, string> = {
+  running: 'text-blue-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  abandoned: 'text-red-400',
+  interrupted: 'text-yellow-400',
+  cancelled: 'text-yellow-400'
+};
+
+function formatDuration(ms?: number | null): string {
+  if (ms === undefined || ms === null) return '-';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function formatTime(value?: { toDate: () => Date } | null): string {
+  return value ? value.toDate().toLocaleString() : '-';
+}
+
+// Bars for the durations of recent successful runs, oldest on the left
+function DurationTrend({ durations }: { durations: number[] }) {
+  if (durations.length < 2) return <span className="text-gray-600">-</span>;
+
+  const max = Math.max(...durations, 1);
+  const barWidth = 4;
+  const height = 20;
+
+  return (
+    <svg width={durations.length * (barWidth + 1)} height={height} aria-label="Duration trend">
+      {durations.map((ms, i) => {
+        const barHeight = Math.max(2, Math.round((ms / max) * height));
+        return (
+          <rect key={i} x={i * (barWidth + 1)} y={height - barHeight} width={barWidth} height={barHeight} className="fill-blue-500">
+            <title>{formatDuration(ms)}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface JobRowProps {
+  job: WorkerJob;
+  onRun: () => void;
+  onCancel: () => void;
+  onShowLogs: () => void;
+  onShowSettings: () => void;
+  onClearRequest: () => void;
+}
+
+function JobRow({ job, onRun, onCancel, onShowLogs, onShowSettings, onClearRequest }: JobRowProps) {
+  const [runs, setRuns] = useState<WorkerJobRun[]>([]);
+
+  useEffect(() => {
+    return subscribeToJobRuns(job.name, STATS_RUNS, setRuns, (err) => console.error(`Error watching ${job.name} runs:`, err));
+  }, [job.name]);
+
+  const stats = summarizeJobRuns(runs);
+  const running = Boolean(job.lease);
+  const cancelling = running && runs.find(run => run.id === job.lease?.runId)?.cancelRequested;
+
+  return (
+    <tr className="border-t border-[#222222] align-top">
+      <td className="py-3 pr-4">
+        <div className="font-medium text-gray-200">{job.name}</div>
+        <code className="text-xs text-gray-500">{job.schedule}</code>
+        {job.defaultSchedule && job.schedule !== job.defaultSchedule && (
+          <div className="text-xs text-gray-600" title={`Default ${job.defaultSchedule}`}>overridden</div>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        {running ? (
+          <span className="text-blue-400">{cancelling ? 'Cancelling…' : 'Running'}</span>
+        ) : job.status === 'dead-lettered' ? (
+          <span className="text-red-400" title={job.lastError || undefined}>Dead-lettered</span>
+        ) : job.enabled === false ? (
+          <span className="text-gray-500">Disabled</span>
+        ) : (
+          <span className="text-gray-400">Idle</span>
+        )}
+        {job.requestedRun && (
+          <div className="text-xs text-yellow-400">
+            Run requested{' '}
+            <button type="button" onClick={onClearRequest} className="underline hover:text-yellow-300">
+              withdraw
+            </button>
+          </div>
+        )}
+        {job.consecutiveFailures > 0 && (
+          <div className="text-xs text-red-400">{job.consecutiveFailures} failure(s) in a row</div>
+        )}
+        {job.overrideErrors && job.overrideErrors.length > 0 && (
+          <div className="text-xs text-red-400" title={job.overrideErrors.join('\n')}>Settings ignored</div>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        {job.lastStatus ? (
+          <>
+            <span className={STATUS_CLASSES[job.lastStatus]}>{job.lastStatus}</span>
+            <div className="text-xs text-gray-500">{formatTime(job.lastRunAt)} · {formatDuration(job.lastDurationMs)}</div>
+          </>
+        ) : (
+          <span className="text-gray-600">Never run</span>
+        )}
+      </td>
+      <td className="py-3 pr-4 text-xs text-gray-400">
+        {job.status === 'dead-lettered' || job.enabled === false ? '-' : formatTime(job.nextRunAt)}
+      </td>
+      <td className="py-3 pr-4">
+        {stats.successRate === null ? (
+          <span className="text-gray-600">-</span>
+        ) : (
+          <span className={stats.successRate >= 0.9 ? 'text-green-400' : stats.successRate >= 0.5 ? 'text-yellow-400' : 'text-red-400'}>
+            {Math.round(stats.successRate * 100)}%
+          </span>
+        )}
+        <div className="text-xs text-gray-500">of {stats.runs} runs</div>
+      </td>
+      <td className="py-3 pr-4">
+        <DurationTrend durations={stats.durations} />
+        <div className="text-xs text-gray-500">avg {formatDuration(stats.averageDurationMs)}</div>
+      </td>
+      <td className="py-3 text-right whitespace-nowrap space-x-2">
+        <button type="button" onClick={onShowLogs} className="px-2 py-1 text-xs text-gray-300 border border-[#333333] rounded hover:bg-[#1a1a1a]">
+          Logs
+        </button>
+        <button type="button" onClick={onShowSettings} className="px-2 py-1 text-xs text-gray-300 border border-[#333333] rounded hover:bg-[#1a1a1a]">
+          Settings
+        </button>
+        {running ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={Boolean(cancelling)}
+            className="px-2 py-1 text-xs text-white bg-red-600 rounded hover:bg-red-700 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={onRun} className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700">
+            Run…
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function JobsConsole({ isPaused }: JobsConsoleProps) {
+  const { currentUser } = useAuth();
+  const [jobs, setJobs] = useState<WorkerJob[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [runFormJob, setRunFormJob] = useState<string | null>(null);
+  const [settingsJob, setSettingsJob] = useState<string | null>(null);
+  const [logView, setLogView] = useState<{ jobName: string; runId: string | null } | null>(null);
+
+  useEffect(() => {
+    return subscribeToWorkerJobs(setJobs, (err) => {
+      console.error('Error watching worker jobs:', err);
+      setError('Failed to load jobs');
+    });
+  }, []);
+
+  const handleCancel = async (job: WorkerJob) => {
+    if (!job.lease) return;
+    if (!window.confirm(`Cancel the running ${job.name} job?`)) return;
+
+    try {
+      setError(null);
+      await cancelJobRun(job.lease.runId, currentUser?.email || 'unknown');
+      setLogView({ jobName: job.name, runId: job.lease.runId });
+    } catch (err) {
+      setError(`Failed to cancel ${job.name}`);
+    }
+  };
+
+  const handleClearRequest = async (job: WorkerJob) => {
+    try {
+      setError(null);
+      await clearJobRunRequest(job.name);
+    } catch (err) {
+      setError(`Failed to withdraw the ${job.name} run request`);
+    }
+  };
+
+  if (jobs === null) {
+    return <p className="text-sm text-gray-500">{error || 'Loading jobs...'}</p>;
+  }
+
+  if (jobs.length === 0) {
+    return <p className="text-sm text-gray-500">No jobs yet - they are registered when the worker starts.</p>;
+  }
+
+  const settingsJobState = jobs.find(job => job.name === settingsJob);
+
+  return (
+    <div>
+      {isPaused && (
+        <p className="mb-3 text-xs text-yellow-500">
+          The worker is paused: requested runs start when it&apos;s started again.
+        </p>
+      )}
+
+      {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="text-xs uppercase text-gray-500">
+              <th className="pb-2 pr-4 font-medium">Job (UTC)</th>
+              <th className="pb-2 pr-4 font-medium">State</th>
+              <th className="pb-2 pr-4 font-medium">Last Run</th>
+              <th className="pb-2 pr-4 font-medium">Next Run</th>
+              <th className="pb-2 pr-4 font-medium">Success</th>
+              <th className="pb-2 pr-4 font-medium">Duration</th>
+              <th className="pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map(job => (
+              <JobRow
+                key={job.name}
+                job={job}
+                onRun={() => setRunFormJob(job.name)}
+                onCancel={() => handleCancel(job)}
+                onShowLogs={() => setLogView({ jobName: job.name, runId: job.lease?.runId || job.lastRunId || null })}
+                onShowSettings={() => setSettingsJob(job.name)}
+                onClearRequest={() => handleClearRequest(job)}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {runFormJob && (
+        <JobRunForm
+          jobName={runFormJob}
+          paramSchema={jobs.find(job => job.name === runFormJob)?.paramSchema}
+          onClose={() => setRunFormJob(null)}
+        />
+      )}
+
+      {settingsJobState && <JobSettingsForm job={settingsJobState} onClose={() => setSettingsJob(null)} />}
+
+      {logView && (
+        <JobLogViewer jobName={logView.jobName} runId={logView.runId} onClose={() => setLogView(null)} />
+      )}
+    </div>
+  );
+}
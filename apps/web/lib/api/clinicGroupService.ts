@@ -0,0 +1,185 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  getDoc,
+  doc,
+  writeBatch,
+  deleteField,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { commitClinicBatchWithHistory } from './clinicHistoryService';
+import { generateTierFeatures } from '../../utils/tierUtils';
+import { higherTier, selectCoveredLocations } from '../../utils/clinicGroupUtils';
+
+import type { Clinic, ClinicGroup, ClinicGroupBilling } from '../../types';
+
+// Firestore allows 500 writes per batch
+const MAX_BATCH_WRITES = 450;
+
+// The group plan is kept out of the public group document, in an admin-only subcollection
+const billingRef = (groupId: string) => doc(db, 'clinic_groups', groupId, 'private', 'billing');
+
+/**
+ * Convert a Firestore document to a ClinicGroup object
+ */
+function convertDocToGroup(doc: DocumentData): ClinicGroup {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    ...data,
+    slug: data.slug || doc.id,
+    services: data.services || []
+  } as ClinicGroup;
+}
+
+/**
+ * Get a clinic group by its ID (the brand slug)
+ *
+ * @param groupId - The group's document ID
+ * @returns - The group or null if not found
+ */
+export async function getClinicGroup(groupId: string): Promise<ClinicGroup | null> {
+  try {
+    const docSnap = await getDoc(doc(db, 'clinic_groups', groupId));
+
+    if (!docSnap.exists()) {
+      return null;
+    }
+
+    return convertDocToGroup(docSnap);
+  } catch (error) {
+    console.error('Error fetching clinic group:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get every location that belongs to a group
+ *
+ * @param groupId - The group's document ID
+ * @param activeOnly - Only return locations visible on the directory
+ * @returns - The group's clinics, ordered by state and city
+ */
+export async function getGroupLocations(groupId: string, activeOnly: boolean = false): Promise<Clinic[]> {
+  try {
+    const constraints = [where('groupId', '==', groupId)];
+    if (activeOnly) {
+      constraints.push(where('status', 'in', ['Active', 'active']));
+    }
+
+    const querySnapshot = await getDocs(query(collection(db, 'clinics'), ...constraints));
+
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Clinic))
+      .sort((a, b) => `${a.state} ${a.city}`.localeCompare(`${b.state} ${b.city}`));
+  } catch (error) {
+    console.error('Error fetching group locations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a group's plan (admin only)
+ *
+ * @param groupId - The group's document ID
+ * @returns - The plan, or null if the group has never had one
+ */
+export async function getGroupBilling(groupId: string): Promise<ClinicGroupBilling | null> {
+  try {
+    const docSnap = await getDoc(billingRef(groupId));
+    return docSnap.exists() ? docSnap.data() as ClinicGroupBilling : null;
+  } catch (error) {
+    console.error('Error fetching group billing:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set the group-level plan and apply its tier to the locations it covers
+ *
+ * Covered locations get the plan's tier unless their own is higher (kept in tierBeforeGroup);
+ * locations that drop out of coverage go back to the tier they had before. Locations are
+ * written first, in batches, and the plan last, so a failed update can simply be retried.
+ *
+ * @param groupId - The group's document ID
+ * @param plan - Tier, number of locations paid for and status
+ * @returns - The stored billing, including which locations are covered
+ */
+export async function updateGroupBilling(
+  groupId: string,
+  plan: Pick<ClinicGroupBilling, 'tier' | 'locationLimit' | 'status'>
+): Promise<ClinicGroupBilling> {
+  try {
+    const locations = await getGroupLocations(groupId);
+    const coveredClinicIds = plan.status === 'active' && plan.tier !== 'free'
+      ? selectCoveredLocations(locations, plan.locationLimit)
+      : [];
+
+    const billing: ClinicGroupBilling = {
+      ...plan,
+      coveredClinicIds,
+      updatedAt: Timestamp.now()
+    };
+
+    const locationUpdates: Array<{ clinicId: string; updates: DocumentData }> = [];
+
+    locations.forEach(location => {
+      const clinicId = location.id as string;
+
+      if (coveredClinicIds.includes(location.id as string)) {
+        // Only remember the clinic's own tier the first time the group plan takes over
+        const ownTier = location.billedByGroup ? location.tierBeforeGroup || 'free' : location.tier || 'free';
+        const tier = higherTier(plan.tier, ownTier);
+        locationUpdates.push({
+          clinicId,
+          updates: {
+            tier,
+            tierFeatures: generateTierFeatures(tier),
+            billedByGroup: groupId,
+            tierBeforeGroup: ownTier,
+            updatedAt: Timestamp.now()
+          }
+        });
+      } else if (location.billedByGroup === groupId) {
+        const previousTier = location.tierBeforeGroup || 'free';
+        locationUpdates.push({
+          clinicId,
+          updates: {
+            tier: previousTier,
+            tierFeatures: generateTierFeatures(previousTier),
+            billedByGroup: deleteField(),
+            tierBeforeGroup: deleteField(),
+            updatedAt: Timestamp.now()
+          }
+        });
+      }
+    });
+
+    for (let i = 0; i < locationUpdates.length; i += MAX_BATCH_WRITES) {
+      const chunk = locationUpdates.slice(i, i + MAX_BATCH_WRITES);
+      const batch = writeBatch(db);
+      chunk.forEach(({ clinicId, updates }) => {
+        batch.update(doc(db, 'clinics', clinicId), updates);
+      });
+      await commitClinicBatchWithHistory(batch, chunk.map(({ clinicId }) => clinicId), { action: 'group-billing' });
+    }
+
+    // Also drops a plan stored on the group document itself, from before it moved out
+    const planBatch = writeBatch(db);
+    planBatch.set(billingRef(groupId), billing);
+    planBatch.update(doc(db, 'clinic_groups', groupId), {
+      billing: deleteField(),
+      updatedAt: Timestamp.now()
+    });
+    await planBatch.commit();
+
+    return billing;
+  } catch (error) {
+    console.error('Error updating group billing:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,229 @@
+import {
+  collection,
+  query,
+  orderBy,
+  limit,
+  getDocs,
+  getDoc,
+  doc,
+  updateDoc,
+  addDoc,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+  WriteBatch
+} from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { diffClinicSnapshots, stableStringify } from '../../../worker/utils/clinicDiff';
+
+import type { ClinicChangeEntry } from '../../types';
+
+type ChangeMeta = Pick<ClinicChangeEntry, 'action' | 'restoredFrom'>;
+
+// Fields whose provenance is tracked (see apps/worker/utils/dataQuality.ts)
+export const PROVENANCE_FIELDS = ['name', 'address', 'city', 'state', 'zip', 'phone', 'website', 'email', 'services'];
+
+/**
+ * Convert a Firestore document to a ClinicChangeEntry object
+ */
+function convertDocToEntry(doc: DocumentData): ClinicChangeEntry {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    ...data,
+    fields: data.fields || [],
+    changes: data.changes || {}
+  } as ClinicChangeEntry;
+}
+
+/**
+ * Record a change made from the admin UI
+ */
+async function recordUiChange(
+  clinicId: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  meta: ChangeMeta
+): Promise<void> {
+  const changes = diffClinicSnapshots(before, after);
+  const fields = Object.keys(changes);
+  if (fields.length === 0) return;
+
+  const user = auth.currentUser;
+  const entry: Record<string, any> = {
+    clinicId,
+    source: 'ui',
+    actor: user?.email || user?.uid || 'unknown',
+    changedAt: serverTimestamp(), // Server time, so entries order correctly against worker writes
+    fields,
+    changes
+  };
+  if (meta.action) entry.action = meta.action;
+  if (meta.restoredFrom) entry.restoredFrom = meta.restoredFrom;
+
+  try {
+    await addDoc(collection(db, 'clinics', clinicId, 'history'), entry);
+  } catch (error) {
+    // History is best effort; the write it describes has already succeeded
+    console.error('Error recording clinic history:', error);
+  }
+}
+
+// Hours fields; the quality-scores job rebuilds the parsed schedule from them when it rescores a clinic
+const SCHEDULE_SOURCE_FIELDS = ['hours', 'hoursExceptions'];
+
+/**
+ * Mark tracked fields set from the admin UI as admin-sourced, and the quality score as stale
+ * (the worker's quality-scores job rescores stale clinics). Hours edits are marked stale too, so
+ * the schedule is rebuilt. Writes that set provenance themselves, like a restore, are left alone.
+ */
+function adminProvenanceUpdates(updates: Record<string, any>): Record<string, any> {
+  const keys = Object.keys(updates);
+  if (keys.some(key => key === 'provenance' || key.startsWith('provenance.'))) return {};
+
+  const fields = PROVENANCE_FIELDS.filter(field => keys.includes(field));
+  const editsHours = keys.some(key => SCHEDULE_SOURCE_FIELDS.includes(key.split('.')[0]));
+  if (fields.length === 0 && !editsHours) return {};
+
+  const provenance = { source: 'admin', confidence: 1, updatedAt: Timestamp.now() };
+  const stamped: Record<string, any> = {};
+  fields.forEach(field => {
+    stamped[`provenance.${field}`] = provenance;
+  });
+  if (!keys.includes('quality')) stamped['quality.stale'] = true;
+  return stamped;
+}
+
+/**
+ * Update a clinic and add an entry to its change history.
+ * Tracked fields are given admin provenance.
+ *
+ * @param clinicId - The clinic's document ID
+ * @param updates - Fields to update (dotted paths and sentinels are allowed)
+ * @param meta - What kind of edit this was, e.g. { action: 'tags' }
+ */
+export async function updateClinicWithHistory(
+  clinicId: string,
+  updates: Record<string, any>,
+  meta: ChangeMeta = {}
+): Promise<void> {
+  try {
+    const clinicRef = doc(db, 'clinics', clinicId);
+    const before = await getDoc(clinicRef);
+
+    await updateDoc(clinicRef, { ...updates, ...adminProvenanceUpdates(updates) });
+
+    // Read back so sentinels (arrayUnion, serverTimestamp, deleteField) are logged as stored
+    const after = await getDoc(clinicRef);
+    await recordUiChange(clinicId, before.data() || null, after.data() || null, meta);
+  } catch (error) {
+    console.error('Error updating clinic:', error);
+    throw error;
+  }
+}
+
+/**
+ * Commit a batch that writes (or deletes) clinics and add a history entry for each of them
+ *
+ * @param batch - The batch to commit
+ * @param clinicIds - The clinics the batch writes
+ * @param meta - What kind of edit this was, e.g. { action: 'merge' }
+ */
+export async function commitClinicBatchWithHistory(
+  batch: WriteBatch,
+  clinicIds: string[],
+  meta: ChangeMeta = {}
+): Promise<void> {
+  const clinicRefs = clinicIds.map(clinicId => doc(db, 'clinics', clinicId));
+  const before = await Promise.all(clinicRefs.map(clinicRef => getDoc(clinicRef)));
+
+  await batch.commit();
+
+  const after = await Promise.all(clinicRefs.map(clinicRef => getDoc(clinicRef)));
+  for (let i = 0; i < clinicIds.length; i++) {
+    await recordUiChange(clinicIds[i], before[i].data() || null, after[i].data() || null, meta);
+  }
+}
+
+/**
+ * Get a clinic's change history, newest first
+ *
+ * @param clinicId - The clinic's document ID
+ * @param maxEntries - Maximum number of entries to return
+ * @returns - History entries
+ */
+export async function getClinicHistory(clinicId: string, maxEntries: number = 100): Promise<ClinicChangeEntry[]> {
+  try {
+    const historyQuery = query(
+      collection(db, 'clinics', clinicId, 'history'),
+      orderBy('changedAt', 'desc'),
+      limit(maxEntries)
+    );
+    const snapshot = await getDocs(historyQuery);
+    return snapshot.docs.map(convertDocToEntry);
+  } catch (error) {
+    console.error('Error fetching clinic history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a clinic to how it was right after a history entry was written.
+ * Every later change is undone by putting back its `before` values, newest first,
+ * so only fields touched since then are written.
+ *
+ * @param clinicId - The clinic's document ID
+ * @param entryId - The history entry to go back to
+ * @returns - Fields that were changed by the restore
+ */
+export async function restoreClinicVersion(clinicId: string, entryId: string): Promise<string[]> {
+  try {
+    const historySnap = await getDocs(
+      query(collection(db, 'clinics', clinicId, 'history'), orderBy('changedAt', 'desc'))
+    );
+    const entries = historySnap.docs.map(convertDocToEntry);
+    const targetIndex = entries.findIndex(entry => entry.id === entryId);
+
+    if (targetIndex === -1) {
+      throw new Error(`History entry not found: ${entryId}`);
+    }
+
+    // Walk from the newest change back to the target; the oldest `before` seen for a field wins
+    const restored: Record<string, { value?: any }> = {};
+    entries.slice(0, targetIndex).forEach(entry => {
+      Object.entries(entry.changes).forEach(([field, change]) => {
+        restored[field] = 'before' in change ? { value: change.before } : {};
+      });
+    });
+
+    const clinicSnap = await getDoc(doc(db, 'clinics', clinicId));
+    if (!clinicSnap.exists()) {
+      throw new Error(`Clinic not found: ${clinicId}`);
+    }
+    const current = clinicSnap.data();
+
+    const updates: Record<string, any> = {};
+    Object.entries(restored).forEach(([field, target]) => {
+      if (!('value' in target)) {
+        if (current[field] !== undefined) updates[field] = deleteField();
+      } else if (stableStringify(current[field]) !== stableStringify(target.value)) {
+        updates[field] = target.value;
+      }
+    });
+
+    const fields = Object.keys(updates);
+    if (fields.length === 0) {
+      return [];
+    }
+
+    // The worker's quality-scores job rescores stale clinics
+    updates.updatedAt = serverTimestamp();
+    updates['quality.stale'] = true;
+    await updateClinicWithHistory(clinicId, updates, { action: 'restore', restoredFrom: entryId });
+    return fields;
+  } catch (error) {
+    console.error('Error restoring clinic version:', error);
+    throw error;
+  }
+}
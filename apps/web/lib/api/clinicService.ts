@@ -8,12 +8,15 @@ import {
   getDocs, 
   getDoc, 
   doc, 
+  documentId,
   runTransaction,
   Timestamp,
   GeoPoint,
   DocumentData
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { rankClinics } from '../ranking';
+import { getRankingWeights } from './rankingSettingsService';
 
 // Import unified types
 import type { Clinic, ClinicFilter } from '../../types';
@@ -86,6 +89,54 @@ export async function getClinicById(id: string): Promise<Clinic | null> {
   }
 }
 
+/**
+ * Get several clinics by ID
+ * 
+ * @param ids - Clinic document IDs (Firestore allows up to 30 per query)
+ * @returns - The clinics that exist, in the order of `ids`
+ */
+export async function getClinicsByIds(ids: string[]): Promise<Clinic[]> {
+  if (ids.length === 0) return [];
+  
+  try {
+    const querySnapshot = await getDocs(query(collection(db, 'clinics'), where(documentId(), 'in', ids)));
+    const clinics = new Map(querySnapshot.docs.map(docSnap => [docSnap.id, convertDocToClinic(docSnap)]));
+    
+    return ids.filter(id => clinics.has(id)).map(id => clinics.get(id)!);
+  } catch (error) {
+    console.error('Error fetching clinics by ID:', error);
+    throw error;
+  }
+}
+
+/**
+ * Resolve the clinic that replaced a retired (merged) clinic slug
+ * 
+ * @param slug - The slug that may have been retired by a merge
+ * @returns - The surviving clinic, or null if the slug was never redirected
+ */
+export async function getClinicRedirect(slug: string): Promise<Clinic | null> {
+  try {
+    let targetSlug = slug;
+    
+    // Follow chained merges (A -> B -> C), bounded to avoid loops
+    for (let hop = 0; hop < 5; hop++) {
+      const redirectSnap = await getDoc(doc(db, 'clinic_redirects', targetSlug));
+      if (!redirectSnap.exists()) break;
+      targetSlug = redirectSnap.data().toSlug;
+    }
+    
+    if (targetSlug === slug) {
+      return null;
+    }
+    
+    return await getClinicBySlug(targetSlug);
+  } catch (error) {
+    console.error('Error resolving clinic redirect:', error);
+    throw error;
+  }
+}
+
 /**
  * Query clinics with filtering and pagination
  * 
@@ -186,47 +237,11 @@ export async function queryClinics(
       lastDoc = doc;
     });
     
-    // Sort results by tier priority (advanced > standard > free)
-    clinics.sort((a, b) => {
-      const tierPriority = {
-        'advanced': 0,
-        'standard': 1,
-        'free': 2
-      };
-      
-      // Get normalized tier value (handle legacy values)
-      const getTierPriority = (clinic: Clinic) => {
-        // Use string type to avoid TypeScript errors with string comparisons
-        const tier = (clinic.tier || 'free') as string;
-        const tierLower = tier.toLowerCase();
-        
-        // Handle legacy values
-        if (tierLower === 'high' || tierLower === 'premium') return tierPriority['advanced'];
-        if (tierLower === 'low' || tierLower === 'basic') return tierPriority['standard'];
-        
-        // Handle standard values
-        if (tierLower === 'advanced') return tierPriority['advanced'];
-        if (tierLower === 'standard') return tierPriority['standard'];
-        
-        // Default to free
-        return tierPriority['free'];
-      };
-      
-      const aPriority = getTierPriority(a);
-      const bPriority = getTierPriority(b);
-      
-      // Sort by tier first, then by clicks
-      if (aPriority !== bPriority) {
-        return aPriority - bPriority;
-      }
-      
-      // If same tier, sort by clicks
-      const aClicks = a.trafficMeta?.totalClicks || 0;
-      const bClicks = b.trafficMeta?.totalClicks || 0;
-      return bClicks - aClicks;
-    });
+    // Order the page with the admin-configured ranking (lib/ranking.ts)
+    const origin = filters.lat !== undefined && filters.lng !== undefined ? { lat: filters.lat, lng: filters.lng } : null;
+    const rankedClinics = rankClinics(clinics, await getRankingWeights(), origin);
     
-    return { clinics, lastDoc, hasMore };
+    return { clinics: rankedClinics, lastDoc, hasMore };
   } catch (error) {
     console.error('Error querying clinics:', error);
     throw error;
@@ -0,0 +1,55 @@
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../firebase';
+import { DEFAULT_RANKING_WEIGHTS, normalizeRankingWeights } from '../ranking';
+
+import type { RankingWeights } from '../../types';
+
+// Every search needs the weights; re-read them at most once a minute
+const WEIGHTS_CACHE_MS = 60 * 1000;
+
+let cachedWeights: { weights: RankingWeights; loadedAt: number } | null = null;
+
+/**
+ * Get the search ranking weights set in admin settings
+ *
+ * @param fresh - Skip the cache (the settings page)
+ * @returns - The weights, or the defaults when none are saved or they can't be read
+ */
+export async function getRankingWeights(fresh: boolean = false): Promise<RankingWeights> {
+  if (!fresh && cachedWeights && Date.now() - cachedWeights.loadedAt < WEIGHTS_CACHE_MS) {
+    return cachedWeights.weights;
+  }
+
+  try {
+    const settingsDoc = await getDoc(doc(db, 'settings', 'searchRanking'));
+    const weights = normalizeRankingWeights(settingsDoc.exists() ? settingsDoc.data().weights : null);
+    cachedWeights = { weights, loadedAt: Date.now() };
+    return weights;
+  } catch (error) {
+    // Search still works with the default ordering
+    console.error('Error fetching ranking weights:', error);
+    return cachedWeights?.weights || DEFAULT_RANKING_WEIGHTS;
+  }
+}
+
+/**
+ * Save the search ranking weights
+ *
+ * @param weights - New weights; out-of-range values are clamped
+ * @param updatedBy - Email of the admin making the change
+ */
+export async function saveRankingWeights(weights: RankingWeights, updatedBy?: string | null): Promise<void> {
+  const normalized = normalizeRankingWeights(weights);
+
+  try {
+    await setDoc(doc(db, 'settings', 'searchRanking'), {
+      weights: normalized,
+      updatedBy: updatedBy || null,
+      updatedAt: serverTimestamp()
+    });
+    cachedWeights = { weights: normalized, loadedAt: Date.now() };
+  } catch (error) {
+    console.error('Error saving ranking weights:', error);
+    throw error;
+  }
+}
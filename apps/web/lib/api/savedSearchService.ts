@@ -0,0 +1,133 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { parseSearchQuery } from '../treatmentSearch';
+
+import type { SavedSearch } from '../../types';
+
+// What the search page knows about a search; the service fills in the owner and parsed terms
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'query' | 'location' | 'radius' | 'filters'>;
+
+// Firestore rejects undefined values
+function compact<T extends Record<string, any>>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) =>
+      value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as Partial<T>;
+}
+
+/**
+ * Save a search for a signed-in user with email alerts turned on
+ *
+ * @param userId - The user's ID
+ * @param email - Where the worker sends alerts
+ * @param search - The search as the page ran it
+ * @returns - The saved search
+ */
+export async function saveSearch(userId: string, email: string, search: SavedSearchInput): Promise<SavedSearch> {
+  const savedSearch: Omit<SavedSearch, 'id'> = {
+    userId,
+    email,
+    name: search.name.trim(),
+    query: search.query.trim(),
+    terms: parseSearchQuery(search.query).terms.map(term => ({ text: term.text, variants: term.variants })),
+    location: search.location ? compact(search.location) : null,
+    radius: search.location?.lat !== undefined ? search.radius : null,
+    filters: compact(search.filters),
+    alertsEnabled: true
+  };
+
+  try {
+    const docRef = await addDoc(collection(db, 'saved_searches'), {
+      ...savedSearch,
+      createdAt: serverTimestamp()
+    });
+    return { id: docRef.id, ...savedSearch, createdAt: new Date() };
+  } catch (error) {
+    console.error('Error saving search:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user's saved searches
+ *
+ * @param userId - The user's ID
+ * @returns - Saved searches, newest first
+ */
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'saved_searches'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc')
+    ));
+
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as SavedSearch));
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    throw error;
+  }
+}
+
+/**
+ * Turn email alerts for a saved search on or off
+ *
+ * @param savedSearchId - The saved search's ID
+ * @param enabled - Whether to send alerts
+ */
+export async function setSavedSearchAlerts(savedSearchId: string, enabled: boolean): Promise<void> {
+  try {
+    await updateDoc(doc(db, 'saved_searches', savedSearchId), { alertsEnabled: enabled });
+  } catch (error) {
+    console.error('Error updating saved search alerts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a saved search
+ *
+ * @param savedSearchId - The saved search's ID
+ */
+export async function deleteSavedSearch(savedSearchId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, 'saved_searches', savedSearchId));
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    throw error;
+  }
+}
+
+/**
+ * Link that runs a saved search again. Must match savedSearchUrl in the worker's
+ * tasks/sendSavedSearchAlerts.ts, which puts the same link in alert emails.
+ *
+ * @param search - The saved search
+ * @returns - Search page path with the search's query parameters
+ */
+export function savedSearchUrl(search: Pick<SavedSearch, 'query' | 'location' | 'filters'>): string {
+  const params = new URLSearchParams();
+  if (search.query) params.set('q', search.query);
+  if (search.location?.city && search.location.state) {
+    params.set('location', `${search.location.city}, ${search.location.state}`);
+  } else if (search.location?.state) {
+    params.set('state', search.location.state);
+  }
+  if (search.filters.services?.[0]) params.set('service', search.filters.services[0]);
+  if (search.filters.tier) params.set('tier', search.filters.tier);
+
+  const queryString = params.toString();
+  return queryString ? `/search?${queryString}` : '/search';
+}
@@ -0,0 +1,168 @@
+import {
+  collection,
+  query,
+  orderBy,
+  limit as limitTo,
+  getDocs,
+  addDoc,
+  doc,
+  getDoc,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { parseSearchQuery } from '../treatmentSearch';
+
+import type {
+  PopularCity,
+  SearchDemandReport,
+  SearchEvent,
+  SearchIndexQuery,
+  ZeroResultSearch
+} from '../../types';
+
+// What a search page knows about a search; the service fills in the session and terms
+export type SearchEventInput = Pick<SearchEvent, 'source' | 'query' | 'location' | 'filters' | 'resultCount'>;
+
+const SESSION_STORAGE_KEY = 'searchSessionId';
+
+// Firestore rejects undefined values, and empty values are noise in the logs
+function compact<T extends Record<string, any>>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) =>
+      value !== undefined && value !== false && value !== '' && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as Partial<T>;
+}
+
+// One ID per browser tab, so repeated searches can be told apart from repeated visitors
+function getSearchSessionId(): string {
+  if (typeof window === 'undefined') return 'server';
+
+  let sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  if (!sessionId) {
+    sessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+  }
+  return sessionId;
+}
+
+function toSearchEvent(search: SearchEventInput): SearchEvent {
+  return {
+    type: 'search',
+    sessionId: getSearchSessionId(),
+    source: search.source,
+    query: search.query.trim(),
+    terms: parseSearchQuery(search.query).terms.map(term => (term.corrected || term.text).toLowerCase()),
+    location: search.location ? compact(search.location) : null,
+    filters: compact(search.filters),
+    resultCount: search.resultCount
+  };
+}
+
+/**
+ * Get the cities with the most clinics. Must match getPopularCities in the worker's
+ * utils/clinicCountByLocation.ts, which writes these stats.
+ *
+ * @param limit - Maximum number of cities
+ * @returns - Cities ordered by clinic count, or an empty list when the stats aren't available
+ */
+export async function getPopularCities(limit: number = 20): Promise<PopularCity[]> {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'stats', 'cityCounts', 'cities'),
+      orderBy('clinicCount', 'desc'),
+      limitTo(limit)
+    ));
+
+    return snapshot.docs.map(doc => doc.data() as PopularCity);
+  } catch (error) {
+    console.error('Error getting popular cities:', error);
+    return [];
+  }
+}
+
+/**
+ * Log a search that found no clinics, so the demand we don't cover yet shows up somewhere
+ *
+ * @param searchQuery - The query that returned nothing
+ * @param location - "City, ST" the user searched from, if known
+ * @param page - The search page the query ran on
+ */
+export async function logZeroResultSearch(
+  searchQuery: SearchIndexQuery,
+  location: string | null,
+  page: string
+): Promise<void> {
+  const entry: ZeroResultSearch = {
+    query: (searchQuery.text || '').trim(),
+    filters: compact({ ...searchQuery, text: undefined, page: undefined, pageSize: undefined }),
+    location,
+    page
+  };
+
+  try {
+    await addDoc(collection(db, 'search_zero_results'), { ...entry, createdAt: serverTimestamp() });
+  } catch (error) {
+    // Logging is best effort; the user still sees the empty state and suggestions
+    console.error('Error logging zero-result search:', error);
+  }
+}
+
+/**
+ * Log a search to search_events for the search demand report
+ *
+ * @param search - The search as the page ran it, with its result count
+ * @returns - The event ID to attach clicks to, or null if logging failed
+ */
+export async function logSearchEvent(search: SearchEventInput): Promise<string | null> {
+  try {
+    const eventRef = await addDoc(collection(db, 'search_events'), {
+      ...toSearchEvent(search),
+      createdAt: serverTimestamp()
+    });
+    return eventRef.id;
+  } catch (error) {
+    // Analytics are best effort and never block the search itself
+    console.error('Error logging search event:', error);
+    return null;
+  }
+}
+
+/**
+ * Log a click on a search result
+ *
+ * @param searchId - The logged search the result came from, if it was logged
+ * @param search - The search the result came from
+ * @param clinicId - The clinic that was clicked
+ * @param position - 1-based rank of the clinic in the results
+ */
+export async function logSearchClick(
+  searchId: string | null,
+  search: SearchEventInput,
+  clinicId: string,
+  position: number
+): Promise<void> {
+  const event: SearchEvent = { ...toSearchEvent(search), type: 'click', clinicId, position };
+  if (searchId) event.searchId = searchId;
+
+  try {
+    await addDoc(collection(db, 'search_events'), { ...event, createdAt: serverTimestamp() });
+  } catch (error) {
+    console.error('Error logging search click:', error);
+  }
+}
+
+/**
+ * Get the latest search demand report from the worker's aggregateSearchDemand task
+ *
+ * @returns - The report, or null if the task hasn't run yet
+ */
+export async function getSearchDemandReport(): Promise<SearchDemandReport | null> {
+  try {
+    const reportDoc = await getDoc(doc(db, 'admin', 'searchDemand'));
+    return reportDoc.exists() ? (reportDoc.data() as SearchDemandReport) : null;
+  } catch (error) {
+    console.error('Error fetching search demand report:', error);
+    throw error;
+  }
+}
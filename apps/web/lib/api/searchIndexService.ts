@@ -0,0 +1,87 @@
+import { ClinicFilter, ClinicSearchPage, ExtendedClinic, RankingBreakdown, SearchDocument, SearchIndexQuery } from '../../types';
+import { searchQueryToParams } from '../searchQuery';
+
+/**
+ * Get a page of clinic search results from /api/search
+ *
+ * @param query - Text and facet filters
+ * @param cursor - nextCursor from the previous page, for the pages after the first
+ * @param pageSize - Results on the first page (later pages keep that size)
+ * @returns - Ranked clinics with highlights, facets and the total when the search index answered
+ */
+export async function fetchClinicSearch(
+  query: SearchIndexQuery,
+  cursor: string | null = null,
+  pageSize?: number
+): Promise<ClinicSearchPage> {
+  const params = searchQueryToParams(query);
+  if (cursor) params.set('cursor', cursor);
+  if (pageSize !== undefined) params.set('pageSize', String(pageSize));
+
+  try {
+    const response = await fetch(`/api/search?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Search request failed with status ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error searching clinics:', error);
+    throw error;
+  }
+}
+
+/**
+ * Map the search page's filters onto a search index query
+ *
+ * @param filters - Filters from the search page
+ * @returns - The equivalent index query (without paging)
+ */
+export function filtersToIndexQuery(filters: ClinicFilter): SearchIndexQuery {
+  return {
+    text: filters.searchTerm,
+    services: filters.services,
+    tiers: filters.tier ? [filters.tier] : undefined,
+    states: filters.state ? [filters.state] : undefined,
+    city: filters.city,
+    verifiedOnly: filters.verified,
+    lat: filters.lat,
+    lng: filters.lng,
+    radius: filters.radius
+  };
+}
+
+/**
+ * Convert a search index document to the clinic shape the result list renders
+ *
+ * @param document - The indexed clinic
+ * @param score - Relevance from the index (0-100)
+ * @param ranking - Why the index ranked the hit where it did
+ * @returns - A clinic with its relevance score and ranking
+ */
+export function searchDocumentToClinic(document: SearchDocument, score: number, ranking?: RankingBreakdown): ExtendedClinic {
+  return {
+    id: document.id,
+    slug: document.slug,
+    name: document.name,
+    address: document.address || '',
+    city: document.city,
+    state: document.state,
+    zip: document.zip,
+    phone: document.phone || '',
+    website: document.website,
+    tier: document.tier,
+    services: document.services,
+    searchableTerms: document.searchableTerms,
+    lat: document.lat,
+    lng: document.lng,
+    rating: document.rating,
+    reviewCount: document.reviewCount,
+    verified: document.verified,
+    specializedServices: document.telehealth ? { telehealth: true } : undefined,
+    schedule: document.schedule,
+    trafficMeta: { totalClicks: document.totalClicks, topSearchTerms: [], lastViewed: null },
+    relevanceScore: score,
+    ranking
+  };
+}
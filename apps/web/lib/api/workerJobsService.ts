@@ -0,0 +1,335 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit as limitTo,
+  limitToLast,
+  onSnapshot,
+  doc,
+  getDocs,
+  updateDoc,
+  runTransaction,
+  serverTimestamp,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db, auth } from '../firebase';
+
+import type {
+  WorkerJob,
+  WorkerJobLogLine,
+  WorkerJobOverride,
+  WorkerJobOverrideAuditEntry,
+  WorkerJobRun
+} from '../../types';
+
+/**
+ * Admin jobs console over the worker's job queue (apps/worker/utils/jobQueue.ts). Reads are live;
+ * runs and cancellations are requests the worker picks up from Firestore.
+ */
+
+const JOBS_COLLECTION = 'worker_jobs';
+const JOB_RUNS_COLLECTION = 'worker_job_runs';
+const JOB_OVERRIDES_COLLECTION = 'worker_job_overrides';
+
+// The newest log lines kept in view while tailing a run
+const LOG_TAIL_LINES = 500;
+
+export interface JobRunStats {
+  runs: number; // Finished runs counted
+  successRate: number | null; // 0-1, null before any run has finished
+  averageDurationMs: number | null;
+  durations: number[]; // Oldest first, for the trend
+}
+
+/**
+ * Watch every job's state
+ *
+ * @param onChange - Called with the jobs, by name, on every change
+ * @param onError - Called when the listener fails
+ * @returns - Unsubscribe
+ */
+export function subscribeToWorkerJobs(onChange: (jobs: WorkerJob[]) => void, onError: (error: Error) => void): Unsubscribe {
+  return onSnapshot(
+    query(collection(db, JOBS_COLLECTION), orderBy('name')),
+    snapshot => onChange(snapshot.docs.map(docSnap => docSnap.data() as WorkerJob)),
+    onError
+  );
+}
+
+/**
+ * Watch a job's most recent runs
+ *
+ * @param jobName - The job
+ * @param count - How many runs
+ * @param onChange - Called with the runs, newest first
+ * @param onError - Called when the listener fails
+ * @returns - Unsubscribe
+ */
+export function subscribeToJobRuns(
+  jobName: string,
+  count: number,
+  onChange: (runs: WorkerJobRun[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(
+      collection(db, JOB_RUNS_COLLECTION),
+      where('job', '==', jobName),
+      orderBy('startedAt', 'desc'),
+      limitTo(count)
+    ),
+    snapshot => onChange(snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as WorkerJobRun))),
+    onError
+  );
+}
+
+/**
+ * Tail a run's log as the worker writes it
+ *
+ * @param runId - The run
+ * @param onChange - Called with the latest lines, oldest first
+ * @param onError - Called when the listener fails
+ * @returns - Unsubscribe
+ */
+export function subscribeToJobRunLogs(
+  runId: string,
+  onChange: (lines: WorkerJobLogLine[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(collection(db, JOB_RUNS_COLLECTION, runId, 'logs'), orderBy('seq'), limitToLast(LOG_TAIL_LINES)),
+    snapshot => onChange(snapshot.docs.map(docSnap => docSnap.data() as WorkerJobLogLine)),
+    onError
+  );
+}
+
+/**
+ * Ask for a job to run now. The next free worker runs it (ahead of its schedule, and even when
+ * dead-lettered) once any current run has finished.
+ *
+ * @param jobName - The job
+ * @param params - Options passed to the task, e.g. { dryRun: true }
+ * @param requestedBy - Admin's email, recorded on the run
+ */
+export async function requestJobRun(jobName: string, params: Record<string, any>, requestedBy: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, JOBS_COLLECTION, jobName), {
+      requestedRun: { params, requestedBy, requestedAt: serverTimestamp() }
+    });
+  } catch (error) {
+    console.error('Error requesting job run:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a run request that no worker has picked up yet
+ *
+ * @param jobName - The job
+ */
+export async function clearJobRunRequest(jobName: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, JOBS_COLLECTION, jobName), { requestedRun: null });
+  } catch (error) {
+    console.error('Error clearing job run request:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ask the worker to cancel a running job. Tasks that check for cancellation stop after the
+ * clinic or page they're on; others finish first, and the run is recorded as cancelled.
+ *
+ * @param runId - The running run
+ * @param cancelledBy - Admin's email
+ */
+export async function cancelJobRun(runId: string, cancelledBy: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, JOB_RUNS_COLLECTION, runId), { cancelRequested: true, cancelledBy });
+  } catch (error) {
+    console.error('Error cancelling job run:', error);
+    throw error;
+  }
+}
+
+type JobSettings = Pick<WorkerJobOverride, 'enabled' | 'schedule' | 'params'>;
+
+// Only what an admin actually set; unset fields fall back to the job's defaults
+function compactSettings(settings: JobSettings): JobSettings {
+  const compact: JobSettings = {};
+  if (settings.enabled === false) compact.enabled = false;
+  if (settings.schedule) compact.schedule = settings.schedule;
+
+  const params = Object.fromEntries(
+    Object.entries(settings.params || {}).filter(([, value]) => value !== undefined && value !== null)
+  );
+  if (Object.keys(params).length > 0) compact.params = params;
+  return compact;
+}
+
+// Firestore rules only accept an override change whose audit entry names the signed-in admin
+function currentAdmin(): { email: string; uid: string } {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('Job settings can only be changed by an admin signed in with an email address');
+  }
+  return { email: user.email, uid: user.uid };
+}
+
+// Field names that differ, e.g. ['enabled', 'params.batchSize']
+function changedFields(before: JobSettings, after: JobSettings): string[] {
+  const fields: string[] = [];
+  if ((before.enabled ?? true) !== (after.enabled ?? true)) fields.push('enabled');
+  if ((before.schedule || null) !== (after.schedule || null)) fields.push('schedule');
+
+  const names = new Set([...Object.keys(before.params || {}), ...Object.keys(after.params || {})]);
+  names.forEach(name => {
+    if (JSON.stringify(before.params?.[name]) !== JSON.stringify(after.params?.[name])) fields.push(`params.${name}`);
+  });
+  return fields;
+}
+
+/**
+ * Whether an override changes anything (a reset leaves an empty one behind)
+ *
+ * @param override - The job's override
+ * @returns - True when it sets the enabled flag, schedule or a param
+ */
+export function hasJobSettings(override: WorkerJobOverride | null | undefined): boolean {
+  return !!override && changedFields({}, compactSettings(override)).length > 0;
+}
+
+/**
+ * Watch a job's settings override
+ *
+ * @param jobName - The job
+ * @param onChange - Called with the override, or null when the job runs on its defaults
+ * @param onError - Called when the listener fails
+ * @returns - Unsubscribe
+ */
+export function subscribeToJobOverride(
+  jobName: string,
+  onChange: (override: WorkerJobOverride | null) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, JOB_OVERRIDES_COLLECTION, jobName),
+    docSnap => onChange(docSnap.exists() ? docSnap.data() as WorkerJobOverride : null),
+    onError
+  );
+}
+
+/**
+ * Save a job's settings. Running workers reload them straight away; the change is recorded in
+ * the job's audit log under the signed-in admin. Validate first (lib/jobParams.ts) - the worker
+ * ignores invalid overrides.
+ *
+ * @param jobName - The job
+ * @param settings - Enabled flag, schedule (empty for the default) and params (unset for defaults)
+ * @returns - The fields that changed (empty when nothing did, and nothing was written)
+ */
+export async function saveJobOverride(jobName: string, settings: JobSettings): Promise<string[]> {
+  try {
+    const admin = currentAdmin();
+    const overrideRef = doc(db, JOB_OVERRIDES_COLLECTION, jobName);
+    const auditRef = doc(collection(overrideRef, 'audit'));
+    const after = compactSettings(settings);
+
+    return await runTransaction(db, async transaction => {
+      const current = await transaction.get(overrideRef);
+      const before = current.exists() ? compactSettings(current.data() as WorkerJobOverride) : null;
+      const fields = changedFields(before || {}, after);
+      if (fields.length === 0) return fields;
+
+      transaction.set(overrideRef, { ...after, updatedBy: admin.email, updatedAt: serverTimestamp(), auditId: auditRef.id });
+      transaction.set(auditRef, {
+        changedBy: admin.email,
+        changedByUid: admin.uid,
+        changedAt: serverTimestamp(),
+        fields,
+        before,
+        after
+      });
+      return fields;
+    });
+  } catch (error) {
+    console.error('Error saving job settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Put a job back on its defaults (recorded in the audit log). The override is emptied rather
+ * than deleted so it can point at its audit entry.
+ *
+ * @param jobName - The job
+ */
+export async function resetJobOverride(jobName: string): Promise<void> {
+  try {
+    const admin = currentAdmin();
+    const overrideRef = doc(db, JOB_OVERRIDES_COLLECTION, jobName);
+    const auditRef = doc(collection(overrideRef, 'audit'));
+
+    await runTransaction(db, async transaction => {
+      const current = await transaction.get(overrideRef);
+      if (!current.exists() || !hasJobSettings(current.data() as WorkerJobOverride)) return;
+
+      const before = compactSettings(current.data() as WorkerJobOverride);
+      transaction.set(overrideRef, { updatedBy: admin.email, updatedAt: serverTimestamp(), auditId: auditRef.id });
+      transaction.set(auditRef, {
+        changedBy: admin.email,
+        changedByUid: admin.uid,
+        changedAt: serverTimestamp(),
+        fields: changedFields(before, {}),
+        before,
+        after: null
+      });
+    });
+  } catch (error) {
+    console.error('Error resetting job settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Recent changes to a job's settings
+ *
+ * @param jobName - The job
+ * @param count - How many entries
+ * @returns - Audit entries, newest first
+ */
+export async function getJobOverrideAudit(jobName: string, count: number = 20): Promise<WorkerJobOverrideAuditEntry[]> {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, JOB_OVERRIDES_COLLECTION, jobName, 'audit'),
+      orderBy('changedAt', 'desc'),
+      limitTo(count)
+    ));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as WorkerJobOverrideAuditEntry));
+  } catch (error) {
+    console.error('Error fetching job settings audit:', error);
+    throw error;
+  }
+}
+
+/**
+ * Success rate and durations over finished runs
+ *
+ * @param runs - Runs, newest first (as from subscribeToJobRuns)
+ * @returns - The stats; cancelled and interrupted runs don't count against the success rate
+ */
+export function summarizeJobRuns(runs: WorkerJobRun[]): JobRunStats {
+  const finished = runs.filter(run => run.status === 'succeeded' || run.status === 'failed' || run.status === 'abandoned');
+  const durations = runs
+    .filter(run => run.status === 'succeeded' && typeof run.durationMs === 'number')
+    .map(run => run.durationMs as number)
+    .reverse();
+
+  return {
+    runs: finished.length,
+    successRate: finished.length > 0 ? finished.filter(run => run.status === 'succeeded').length / finished.length : null,
+    averageDurationMs: durations.length > 0 ? Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length) : null,
+    durations
+  };
+}
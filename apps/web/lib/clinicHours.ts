@@ -0,0 +1,213 @@
+import { ClinicSchedule, ScheduleInterval, Weekday } from '../types';
+
+/**
+ * Open/closed status from a clinic's parsed schedule (clinic.schedule, written by the worker's
+ * utils/clinicHours.ts). Times are worked out in the clinic's own time zone, so "open now"
+ * is right whichever zone the visitor is in.
+ */
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  sun: 'Sunday',
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday'
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Far enough to get past a holiday week of exceptions
+const NEXT_OPENING_LOOKAHEAD_DAYS = 14;
+
+export interface HoursFilters {
+  openNow?: boolean;
+  openWeekends?: boolean;
+  openEvenings?: boolean;
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  closesAt?: number; // Minutes after local midnight today (may pass 1440), when open
+  nextOpening?: { daysAhead: number; weekday: Weekday; minutes: number }; // When closed
+  exceptionLabel?: string; // Today's exception, e.g. "Christmas Eve"
+  holiday?: string; // Today's holiday, when the clinic closes for it
+}
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  minutes: number;
+}
+
+// Building a formatter is slow and search checks "open now" for every clinic, so one per zone is kept
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localTime(now: Date, timeZone: string): LocalTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '0';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: (parseInt(part('hour'), 10) % 24) * 60 + parseInt(part('minute'), 10)
+  };
+}
+
+// Calendar arithmetic on YYYY-MM-DD, done in UTC so it never shifts with the viewer's zone
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+// nth (1-based; -1 = last) weekday of a month, as YYYY-MM-DD
+function nthWeekday(year: number, month: number, weekday: number, nth: number): string {
+  const date = nth > 0 ? new Date(Date.UTC(year, month, 1)) : new Date(Date.UTC(year, month + 1, 0));
+  const offset = nth > 0
+    ? (weekday - date.getUTCDay() + 7) % 7 + (nth - 1) * 7
+    : -((date.getUTCDay() - weekday + 7) % 7);
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The major US holidays most clinics close for, by date
+ */
+export function usHolidays(year: number): Record<string, string> {
+  return {
+    [`${year}-01-01`]: "New Year's Day",
+    [nthWeekday(year, 4, 1, -1)]: 'Memorial Day',
+    [`${year}-07-04`]: 'Independence Day',
+    [nthWeekday(year, 8, 1, 1)]: 'Labor Day',
+    [nthWeekday(year, 10, 4, 4)]: 'Thanksgiving',
+    [`${year}-12-25`]: 'Christmas Day'
+  };
+}
+
+// Hours on a local date: an exception, then holiday closure, then the weekly hours
+function hoursOn(schedule: ClinicSchedule, date: string): { intervals: ScheduleInterval[]; label?: string; holiday?: string } {
+  const exception = schedule.exceptions?.find(candidate => candidate.date === date);
+  if (exception) return { intervals: exception.intervals, label: exception.label };
+
+  if (schedule.closedOnHolidays) {
+    const holiday = usHolidays(parseInt(date.slice(0, 4), 10))[date];
+    if (holiday) return { intervals: [], holiday };
+  }
+
+  return { intervals: schedule.weekly[weekdayOf(date)] || [] };
+}
+
+/**
+ * A moment's date and weekday where the clinic is
+ */
+export function clinicLocalDate(schedule: ClinicSchedule, now: Date = new Date()): { date: string; weekday: Weekday } {
+  const { date } = localTime(now, schedule.timeZone);
+  return { date, weekday: weekdayOf(date) };
+}
+
+/**
+ * Whether a clinic is open at a moment, and when it next closes or opens
+ *
+ * @param schedule - The clinic's parsed schedule
+ * @param now - The moment to check (defaults to now)
+ */
+export function getOpenStatus(schedule: ClinicSchedule, now: Date = new Date()): OpenStatus {
+  const { date, minutes } = localTime(now, schedule.timeZone);
+  const today = hoursOn(schedule, date);
+  const context = { exceptionLabel: today.label, holiday: today.holiday };
+
+  const current = today.intervals.find(interval => minutes >= interval.open && minutes < interval.close);
+  if (current) {
+    // Round-the-clock days have no closing time worth showing
+    const allDay = current.open === 0 && current.close >= MINUTES_PER_DAY;
+    return { isOpen: true, closesAt: allDay ? undefined : current.close, ...context };
+  }
+
+  // Still inside yesterday's hours that ran past midnight
+  const overnight = hoursOn(schedule, addDays(date, -1)).intervals
+    .find(interval => interval.close > MINUTES_PER_DAY && minutes < interval.close - MINUTES_PER_DAY);
+  if (overnight) return { isOpen: true, closesAt: overnight.close - MINUTES_PER_DAY, ...context };
+
+  for (let daysAhead = 0; daysAhead < NEXT_OPENING_LOOKAHEAD_DAYS; daysAhead++) {
+    const day = addDays(date, daysAhead);
+    const opening = hoursOn(schedule, day).intervals
+      .find(interval => daysAhead > 0 || interval.open > minutes);
+    if (opening) {
+      return { isOpen: false, nextOpening: { daysAhead, weekday: weekdayOf(day), minutes: opening.open }, ...context };
+    }
+  }
+
+  return { isOpen: false, ...context };
+}
+
+/**
+ * Format minutes after midnight as "9:00 AM"
+ */
+export function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hour = Math.floor(normalized / 60);
+  const minute = normalized % 60;
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Format a day's intervals as "9:00 AM - 12:00 PM, 1:00 PM - 5:00 PM" (or "Closed")
+ */
+export function formatIntervals(intervals: ScheduleInterval[]): string {
+  if (intervals.length === 0) return 'Closed';
+  if (intervals.length === 1 && intervals[0].open === 0 && intervals[0].close >= MINUTES_PER_DAY) return 'Open 24 hours';
+  return intervals.map(interval => `${formatMinutes(interval.open)} - ${formatMinutes(interval.close)}`).join(', ');
+}
+
+/**
+ * One line for the status: "Open now · Closes 5:00 PM", "Closed · Opens tomorrow 9:00 AM"
+ */
+export function describeOpenStatus(status: OpenStatus): string {
+  if (status.isOpen) {
+    return status.closesAt !== undefined ? `Open now · Closes ${formatMinutes(status.closesAt)}` : 'Open now';
+  }
+
+  const reason = status.holiday ? ` for ${status.holiday}` : status.exceptionLabel ? ` for ${status.exceptionLabel}` : '';
+  if (!status.nextOpening) return `Closed${reason}`;
+
+  const { daysAhead, weekday, minutes } = status.nextOpening;
+  const when = daysAhead === 0 ? '' : daysAhead === 1 ? 'tomorrow ' : `${WEEKDAY_LABELS[weekday]} `;
+  return `Closed${reason} · Opens ${when}${formatMinutes(minutes)}`;
+}
+
+/**
+ * Whether a clinic passes the hours filters. Clinics without a parsed schedule never do.
+ *
+ * @param schedule - The clinic's parsed schedule
+ * @param filters - The hours filters that are on
+ * @param now - The moment "open now" is checked at
+ */
+export function matchesHoursFilters(schedule: ClinicSchedule | undefined, filters: HoursFilters, now: Date = new Date()): boolean {
+  if (!filters.openNow && !filters.openWeekends && !filters.openEvenings) return true;
+  if (!schedule) return false;
+
+  if (filters.openWeekends && !schedule.openWeekends) return false;
+  if (filters.openEvenings && !schedule.openEvenings) return false;
+  if (filters.openNow && !getOpenStatus(schedule, now).isOpen) return false;
+  return true;
+}
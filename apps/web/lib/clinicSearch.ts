@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import { doc, getDoc, DocumentData } from 'firebase/firestore';
+import { db } from './firebase';
+import { ClinicFilter, ClinicSearchPage, ExtendedClinic, SearchHighlight, SearchIndexQuery } from '../types';
+import { getSearchIndexProvider } from './searchIndex';
+import { getRankingWeights } from './api/rankingSettingsService';
+import { searchDocumentToClinic } from './api/searchIndexService';
+import { searchClinicsOptimized } from './optimizedSearch';
+import { rankClinics } from './ranking';
+import { matchesHoursFilters } from './clinicHours';
+import { normalizeSearchQuery, searchQueryKey } from './searchQuery';
+import { serviceCategoryMap, slugify } from './utils';
+
+/**
+ * The one clinic search path: /api/search and the getServerSideProps of the search and city
+ * listing pages all come through here. Answers from the search index (lib/searchIndex.ts), or
+ * Firestore until one is built, behind an in-memory cache keyed by the normalized search.
+ *
+ * Only import this from API routes and getServerSideProps.
+ */
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+const MAX_SEARCH_PAGE_SIZE = 100;
+
+// A cached page is served as-is for this long...
+const CACHE_FRESH_MS = 60 * 1000;
+// ...then served stale for this long while it's refreshed behind the response
+const CACHE_STALE_MS = 10 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+
+// Firestore queries one page of the fallback search may make (a short page still carries a cursor)
+const MAX_FIRESTORE_READS_PER_PAGE = 10;
+
+// For search responses and server-rendered search pages, matching the windows above
+export const SEARCH_CACHE_CONTROL = 'public, s-maxage=60, stale-while-revalidate=600';
+
+/**
+ * Cache-Control for a search response. "Open now" results change with the clock, so they
+ * aren't cached by the CDN or browser.
+ */
+export function searchCacheControl(query: SearchIndexQuery): string {
+  return query.openNow ? 'private, no-store' : SEARCH_CACHE_CONTROL;
+}
+
+export type SearchCacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface SearchPageOptions {
+  cursor?: string | null; // nextCursor from the previous page
+  pageSize?: number; // Ignored with a cursor - pages keep the size the search started with
+}
+
+// What a cursor token carries. A search that started on Firestore stays there, so pages don't repeat.
+interface SearchCursor {
+  search: string; // Hash of the search it belongs to
+  pageSize: number;
+  offset?: number; // Search index: results already returned
+  after?: string; // Firestore: ID of the last clinic returned
+}
+
+interface CacheEntry {
+  page: ClinicSearchPage;
+  storedAt: number;
+}
+
+const cache = new Map<string, CacheEntry>(); // Oldest first
+const pending = new Map<string, Promise<ClinicSearchPage>>();
+
+function hashSearch(query: SearchIndexQuery): string {
+  return crypto.createHash('sha1').update(searchQueryKey(query)).digest('base64url').slice(0, 16);
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(token: string, query: SearchIndexQuery): SearchCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+    if (cursor?.search !== hashSearch(query) || !(cursor.pageSize > 0)) return null;
+    if (typeof cursor.offset !== 'number' && typeof cursor.after !== 'string') return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a cursor token came from this search (a cursor from another search is rejected)
+ *
+ * @param token - The ?cursor= value
+ * @param query - The search it was sent with
+ */
+export function isSearchCursorFor(token: string, query: SearchIndexQuery): boolean {
+  return decodeCursor(token, normalizeSearchQuery(query)) !== null;
+}
+
+// Timestamps and undefined fields don't survive page props or a JSON response as-is
+function toJsonSafe<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+async function searchIndexPage(query: SearchIndexQuery, pageSize: number, offset: number): Promise<ClinicSearchPage> {
+  const provider = getSearchIndexProvider();
+  const result = await provider.search({ ...query, page: Math.floor(offset / pageSize), pageSize }, await getRankingWeights());
+
+  const highlights: Record<string, SearchHighlight[]> = {};
+  result.hits.forEach(hit => {
+    highlights[hit.document.id] = hit.highlights;
+  });
+
+  const nextOffset = offset + pageSize;
+  return {
+    clinics: result.hits.map(hit => searchDocumentToClinic(hit.document, hit.score, hit.ranking)),
+    highlights,
+    total: result.total,
+    facets: result.facets,
+    relaxations: result.relaxations || [],
+    nextCursor: nextOffset < result.total ? encodeCursor({ search: hashSearch(query), pageSize, offset: nextOffset }) : null,
+    provider: provider.name
+  };
+}
+
+// Filters Firestore can't apply in the same query, checked on each page instead
+function matchesFirestoreFallback(clinic: ExtendedClinic, query: SearchIndexQuery): boolean {
+  if (query.tiers && query.tiers.length > 1 && !query.tiers.includes(clinic.tier)) return false;
+  if (query.states && query.states.length > 1 && !query.states.includes((clinic.state || '').toUpperCase())) return false;
+  if (query.categories) {
+    const categories = (clinic.services || []).map(service => serviceCategoryMap[slugify(service)]);
+    if (!query.categories.some(category => categories.includes(category))) return false;
+  }
+  if (query.verifiedOnly && !clinic.verified) return false;
+  if (query.minRating && (clinic.rating || 0) < query.minRating) return false;
+  if (query.telehealthOnly && !clinic.specializedServices?.telehealth) return false;
+  return matchesHoursFilters(clinic.schedule, query);
+}
+
+async function firestorePage(query: SearchIndexQuery, pageSize: number, after?: string): Promise<ClinicSearchPage> {
+  const filter: ClinicFilter = {
+    searchTerm: query.text,
+    services: query.services,
+    state: query.states?.length === 1 ? query.states[0] : undefined,
+    city: query.city,
+    tier: query.tiers?.length === 1 ? query.tiers[0] : undefined,
+    lat: query.lat,
+    lng: query.lng,
+    radius: query.radius
+  };
+
+  let startAfterDoc: DocumentData | null = null;
+  if (after) {
+    const snapshot = await getDoc(doc(db, 'clinics', after));
+    if (snapshot.exists()) startAfterDoc = snapshot;
+  }
+
+  // Rating, hours and the other filters above run after Firestore's limit, so keep reading until the
+  // page is full. Each read asks for only the clinics still missing, so the cursor never skips a match.
+  const matches: ExtendedClinic[] = [];
+  let hasMore = true;
+  let partial = false;
+  for (let reads = 0; reads < MAX_FIRESTORE_READS_PER_PAGE && hasMore && matches.length < pageSize; reads++) {
+    const result = await searchClinicsOptimized(filter, pageSize - matches.length, startAfterDoc);
+    matches.push(...result.clinics.filter(clinic => matchesFirestoreFallback(clinic, query)));
+    hasMore = result.hasMore && Boolean(result.lastDoc);
+    startAfterDoc = result.lastDoc;
+    partial = partial || Boolean(result.partial);
+  }
+
+  const origin = query.lat !== undefined && query.lng !== undefined ? { lat: query.lat, lng: query.lng } : null;
+  const clinics = rankClinics(matches, await getRankingWeights(), origin);
+
+  return {
+    clinics,
+    highlights: {},
+    total: null,
+    facets: null,
+    relaxations: [],
+    nextCursor: hasMore && startAfterDoc
+      ? encodeCursor({ search: hashSearch(query), pageSize, after: startAfterDoc.id })
+      : null,
+    provider: 'firestore',
+    partial
+  };
+}
+
+async function runSearch(query: SearchIndexQuery, pageSize: number, cursor: SearchCursor | null): Promise<ClinicSearchPage> {
+  if (cursor?.after === undefined && (await getSearchIndexProvider().isAvailable())) {
+    return toJsonSafe(await searchIndexPage(query, pageSize, cursor?.offset || 0));
+  }
+  return toJsonSafe(await firestorePage(query, pageSize, cursor?.after));
+}
+
+// One search per key at a time; whoever asks while it runs shares the result
+function loadPage(key: string, load: () => Promise<ClinicSearchPage>): Promise<ClinicSearchPage> {
+  let request = pending.get(key);
+  if (!request) {
+    request = load()
+      .then(page => {
+        cache.delete(key);
+        cache.set(key, { page, storedAt: Date.now() });
+        if (cache.size > CACHE_MAX_ENTRIES) {
+          cache.delete(cache.keys().next().value as string);
+        }
+        return page;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Get a page of clinic search results, from the cache when it's fresh enough
+ *
+ * @param query - The search (normalized here)
+ * @param options - Cursor for the next page, or a page size for the first
+ * @returns - The page, and whether it came from the cache ("stale" pages are being refreshed)
+ */
+export async function searchClinicPage(
+  query: SearchIndexQuery,
+  options: SearchPageOptions = {}
+): Promise<{ page: ClinicSearchPage; cache: SearchCacheStatus }> {
+  const normalized = normalizeSearchQuery(query);
+
+  // A cursor from another search starts this one from the top
+  const cursor = options.cursor ? decodeCursor(options.cursor, normalized) : null;
+  const pageSize = Math.min(Math.max(cursor?.pageSize || options.pageSize || DEFAULT_SEARCH_PAGE_SIZE, 1), MAX_SEARCH_PAGE_SIZE);
+
+  const key = `${searchQueryKey(normalized)}|${pageSize}|${cursor ? options.cursor : ''}`;
+  const load = () => runSearch(normalized, pageSize, cursor);
+
+  const entry = cache.get(key);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+  if (entry && age < CACHE_FRESH_MS) {
+    return { page: entry.page, cache: 'hit' };
+  }
+
+  // "Open now" results change by the minute, so they're never served stale
+  if (entry && age < CACHE_STALE_MS && !normalized.openNow) {
+    loadPage(key, load).catch(error => console.error('Error refreshing cached search:', error));
+    return { page: entry.page, cache: 'stale' };
+  }
+
+  return { page: await loadPage(key, load), cache: 'miss' };
+}
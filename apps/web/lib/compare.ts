@@ -0,0 +1,135 @@
+import { Clinic } from '../types';
+import { calculateDistance } from '../utils/geoUtils';
+import { getReviewDisplayLevel, getTreatmentsLimit, hasFeature } from '../utils/tierUtils';
+
+/**
+ * Side-by-side clinic comparison (/compare?ids=a,b,c). Everything a clinic's plan hides on
+ * its profile - extra treatments, the review breakdown, contact details - is hidden here
+ * too, using the same tierUtils checks, so comparing can't be used to get around tiers.
+ */
+
+export const MAX_COMPARE_CLINICS = 4;
+
+const SPECIALIZED_SERVICE_LABELS: Record<string, string> = {
+  trt: 'TRT',
+  ed: 'ED Treatment',
+  weightLoss: 'Weight Loss',
+  peptides: 'Peptide Therapy',
+  hrt: 'HRT',
+  wellness: 'Wellness'
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  creditCards: 'Credit cards',
+  debitCards: 'Debit cards',
+  nfc: 'Mobile pay',
+  bitcoin: 'Bitcoin',
+  financing: 'Financing'
+};
+
+export interface ClinicComparison {
+  clinic: Clinic;
+  verified: boolean; // Only when the plan shows the verified badge
+  rating?: number;
+  reviewCount: number;
+  reviewDistribution: { stars: number; count: number }[] | null; // null when the plan only shows the average
+  priceBracket?: string;
+  distance?: number | null; // Miles; null when the clinic has no coordinates, undefined without an origin
+  telehealth: boolean;
+  services: string[];
+  specializedServices: string[];
+  treatments: string[];
+  hiddenTreatments: number; // Beyond the plan's treatment limit
+  paymentMethods: string[];
+  accessibility: string[];
+  hours: { day: string; hours: string }[];
+  phone?: string;
+  bookingUrl?: string;
+}
+
+/**
+ * Read the clinic IDs from the compare page's ?ids= parameter
+ * @param value - router.query.ids
+ * @returns - Unique IDs in the order given, at most MAX_COMPARE_CLINICS
+ */
+export function parseCompareIds(value: string | string[] | undefined): string[] {
+  const raw = Array.isArray(value) ? value.join(',') : value || '';
+  const ids = raw.split(',').map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE_CLINICS);
+}
+
+/**
+ * Shareable link to compare clinics
+ * @param ids - Clinic IDs, in column order
+ */
+export function compareUrl(ids: string[]): string {
+  return `/compare?ids=${ids.map(encodeURIComponent).join(',')}`;
+}
+
+/**
+ * Build one clinic's column of the comparison
+ * @param clinic - The clinic
+ * @param origin - The viewer's location, for distance
+ * @returns - What the comparison shows for the clinic, gated by its tier
+ */
+export function buildClinicComparison(
+  clinic: Clinic,
+  origin?: { lat: number; lng: number } | null
+): ClinicComparison {
+  const services = clinic.services || [];
+
+  let distance: number | null | undefined;
+  if (origin) {
+    distance = typeof clinic.lat === 'number' && typeof clinic.lng === 'number'
+      ? calculateDistance(origin.lat, origin.lng, clinic.lat, clinic.lng)
+      : null;
+  }
+
+  // Same order as the profile: the extractor's most confident treatments first
+  const allTreatments = [...(clinic.treatments || [])]
+    .sort((a, b) => b.confidence - a.confidence)
+    .map(treatment => treatment.term);
+  const treatmentsLimit = getTreatmentsLimit(clinic);
+
+  const distribution = clinic.reviewStats?.distribution;
+  const reviewDistribution = distribution && getReviewDisplayLevel(clinic) !== 'basic'
+    ? [5, 4, 3, 2, 1].map(stars => ({ stars, count: distribution[String(stars)] || 0 }))
+    : null;
+
+  const accessibility: string[] = [];
+  if (clinic.accessibility?.wheelchairAccessible) accessibility.push('Wheelchair accessible');
+  if (clinic.accessibility?.hasParking) {
+    accessibility.push(clinic.accessibility.parkingType ? `Parking (${clinic.accessibility.parkingType})` : 'Parking');
+  }
+  if (clinic.accessibility?.acceptsInsurance) accessibility.push('Accepts insurance');
+  if (clinic.accessibility?.languagesSpoken?.length) {
+    accessibility.push(`Languages: ${clinic.accessibility.languagesSpoken.join(', ')}`);
+  }
+
+  return {
+    clinic,
+    verified: hasFeature(clinic, 'verifiedBadge') &&
+      Boolean(clinic.verified || clinic.validationStatus?.verified || clinic.verificationStatus === 'verified'),
+    rating: clinic.reviewStats?.averageRating ?? clinic.rating ?? clinic.googleRating,
+    reviewCount: clinic.reviewStats?.count ?? clinic.reviewCount ?? clinic.googleReviewCount ?? 0,
+    reviewDistribution,
+    priceBracket: clinic.priceBracket || (clinic.priceLevel ? '$'.repeat(clinic.priceLevel) : undefined),
+    distance,
+    telehealth: Boolean(clinic.specializedServices?.telehealth) ||
+      services.some(service => /telehealth|telemedicine|virtual/i.test(service)),
+    services,
+    specializedServices: Object.entries(clinic.specializedServices || {})
+      .filter(([key, offered]) => offered && SPECIALIZED_SERVICE_LABELS[key])
+      .map(([key]) => SPECIALIZED_SERVICE_LABELS[key]),
+    treatments: allTreatments.slice(0, treatmentsLimit),
+    hiddenTreatments: Math.max(allTreatments.length - treatmentsLimit, 0),
+    paymentMethods: Object.entries(clinic.paymentMethods || {})
+      .filter(([key, accepted]) => accepted && PAYMENT_METHOD_LABELS[key])
+      .map(([key]) => PAYMENT_METHOD_LABELS[key]),
+    accessibility,
+    hours: clinic.hours || [],
+    phone: hasFeature(clinic, 'publicContact') ? clinic.phone || undefined : undefined,
+    bookingUrl: hasFeature(clinic, 'enhancedContactUX') ? clinic.contactMethods?.bookingUrl : undefined
+  };
+}
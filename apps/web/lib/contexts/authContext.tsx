@@ -29,6 +29,7 @@ export interface MHFUser {
   reviewsCount?: number;
   isAdmin?: boolean;
   role?: string;
+  savedProviderAlerts?: boolean; // Email when a saved provider's services change; on unless false
 }
 
 // Define the shape of our auth context
@@ -9,16 +9,15 @@ import {
   doc,
   setDoc,
   updateDoc,
-  addDoc,
-  deleteDoc,
   Timestamp,
   QueryConstraint,
   DocumentData,
   startAfter,
-  runTransaction,
+  writeBatch,
   increment
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { commitClinicBatchWithHistory, updateClinicWithHistory } from './api/clinicHistoryService';
 import { Clinic } from '../types';
 
 /**
@@ -184,15 +183,13 @@ class FirestoreClient {
    */
   static async updateClinic(id: string, data: Partial<Clinic>): Promise<boolean> {
     try {
-      const docRef = doc(db, 'clinics', id);
-      
       // Add timestamp
       const updateData = {
         ...data,
         lastUpdated: Timestamp.now()
       };
       
-      await updateDoc(docRef, updateData);
+      await updateClinicWithHistory(id, updateData);
       return true;
     } catch (error) {
       console.error('Error updating clinic:', error);
@@ -208,7 +205,7 @@ class FirestoreClient {
    */
   static async createClinic(data: Partial<Clinic>): Promise<string | null> {
     try {
-      const clinicsRef = collection(db, 'clinics');
+      const docRef = doc(collection(db, 'clinics'));
       
       // Add timestamps
       const clinicData = {
@@ -217,7 +214,9 @@ class FirestoreClient {
         lastUpdated: Timestamp.now()
       };
       
-      const docRef = await addDoc(clinicsRef, clinicData);
+      const batch = writeBatch(db);
+      batch.set(docRef, clinicData);
+      await commitClinicBatchWithHistory(batch, [docRef.id], { action: 'create' });
       return docRef.id;
     } catch (error) {
       console.error('Error creating clinic:', error);
@@ -233,8 +232,10 @@ class FirestoreClient {
    */
   static async deleteClinic(id: string): Promise<boolean> {
     try {
-      const docRef = doc(db, 'clinics', id);
-      await deleteDoc(docRef);
+      // Logged like any other write, so the history keeps the deleted clinic's last values
+      const batch = writeBatch(db);
+      batch.delete(doc(db, 'clinics', id));
+      await commitClinicBatchWithHistory(batch, [id], { action: 'delete' });
       return true;
     } catch (error) {
       console.error('Error deleting clinic:', error);
@@ -268,25 +269,14 @@ class FirestoreClient {
    */
   static async updateClinicTier(id: string, tier: 'free' | 'standard' | 'advanced'): Promise<boolean> {
     try {
-      const docRef = doc(db, 'clinics', id);
+      // Generate tier features based on the new tier; tier and tierFeatures go in one update
+      const tierFeatures = this.generateTierFeatures(tier);
       
-      // Use a transaction to update tier and tierFeatures together
-      await runTransaction(db, async (transaction) => {
-        const docSnapshot = await transaction.get(docRef);
-        
-        if (!docSnapshot.exists()) {
-          throw new Error('Clinic does not exist');
-        }
-        
-        // Generate tier features based on the new tier
-        const tierFeatures = this.generateTierFeatures(tier);
-        
-        transaction.update(docRef, {
-          tier,
-          tierFeatures,
-          lastUpdated: Timestamp.now()
-        });
-      });
+      await updateClinicWithHistory(id, {
+        tier,
+        tierFeatures,
+        lastUpdated: Timestamp.now()
+      }, { action: 'tier' });
       
       return true;
     } catch (error) {
@@ -376,7 +366,7 @@ class FirestoreClient {
     try {
       const docRef = doc(db, 'clinics', clinicId);
       
-      // Update the interaction counter
+      // Update the interaction counter (visitor analytics, not an edit - not logged to clinic history)
       await updateDoc(docRef, {
         [interactionType]: increment(1),
         lastUpdated: Timestamp.now()
@@ -0,0 +1,182 @@
+import { db } from './firebase';
+import {
+  collection,
+  query,
+  orderBy,
+  startAt,
+  startAfter,
+  endAt,
+  limit,
+  getDocs,
+  DocumentData,
+  QueryConstraint
+} from 'firebase/firestore';
+import { Clinic, ExtendedClinic } from '../types';
+import { calculateDistance, geohashQueryBounds } from '../utils/geoUtils';
+
+/**
+ * Radius search over clinic.geohash. The radius is covered by up to 9 geohash prefix
+ * ranges, each queried with the caller's equality/array filters, then narrowed to the
+ * exact distance and sorted nearest first. Pages are cut from that sorted list.
+ * Each range is read in chunks up to a cap; a search that hits it is reported as partial.
+ */
+
+interface RadiusSearchOptions {
+  lat: number;
+  lng: number;
+  radius: number; // Miles
+  constraints: QueryConstraint[]; // Equality / array-contains filters only - the range is on geohash
+  cacheKey: string; // Identifies the filters behind `constraints` so later pages reuse the fetch
+  matches?: (clinic: Clinic) => boolean; // In-memory filters applied before paging
+  toClinic: (doc: DocumentData) => Clinic;
+}
+
+interface RadiusSearchResult {
+  clinics: ExtendedClinic[];
+  lastDoc: DocumentData | null;
+  hasMore: boolean;
+  totalMatches: number; // A lower bound when partial
+  partial: boolean; // A geohash range hit MAX_DOCS_PER_RANGE, so clinics within the radius may be missing
+}
+
+interface RadiusMatch {
+  doc: DocumentData;
+  clinic: ExtendedClinic;
+}
+
+interface RadiusMatches {
+  matches: RadiusMatch[];
+  partial: boolean;
+}
+
+// Ranges are read DOCS_PER_READ at a time, up to MAX_DOCS_PER_RANGE, so a very large radius stays a bounded read
+const DOCS_PER_READ = 500;
+const MAX_DOCS_PER_RANGE = 2000;
+const CACHE_TTL_MS = 60 * 1000;
+
+let cachedSearch: { key: string; expiresAt: number; result: RadiusMatches } | null = null;
+
+/**
+ * Check whether filters ask for a radius search
+ */
+export function isRadiusSearch(filters: { lat?: number; lng?: number; radius?: number }): boolean {
+  return filters.lat !== undefined && filters.lng !== undefined && !!filters.radius && filters.radius > 0;
+}
+
+/**
+ * Read one geohash range in chunks
+ *
+ * @returns - The range's documents, and whether it stopped at MAX_DOCS_PER_RANGE with more left
+ */
+async function fetchGeohashRange(
+  constraints: QueryConstraint[],
+  start: string,
+  end: string
+): Promise<{ docs: DocumentData[]; truncated: boolean }> {
+  const docs: DocumentData[] = [];
+
+  while (docs.length < MAX_DOCS_PER_RANGE) {
+    const snapshot = await getDocs(query(
+      collection(db, 'clinics'),
+      ...constraints,
+      orderBy('geohash'),
+      docs.length > 0 ? startAfter(docs[docs.length - 1]) : startAt(start),
+      endAt(end),
+      limit(DOCS_PER_READ)
+    ));
+    docs.push(...snapshot.docs);
+    if (snapshot.size < DOCS_PER_READ) return { docs, truncated: false };
+  }
+
+  return { docs, truncated: true };
+}
+
+/**
+ * Fetch every clinic within the radius, nearest first (ties broken by ID so paging is stable)
+ */
+async function fetchClinicsInRadius(options: RadiusSearchOptions): Promise<RadiusMatches> {
+  const { lat, lng, radius, constraints, cacheKey, matches, toClinic } = options;
+  const key = JSON.stringify([cacheKey, lat, lng, radius]);
+
+  if (cachedSearch && cachedSearch.key === key && cachedSearch.expiresAt > Date.now()) {
+    return cachedSearch.result;
+  }
+
+  const ranges = await Promise.all(
+    geohashQueryBounds(lat, lng, radius).map(([start, end]) => fetchGeohashRange(constraints, start, end))
+  );
+
+  const results: RadiusMatch[] = [];
+  const seen = new Set<string>();
+  const partial = ranges.some(range => range.truncated);
+
+  if (partial) {
+    console.warn(`Radius search around ${lat},${lng} (${radius} mi) hit the ${MAX_DOCS_PER_RANGE} clinic range cap - results are partial`);
+  }
+
+  ranges.forEach(range => {
+    range.docs.forEach(doc => {
+      if (seen.has(doc.id)) return;
+      seen.add(doc.id);
+
+      const clinic = toClinic(doc);
+      if (typeof clinic.lat !== 'number' || typeof clinic.lng !== 'number') return;
+
+      const distance = calculateDistance(lat, lng, clinic.lat, clinic.lng);
+      if (distance > radius) return;
+      if (matches && !matches(clinic)) return;
+
+      results.push({ doc, clinic: { ...clinic, distance } });
+    });
+  });
+
+  results.sort((a, b) => compareByDistance(a.clinic.distance!, a.doc.id, b.clinic.distance!, b.doc.id));
+
+  const result = { matches: results, partial };
+  cachedSearch = { key, expiresAt: Date.now() + CACHE_TTL_MS, result };
+  return result;
+}
+
+function compareByDistance(aDistance: number, aId: string, bDistance: number, bId: string): number {
+  if (aDistance !== bDistance) return aDistance - bDistance;
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+/**
+ * Search clinics within a radius, distance sorted and paged
+ *
+ * @param options - Center, radius and the query filters to apply
+ * @param pageSize - Number of results per page
+ * @param startAfterDoc - Last document of the previous page
+ * @returns One page of clinics with their distance in miles, flagged partial when the read cap was hit
+ */
+export async function searchClinicsInRadius(
+  options: RadiusSearchOptions,
+  pageSize: number = 20,
+  startAfterDoc: DocumentData | null = null
+): Promise<RadiusSearchResult> {
+  const { matches: results, partial } = await fetchClinicsInRadius(options);
+
+  let startIndex = 0;
+  if (startAfterDoc) {
+    // Resume after the cursor's (distance, id) position, even if that clinic has since moved or gone
+    const cursor = startAfterDoc.data() || {};
+    const cursorDistance = typeof cursor.lat === 'number' && typeof cursor.lng === 'number'
+      ? calculateDistance(options.lat, options.lng, cursor.lat, cursor.lng)
+      : Number.MAX_VALUE;
+    const index = results.findIndex(result =>
+      compareByDistance(result.clinic.distance!, result.doc.id, cursorDistance, startAfterDoc.id) > 0
+    );
+    startIndex = index === -1 ? results.length : index;
+  }
+
+  const page = results.slice(startIndex, startIndex + pageSize);
+
+  return {
+    clinics: page.map(result => result.clinic),
+    lastDoc: page.length > 0 ? page[page.length - 1].doc : startAfterDoc,
+    hasMore: startIndex + pageSize < results.length,
+    totalMatches: results.length,
+    partial
+  };
+}
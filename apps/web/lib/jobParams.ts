@@ -0,0 +1,58 @@
+import type { WorkerJobParamSpec } from '../types';
+
+import { parseCron } from '../../worker/utils/cron';
+import { validateJobParams } from '../../worker/utils/jobParams';
+
+/**
+ * Checks for the jobs console, so admins see mistakes before saving. The cron parser and param
+ * validation are the worker's own (utils/cron.ts, utils/jobParams.ts), which check again before applying.
+ */
+
+export { validateJobParams };
+
+/**
+ * Check a five-field cron expression (minute hour day month weekday, UTC)
+ *
+ * @param expression - The schedule
+ * @returns - An error message, or null when valid
+ */
+export function cronError(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Read a form field back as a param value: numbers, true/false, and comma-separated lists
+ *
+ * @param spec - The parameter
+ * @param text - What the admin typed ("" clears the override)
+ * @returns - The value, or undefined when empty
+ */
+export function parseJobParamInput(spec: WorkerJobParamSpec, text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  switch (spec.type) {
+    case 'integer':
+    case 'number':
+      return Number(trimmed);
+    case 'boolean':
+      return trimmed === 'true' ? true : trimmed === 'false' ? false : trimmed;
+    case 'string[]':
+      return trimmed.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return trimmed;
+  }
+}
+
+/**
+ * Show a param value in a form field
+ */
+export function formatJobParamValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
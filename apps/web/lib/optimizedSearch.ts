@@ -13,10 +13,13 @@ import {
 } from 'firebase/firestore';
 import { Clinic, ClinicFilter, ExtendedClinic } from '../types';
 import { calculateDistance } from '../utils/geoUtils';
+import { isRadiusSearch, searchClinicsInRadius } from './geoSearch';
+import { parseSearchQuery, getIndexVariants, scoreClinic, ParsedQuery } from './treatmentSearch';
 
 /**
- * Optimized search using Firestore's array-contains for searchableTerms
- * This enables fast searches for treatments like "BPC-157" without client-side filtering
+ * Optimized search using Firestore's array-contains-any for searchableTerms
+ * This enables fast searches for treatments like "BPC-157" without client-side filtering.
+ * Multi-term, synonym and misspelled queries are handled by ./treatmentSearch.
  */
 
 interface SearchResult {
@@ -24,6 +27,7 @@ interface SearchResult {
   lastDoc: DocumentData | null;
   hasMore: boolean;
   totalMatches?: number;
+  partial?: boolean; // Radius search hit its read cap (lib/geoSearch.ts)
 }
 
 /**
@@ -53,26 +57,12 @@ function docToClinic(doc: DocumentData): Clinic {
 }
 
 /**
- * Normalize search term for better matching
+ * Attach relevance scores, dropping clinics that miss a query term
  */
-function normalizeSearchTerm(term: string): string[] {
-  const normalized = term.toLowerCase().trim();
-  const variants: string[] = [normalized];
-  
-  // Add variant without hyphens (e.g., "bpc-157" -> "bpc157")
-  if (normalized.includes('-')) {
-    variants.push(normalized.replace(/-/g, ''));
-  }
-  
-  // Add variant with hyphens (e.g., "bpc157" -> "bpc-157")
-  if (/[a-z]+\d+/.test(normalized)) {
-    const withHyphen = normalized.replace(/([a-z]+)(\d+)/, '$1-$2');
-    if (withHyphen !== normalized) {
-      variants.push(withHyphen);
-    }
-  }
-  
-  return variants;
+function scoreClinics(clinics: ExtendedClinic[], parsed: ParsedQuery): ExtendedClinic[] {
+  return clinics
+    .map(clinic => ({ ...clinic, relevanceScore: scoreClinic(clinic, parsed) }))
+    .filter(clinic => clinic.relevanceScore > 0);
 }
 
 /**
@@ -90,11 +80,12 @@ export async function searchClinicsOptimized(
     // Always filter for active clinics
     constraints.push(where('status', 'in', ['Active', 'active']));
     
-    // Location filters
-    if (filters.state) {
+    // Location filters (a radius search replaces the city/state match)
+    const radiusSearch = isRadiusSearch(filters);
+    if (filters.state && !radiusSearch) {
       constraints.push(where('state', '==', filters.state));
     }
-    if (filters.city) {
+    if (filters.city && !radiusSearch) {
       constraints.push(where('city', '==', filters.city));
     }
     
@@ -108,18 +99,28 @@ export async function searchClinicsOptimized(
       constraints.push(where('tier', '==', filters.tier));
     }
     
-    // Treatment/keyword search using searchableTerms
-    if (filters.searchTerm) {
-      const searchVariants = normalizeSearchTerm(filters.searchTerm);
+    // Treatment/keyword search using searchableTerms. The index narrows candidates on the
+    // first term's spellings; every term is then checked and scored client-side.
+    const parsedQuery = filters.searchTerm ? parseSearchQuery(filters.searchTerm) : null;
+    const hasQueryTerms = !!parsedQuery && parsedQuery.terms.length > 0;
+    
+    // Firestore allows one array-contains-any per query, so a services filter takes precedence
+    if (hasQueryTerms && !(filters.services && filters.services.length > 0)) {
+      constraints.push(where('searchableTerms', 'array-contains-any', getIndexVariants(parsedQuery!)));
+    }
+    
+    if (radiusSearch) {
+      const result = await searchClinicsInRadius({
+        lat: filters.lat!,
+        lng: filters.lng!,
+        radius: filters.radius!,
+        constraints,
+        cacheKey: `searchClinicsOptimized:${JSON.stringify(filters)}`,
+        matches: hasQueryTerms ? clinic => scoreClinic(clinic, parsedQuery!) > 0 : undefined,
+        toClinic: docToClinic
+      }, pageSize, startAfterDoc);
       
-      // Use array-contains for single term search (most efficient)
-      if (searchVariants.length === 1) {
-        constraints.push(where('searchableTerms', 'array-contains', searchVariants[0]));
-      } else {
-        // For multiple variants, we'll need to do separate queries and merge
-        // For now, use the primary variant
-        constraints.push(where('searchableTerms', 'array-contains', searchVariants[0]));
-      }
+      return hasQueryTerms ? { ...result, clinics: scoreClinics(result.clinics, parsedQuery!) } : result;
     }
     
     // Sorting
@@ -151,21 +152,8 @@ export async function searchClinicsOptimized(
       lastDoc = doc;
     });
     
-    // Additional filtering if needed (for complex conditions)
-    let filteredClinics = clinics;
-    
-    // If we have multiple search variants, check them client-side
-    if (filters.searchTerm && normalizeSearchTerm(filters.searchTerm).length > 1) {
-      const searchVariants = normalizeSearchTerm(filters.searchTerm);
-      filteredClinics = clinics.filter(clinic => {
-        // Check if any variant matches
-        return searchVariants.some(variant => 
-          clinic.searchableTerms?.includes(variant) ||
-          clinic.name.toLowerCase().includes(variant) ||
-          clinic.services?.some(s => s.toLowerCase().includes(variant))
-        );
-      });
-    }
+    // Every query term must match; misses are dropped and the rest scored
+    const filteredClinics: ExtendedClinic[] = hasQueryTerms ? scoreClinics(clinics, parsedQuery!) : clinics;
     
     // Calculate distances if coordinates provided
     let clinicsWithDistance: ExtendedClinic[] = filteredClinics;
@@ -190,8 +178,10 @@ export async function searchClinicsOptimized(
           clinic => (clinic.distance || 0) <= filters.radius!
         );
       }
-      
-      // Re-sort by distance within tier groups
+    }
+    
+    // Re-sort by relevance, then distance, within tier groups
+    if (hasQueryTerms || (filters.lat !== undefined && filters.lng !== undefined)) {
       clinicsWithDistance.sort((a, b) => {
         const tierOrder = { 'advanced': 0, 'standard': 1, 'free': 2 };
         const aTier = tierOrder[a.tier as keyof typeof tierOrder] ?? 2;
@@ -199,7 +189,10 @@ export async function searchClinicsOptimized(
         
         if (aTier !== bTier) return aTier - bTier;
         
-        // Within same tier, sort by distance
+        if ((a.relevanceScore || 0) !== (b.relevanceScore || 0)) {
+          return (b.relevanceScore || 0) - (a.relevanceScore || 0);
+        }
+        
         return (a.distance || 0) - (b.distance || 0);
       });
     }
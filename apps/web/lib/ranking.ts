@@ -0,0 +1,252 @@
+import {
+  ExtendedClinic,
+  RankingBreakdown,
+  RankingFactor,
+  RankingFactorScore,
+  RankingWeights
+} from '../types';
+import { calculateDistance } from '../utils/geoUtils';
+
+/**
+ * Search ranking. Each result gets a 0-1 value per factor; the score is the weighted average
+ * of those values on a 0-100 scale, so the admin-set weights (settings/searchRanking) only
+ * say how much each factor matters relative to the others. Factors with no signal for the
+ * search - relevance without a text query, distance without a location - are left out
+ * rather than counted as zero.
+ *
+ * Used for search index hits (lib/searchIndex.ts) and for Firestore results, so both paths
+ * order clinics the same way. Click counts are deliberately not a factor: they are easy to
+ * inflate and reward whoever already ranks first.
+ */
+
+export const RANKING_FACTORS: RankingFactor[] = [
+  'relevance',
+  'distance',
+  'rating',
+  'reviews',
+  'completeness',
+  'tierBoost',
+  'verification',
+  'freshness'
+];
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  relevance: 3,
+  distance: 2,
+  rating: 1.5,
+  reviews: 1,
+  completeness: 1,
+  tierBoost: 1,
+  verification: 0.5,
+  freshness: 0.5
+};
+
+export const MAX_RANKING_WEIGHT = 10;
+
+export const RANKING_FACTOR_LABELS: Record<RankingFactor, { label: string; description: string }> = {
+  relevance: { label: 'Relevance', description: 'How well the clinic matches the search text' },
+  distance: { label: 'Distance', description: 'Closeness to the searched location' },
+  rating: { label: 'Rating', description: 'Average review rating, pulled towards average while there are few reviews' },
+  reviews: { label: 'Review Count', description: 'Number of reviews, with diminishing returns' },
+  completeness: { label: 'Profile Completeness', description: 'Share of profile fields filled in' },
+  tierBoost: { label: 'Tier Boost', description: 'Plans that include priority listing' },
+  verification: { label: 'Verification', description: 'Verified clinics' },
+  freshness: { label: 'Freshness', description: 'How recently the listing was updated' }
+};
+
+// A clinic this many miles away gets half the distance value
+const DISTANCE_HALF_MILES = 10;
+
+// Ratings are averaged with this many reviews at PRIOR_RATING, so one 5★ review can't top the list
+const PRIOR_RATING = 3.5;
+const PRIOR_REVIEWS = 5;
+
+// Review count value reaches 1 here
+const REVIEW_SATURATION = 200;
+
+// Freshness halves for every this many days since the last update
+const FRESHNESS_HALF_LIFE_DAYS = 180;
+
+// Stand-in for clinic.quality.completeness on clinics the worker hasn't scored yet
+const COMPLETENESS_FIELDS: ((clinic: ExtendedClinic) => unknown)[] = [
+  clinic => clinic.phone,
+  clinic => clinic.website,
+  clinic => clinic.address,
+  clinic => clinic.services?.length,
+  clinic => clinic.lat && clinic.lng,
+  clinic => clinic.description || clinic.seo?.description,
+  clinic => clinic.hours?.length,
+  clinic => clinic.photos?.hero || clinic.imageUrl
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The raw signals for one result; undefined relevance/distance leave the factor out
+export interface RankingSignals {
+  relevance?: number; // 0-100
+  distance?: number | null; // Miles; null when a location was searched but the clinic has no coordinates
+  rating?: number;
+  reviewCount?: number;
+  completeness?: number; // 0-100
+  priorityListing: boolean;
+  verified: boolean;
+  updatedAt?: number; // Epoch ms
+}
+
+/**
+ * Fill in missing or invalid weights from the defaults
+ * @param weights - Weights as stored in settings/searchRanking
+ */
+export function normalizeRankingWeights(weights?: Partial<Record<string, unknown>> | null): RankingWeights {
+  const normalized = { ...DEFAULT_RANKING_WEIGHTS };
+  RANKING_FACTORS.forEach(factor => {
+    const value = weights?.[factor];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      normalized[factor] = Math.min(Math.max(value, 0), MAX_RANKING_WEIGHT);
+    }
+  });
+  return normalized;
+}
+
+function toMillis(value: any): number | undefined {
+  if (!value) return undefined;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Read the ranking signals off a clinic loaded from Firestore
+ * @param clinic - The clinic, with relevanceScore/distance when the search computed them
+ * @param origin - Searched location, used when the clinic has no distance yet
+ */
+export function clinicRankingSignals(
+  clinic: ExtendedClinic,
+  origin?: { lat: number; lng: number } | null
+): RankingSignals {
+  // Searches that computed distances mark clinics without coordinates with Number.MAX_VALUE
+  let distance: number | null | undefined = clinic.distance === Number.MAX_VALUE ? null : clinic.distance;
+  if (distance === undefined && origin) {
+    distance = typeof clinic.lat === 'number' && typeof clinic.lng === 'number'
+      ? calculateDistance(origin.lat, origin.lng, clinic.lat, clinic.lng)
+      : null;
+  }
+
+  const tier = String(clinic.tier || clinic.package || '').toLowerCase();
+
+  return {
+    relevance: clinic.relevanceScore,
+    distance,
+    rating: clinic.reviewStats?.averageRating ?? clinic.rating ?? clinic.googleRating,
+    reviewCount: clinic.reviewStats?.count ?? clinic.reviewCount ?? clinic.googleReviewCount,
+    completeness: clinic.quality?.completeness
+      ?? Math.round((COMPLETENESS_FIELDS.filter(field => field(clinic)).length / COMPLETENESS_FIELDS.length) * 100),
+    // Clinics saved before tier features existed only have the tier
+    priorityListing: clinic.tierFeatures?.priorityListing ?? ['advanced', 'premium', 'high'].includes(tier),
+    verified: Boolean(clinic.verified || clinic.validationStatus?.verified || clinic.verificationStatus === 'verified'),
+    updatedAt: toMillis(clinic.updatedAt) ?? toMillis(clinic.lastUpdated)
+  };
+}
+
+/**
+ * Score one result
+ * @param signals - The result's ranking signals
+ * @param weights - Factor weights
+ * @param now - Reference time for freshness
+ * @returns - The 0-100 score with the contribution of each factor
+ */
+export function rankSignals(signals: RankingSignals, weights: RankingWeights, now: number = Date.now()): RankingBreakdown {
+  const values: { factor: RankingFactor; value: number; detail: string }[] = [];
+
+  if (signals.relevance !== undefined) {
+    values.push({
+      factor: 'relevance',
+      value: Math.min(Math.max(signals.relevance, 0), 100) / 100,
+      detail: `${Math.round(signals.relevance)}% text match`
+    });
+  }
+
+  if (signals.distance !== undefined) {
+    values.push({
+      factor: 'distance',
+      value: signals.distance === null ? 0 : 1 / (1 + signals.distance / DISTANCE_HALF_MILES),
+      detail: signals.distance === null ? 'No location on file' : `${signals.distance.toFixed(1)} mi away`
+    });
+  }
+
+  const reviewCount = signals.reviewCount || 0;
+  const adjustedRating = signals.rating
+    ? (signals.rating * reviewCount + PRIOR_RATING * PRIOR_REVIEWS) / (reviewCount + PRIOR_REVIEWS)
+    : PRIOR_RATING;
+  values.push({
+    factor: 'rating',
+    value: Math.min(Math.max((adjustedRating - 1) / 4, 0), 1),
+    detail: signals.rating ? `${signals.rating.toFixed(1)}★, counted as ${adjustedRating.toFixed(2)}★` : 'No rating'
+  });
+
+  values.push({
+    factor: 'reviews',
+    value: Math.min(Math.log1p(reviewCount) / Math.log1p(REVIEW_SATURATION), 1),
+    detail: `${reviewCount} review${reviewCount === 1 ? '' : 's'}`
+  });
+
+  values.push({
+    factor: 'completeness',
+    value: Math.min(Math.max(signals.completeness || 0, 0), 100) / 100,
+    detail: `${Math.round(signals.completeness || 0)}% complete`
+  });
+
+  values.push({
+    factor: 'tierBoost',
+    value: signals.priorityListing ? 1 : 0,
+    detail: signals.priorityListing ? 'Priority listing' : 'No priority listing'
+  });
+
+  values.push({
+    factor: 'verification',
+    value: signals.verified ? 1 : 0,
+    detail: signals.verified ? 'Verified' : 'Not verified'
+  });
+
+  const ageDays = signals.updatedAt !== undefined ? Math.max(now - signals.updatedAt, 0) / DAY_MS : undefined;
+  values.push({
+    factor: 'freshness',
+    value: ageDays !== undefined ? Math.pow(0.5, ageDays / FRESHNESS_HALF_LIFE_DAYS) : 0,
+    detail: ageDays !== undefined ? `Updated ${Math.round(ageDays)} days ago` : 'Never updated'
+  });
+
+  const totalWeight = values.reduce((sum, entry) => sum + weights[entry.factor], 0);
+  const factors: RankingFactorScore[] = values.map(entry => ({
+    ...entry,
+    value: Math.round(entry.value * 1000) / 1000,
+    weight: weights[entry.factor],
+    contribution: totalWeight > 0 ? Math.round((weights[entry.factor] * entry.value / totalWeight) * 1000) / 10 : 0
+  }));
+
+  return {
+    score: Math.round(factors.reduce((sum, factor) => sum + factor.contribution, 0) * 10) / 10,
+    factors
+  };
+}
+
+/**
+ * Rank Firestore clinics, best first
+ * @param clinics - Clinics to rank
+ * @param weights - Factor weights
+ * @param origin - Searched location, if any
+ * @returns - The clinics with their ranking breakdown, sorted by score
+ */
+export function rankClinics<T extends ExtendedClinic>(
+  clinics: T[],
+  weights: RankingWeights,
+  origin?: { lat: number; lng: number } | null
+): (T & { ranking: RankingBreakdown })[] {
+  const now = Date.now();
+
+  return clinics
+    .map(clinic => ({ ...clinic, ranking: rankSignals(clinicRankingSignals(clinic, origin), weights, now) }))
+    .sort((a, b) =>
+      b.ranking.score - a.ranking.score ||
+      (a.id || '').localeCompare(b.id || '')
+    );
+}
@@ -12,6 +12,9 @@ import {
 } from 'firebase/firestore';
 import { Clinic, ClinicFilter, ExtendedClinic } from '../types';
 import { calculateDistance } from '../utils/geoUtils';
+import { rankClinics } from './ranking';
+import { getRankingWeights } from './api/rankingSettingsService';
+import { isRadiusSearch, searchClinicsInRadius } from './geoSearch';
 
 /**
  * Convert a Firestore document to a Clinic object
@@ -29,6 +32,41 @@ function convertDocToClinic(doc: DocumentData): Clinic {
       lastViewed: data.trafficMeta?.lastViewed || null}} as Clinic;
 }
 
+/**
+ * Check a clinic against a free-text search term
+ */
+function matchesSearchTerm(clinic: Clinic, searchTerm: string): boolean {
+  const searchTermLower = searchTerm.toLowerCase();
+
+  // Check name
+  if (clinic.name.toLowerCase().includes(searchTermLower)) return true;
+  
+  // Check city/state
+  if (clinic.city.toLowerCase().includes(searchTermLower)) return true;
+  if (clinic.state.toLowerCase().includes(searchTermLower)) return true;
+  
+  // Check services
+  if (clinic.services?.some(service => 
+    service.toLowerCase().includes(searchTermLower)
+  )) return true;
+  
+  // Check pre-processed searchable terms (includes treatments like BPC-157)
+  if (clinic.searchableTerms?.some(term => 
+    term.includes(searchTermLower)
+  )) return true;
+  
+  // Check keywords
+  if (clinic.seo?.keywords?.some(keyword => 
+    keyword.toLowerCase().includes(searchTermLower)
+  )) return true;
+  
+  // Check SEO description for matches
+  if (clinic.seo?.description?.toLowerCase().includes(searchTermLower)) return true;
+  
+  // No match
+  return false;
+}
+
 /**
  * Search for clinics with advanced filtering and sorting
  * 
@@ -45,6 +83,7 @@ export async function searchClinics(
   clinics: ExtendedClinic[];
   lastDoc: DocumentData | null;
   hasMore: boolean;
+  partial?: boolean; // Radius search hit its read cap (lib/geoSearch.ts)
 }> {
   try {
     const clinicsRef = collection(db, 'clinics');
@@ -53,12 +92,14 @@ export async function searchClinics(
     // Only include active clinics
     queryConstraints.push(where('status', 'in', ['Active', 'active']));
     
-    // Basic filtering
-    if (filters.state) {
+    // Basic filtering (a radius search replaces the city/state match)
+    const radiusSearch = isRadiusSearch(filters);
+    
+    if (filters.state && !radiusSearch) {
       queryConstraints.push(where('state', '==', filters.state));
     }
     
-    if (filters.city) {
+    if (filters.city && !radiusSearch) {
       queryConstraints.push(where('city', '==', filters.city));
     }
     
@@ -86,6 +127,20 @@ export async function searchClinics(
     
     // Keywords match will be done in-memory after fetching
 
+    if (radiusSearch) {
+      const { clinics, lastDoc, hasMore, partial } = await searchClinicsInRadius({
+        lat: filters.lat!,
+        lng: filters.lng!,
+        radius: filters.radius!,
+        constraints: queryConstraints,
+        cacheKey: `searchClinics:${JSON.stringify(filters)}`,
+        matches: filters.searchTerm ? clinic => matchesSearchTerm(clinic, filters.searchTerm!) : undefined,
+        toClinic: convertDocToClinic
+      }, pageSize, startAfterDoc);
+      
+      return { clinics, lastDoc, hasMore, partial };
+    }
+
     // Sort by tier and traffic for basic ordering
     queryConstraints.push(orderBy('tier', 'asc')); // 'advanced' comes before 'standard' alphabetically
     queryConstraints.push(orderBy('trafficMeta.totalClicks', 'desc'));
@@ -133,36 +188,7 @@ export async function searchClinics(
     
     // Keyword search if specified
     if (filters.searchTerm) {
-      const searchTermLower = filters.searchTerm.toLowerCase();
-      filteredClinics = filteredClinics.filter(clinic => {
-        // Check name
-        if (clinic.name.toLowerCase().includes(searchTermLower)) return true;
-        
-        // Check city/state
-        if (clinic.city.toLowerCase().includes(searchTermLower)) return true;
-        if (clinic.state.toLowerCase().includes(searchTermLower)) return true;
-        
-        // Check services
-        if (clinic.services?.some(service => 
-          service.toLowerCase().includes(searchTermLower)
-        )) return true;
-        
-        // Check pre-processed searchable terms (includes treatments like BPC-157)
-        if (clinic.searchableTerms?.some(term => 
-          term.includes(searchTermLower)
-        )) return true;
-        
-        // Check keywords
-        if (clinic.seo?.keywords?.some(keyword => 
-          keyword.toLowerCase().includes(searchTermLower)
-        )) return true;
-        
-        // Check SEO description for matches
-        if (clinic.seo?.description?.toLowerCase().includes(searchTermLower)) return true;
-        
-        // No match
-        return false;
-      });
+      filteredClinics = filteredClinics.filter(clinic => matchesSearchTerm(clinic, filters.searchTerm!));
     }
     
     // Calculate distance if coordinates are provided
@@ -190,49 +216,8 @@ export async function searchClinics(
       }
     }
     
-    // Perform final sorting based on priority: tier > status > distance/relevance
-    clinicsWithDistance.sort((a, b) => {
-      // Get standardized tier values for sorting
-      const tierPriority = {
-        'advanced': 0,
-        'standard': 1,
-        'free': 2,
-        // Legacy support
-        'high': 0,
-        'premium': 0,
-        'low': 1,
-        'basic': 1
-      };
-      
-      // Get tier priority (defaulting to lowest priority if not found)
-      const getTierValue = (clinic: Clinic): number => {
-        const tierStr = (clinic.tier || '').toLowerCase();
-        return tierPriority[tierStr as keyof typeof tierPriority] ?? 2;
-      };
-      
-      const aTier = getTierValue(a);
-      const bTier = getTierValue(b);
-      
-      // First sort by tier
-      if (aTier !== bTier) {
-        return aTier - bTier;
-      }
-      
-      // Then sort by verified status
-      if (a.verified !== b.verified) {
-        return a.verified ? -1 : 1;
-      }
-      
-      // Then sort by distance if available
-      if (a.distance !== undefined && b.distance !== undefined) {
-        return (a.distance || 0) - (b.distance || 0);
-      }
-      
-      // Fallback to traffic for same tier/status
-      const aTraffic = a.trafficMeta?.totalClicks || 0;
-      const bTraffic = b.trafficMeta?.totalClicks || 0;
-      return bTraffic - aTraffic;
-    });
+    // Order with the admin-configured ranking (lib/ranking.ts); distances were computed above
+    clinicsWithDistance = rankClinics(clinicsWithDistance, await getRankingWeights());
     
     return { 
       clinics: clinicsWithDistance, 
@@ -373,13 +358,9 @@ export async function getNearbyClinics(
   filters: Partial<ClinicFilter> = {}
 ): Promise<ExtendedClinic[]> {
   try {
-    const clinicsRef = collection(db, 'clinics');
-    
     // Build query constraints
     const queryConstraints: QueryConstraint[] = [
-      where('status', 'in', ['Active', 'active']),
-      where('lat', '!=', null),
-      where('lng', '!=', null)
+      where('status', 'in', ['Active', 'active'])
     ];
     
     // Add tier filter if specified
@@ -392,24 +373,15 @@ export async function getNearbyClinics(
       queryConstraints.push(where('services', 'array-contains-any', filters.services));
     }
     
-    // Create and execute query
-    const q = query(clinicsRef, ...queryConstraints, limit(1000));
-    const querySnapshot = await getDocs(q);
-    
-    // Calculate distances and filter
-    const clinicsWithDistance: ExtendedClinic[] = [];
-    
-    querySnapshot.forEach(doc => {
-      const clinic = convertDocToClinic(doc);
-      
-      if (clinic.lat && clinic.lng) {
-        const distance = calculateDistance(lat, lng, clinic.lat, clinic.lng);
-        
-        if (distance <= radiusMiles) {
-          clinicsWithDistance.push({ ...clinic, distance });
-        }
-      }
-    });
+    // Geohash range query, already narrowed to the exact radius
+    const { clinics: clinicsWithDistance } = await searchClinicsInRadius({
+      lat,
+      lng,
+      radius: radiusMiles,
+      constraints: queryConstraints,
+      cacheKey: `getNearbyClinics:${JSON.stringify(filters)}`,
+      toClinic: convertDocToClinic
+    }, Number.MAX_SAFE_INTEGER);
     
     // Sort by tier then distance
     clinicsWithDistance.sort((a, b) => {
@@ -0,0 +1,526 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  SearchDocument,
+  SearchFacets,
+  SearchHighlight,
+  SearchIndexHit,
+  SearchIndexFilter,
+  SearchIndexQuery,
+  SearchIndexResult,
+  SearchRelaxation,
+  RankingWeights
+} from '../types';
+import { parseSearchQuery, editDistance, allowedEdits, QueryTerm } from './treatmentSearch';
+import { serviceCategoryMap, slugify } from './utils';
+import { calculateDistance } from '../utils/geoUtils';
+import { DEFAULT_RANKING_WEIGHTS, RankingSignals, rankSignals } from './ranking';
+import { getOpenStatus, matchesHoursFilters } from './clinicHours';
+
+/**
+ * Server-side reader for the clinic search index the worker's enhanceSearchIndex task writes
+ * (apps/worker/utils/searchIndex.ts). Gives the public search what Firestore can't: multi-value
+ * filters with facet counts, ranked results (lib/ranking.ts) and match highlighting.
+ *
+ * Only import this from API routes - it reads the index from disk.
+ */
+
+export interface SearchIndexProvider {
+  readonly name: string;
+  /** False when there is no index to search (callers fall back to Firestore) */
+  isAvailable(): Promise<boolean>;
+  search(query: SearchIndexQuery, weights?: RankingWeights): Promise<SearchIndexResult>;
+}
+
+// Must match SEARCH_INDEX_VERSION in the worker
+const SEARCH_INDEX_VERSION = 1;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// How much a hit in each field counts towards relevance
+const FIELD_BOOSTS = {
+  name: 3,
+  treatments: 2,
+  services: 2,
+  searchableTerms: 1.5,
+  location: 1,
+  keywords: 0.5 // derivedKeywords repeat the name/services in many combinations
+};
+
+// Term saturation (BM25 k1) - the tenth mention of a word adds little
+const SATURATION = 1.2;
+
+// Discounts for looser matches, relative to the words as typed
+const MATCH_FACTORS = {
+  synonym: 0.85,
+  corrected: 0.8,
+  prefix: 0.7,
+  fuzzy: 0.5
+};
+
+const MAX_HIGHLIGHTED_VALUES = 3;
+
+// Minimum ratings counted in the ratings facet
+const RATING_FACETS = [4.5, 4, 3];
+
+// Radius multipliers tried, in order, when a radius search finds nothing
+const RADIUS_STEPS = [2, 4];
+
+const MAX_RELAXATIONS = 3;
+
+interface LoadedIndex {
+  mtimeMs: number;
+  documents: SearchDocument[];
+  postings: Map<string, Map<number, number>>; // token -> document position -> boosted term frequency
+  tokens: string[]; // Sorted, for prefix and fuzzy lookups
+}
+
+/**
+ * Split text into index tokens. "BPC-157" and "bpc157" both become "bpc157".
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[®™©]/g, '')
+    .replace(/([a-z])-(\d)/g, '$1$2')
+    .split(/[^a-z0-9+]+/)
+    .filter(Boolean);
+}
+
+function buildIndex(documents: SearchDocument[], mtimeMs: number): LoadedIndex {
+  const postings = new Map<string, Map<number, number>>();
+
+  const add = (position: number, text: string, boost: number) => {
+    tokenize(text).forEach(token => {
+      let docs = postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        postings.set(token, docs);
+      }
+      docs.set(position, (docs.get(position) || 0) + boost);
+    });
+  };
+
+  documents.forEach((document, position) => {
+    add(position, document.name, FIELD_BOOSTS.name);
+    document.treatments.forEach(value => add(position, value, FIELD_BOOSTS.treatments));
+    document.services.forEach(value => add(position, value, FIELD_BOOSTS.services));
+    document.searchableTerms.forEach(value => add(position, value, FIELD_BOOSTS.searchableTerms));
+    add(position, [document.city, document.state, document.zip].filter(Boolean).join(' '), FIELD_BOOSTS.location);
+    document.keywords.forEach(value => add(position, value, FIELD_BOOSTS.keywords));
+  });
+
+  return { mtimeMs, documents, postings, tokens: Array.from(postings.keys()).sort() };
+}
+
+/**
+ * Find index tokens for a query word: the word itself, and when `prefix` is set any longer
+ * word it starts (search as you type)
+ */
+function expandToken(index: LoadedIndex, token: string, prefix: boolean): { token: string; factor: number }[] {
+  const matches: { token: string; factor: number }[] = [];
+  if (index.postings.has(token)) matches.push({ token, factor: 1 });
+  if (!prefix || token.length < 3) return matches;
+
+  // tokens is sorted, so every word starting with `token` follows its insertion point
+  let low = 0;
+  let high = index.tokens.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.tokens[mid] < token) low = mid + 1;
+    else high = mid;
+  }
+  for (let i = low; i < index.tokens.length && index.tokens[i].startsWith(token); i++) {
+    if (index.tokens[i] !== token) matches.push({ token: index.tokens[i], factor: MATCH_FACTORS.prefix });
+  }
+  return matches;
+}
+
+/**
+ * Score every document that matches one query term (any of its spellings), keeping each
+ * document's best spelling
+ */
+function matchTerm(index: LoadedIndex, term: QueryTerm, isLastTerm: boolean, matchedTokens: Set<string>): Map<number, number> {
+  const scores = new Map<number, number>();
+  const total = index.documents.length;
+
+  const idf = (token: string) => {
+    const df = index.postings.get(token)?.size || 0;
+    return Math.log(1 + (total - df + 0.5) / (df + 0.5));
+  };
+
+  const scoreTokens = (tokenGroups: { token: string; factor: number }[][], factor: number) => {
+    // Every word of the spelling has to be in the document
+    let candidates: Map<number, number> | null = null;
+
+    for (const group of tokenGroups) {
+      const groupScores = new Map<number, number>();
+      group.forEach(({ token, factor: tokenFactor }) => {
+        const weight = idf(token) * tokenFactor;
+        index.postings.get(token)!.forEach((frequency, position) => {
+          const score = weight * (frequency * (SATURATION + 1)) / (frequency + SATURATION);
+          groupScores.set(position, Math.max(groupScores.get(position) || 0, score));
+        });
+      });
+
+      if (candidates === null) {
+        candidates = groupScores;
+      } else {
+        const previous: Map<number, number> = candidates;
+        const next = new Map<number, number>();
+        groupScores.forEach((score, position) => {
+          if (previous.has(position)) next.set(position, previous.get(position)! + score);
+        });
+        candidates = next;
+      }
+      if (candidates.size === 0) return;
+    }
+
+    if (!candidates) return;
+    (candidates as Map<number, number>).forEach((score, position) => {
+      scores.set(position, Math.max(scores.get(position) || 0, score * factor));
+    });
+    tokenGroups.forEach(group => group.forEach(({ token }) => matchedTokens.add(token)));
+  };
+
+  term.variants.forEach((variant, i) => {
+    const tokens = tokenize(variant);
+    if (tokens.length === 0) return;
+
+    let factor = i === 0 ? 1 : MATCH_FACTORS.synonym;
+    if (term.corrected) factor *= MATCH_FACTORS.corrected;
+
+    // Only the words as typed at the end of the query can be unfinished
+    const groups = tokens.map((token, j) => expandToken(index, token, i === 0 && isLastTerm && j === tokens.length - 1));
+    if (groups.some(group => group.length === 0)) return;
+
+    scoreTokens(groups, factor);
+  });
+
+  // Misspelled words outside the treatment vocabulary (clinic names, cities)
+  const ownTokens = tokenize(term.text);
+  if (scores.size === 0 && ownTokens.length === 1) {
+    const maxDistance = allowedEdits(ownTokens[0]);
+    if (maxDistance > 0) {
+      const similar = index.tokens
+        .filter(token => editDistance(ownTokens[0], token, maxDistance) <= maxDistance)
+        .map(token => ({ token, factor: 1 }));
+      if (similar.length > 0) scoreTokens([similar], MATCH_FACTORS.fuzzy);
+    }
+  }
+
+  return scores;
+}
+
+function highlightValue(value: string, matchedTokens: Set<string>): SearchHighlight['segments'] | null {
+  const segments: SearchHighlight['segments'] = [];
+  let found = false;
+  let lastIndex = 0;
+
+  const push = (text: string, match: boolean) => {
+    if (!text) return;
+    const previous = segments[segments.length - 1];
+    if (previous && previous.match === match) {
+      previous.text += text;
+    } else {
+      segments.push({ text, match });
+    }
+  };
+
+  const words = /[A-Za-z0-9+]+(?:-[A-Za-z0-9+]+)*/g;
+  let word: RegExpExecArray | null;
+  while ((word = words.exec(value)) !== null) {
+    const match = tokenize(word[0]).some(token => matchedTokens.has(token));
+    found = found || match;
+    push(value.slice(lastIndex, word.index), false);
+    push(word[0], match);
+    lastIndex = word.index + word[0].length;
+  }
+  push(value.slice(lastIndex), false);
+
+  return found ? segments : null;
+}
+
+function buildHighlights(document: SearchDocument, matchedTokens: Set<string>): SearchHighlight[] {
+  const highlights: SearchHighlight[] = [];
+  if (matchedTokens.size === 0) return highlights;
+
+  const nameSegments = highlightValue(document.name, matchedTokens);
+  if (nameSegments) highlights.push({ field: 'name', value: document.name, segments: nameSegments });
+
+  (['treatments', 'services'] as const).forEach(field => {
+    document[field]
+      .map(value => ({ value, segments: highlightValue(value, matchedTokens) }))
+      .filter(({ segments }) => segments !== null)
+      .slice(0, MAX_HIGHLIGHTED_VALUES)
+      .forEach(({ value, segments }) => highlights.push({ field, value, segments: segments! }));
+  });
+
+  return highlights;
+}
+
+// Service category IDs a clinic's services fall under ("ED Treatment" -> sexual-health)
+function documentCategories(document: SearchDocument): string[] {
+  const categories = new Set<string>();
+  document.services.forEach(service => {
+    const category = serviceCategoryMap[slugify(service)];
+    if (category) categories.add(category);
+  });
+  return Array.from(categories);
+}
+
+function matchesFilters(document: SearchDocument, query: SearchIndexQuery, skip?: SearchIndexFilter): boolean {
+  if (skip !== 'services' && query.services && query.services.length > 0) {
+    const wanted = query.services.map(service => service.toLowerCase());
+    if (!document.services.some(service => wanted.includes(service.toLowerCase()))) return false;
+  }
+  if (skip !== 'categories' && query.categories && query.categories.length > 0) {
+    const categories = documentCategories(document);
+    if (!query.categories.some(category => categories.includes(category))) return false;
+  }
+  if (skip !== 'tiers' && query.tiers && query.tiers.length > 0 && !query.tiers.includes(document.tier)) {
+    return false;
+  }
+  if (skip !== 'states' && query.states && query.states.length > 0) {
+    const wanted = query.states.map(state => state.toUpperCase());
+    if (!wanted.includes(document.state.toUpperCase())) return false;
+  }
+  if (skip !== 'city' && query.city && document.city.toLowerCase() !== query.city.toLowerCase()) return false;
+  if (skip !== 'verifiedOnly' && query.verifiedOnly && !document.verified) return false;
+  if (skip !== 'minRating' && query.minRating && (document.rating || 0) < query.minRating) return false;
+  if (skip !== 'telehealthOnly' && query.telehealthOnly && !document.telehealth) return false;
+  if (!matchesHoursFilters(document.schedule, {
+    openNow: skip !== 'openNow' && query.openNow,
+    openWeekends: skip !== 'openWeekends' && query.openWeekends,
+    openEvenings: skip !== 'openEvenings' && query.openEvenings
+  })) {
+    return false;
+  }
+  if (skip !== 'radius' && query.radius && query.lat !== undefined && query.lng !== undefined) {
+    if (document.lat === undefined || document.lng === undefined) return false;
+    if (calculateDistance(query.lat, query.lng, document.lat, document.lng) > query.radius) return false;
+  }
+  return true;
+}
+
+function countFacets(documents: SearchDocument[], query: SearchIndexQuery): SearchFacets {
+  const facets: SearchFacets = {
+    services: {},
+    categories: {},
+    tiers: {},
+    states: {},
+    ratings: {},
+    telehealth: 0,
+    hours: { openNow: 0, openWeekends: 0, openEvenings: 0 }
+  };
+  const increment = (counts: Record<string, number>, value: string) => {
+    counts[value] = (counts[value] || 0) + 1;
+  };
+
+  documents.forEach(document => {
+    // Each facet is counted as if its own selection were cleared, so other values show what they'd add
+    if (matchesFilters(document, query, 'services')) {
+      new Set(document.services).forEach(service => increment(facets.services, service));
+    }
+    if (matchesFilters(document, query, 'categories')) {
+      documentCategories(document).forEach(category => increment(facets.categories, category));
+    }
+    if (matchesFilters(document, query, 'tiers')) increment(facets.tiers, document.tier);
+    if (matchesFilters(document, query, 'states') && document.state) increment(facets.states, document.state.toUpperCase());
+    if (matchesFilters(document, query, 'minRating')) {
+      RATING_FACETS.filter(rating => (document.rating || 0) >= rating)
+        .forEach(rating => increment(facets.ratings, String(rating)));
+    }
+    if (document.telehealth && matchesFilters(document, query, 'telehealthOnly')) facets.telehealth++;
+    if (document.schedule) {
+      if (document.schedule.openWeekends && matchesFilters(document, query, 'openWeekends')) facets.hours.openWeekends++;
+      if (document.schedule.openEvenings && matchesFilters(document, query, 'openEvenings')) facets.hours.openEvenings++;
+      if (matchesFilters(document, query, 'openNow') && getOpenStatus(document.schedule).isOpen) facets.hours.openNow++;
+    }
+  });
+
+  return facets;
+}
+
+// relevance is the text score relative to the best text match (undefined without a text query)
+function documentRankingSignals(document: SearchDocument, query: SearchIndexQuery, relevance?: number): RankingSignals {
+  const hasOrigin = typeof query.lat === 'number' && typeof query.lng === 'number';
+  const updatedAt = document.updatedAt ? new Date(document.updatedAt).getTime() : NaN;
+
+  return {
+    relevance,
+    distance: !hasOrigin
+      ? undefined
+      : typeof document.lat === 'number' && typeof document.lng === 'number'
+        ? calculateDistance(query.lat!, query.lng!, document.lat, document.lng)
+        : null,
+    rating: document.rating,
+    reviewCount: document.reviewCount,
+    completeness: document.completeness,
+    // Documents indexed before priorityListing was stored only have the tier
+    priorityListing: document.priorityListing ?? document.tier === 'advanced',
+    verified: document.verified,
+    updatedAt: Number.isNaN(updatedAt) ? undefined : updatedAt
+  };
+}
+
+function isActive(query: SearchIndexQuery, filter: SearchIndexFilter): boolean {
+  const value = query[filter];
+  if (Array.isArray(value)) return value.length > 0;
+  if (filter === 'text') return parseSearchQuery(query.text || '').terms.length > 0;
+  if (filter === 'radius') return !!query.radius && query.lat !== undefined && query.lng !== undefined;
+  return !!value;
+}
+
+/**
+ * Work out what a zero-result query could change to find something: drop one filter (or the
+ * text), or widen the radius. Most results first, so the least selective filter leads.
+ */
+function suggestRelaxations(
+  index: LoadedIndex,
+  textMatches: SearchDocument[],
+  query: SearchIndexQuery
+): SearchRelaxation[] {
+  const relaxations: SearchRelaxation[] = [];
+  const filters: SearchIndexFilter[] = [
+    'text', 'services', 'categories', 'tiers', 'states', 'city', 'verifiedOnly', 'minRating', 'telehealthOnly',
+    'openNow', 'openWeekends', 'openEvenings'
+  ];
+
+  filters.filter(filter => isActive(query, filter)).forEach(filter => {
+    // Dropping the text widens the candidates to every document
+    const candidates = filter === 'text' ? index.documents : textMatches;
+    const total = candidates.filter(document => matchesFilters(document, query, filter)).length;
+    if (total > 0) relaxations.push({ filter, total });
+  });
+
+  if (isActive(query, 'radius')) {
+    for (const step of RADIUS_STEPS) {
+      const radius = query.radius! * step;
+      const total = textMatches.filter(document => matchesFilters(document, { ...query, radius })).length;
+      if (total > 0) {
+        relaxations.push({ filter: 'radius', radius, total });
+        break;
+      }
+    }
+  }
+
+  return relaxations.sort((a, b) => b.total - a.total).slice(0, MAX_RELAXATIONS);
+}
+
+/**
+ * In-process search over the JSON index file, reloaded whenever the worker rewrites it
+ */
+export class LocalSearchIndex implements SearchIndexProvider {
+  readonly name = 'local';
+  private index: LoadedIndex | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await this.load()).documents.length > 0;
+    } catch (error: any) {
+      // No index yet is expected until the worker has run; anything else is worth logging
+      if (error?.code !== 'ENOENT') console.error('Search index unavailable:', error);
+      return false;
+    }
+  }
+
+  async search(query: SearchIndexQuery, weights: RankingWeights = DEFAULT_RANKING_WEIGHTS): Promise<SearchIndexResult> {
+    const index = await this.load();
+    const parsed = parseSearchQuery(query.text || '');
+    const matchedTokens = new Set<string>();
+
+    // AND across terms: a document has to match every term in some spelling
+    let scores: Map<number, number> | null = null;
+    for (let i = 0; i < parsed.terms.length; i++) {
+      const termScores = matchTerm(index, parsed.terms[i], i === parsed.terms.length - 1, matchedTokens);
+      const previous: Map<number, number> | null = scores;
+      if (previous === null) {
+        scores = termScores;
+        continue;
+      }
+      const next = new Map<number, number>();
+      termScores.forEach((score, position) => {
+        if (previous.has(position)) next.set(position, previous.get(position)! + score);
+      });
+      scores = next;
+    }
+
+    const textMatches: { document: SearchDocument; score: number }[] = scores === null
+      ? index.documents.map(document => ({ document, score: 0 }))
+      : Array.from(scores.entries()).map(([position, score]) => ({
+          document: index.documents[position],
+          score
+        }));
+
+    const facets = countFacets(textMatches.map(match => match.document), query);
+    const filtered = textMatches.filter(match => matchesFilters(match.document, query));
+    const topScore = filtered.reduce((top, match) => Math.max(top, match.score), 0);
+    const now = Date.now();
+
+    const matches = filtered.map(match => {
+      const relevance = topScore > 0 ? Math.round((match.score / topScore) * 100) : 0;
+      const signals = documentRankingSignals(match.document, query, scores === null ? undefined : relevance);
+      return { ...match, relevance, ranking: rankSignals(signals, weights, now) };
+    });
+
+    matches.sort((a, b) =>
+      b.ranking.score - a.ranking.score ||
+      b.relevance - a.relevance ||
+      (a.document.id < b.document.id ? -1 : a.document.id > b.document.id ? 1 : 0)
+    );
+
+    const pageSize = Math.min(Math.max(query.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const page = Math.max(query.page || 0, 0);
+
+    const hits: SearchIndexHit[] = matches.slice(page * pageSize, (page + 1) * pageSize).map(match => ({
+      document: match.document,
+      score: match.relevance,
+      highlights: buildHighlights(match.document, matchedTokens),
+      ranking: match.ranking
+    }));
+
+    const result: SearchIndexResult = { hits, total: matches.length, facets, provider: this.name };
+    if (matches.length === 0) {
+      result.relaxations = suggestRelaxations(index, textMatches.map(match => match.document), query);
+    }
+    return result;
+  }
+
+  private async load(): Promise<LoadedIndex> {
+    const stats = await fs.promises.stat(this.filePath);
+    if (this.index && this.index.mtimeMs === stats.mtimeMs) return this.index;
+
+    const file = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+    if (file.version !== SEARCH_INDEX_VERSION) {
+      throw new Error(`Search index version ${file.version} is not supported (expected ${SEARCH_INDEX_VERSION})`);
+    }
+
+    this.index = buildIndex(Object.values(file.documents || {}) as SearchDocument[], stats.mtimeMs);
+    return this.index;
+  }
+}
+
+let provider: SearchIndexProvider | null = null;
+
+/**
+ * Get the configured search index provider (SEARCH_INDEX_PROVIDER, default "local").
+ * A hosted engine plugs in here with its own SearchIndexProvider.
+ */
+export function getSearchIndexProvider(): SearchIndexProvider {
+  if (provider) return provider;
+
+  const name = process.env.SEARCH_INDEX_PROVIDER || 'local';
+  switch (name) {
+    case 'local':
+      provider = new LocalSearchIndex(
+        process.env.SEARCH_INDEX_PATH || path.join(process.cwd(), '../worker/data/search-index.json')
+      );
+      return provider;
+    default:
+      throw new Error(`Unknown SEARCH_INDEX_PROVIDER: ${name}`);
+  }
+}
@@ -0,0 +1,143 @@
+import { SearchIndexQuery } from '../types';
+
+/**
+ * One shape for a clinic search across the browser, /api/search and getServerSideProps:
+ * normalizing (so equivalent searches share a cache entry) and converting to and from URL params.
+ */
+
+const TIERS = ['free', 'standard', 'advanced'] as const;
+
+// Positions are rounded to two decimals (within half a mile), so nearby visitors share cached results
+const COORDINATE_DECIMALS = 2;
+
+type QueryParams = Record<string, string | string[] | undefined>;
+
+// Repeated params (?service=TRT&service=PRP) arrive as arrays
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(item => item.trim()).filter(Boolean);
+}
+
+function toFloat(value: string | string[] | undefined): number | undefined {
+  const parsed = parseFloat(Array.isArray(value) ? value[0] : value || '');
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// Trimmed, de-duplicated and sorted, or undefined when empty
+function normalizeList(values: string[] | undefined, transform: (value: string) => string = value => value): string[] | undefined {
+  const list = Array.from(new Set((values || []).map(value => transform(value.trim())).filter(Boolean))).sort();
+  return list.length > 0 ? list : undefined;
+}
+
+function roundCoordinate(value: number): number {
+  const factor = Math.pow(10, COORDINATE_DECIMALS);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Normalize a search so equivalent ones compare equal: whitespace and case in the text, list order
+ * and duplicates, state code case, switched-off flags, and a radius without a position all go.
+ * Paging (page/pageSize) is dropped - it travels separately as a cursor.
+ *
+ * @param query - The search as built by a page
+ * @returns - The canonical search
+ */
+export function normalizeSearchQuery(query: SearchIndexQuery): SearchIndexQuery {
+  const normalized: SearchIndexQuery = {};
+
+  const text = (query.text || '').trim().replace(/\s+/g, ' ').toLowerCase();
+  if (text) normalized.text = text;
+
+  // Services and city keep their case - the Firestore fallback matches them exactly
+  const services = normalizeList(query.services);
+  if (services) normalized.services = services;
+  const categories = normalizeList(query.categories, category => category.toLowerCase());
+  if (categories) normalized.categories = categories;
+  const tiers = normalizeList(query.tiers)?.filter((tier): tier is typeof TIERS[number] => (TIERS as readonly string[]).includes(tier));
+  if (tiers && tiers.length > 0) normalized.tiers = tiers;
+  const states = normalizeList(query.states, state => state.toUpperCase());
+  if (states) normalized.states = states;
+  const city = (query.city || '').trim();
+  if (city) normalized.city = city;
+
+  if (query.verifiedOnly) normalized.verifiedOnly = true;
+  if (query.minRating && query.minRating > 0) normalized.minRating = query.minRating;
+  if (query.telehealthOnly) normalized.telehealthOnly = true;
+  if (query.openNow) normalized.openNow = true;
+  if (query.openWeekends) normalized.openWeekends = true;
+  if (query.openEvenings) normalized.openEvenings = true;
+
+  if (query.radius && query.radius > 0 && query.lat !== undefined && query.lng !== undefined) {
+    normalized.lat = roundCoordinate(query.lat);
+    normalized.lng = roundCoordinate(query.lng);
+    normalized.radius = query.radius;
+  }
+
+  return normalized;
+}
+
+/**
+ * A stable string for a search, the same for every equivalent search
+ *
+ * @param query - The search (normalized here, so it needn't be already)
+ * @returns - The cache key
+ */
+export function searchQueryKey(query: SearchIndexQuery): string {
+  // normalizeSearchQuery always sets fields in the same order, so this is stable
+  return JSON.stringify(normalizeSearchQuery(query));
+}
+
+/**
+ * Write a search as URL params for /api/search
+ *
+ * @param query - The search
+ * @returns - The params (without paging)
+ */
+export function searchQueryToParams(query: SearchIndexQuery): URLSearchParams {
+  const normalized = normalizeSearchQuery(query);
+  const params = new URLSearchParams();
+  if (normalized.text) params.set('q', normalized.text);
+  normalized.services?.forEach(service => params.append('service', service));
+  normalized.categories?.forEach(category => params.append('category', category));
+  normalized.tiers?.forEach(tier => params.append('tier', tier));
+  normalized.states?.forEach(state => params.append('state', state));
+  if (normalized.city) params.set('city', normalized.city);
+  if (normalized.verifiedOnly) params.set('verified', 'true');
+  if (normalized.minRating) params.set('minRating', String(normalized.minRating));
+  if (normalized.telehealthOnly) params.set('telehealth', 'true');
+  if (normalized.openNow) params.set('openNow', 'true');
+  if (normalized.openWeekends) params.set('openWeekends', 'true');
+  if (normalized.openEvenings) params.set('openEvenings', 'true');
+  if (normalized.radius) {
+    params.set('lat', String(normalized.lat));
+    params.set('lng', String(normalized.lng));
+    params.set('radius', String(normalized.radius));
+  }
+  return params;
+}
+
+/**
+ * Read a search back from URL params (req.query in an API route or getServerSideProps)
+ *
+ * @param params - The parsed query string
+ * @returns - The normalized search
+ */
+export function parseSearchQueryParams(params: QueryParams): SearchIndexQuery {
+  return normalizeSearchQuery({
+    text: toList(params.q).join(' '),
+    services: toList(params.service),
+    categories: toList(params.category),
+    tiers: toList(params.tier).filter((tier): tier is typeof TIERS[number] => (TIERS as readonly string[]).includes(tier)),
+    states: toList(params.state),
+    city: toList(params.city)[0],
+    verifiedOnly: params.verified === 'true',
+    minRating: toFloat(params.minRating),
+    telehealthOnly: params.telehealth === 'true',
+    openNow: params.openNow === 'true',
+    openWeekends: params.openWeekends === 'true',
+    openEvenings: params.openEvenings === 'true',
+    lat: toFloat(params.lat),
+    lng: toFloat(params.lng),
+    radius: toFloat(params.radius)
+  });
+}
@@ -0,0 +1,260 @@
+import { Clinic } from '../types';
+import { getSynonymGroups, normalizeTermKey, SynonymGroup } from '../utils/treatmentSynonyms';
+
+/**
+ * Query parsing and relevance scoring for clinic search. A query is split into terms
+ * (multi-word treatment names stay together), each term is expanded to its synonyms and
+ * corrected against the treatment vocabulary when misspelled, and clinics must match
+ * every term. The score says how closely they matched.
+ */
+
+export interface QueryTerm {
+  text: string; // The words as the user typed them
+  variants: string[]; // Spellings to look for in searchableTerms, own spelling first
+  keys: string[]; // normalizeTermKey() of every variant
+  corrected?: string; // Vocabulary term a misspelling was matched to
+}
+
+export interface ParsedQuery {
+  text: string;
+  terms: QueryTerm[];
+}
+
+// Words that say nothing about the treatment being searched for
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'or', 'the', 'for', 'in', 'near', 'me', 'of', 'with', 'best', 'top',
+  'clinic', 'clinics', 'doctor', 'doctors', 'treatment', 'treatments', 'therapy'
+]);
+
+const MAX_PHRASE_WORDS = 4;
+
+// Match quality per term, combined into ExtendedClinic.relevanceScore (0-100)
+const MATCH_WEIGHTS = {
+  exact: 1, // Indexed under the spelling the user typed
+  synonym: 0.85, // Indexed under another name for the same treatment
+  partial: 0.6, // Found inside the clinic name or a service
+  fuzzy: 0.5 // Only a misspelled/close word matched
+};
+const CORRECTED_PENALTY = 0.8;
+
+interface Vocabulary {
+  groupsByKey: Map<string, SynonymGroup[]>;
+  keys: string[];
+}
+
+let vocabulary: Vocabulary | null = null;
+
+function getVocabulary(): Vocabulary {
+  if (!vocabulary) {
+    const groupsByKey = new Map<string, SynonymGroup[]>();
+    getSynonymGroups().forEach(group => {
+      group.terms.forEach(term => {
+        const key = normalizeTermKey(term);
+        if (!key) return;
+        const groups = groupsByKey.get(key) || [];
+        if (!groups.includes(group)) groups.push(group);
+        groupsByKey.set(key, groups);
+      });
+    });
+    vocabulary = { groupsByKey, keys: Array.from(groupsByKey.keys()) };
+  }
+  return vocabulary;
+}
+
+/**
+ * Edit distance with adjacent transpositions ("testosteorne" is one edit from "testosterone").
+ * Gives up early, returning maxDistance + 1, once the distance is known to be larger.
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Number.MAX_SAFE_INTEGER;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+
+  return rows[a.length][b.length];
+}
+
+// Short words must match exactly - "ed" is one edit from far too much
+export function allowedEdits(key: string): number {
+  if (key.length < 4) return 0;
+  if (key.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Closest vocabulary key within the allowed edit distance, or null
+ */
+function correctSpelling(key: string): string | null {
+  const maxDistance = allowedEdits(key);
+  if (maxDistance === 0) return null;
+
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+  getVocabulary().keys.forEach(candidate => {
+    const distance = editDistance(key, candidate, maxDistance);
+    if (distance < bestDistance || (distance === bestDistance && best !== null && candidate.length < best.length)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+
+  return bestDistance <= maxDistance ? best : null;
+}
+
+function buildTerm(text: string, groups: SynonymGroup[], corrected?: string): QueryTerm {
+  const variants = [text];
+  groups.forEach(group => {
+    variants.push(group.canonical, ...group.terms);
+  });
+
+  // searchableTerms holds both "bpc-157" and "bpc157" style spellings
+  const spellings = variants.flatMap(variant => [variant, variant.replace(/-/g, '')]);
+  const uniqueVariants = Array.from(new Set(spellings.map(variant => variant.toLowerCase().trim()).filter(Boolean)));
+
+  const term: QueryTerm = {
+    text,
+    variants: uniqueVariants,
+    keys: Array.from(new Set(uniqueVariants.map(normalizeTermKey).filter(Boolean)))
+  };
+  if (corrected) term.corrected = corrected;
+  return term;
+}
+
+/**
+ * Split a search query into terms with their synonyms and spelling corrections
+ *
+ * @param text - The query as typed, e.g. "trt semaglutide" or "testosteron"
+ * @returns The parsed query
+ */
+export function parseSearchQuery(text: string): ParsedQuery {
+  const words = text
+    .toLowerCase()
+    .replace(/[®™©]/g, '')
+    .split(/[\s,;/]+/)
+    .map(word => word.replace(/^[^a-z0-9+]+|[^a-z0-9+]+$/g, ''))
+    .filter(Boolean);
+
+  const { groupsByKey } = getVocabulary();
+  const terms: QueryTerm[] = [];
+  let i = 0;
+
+  while (i < words.length) {
+    // Longest run of words that names a known treatment ("testosterone cypionate", "red light therapy")
+    let matched = false;
+    for (let length = Math.min(MAX_PHRASE_WORDS, words.length - i); length >= 1; length--) {
+      const phrase = words.slice(i, i + length).join(' ');
+      const groups = groupsByKey.get(normalizeTermKey(phrase));
+      if (groups) {
+        terms.push(buildTerm(phrase, groups));
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (matched) continue;
+
+    const word = words[i];
+    i++;
+    if (STOP_WORDS.has(word)) continue;
+
+    const correction = correctSpelling(normalizeTermKey(word));
+    if (correction) {
+      terms.push(buildTerm(word, groupsByKey.get(correction) || [], correction));
+    } else {
+      terms.push(buildTerm(word, []));
+    }
+  }
+
+  return { text, terms };
+}
+
+/**
+ * Spellings to send to Firestore as an array-contains-any on searchableTerms.
+ * Only the first term is used - the other terms are checked once the candidates are loaded.
+ *
+ * @param parsed - The parsed query
+ * @param maxValues - array-contains-any limit
+ * @returns Index spellings, most specific first
+ */
+export function getIndexVariants(parsed: ParsedQuery, maxValues: number = 10): string[] {
+  const [first] = parsed.terms;
+  return first ? first.variants.slice(0, maxValues) : [];
+}
+
+function clinicKeys(clinic: Clinic): Set<string> {
+  const keys = new Set<string>();
+  const add = (value?: string) => {
+    if (!value) return;
+    keys.add(normalizeTermKey(value));
+    value.split(/\s+/).forEach(word => keys.add(normalizeTermKey(word)));
+  };
+
+  clinic.searchableTerms?.forEach(add);
+  clinic.treatments?.forEach(treatment => add(treatment.term));
+  clinic.services?.forEach(add);
+  clinic.tags?.forEach(add);
+  keys.delete('');
+  return keys;
+}
+
+function scoreTerm(term: QueryTerm, keys: Set<string>, text: string): number {
+  const penalty = term.corrected ? CORRECTED_PENALTY : 1;
+  const ownKey = normalizeTermKey(term.text);
+
+  if (keys.has(ownKey)) return MATCH_WEIGHTS.exact * penalty;
+  if (term.keys.some(key => keys.has(key))) return MATCH_WEIGHTS.synonym * penalty;
+  if (term.keys.some(key => key.length >= 3 && text.includes(key))) return MATCH_WEIGHTS.partial * penalty;
+
+  // Misspelled names/services that aren't in the treatment vocabulary
+  const maxDistance = allowedEdits(ownKey);
+  if (maxDistance > 0) {
+    for (const key of Array.from(keys)) {
+      if (editDistance(ownKey, key, maxDistance) <= maxDistance) return MATCH_WEIGHTS.fuzzy;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Score how well a clinic matches every term of a query
+ *
+ * @param clinic - The clinic to score
+ * @param parsed - The parsed query
+ * @returns Relevance from 0-100, or 0 when any term has no match
+ */
+export function scoreClinic(clinic: Clinic, parsed: ParsedQuery): number {
+  if (parsed.terms.length === 0) return 100;
+
+  const keys = clinicKeys(clinic);
+  keys.add(normalizeTermKey(clinic.name));
+  clinic.name.split(/\s+/).forEach(word => keys.add(normalizeTermKey(word)));
+  const text = normalizeTermKey([clinic.name, ...(clinic.services || [])].join(' '));
+
+  let total = 0;
+  for (const term of parsed.terms) {
+    const score = scoreTerm(term, keys, text);
+    if (score === 0) return 0;
+    total += score;
+  }
+
+  return Math.round((total / parsed.terms.length) * 100);
+}
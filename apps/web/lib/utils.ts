@@ -241,6 +241,7 @@ export const serviceCategoryMap: Record<string, string> = {
   'weightloss': 'weight-loss-metabolic',
   'weight-loss': 'weight-loss-metabolic',
   'weight-management': 'weight-loss-metabolic',
+  'peptides': 'peptides-performance',
   'peptide-therapy': 'peptides-performance',
   'iv-therapy': 'iv-injection-therapy',
   'iv': 'iv-injection-therapy',
@@ -1,7 +1,22 @@
+const fs = require('fs');
+const path = require('path');
+
+// Import parsing, treatment patterns, clinic history diffs, cron and job parameter checks are shared
+// with the worker and compiled from apps/worker/utils (externalDir), so the web app has to be built
+// from a checkout of the whole repo - see "Deployment" in the root README
+const sharedWorkerUtils = path.join(__dirname, '../worker/utils');
+if (!fs.existsSync(sharedWorkerUtils)) {
+  throw new Error(
+    `${sharedWorkerUtils} not found: build apps/web from the repo root ` +
+    '(on Vercel, deploy from the repo root with the project\'s Root Directory set to apps/web)'
+  );
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Exclude worker app from build
   transpilePackages: [],
+  // Lets pages import the shared modules in ../worker/utils
   experimental: {
     externalDir: true
   },
@@ -8,6 +8,7 @@ import Breadcrumbs from '../../../../components/Breadcrumbs';
 import TierBadge from '../../../../components/TierBadge';
 import StructuredData from '../../../../components/StructuredData';
 import TrackedPhoneLink from '../../../../components/TrackedPhoneLink';
+import ClinicHours from '../../../../components/ClinicHours';
 import SeoContentSection from '../../../../components/SeoContentSection';
 import { VisibleFAQSection } from '../../../../components/VisibleFAQSection';
 // Service categories data
@@ -64,6 +65,7 @@ const Map = dynamic(() => import('../../../../components/Map'), {
 
 // Import our helper function for creating clinic URLs
 import { createClinicUrlPath } from '../../../../lib/utils';
+import { getClinicRedirect } from '../../../../lib/api/clinicService';
 
 interface ClinicDetailPageProps {
   categoryInfo: {
@@ -415,6 +417,13 @@ export default function ClinicDetailPage({
                 </a>
               </div>
               
+              {(clinic.schedule || clinic.hours?.length > 0) && (
+                <div className="glass-card p-6 mb-6">
+                  <h3 className="text-lg font-semibold text-white mb-2">Hours</h3>
+                  <ClinicHours schedule={clinic.schedule} hours={clinic.hours} />
+                </div>
+              )}
+              
               {/* Map */}
               {clinic.lat && clinic.lng && (
                 <div className="h-96 rounded-xl overflow-hidden">
@@ -515,6 +524,18 @@ export const getStaticProps: GetStaticProps = async ({ params }) => {
     return { notFound: true };
   }
   
+  // Clinics retired by a merge permanently redirect to the clinic they were merged into
+  // (a failed lookup is logged by the service and falls through to the 404)
+  const mergedInto = await getClinicRedirect(clinicSlug).catch(() => null);
+  if (mergedInto) {
+    return {
+      redirect: {
+        destination: createClinicUrlPath(category, mergedInto),
+        permanent: true
+      }
+    };
+  }
+  
   // Since we're removing mock data, return 404 for now
   // This will need to be replaced with actual Firebase queries
   return { notFound: true };
@@ -1,9 +1,10 @@
-import { GetStaticPaths, GetStaticProps } from 'next';
+import { GetServerSideProps } from 'next';
 import Head from 'next/head';
 import Link from 'next/link';
-import { useRouter } from 'next/router';
 import dynamic from 'next/dynamic';
 import Breadcrumbs from '../../../../components/Breadcrumbs';
+import { searchClinicPage, SEARCH_CACHE_CONTROL } from '../../../../lib/clinicSearch';
+import { ExtendedClinic } from '../../../../types';
 // Service categories data
 const serviceCategories = [
   {
@@ -44,7 +45,8 @@ import {
   groupClinicsByState, 
   groupClinicsByCity,
   getCategoryById, 
-  getStateFullName 
+  getStateFullName,
+  serviceCategoryMap
 } from '../../../../lib/utils';
 
 // Dynamic import for the Map component to avoid SSR issues with Leaflet
@@ -56,6 +58,9 @@ const Map = dynamic(() => import('../../../../components/Map'), {
 // Import our helper function for creating clinic URLs
 import { createClinicUrlPath } from '../../../../lib/utils';
 
+// Clinics listed per page
+const CITY_PAGE_SIZE = 20;
+
 interface CityPageProps {
   categoryInfo: {
     id: string;
@@ -68,16 +73,11 @@ interface CityPageProps {
     city: string;
   };
   clinics: any[];
+  total: number | null; // Null when the search couldn't count matches
+  nextCursor: string | null; // Cursor for the next page of clinics
 }
 
-export default function CityPage({ categoryInfo, locationInfo, clinics }: CityPageProps) {
-  const router = useRouter();
-  
-  // Handle fallback page case
-  if (router.isFallback) {
-    return <div className="container mx-auto px-4 py-8">Loading...</div>;
-  }
-
+export default function CityPage({ categoryInfo, locationInfo, clinics, total, nextCursor }: CityPageProps) {
   return (
     <>
       <Head>
@@ -154,7 +154,7 @@ export default function CityPage({ categoryInfo, locationInfo, clinics }: CityPa
             
             <div className="mb-8">
               <h2 className="text-2xl font-bold mb-6">
-                {categoryInfo.title} Clinics in {locationInfo.city} ({clinics.length})
+                {categoryInfo.title} Clinics in {locationInfo.city} ({total ?? clinics.length})
               </h2>
               
               {/* Results list */}
@@ -189,7 +189,7 @@ export default function CityPage({ categoryInfo, locationInfo, clinics }: CityPa
                       <div className="flex items-center my-2">
                         <div className="flex text-yellow-400">
                           {[1, 2, 3, 4, 5].map((star) => (
-                            <svg key={star} className="w-4 h-4" fill={star <= clinic.rating ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 20 20">
+                            <svg key={star} className="w-4 h-4" fill={star <= (clinic.rating || 0) ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 20 20">
                               <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                             </svg>
                           ))}
@@ -232,6 +232,14 @@ export default function CityPage({ categoryInfo, locationInfo, clinics }: CityPa
               );
             })}
           </div>
+          
+          {nextCursor && (
+            <div className="mt-6 text-center">
+              <Link href={`?cursor=${encodeURIComponent(nextCursor)}`} rel="next" className="btn inline-block">
+                More {categoryInfo.title} Clinics
+              </Link>
+            </div>
+          )}
         </div>
           </>
         )}
@@ -279,36 +287,8 @@ export default function CityPage({ categoryInfo, locationInfo, clinics }: CityPa
   );
 }
 
-export const getStaticPaths: GetStaticPaths = async () => {
-  // Generate a limited set of paths initially
-  // The rest will be generated on-demand with fallback: 'blocking'
-  const paths: { params: { category: string; state: string; city: string } }[] = [];
-
-  // For simplicity, we'll just pre-generate a few common city paths
-  const topCities = [
-    { city: 'Austin', state: 'TX' },
-    { city: 'Dallas', state: 'TX' },
-    { city: 'Houston', state: 'TX' }];
-
-  // For each category and top city
-  serviceCategories.forEach((category) => {
-    const categorySlug = slugify(category.id);
-    
-    topCities.forEach(({ city, state }) => {
-      paths.push({
-        params: {
-          category: categorySlug,
-          state: slugify(state),
-          city: slugify(city)}});
-    });
-  });
-
-  return {
-    paths,
-    fallback: 'blocking'};
-};
-
-export const getStaticProps: GetStaticProps = async ({ params }) => {
+// Rendered on each request (and cached) through the same search as /search, so listings stay current
+export const getServerSideProps: GetServerSideProps<CityPageProps> = async ({ params, query, res }) => {
   const categorySlug = params?.category as string;
   const stateSlug = params?.state as string;
   const citySlug = params?.city as string;
@@ -323,12 +303,35 @@ export const getStaticProps: GetStaticProps = async ({ params }) => {
     return { notFound: true };
   }
   
-  // Since we're removing mock data, return empty clinic data
-  const sortedClinics: any[] = [];
   const matchingState = stateSlug.toUpperCase();
   const matchingCity = citySlug.split('-').map(word => 
     word.charAt(0).toUpperCase() + word.slice(1)
   ).join(' ');
+  
+  let clinics: ExtendedClinic[] = [];
+  let total: number | null = 0;
+  let nextCursor: string | null = null;
+  
+  try {
+    const { page } = await searchClinicPage(
+      {
+        categories: [serviceCategoryMap[categoryData.id] || categoryData.id],
+        states: [matchingState],
+        city: matchingCity
+      },
+      {
+        cursor: typeof query.cursor === 'string' ? query.cursor : null,
+        pageSize: CITY_PAGE_SIZE
+      }
+    );
+    clinics = page.clinics;
+    total = page.total;
+    nextCursor = page.nextCursor;
+    res.setHeader('Cache-Control', SEARCH_CACHE_CONTROL);
+  } catch (error) {
+    // Render the page without listings rather than failing it
+    console.error('Error loading city clinics:', error);
+  }
 
   return {
     props: {
@@ -340,7 +343,7 @@ export const getStaticProps: GetStaticProps = async ({ params }) => {
         stateCode: matchingState,
         stateFullName: getStateFullName(matchingState),
         city: matchingCity},
-      clinics: sortedClinics},
-    // Revalidate every day
-    revalidate: 86400};
-};
\ No newline at end of file
+      clinics,
+      total,
+      nextCursor}};
+};
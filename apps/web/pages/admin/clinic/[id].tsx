@@ -14,9 +14,11 @@ import ClinicHeader from './components/ClinicHeader';
 import ClinicTabs from './components/ClinicTabs';
 import ClinicInfoSection from './components/ClinicInfoSection';
 import BillingHistory from './components/BillingHistory';
+import GroupBillingPanel from './components/GroupBillingPanel';
 import TrafficEngagementMetrics from './components/TrafficEngagementMetrics';
 import CommunicationLog from './components/CommunicationLog';
 import AdminNotes from './components/AdminNotes';
+import ClinicHistory from './components/ClinicHistory';
 import SnapshotEditor from '../../../components/admin/clinic/SnapshotEditor';
 import AnalyticsPanel from '../../../components/admin/AnalyticsPanel';
 import ExternalReviewsManager from '../../../components/admin/clinic/ExternalReviewsManager';
@@ -82,12 +84,17 @@ const ClinicDetailPage: React.FC = () => {
         );
       case 'billing':
         return (
-          <BillingHistory 
-            billingData={billingData} 
-            clinic={clinic} 
-            loading={billingLoading}
-            refreshData={refreshData}
-          />
+          <div className="space-y-6">
+            {clinic.groupId && (
+              <GroupBillingPanel clinic={clinic} refreshData={refreshData} />
+            )}
+            <BillingHistory 
+              billingData={billingData} 
+              clinic={clinic} 
+              loading={billingLoading}
+              refreshData={refreshData}
+            />
+          </div>
         );
       case 'traffic':
         return (
@@ -130,6 +137,13 @@ const ClinicDetailPage: React.FC = () => {
             refreshData={refreshData}
           />
         );
+      case 'history':
+        return (
+          <ClinicHistory 
+            clinic={clinic} 
+            refreshData={refreshData}
+          />
+        );
       default:
         return <ClinicInfoSection clinic={clinic} />;
     }
@@ -8,8 +8,9 @@ import {
 } from '@heroicons/react/24/outline';
 import { BillingData } from '../../../../utils/hooks/useBilling';
 import { Clinic } from '../../../../utils/hooks/useClinic';
-import { updateDoc, doc, collection, addDoc, Timestamp } from 'firebase/firestore';
+import { collection, addDoc, Timestamp } from 'firebase/firestore';
 import { db } from '../../../../lib/firebase';
+import { updateClinicWithHistory } from '../../../../lib/api/clinicHistoryService';
 
 interface BillingHistoryProps {
   billingData: BillingData;
@@ -96,11 +97,11 @@ const BillingHistory: React.FC<BillingHistoryProps> = ({
       
       // Update clinic package tier
       if (clinic.id) {
-        await updateDoc(doc(db, 'clinics', clinic.id), {
+        await updateClinicWithHistory(clinic.id, {
           packageTier: packageOption.name,
           status: 'active', // Ensure it's active when upgrading
           updatedAt: Timestamp.fromDate(now)
-        });
+        }, { action: 'billing' });
       }
       
       // Log admin action
@@ -147,10 +148,10 @@ const BillingHistory: React.FC<BillingHistoryProps> = ({
       
       // Update clinic status
       if (clinic.id) {
-        await updateDoc(doc(db, 'clinics', clinic.id), {
+        await updateClinicWithHistory(clinic.id, {
           status: 'canceled',
           updatedAt: Timestamp.fromDate(now)
-        });
+        }, { action: 'billing' });
       }
       
       // Log admin action
@@ -183,10 +184,10 @@ const BillingHistory: React.FC<BillingHistoryProps> = ({
       
       // Update clinic status
       if (clinic.id) {
-        await updateDoc(doc(db, 'clinics', clinic.id), {
+        await updateClinicWithHistory(clinic.id, {
           status: 'active',
           updatedAt: Timestamp.fromDate(now)
-        });
+        }, { action: 'billing' });
       }
       
       // Log admin action
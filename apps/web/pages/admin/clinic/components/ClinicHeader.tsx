@@ -8,8 +8,9 @@ import {
   PhoneIcon,
   GlobeAltIcon
 } from '@heroicons/react/24/outline';
-import { doc, updateDoc, collection, addDoc } from 'firebase/firestore';
+import { collection, addDoc } from 'firebase/firestore';
 import { db } from '../../../../lib/firebase';
+import { updateClinicWithHistory } from '../../../../lib/api/clinicHistoryService';
 import { Clinic } from '../../../../utils/hooks/useClinic';
 import TagsEditor from './TagsEditor';
 
@@ -67,7 +68,7 @@ const ClinicHeader: React.FC<ClinicHeaderProps> = ({
     try {
       const newStatus = (clinic.status === 'active' || !clinic.status) ? 'paused' : 'active';
       if (clinic.id) {
-        await updateDoc(doc(db, 'clinics', clinic.id), { status: newStatus });
+        await updateClinicWithHistory(clinic.id, { status: newStatus }, { action: 'status' });
       }
       
       // Also log this action
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ClockIcon, ArrowUturnLeftIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { collection, addDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../../../../lib/firebase';
+import { Clinic } from '../../../../utils/hooks/useClinic';
+import { useClinicHistory } from '../../../../utils/hooks/useClinicHistory';
+import { restoreClinicVersion } from '../../../../lib/api/clinicHistoryService';
+import { ClinicChangeEntry } from '../../../../types';
+
+interface ClinicHistoryProps {
+  clinic: Clinic;
+  refreshData: () => void;
+}
+
+const SOURCE_STYLES: Record<ClinicChangeEntry['source'], string> = {
+  ui: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  worker: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  import: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200'
+};
+
+const toDate = (value: ClinicChangeEntry['changedAt']) => {
+  return value instanceof Date ? value : value.toDate();
+};
+
+const formatValue = (value: any): string => {
+  if (value === undefined) return '(not set)';
+  if (value && typeof value.toDate === 'function') return value.toDate().toLocaleString();
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+const ClinicHistory: React.FC<ClinicHistoryProps> = ({ clinic, refreshData }) => {
+  const { entries, loading, refresh } = useClinicHistory(clinic.id);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const handleRestore = async (entry: ClinicChangeEntry) => {
+    if (!clinic.id) return;
+    const when = toDate(entry.changedAt).toLocaleString();
+    if (!confirm(`Restore this clinic to how it was after the change on ${when}? Later changes will be undone.`)) {
+      return;
+    }
+
+    setRestoringId(entry.id);
+    try {
+      const fields = await restoreClinicVersion(clinic.id, entry.id);
+
+      if (fields.length === 0) {
+        alert('The clinic already matches this version.');
+        return;
+      }
+
+      await addDoc(collection(db, 'admin_logs'), {
+        clinicId: clinic.id,
+        timestamp: Timestamp.now(),
+        actionType: 'clinic_restore',
+        adminId: 'current_admin', // Replace with actual admin ID
+        adminName: 'Admin User', // Replace with actual admin name
+        details: {
+          restoredFrom: entry.id,
+          fields
+        }
+      });
+
+      await refresh();
+      refreshData();
+    } catch (error) {
+      console.error('Error restoring clinic version:', error);
+      alert('Failed to restore this version. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+          <ClockIcon className="h-5 w-5 text-blue-600 dark:text-blue-400 mr-2" />
+          Change History
+        </h2>
+        <button
+          onClick={refresh}
+          className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <ArrowPathIcon className="h-4 w-4 mr-1" />
+          Refresh
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4 animate-pulse">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+          No changes have been recorded for this clinic yet.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry, index) => (
+            <li key={entry.id} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+              <div className="flex items-center justify-between p-4">
+                <button
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  className="flex-1 text-left"
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${SOURCE_STYLES[entry.source] || SOURCE_STYLES.ui}`}>
+                      {entry.source}
+                    </span>
+                    {entry.action && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{entry.action}</span>
+                    )}
+                    <span className="text-sm text-gray-700 dark:text-gray-300">{entry.actor}</span>
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {toDate(entry.changedAt).toLocaleString()} &middot; {entry.fields.join(', ')}
+                  </p>
+                </button>
+                {index > 0 && (
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    disabled={restoringId !== null}
+                    className="ml-4 flex items-center px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                    {restoringId === entry.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+
+              {expandedId === entry.id && (
+                <div className="border-t border-gray-200 dark:border-gray-700 p-4 space-y-4">
+                  {entry.fields.map(field => (
+                    <div key={field}>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white mb-1">{field}</p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        <pre className="text-xs whitespace-pre-wrap break-all p-2 rounded bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200">
+                          {formatValue(entry.changes[field]?.before)}
+                        </pre>
+                        <pre className="text-xs whitespace-pre-wrap break-all p-2 rounded bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200">
+                          {formatValue(entry.changes[field]?.after)}
+                        </pre>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+        Restoring undoes every later change to the fields they touched. The restore itself is recorded, so it can be undone too.
+      </p>
+    </div>
+  );
+};
+
+export default ClinicHistory;
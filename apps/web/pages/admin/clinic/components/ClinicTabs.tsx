@@ -7,7 +7,8 @@ import {
   ChatBubbleLeftRightIcon, 
   ClipboardDocumentListIcon,
   ChatBubbleBottomCenterTextIcon,
-  DocumentTextIcon 
+  DocumentTextIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline';
 
 interface ClinicTabsProps {
@@ -30,7 +31,8 @@ const ClinicTabs: React.FC<ClinicTabsProps> = ({
     { id: 'reviews', label: 'Reviews', icon: <ChatBubbleBottomCenterTextIcon className="w-5 h-5" /> },
     { id: 'content', label: 'Content', icon: <DocumentTextIcon className="w-5 h-5" /> },
     { id: 'comms', label: 'Communication', icon: <ChatBubbleLeftRightIcon className="w-5 h-5" /> },
-    { id: 'logs', label: 'Logs', icon: <ClipboardDocumentListIcon className="w-5 h-5" /> }];
+    { id: 'logs', label: 'Logs', icon: <ClipboardDocumentListIcon className="w-5 h-5" /> },
+    { id: 'history', label: 'History', icon: <ClockIcon className="w-5 h-5" /> }];
 
   const getActiveTabLabel = () => {
     const tab = tabs.find(tab => tab.id === activeTab);
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { BuildingOffice2Icon } from '@heroicons/react/24/outline';
+import { collection, addDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../../../../lib/firebase';
+import { Clinic } from '../../../../utils/hooks/useClinic';
+import { useClinicGroup } from '../../../../utils/hooks/useClinicGroup';
+import { getGroupBilling, updateGroupBilling } from '../../../../lib/api/clinicGroupService';
+import { isCoveredByGroupPlan } from '../../../../utils/clinicGroupUtils';
+import { getTierDisplayName } from '../../../../utils/tierUtils';
+import { ClinicGroupBilling } from '../../../../types';
+
+interface GroupBillingPanelProps {
+  clinic: Clinic;
+  refreshData: () => void;
+}
+
+const TIER_OPTIONS: ClinicGroupBilling['tier'][] = ['free', 'standard', 'advanced'];
+
+const GroupBillingPanel: React.FC<GroupBillingPanelProps> = ({ clinic, refreshData }) => {
+  const { group, locations, loading, refresh } = useClinicGroup(clinic.groupId, false);
+  const [billing, setBilling] = useState<ClinicGroupBilling | null>(null);
+  const [tier, setTier] = useState<ClinicGroupBilling['tier']>('advanced');
+  const [locationLimit, setLocationLimit] = useState(1);
+  const [submitting, setSubmitting] = useState(false);
+
+  // The plan is admin-only, so it isn't part of the public group document
+  useEffect(() => {
+    if (!group) return;
+    getGroupBilling(group.id)
+      .then(setBilling)
+      .catch(error => console.error('Error fetching group plan:', error));
+  }, [group]);
+
+  useEffect(() => {
+    if (billing) {
+      setTier(billing.tier);
+      setLocationLimit(billing.locationLimit);
+    } else if (locations.length > 0) {
+      setLocationLimit(locations.length);
+    }
+  }, [billing, locations.length]);
+
+  if (loading || !group) {
+    return null;
+  }
+
+  const isActive = billing?.status === 'active';
+  const coversThisClinic = isCoveredByGroupPlan(clinic, billing);
+
+  const savePlan = async (status: ClinicGroupBilling['status']) => {
+    setSubmitting(true);
+    try {
+      const saved = await updateGroupBilling(group.id, { tier, locationLimit, status });
+      setBilling(saved);
+
+      await addDoc(collection(db, 'admin_logs'), {
+        clinicId: clinic.id || '',
+        groupId: group.id,
+        timestamp: Timestamp.now(),
+        actionType: status === 'active' ? 'group_plan_change' : 'group_plan_cancel',
+        adminId: 'current_admin', // Replace with actual admin ID
+        adminName: 'Admin User', // Replace with actual admin name
+        details: {
+          oldPlan: billing ? `${billing.tier} x${billing.locationLimit} (${billing.status})` : 'none',
+          newPlan: `${tier} x${locationLimit} (${status})`,
+          coveredLocations: saved.coveredClinicIds.length
+        }
+      });
+
+      await refresh();
+      refreshData();
+    } catch (error) {
+      console.error('Error updating group plan:', error);
+      alert('Failed to update the group plan. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+          <BuildingOffice2Icon className="h-5 w-5 text-blue-600 dark:text-blue-400 mr-2" />
+          Group Plan: {group.name}
+        </h2>
+        <Link href={`/brand/${group.slug}`}>
+          <span className="text-sm text-blue-600 dark:text-blue-400 hover:underline cursor-pointer">
+            View brand page
+          </span>
+        </Link>
+      </div>
+
+      <div className="bg-blue-50 dark:bg-blue-900/30 rounded-lg p-5 border border-blue-100 dark:border-blue-800 mb-6">
+        {billing && isActive ? (
+          <>
+            <p className="text-gray-900 dark:text-white font-medium">
+              {getTierDisplayName(billing.tier)} plan covering {billing.coveredClinicIds.length} of {billing.locationLimit} paid locations
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+              {coversThisClinic
+                ? 'This location is covered by the group plan.'
+                : 'This location is not covered - raise the location limit to include it.'}
+            </p>
+          </>
+        ) : (
+          <p className="text-gray-600 dark:text-gray-300">
+            No active group plan. Each of the {locations.length} locations is billed on its own.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tier</label>
+          <select
+            value={tier}
+            onChange={(e) => setTier(e.target.value as ClinicGroupBilling['tier'])}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {TIER_OPTIONS.map(option => (
+              <option key={option} value={option}>{getTierDisplayName(option)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Locations covered ({locations.length} in group)
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={locationLimit}
+            onChange={(e) => setLocationLimit(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => savePlan('active')}
+            disabled={submitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isActive ? 'Update Plan' : 'Start Plan'}
+          </button>
+          {isActive && (
+            <button
+              onClick={() => savePlan('canceled')}
+              disabled={submitting}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+        The oldest active locations are covered first. Locations that drop out of the plan go back to their own tier.
+      </p>
+    </div>
+  );
+};
+
+export default GroupBillingPanel;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { XCircleIcon, XMarkIcon, PlusIcon } from '@heroicons/react/24/outline';
-import { doc, updateDoc, arrayUnion, arrayRemove, collection, addDoc } from 'firebase/firestore';
+import { arrayUnion, arrayRemove, collection, addDoc } from 'firebase/firestore';
 import { db } from '../../../../lib/firebase';
+import { updateClinicWithHistory } from '../../../../lib/api/clinicHistoryService';
 import { Clinic } from '../../../../utils/hooks/useClinic';
 
 interface TagsEditorProps {
@@ -57,9 +58,9 @@ const TagsEditor: React.FC<TagsEditorProps> = ({
     try {
       // Update Firestore
       if (clinic.id) {
-        await updateDoc(doc(db, 'clinics', clinic.id), {
+        await updateClinicWithHistory(clinic.id, {
           tags: arrayUnion(formattedTag)
-        });
+        }, { action: 'tags' });
       }
       
       // Log the action
@@ -91,9 +92,9 @@ const TagsEditor: React.FC<TagsEditorProps> = ({
     try {
       // Update Firestore
       if (clinic.id) {
-        await updateDoc(doc(db, 'clinics', clinic.id), {
+        await updateClinicWithHistory(clinic.id, {
           tags: arrayRemove(tagToRemove)
-        });
+        }, { action: 'tags' });
       }
       
       // Log the action
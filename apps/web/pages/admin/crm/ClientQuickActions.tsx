@@ -7,8 +7,7 @@ import {
   TagIcon,
   EllipsisHorizontalIcon
 } from '@heroicons/react/24/outline';
-import { updateDoc, doc } from 'firebase/firestore';
-import { db } from '../../../lib/firebase';
+import { updateClinicWithHistory } from '../../../lib/api/clinicHistoryService';
 import { Clinic } from '../../../types';
 
 interface ClientQuickActionsProps {
@@ -39,7 +38,7 @@ const ClientQuickActions: React.FC<ClientQuickActionsProps> = ({
     try {
       const newStatus = clinic.status === 'active' ? 'paused' : 'active';
       if (!clinic.id) throw new Error('Clinic ID is required');
-      await updateDoc(doc(db, 'clinics', clinic.id), { status: newStatus });
+      await updateClinicWithHistory(clinic.id, { status: newStatus }, { action: 'status' });
       onStatusChange(clinic, newStatus);
       refreshData();
     } catch (error) {
@@ -60,7 +59,7 @@ const ClientQuickActions: React.FC<ClientQuickActionsProps> = ({
 
     try {
       if (!clinic.id) throw new Error('Clinic ID is required');
-      await updateDoc(doc(db, 'clinics', clinic.id), { tags: newTags });
+      await updateClinicWithHistory(clinic.id, { tags: newTags }, { action: 'tags' });
       onTagsChange(clinic, newTags);
       refreshData();
     } catch (error) {
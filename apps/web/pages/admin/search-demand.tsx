@@ -0,0 +1,211 @@
+import React from 'react';
+import Link from 'next/link';
+import AdminLayout from '../../components/admin/AdminLayout';
+import ProtectedRoute from '../../components/ProtectedRoute';
+import useSearchDemandReport from '../../utils/hooks/useSearchDemandReport';
+import { ArrowPathIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+import { SearchDemandReport } from '../../types';
+
+function formatGeneratedAt(value: SearchDemandReport['generatedAt']): string {
+  const date = value instanceof Date ? value : value.toDate();
+  return date.toLocaleString();
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+const SearchDemandPanel: React.FC = () => {
+  const { report, loading, error, refresh } = useSearchDemandReport();
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-900 bg-opacity-20 border border-red-700 text-red-400 rounded-md flex items-start">
+        <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+        <p>Failed to load the search demand report: {error.message}</p>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="bg-[#111111] rounded-lg border border-[#222222] p-8 text-center text-gray-400">
+        <p>No search demand report yet.</p>
+        <p className="text-sm mt-2">
+          The worker builds it daily from logged searches. Run <code className="text-gray-300">npm run worker search-demand</code> to build it now.
+        </p>
+      </div>
+    );
+  }
+
+  const zeroResultRate = report.totals.searches > 0
+    ? report.totals.zeroResultSearches / report.totals.searches
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-gray-400">
+          Last {report.periodDays} days, generated {formatGeneratedAt(report.generatedAt)}
+        </p>
+        <button
+          onClick={refresh}
+          className="mt-3 sm:mt-0 px-4 py-2 bg-[#222222] text-gray-300 rounded-md hover:bg-[#333333] transition-colors inline-flex items-center"
+        >
+          <ArrowPathIcon className="h-5 w-5 mr-2" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Searches', value: report.totals.searches.toLocaleString() },
+          { label: 'Result Clicks', value: report.totals.clicks.toLocaleString() },
+          { label: 'Zero-Result Searches', value: `${report.totals.zeroResultSearches.toLocaleString()} (${formatRate(zeroResultRate)})` },
+          { label: 'Sessions', value: report.totals.sessions.toLocaleString() }
+        ].map(stat => (
+          <div key={stat.label} className="bg-[#111111] rounded-lg border border-[#222222] p-4">
+            <p className="text-sm text-gray-400">{stat.label}</p>
+            <p className="text-2xl font-bold mt-1">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Top queries */}
+        <div className="bg-[#111111] rounded-lg border border-[#222222] p-6">
+          <h2 className="text-lg font-bold mb-4">Top Queries</h2>
+          {report.topQueries.length === 0 ? (
+            <p className="text-gray-400 text-sm">No text searches in this period.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-[#222222]">
+                  <th className="py-2">Query</th>
+                  <th className="py-2 text-right">Searches</th>
+                  <th className="py-2 text-right">Clicks</th>
+                  <th className="py-2 text-right">No Results</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.topQueries.map(row => (
+                  <tr key={row.query} className="border-b border-[#222222]">
+                    <td className="py-2">{row.query}</td>
+                    <td className="py-2 text-right">{row.searches}</td>
+                    <td className="py-2 text-right">{row.clicks}</td>
+                    <td className={`py-2 text-right ${row.zeroResultSearches > 0 ? 'text-yellow-400' : 'text-gray-500'}`}>
+                      {row.zeroResultSearches}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Zero-result queries */}
+        <div className="bg-[#111111] rounded-lg border border-[#222222] p-6">
+          <h2 className="text-lg font-bold mb-4">Zero-Result Queries</h2>
+          {report.zeroResultQueries.length === 0 ? (
+            <p className="text-gray-400 text-sm">Every search found at least one clinic.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-[#222222]">
+                  <th className="py-2">Query</th>
+                  <th className="py-2 text-right">Searches</th>
+                  <th className="py-2 pl-4">Cities</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.zeroResultQueries.map(row => (
+                  <tr key={row.query} className="border-b border-[#222222]">
+                    <td className="py-2">{row.query}</td>
+                    <td className="py-2 text-right">{row.searches}</td>
+                    <td className="py-2 pl-4 text-gray-400">{row.cities.join('; ') || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Click-through by position */}
+        <div className="bg-[#111111] rounded-lg border border-[#222222] p-6">
+          <h2 className="text-lg font-bold mb-1">Click-Through by Position</h2>
+          <p className="text-gray-400 text-sm mb-4">Clicks on each result position, out of the searches that showed that many results</p>
+          {report.clickThroughByPosition.length === 0 ? (
+            <p className="text-gray-400 text-sm">No results were shown in this period.</p>
+          ) : (
+            <div className="space-y-2">
+              {report.clickThroughByPosition.map(row => (
+                <div key={row.position} className="flex items-center text-sm">
+                  <span className="w-8 text-gray-400">#{row.position}</span>
+                  <div className="flex-1 h-3 bg-gray-800 rounded-full overflow-hidden mx-3">
+                    <div className="h-full bg-primary" style={{ width: `${Math.min(row.rate * 100, 100)}%` }}></div>
+                  </div>
+                  <span className="w-16 text-right">{formatRate(row.rate)}</span>
+                  <span className="w-20 text-right text-gray-500">{row.clicks} clicks</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Unmet demand by city */}
+        <div className="bg-[#111111] rounded-lg border border-[#222222] p-6">
+          <h2 className="text-lg font-bold mb-1">Unmet Demand by City</h2>
+          <p className="text-gray-400 text-sm mb-4">
+            Where searches most often find nothing - candidates for <Link href="/admin/discovery" className="text-primary hover:underline">discovery</Link> and sales outreach
+          </p>
+          {report.unmetDemandByCity.length === 0 ? (
+            <p className="text-gray-400 text-sm">No zero-result searches with a known location.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-[#222222]">
+                  <th className="py-2">City</th>
+                  <th className="py-2 text-right">No Results</th>
+                  <th className="py-2 text-right">Searches</th>
+                  <th className="py-2 pl-4">Looking For</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.unmetDemandByCity.map(row => (
+                  <tr key={`${row.city}-${row.state}`} className="border-b border-[#222222]">
+                    <td className="py-2">{row.city}, {row.state}</td>
+                    <td className="py-2 text-right text-yellow-400">{row.zeroResultSearches}</td>
+                    <td className="py-2 text-right">{row.searches}</td>
+                    <td className="py-2 pl-4 text-gray-400">{row.topQueries.join(', ') || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SearchDemandPage: React.FC = () => {
+  return (
+    <ProtectedRoute adminOnly>
+      <AdminLayout title="Search Demand">
+        <SearchDemandPanel />
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default SearchDemandPage;
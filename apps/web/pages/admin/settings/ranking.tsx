@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import AdminLayout from '../../../components/admin/AdminLayout';
+import ProtectedRoute from '../../../components/ProtectedRoute';
+import { useAuth } from '../../../lib/contexts/authContext';
+import { getRankingWeights, saveRankingWeights } from '../../../lib/api/rankingSettingsService';
+import {
+  DEFAULT_RANKING_WEIGHTS,
+  MAX_RANKING_WEIGHT,
+  RANKING_FACTORS,
+  RANKING_FACTOR_LABELS
+} from '../../../lib/ranking';
+import { RankingWeights } from '../../../types';
+
+const RankingSettingsPanel: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [weights, setWeights] = useState<RankingWeights | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    getRankingWeights(true).then(setWeights);
+  }, []);
+
+  const handleSave = async () => {
+    if (!weights) return;
+
+    try {
+      setSaving(true);
+      setMessage(null);
+      await saveRankingWeights(weights, currentUser?.email);
+      setMessage({ type: 'success', text: 'Ranking weights saved. Search picks them up within a minute.' });
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to save ranking weights' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!weights) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="animate-pulse space-y-4">
+          {[...Array(8)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-800 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const totalWeight = RANKING_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-8">
+        <p className="text-gray-400">
+          Each search result is scored 0-100 from these factors. A weight sets how much a factor counts
+          relative to the others; 0 turns it off. Relevance only applies to text searches and distance only
+          when a location is searched. Admins can see each result&apos;s breakdown on the search page.
+        </p>
+      </div>
+
+      <div className="bg-[#111111] rounded-lg border border-[#222222] shadow-lg p-6 space-y-6">
+        {RANKING_FACTORS.map(factor => (
+          <div key={factor}>
+            <div className="flex items-center justify-between mb-1">
+              <div>
+                <div className="font-medium text-white">{RANKING_FACTOR_LABELS[factor].label}</div>
+                <div className="text-sm text-gray-400">{RANKING_FACTOR_LABELS[factor].description}</div>
+              </div>
+              <div className="text-right">
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_RANKING_WEIGHT}
+                  step={0.5}
+                  value={weights[factor]}
+                  onChange={(e) => setWeights({ ...weights, [factor]: Number(e.target.value) || 0 })}
+                  className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-right"
+                />
+                <div className="text-xs text-gray-500 mt-1">
+                  {totalWeight > 0 ? Math.round((weights[factor] / totalWeight) * 100) : 0}% of the score
+                </div>
+              </div>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_RANKING_WEIGHT}
+              step={0.5}
+              value={weights[factor]}
+              onChange={(e) => setWeights({ ...weights, [factor]: Number(e.target.value) })}
+              className="w-full accent-primary"
+            />
+          </div>
+        ))}
+      </div>
+
+      {message && (
+        <div className={`mt-4 p-3 rounded-md border ${
+          message.type === 'success'
+            ? 'bg-green-900 bg-opacity-20 border-green-700 text-green-400'
+            : 'bg-red-900 bg-opacity-20 border-red-700 text-red-400'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end gap-3">
+        <button
+          onClick={() => setWeights({ ...DEFAULT_RANKING_WEIGHTS })}
+          className="px-4 py-2 bg-[#222222] text-gray-300 rounded-md hover:bg-[#333333] transition-colors"
+        >
+          Reset to Defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className={`px-4 py-2 rounded-md ${
+            saving ? 'bg-gray-800 text-gray-400 cursor-not-allowed' : 'bg-primary hover:bg-primary-dark text-white'
+          }`}
+        >
+          {saving ? 'Saving...' : 'Save Weights'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const RankingSettingsPage: React.FC = () => {
+  return (
+    <ProtectedRoute adminOnly>
+      <AdminLayout title="Search Ranking">
+        <RankingSettingsPanel />
+      </AdminLayout>
+    </ProtectedRoute>
+  );
+};
+
+export default RankingSettingsPage;
@@ -3,7 +3,8 @@ import {
   CheckIcon, 
   TagIcon, 
   DocumentArrowDownIcon,
-  EllipsisHorizontalIcon 
+  EllipsisHorizontalIcon,
+  ArrowsPointingInIcon
 } from '@heroicons/react/24/solid';
 import { ALL_TAGS } from '../../../../utils/hooks/useValidationQueue';
 
@@ -13,6 +14,7 @@ interface BulkValidationControlsProps {
   onBulkAddTag: (tag: string) => void;
   onBulkRemoveTag: (tag: string) => void;
   onExportCsv: () => void;
+  onMerge: () => void;
   disabled?: boolean;
 }
 
@@ -22,6 +24,7 @@ const BulkValidationControls: React.FC<BulkValidationControlsProps> = ({
   onBulkAddTag,
   onBulkRemoveTag,
   onExportCsv,
+  onMerge,
   disabled = false
 }) => {
   const [showTagMenu, setShowTagMenu] = useState(false);
@@ -65,6 +68,17 @@ const BulkValidationControls: React.FC<BulkValidationControlsProps> = ({
         Validate All
       </button>
 
+      {/* Merge Button - exactly two clinics */}
+      <button
+        onClick={onMerge}
+        disabled={selectedCount !== 2 || disabled}
+        title="Select exactly two clinics to merge"
+        className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-100 dark:disabled:bg-gray-800 disabled:cursor-not-allowed"
+      >
+        <ArrowsPointingInIcon className="h-4 w-4 mr-1.5" />
+        Merge
+      </button>
+
       {/* Tags Menu */}
       <div className="relative" ref={tagMenuRef}>
         <button
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { Clinic, FieldProvenance } from '../../../../utils/hooks/useValidationQueue';
+
+interface DataQualityPanelProps {
+  clinic: Clinic;
+}
+
+const SOURCE_LABELS: Record<FieldProvenance['source'], string> = {
+  csv: 'CSV import',
+  json: 'JSON import',
+  ndjson: 'NDJSON import',
+  xlsx: 'Excel import',
+  'google-places': 'Google Places',
+  import: 'Import',
+  geocoder: 'Geocoder',
+  scraper: 'Website scraper',
+  admin: 'Admin edit'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  zip: 'ZIP',
+  phone: 'Phone',
+  website: 'Website',
+  email: 'Email',
+  services: 'Services',
+  location: 'Coordinates'
+};
+
+export const getQualityColor = (score: number) => {
+  if (score >= 80) return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+  return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+};
+
+const toDate = (value: Timestamp | Date | undefined) => {
+  if (!value) return undefined;
+  return value instanceof Timestamp ? value.toDate() : new Date(value);
+};
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ clinic }) => {
+  const { quality, provenance = {} } = clinic;
+  const fields = Object.keys(FIELD_LABELS);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+        Data Quality
+      </h3>
+      <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg space-y-3">
+        {quality ? (
+          <div className="flex items-center justify-between">
+            <span className={`px-2 py-0.5 rounded-full text-sm font-medium ${getQualityColor(quality.score)}`}>
+              {quality.score}/100
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {quality.completeness}% complete{quality.stale && ' · rescoring after edit'}
+            </span>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">Not scored yet</p>
+        )}
+
+        {quality && quality.missing.length > 0 && (
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            <span className="font-medium">Missing:</span> {quality.missing.map(field => FIELD_LABELS[field] || field).join(', ')}
+          </p>
+        )}
+
+        {quality && quality.issues.length > 0 && (
+          <ul className="text-xs text-red-600 dark:text-red-400 list-disc list-inside">
+            {quality.issues.map(issue => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+
+        {/* Where each value came from */}
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="font-medium py-1">Field</th>
+              <th className="font-medium py-1">Source</th>
+              <th className="font-medium py-1 text-right">Confidence</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {fields.map(field => {
+              const entry = provenance[field];
+              const updatedAt = toDate(entry?.updatedAt);
+
+              return (
+                <tr key={field} className="text-gray-800 dark:text-gray-200">
+                  <td className="py-1">{FIELD_LABELS[field]}</td>
+                  <td className="py-1" title={entry?.detail}>
+                    {entry ? SOURCE_LABELS[entry.source] || entry.source : <span className="text-gray-400 italic">Unknown</span>}
+                    {updatedAt && (
+                      <span className="block text-gray-500 dark:text-gray-400">
+                        {updatedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                        {entry?.detail && ` · ${entry.detail}`}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 text-right">
+                    {entry ? `${Math.round(entry.confidence * 100)}%` : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
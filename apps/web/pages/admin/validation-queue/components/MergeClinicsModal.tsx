@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { XMarkIcon, ArrowsPointingInIcon } from '@heroicons/react/24/solid';
+import { Clinic } from '../../../../utils/hooks/useValidationQueue';
+
+interface MergeClinicsModalProps {
+  clinics: [Clinic, Clinic];
+  onMerge: (primaryId: string, duplicateId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const COMPARE_FIELDS: Array<{ key: string; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zip', label: 'ZIP' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'website', label: 'Website' },
+  { key: 'services', label: 'Services' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'slug', label: 'Slug' }
+];
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  return String(value);
+};
+
+const MergeClinicsModal: React.FC<MergeClinicsModalProps> = ({ clinics, onMerge, onClose }) => {
+  // Default to keeping whichever clinic was not flagged as the possible duplicate
+  const [primaryId, setPrimaryId] = useState<string>(
+    clinics[0].potentialDuplicateOf?.id === clinics[1].id ? clinics[1].id : clinics[0].id
+  );
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const duplicate = clinics.find(c => c.id !== primaryId)!;
+
+  const handleMerge = async () => {
+    try {
+      setMerging(true);
+      setError(null);
+      await onMerge(primaryId, duplicate.id);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge clinics');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white">Merge Clinics</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Choose the clinic to keep. Empty fields are filled from the other clinic, tags and services are combined,
+            and reviews, traffic and call logs move to the kept clinic. The other clinic is deleted and its URL
+            redirects to the kept clinic.
+          </p>
+
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase w-32">Field</th>
+                {clinics.map(clinic => (
+                  <th key={clinic.id} className="px-3 py-2 text-left">
+                    <label className="inline-flex items-center text-sm font-medium text-gray-900 dark:text-white cursor-pointer">
+                      <input
+                        type="radio"
+                        name="primaryClinic"
+                        checked={primaryId === clinic.id}
+                        onChange={() => setPrimaryId(clinic.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 mr-2"
+                      />
+                      {primaryId === clinic.id ? 'Keep' : 'Retire'}
+                    </label>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {COMPARE_FIELDS.map(({ key, label }) => {
+                const differs = formatValue(clinics[0][key]) !== formatValue(clinics[1][key]);
+                return (
+                  <tr key={key}>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300">{label}</td>
+                    {clinics.map(clinic => (
+                      <td
+                        key={clinic.id}
+                        className={`px-3 py-2 text-sm ${
+                          differs ? 'text-yellow-800 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/20' : 'text-gray-900 dark:text-gray-100'
+                        } ${primaryId === clinic.id ? 'font-medium' : ''}`}
+                      >
+                        {formatValue(clinic[key])}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded p-3">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            disabled={merging}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={merging}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ArrowsPointingInIcon className="h-4 w-4 mr-1.5" />
+            {merging ? 'Merging...' : `Merge into ${clinics.find(c => c.id === primaryId)?.name}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeClinicsModal;
@@ -6,6 +6,7 @@ import {
   GlobeAltIcon
 } from '@heroicons/react/24/solid';
 import { Clinic } from '../../../../utils/hooks/useValidationQueue';
+import { getQualityColor } from './DataQualityPanel';
 
 interface ValidationQueueTableProps {
   clinics: Clinic[];
@@ -144,7 +145,7 @@ const ValidationQueueTable: React.FC<ValidationQueueTableProps> = ({
   const getTagPills = (tags: string[]) => {
     // Only show validation tags
     const validationTags = tags.filter(tag => 
-      ['needs-review', 'website-down', 'geo-mismatch', 'incomplete-profile', 'manual-check'].includes(tag)
+      ['needs-review', 'website-down', 'geo-mismatch', 'incomplete-profile', 'manual-check', 'business-closed', 'invalid-phone'].includes(tag)
     );
     
     if (validationTags.length === 0) return null;
@@ -220,6 +221,9 @@ const ValidationQueueTable: React.FC<ValidationQueueTableProps> = ({
             <th scope="col" className="px-3 py-3.5 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
               City, State
             </th>
+            <th scope="col" className="px-3 py-3.5 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              Quality
+            </th>
             <th scope="col" className="px-3 py-3.5 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
               Tags
             </th>
@@ -262,6 +266,18 @@ const ValidationQueueTable: React.FC<ValidationQueueTableProps> = ({
                   {clinic.city}, {clinic.state}
                 </div>
               </td>
+              <td className="px-3 py-4 whitespace-nowrap text-center">
+                {clinic.quality ? (
+                  <span
+                    className={`px-2 py-0.5 text-xs font-medium rounded-full ${getQualityColor(clinic.quality.score)}`}
+                    title={`${clinic.quality.completeness}% complete`}
+                  >
+                    {clinic.quality.score}
+                  </span>
+                ) : (
+                  <span className="text-gray-400 text-xs">—</span>
+                )}
+              </td>
               <td className="px-3 py-4 whitespace-nowrap">
                 {getTagPills(clinic.tags || [])}
               </td>
@@ -279,7 +295,7 @@ const ValidationQueueTable: React.FC<ValidationQueueTableProps> = ({
           {/* Loading indicator for infinite scroll */}
           {hasMore && (
             <tr>
-              <td colSpan={6} className="px-3 py-4 text-center">
+              <td colSpan={7} className="px-3 py-4 text-center">
                 <div ref={loadingIndicatorRef} className="flex justify-center items-center py-2">
                   {loading ? (
                     <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-500"></div>
@@ -296,7 +312,7 @@ const ValidationQueueTable: React.FC<ValidationQueueTableProps> = ({
           {/* Empty state */}
           {clinics.length === 0 && !loading && (
             <tr>
-              <td colSpan={6} className="px-3 py-12 text-center">
+              <td colSpan={7} className="px-3 py-12 text-center">
                 <div className="text-gray-500 dark:text-gray-400">
                   <p className="text-lg font-medium mb-1">No clinics in validation queue</p>
                   <p className="text-sm">All clinics have been reviewed or no clinics match your filters.</p>
@@ -9,6 +9,7 @@ import {
 import { Clinic } from '../../../../utils/hooks/useValidationQueue';
 import EditFieldInline from './EditFieldInline';
 import TagManager from './TagManager';
+import DataQualityPanel from './DataQualityPanel';
 
 interface ValidationSidebarProps {
   clinic: Clinic | null;
@@ -135,6 +136,22 @@ const ValidationSidebar: React.FC<ValidationSidebarProps> = ({
       {/* Content */}
       <div className="overflow-y-auto h-full pb-28">
         <div className="p-4 space-y-6">
+          {/* Possible duplicate flagged on import */}
+          {clinic.potentialDuplicateOf?.id && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
+              <p className="text-sm text-yellow-800 dark:text-yellow-300">
+                Possible duplicate of <span className="font-mono">{clinic.potentialDuplicateOf.id}</span>
+                {typeof clinic.potentialDuplicateOf.confidence === 'number' && (
+                  <> ({Math.round(clinic.potentialDuplicateOf.confidence * 100)}% match)</>
+                )}
+                . Select both clinics in the queue and use Merge to combine them.
+              </p>
+            </div>
+          )}
+
+          {/* Quality score and field provenance */}
+          <DataQualityPanel clinic={clinic} />
+
           {/* Basic Info */}
           <div>
             <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
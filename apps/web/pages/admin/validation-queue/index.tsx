@@ -9,6 +9,7 @@ import useValidationQueue, {
 import ValidationQueueTable from './components/ValidationQueueTable';
 import ValidationSidebar from './components/ValidationSidebar';
 import BulkValidationControls from './components/BulkValidationControls';
+import MergeClinicsModal from './components/MergeClinicsModal';
 import { ExclamationCircleIcon, CheckCircleIcon, TagIcon, FunnelIcon } from '@heroicons/react/24/solid';
 
 const ValidationQueuePanel: React.FC = () => {
@@ -31,12 +32,14 @@ const ValidationQueuePanel: React.FC = () => {
     checkWebsite,
     bulkValidate,
     bulkAddTag,
-    bulkRemoveTag
+    bulkRemoveTag,
+    mergeClinics
   } = useValidationQueue();
 
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [filterDropdownOpen, setFilterDropdownOpen] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
   
   // Handle clinic selection
   const handleSelectClinic = useCallback((clinicId: string) => {
@@ -131,6 +134,14 @@ const ValidationQueuePanel: React.FC = () => {
     }
   }, [selectedIds, bulkRemoveTag]);
 
+  // Handle merging the two selected clinics
+  const handleMerge = useCallback(async (primaryId: string, duplicateId: string) => {
+    await mergeClinics(primaryId, duplicateId);
+    setSelectedIds([]);
+  }, [mergeClinics]);
+
+  const mergeCandidates = clinics.filter(clinic => selectedIds.includes(clinic.id));
+
   // Handle export to CSV
   const handleExportCsv = useCallback(() => {
     // In a real implementation, this would generate a CSV file
@@ -194,6 +205,11 @@ const ValidationQueuePanel: React.FC = () => {
     updateFilters({ status: e.target.value });
   }, [updateFilters]);
 
+  // Handle sort order change
+  const handleSortChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateFilters({ sortBy: e.target.value as 'updatedAt' | 'qualityScore' });
+  }, [updateFilters]);
+
   // Clear all filters
   const handleClearFilters = useCallback(() => {
     updateFilters({
@@ -402,6 +418,15 @@ const ValidationQueuePanel: React.FC = () => {
               )}
             </div>
             
+            <select
+              value={filters.sortBy}
+              onChange={handleSortChange}
+              className="py-2 px-3 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+            >
+              <option value="updatedAt">Recently updated</option>
+              <option value="qualityScore">Lowest quality first</option>
+            </select>
+            
             <button
               onClick={refreshQueue}
               disabled={loading}
@@ -420,6 +445,7 @@ const ValidationQueuePanel: React.FC = () => {
             onBulkAddTag={handleBulkAddTag}
             onBulkRemoveTag={handleBulkRemoveTag}
             onExportCsv={handleExportCsv}
+            onMerge={() => setShowMergeModal(true)}
             disabled={loading}
           />
         </div>
@@ -459,6 +485,15 @@ const ValidationQueuePanel: React.FC = () => {
           isOpen={isSidebarOpen}
         />
         
+        {/* Merge Modal */}
+        {showMergeModal && mergeCandidates.length === 2 && (
+          <MergeClinicsModal
+            clinics={[mergeCandidates[0], mergeCandidates[1]]}
+            onMerge={handleMerge}
+            onClose={() => setShowMergeModal(false)}
+          />
+        )}
+        
         {/* Shortcut Instructions */}
         <div className="mt-8 bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
           <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Keyboard Shortcuts</h3>
@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isSearchCursorFor, searchClinicPage, searchCacheControl } from '../../lib/clinicSearch';
+import { parseSearchQueryParams } from '../../lib/searchQuery';
+
+/**
+ * Clinic search: a page of ranked results with facet counts and highlights (from the search
+ * index, or Firestore until one is built), plus suggested relaxations when nothing matches.
+ * Later pages are fetched with ?cursor= set to the previous page's nextCursor.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const query = parseSearchQueryParams(req.query);
+  const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : null;
+  if (cursor && !isSearchCursorFor(cursor, query)) {
+    return res.status(400).json({ error: 'Cursor does not belong to this search' });
+  }
+
+  try {
+    const pageSize = parseInt(req.query.pageSize as string, 10);
+    const { page, cache } = await searchClinicPage(query, {
+      cursor,
+      pageSize: Number.isNaN(pageSize) ? undefined : pageSize
+    });
+
+    res.setHeader('Cache-Control', searchCacheControl(query));
+    res.setHeader('X-Search-Cache', cache.toUpperCase());
+    return res.status(200).json(page);
+  } catch (error) {
+    console.error('Search error:', error);
+    return res.status(500).json({ error: 'Search failed' });
+  }
+}
@@ -0,0 +1,184 @@
+import React, { useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useRouter } from 'next/router';
+import dynamic from 'next/dynamic';
+import ClinicCard from '../../components/ClinicCard';
+import { useClinicGroup } from '../../utils/hooks/useClinicGroup';
+import { applyGroupDefaults, getEffectiveTier } from '../../utils/clinicGroupUtils';
+import { formatClinicName } from '../../lib/utils';
+import { event as trackEvent } from '../../lib/analytics';
+
+// Dynamic import for the Map component to avoid SSR issues with Leaflet
+const Map = dynamic(() => import('../../components/Map'), {
+  ssr: false,
+  loading: () => <div className="h-96 bg-gray-900 rounded-xl flex items-center justify-center">Loading map...</div>
+});
+
+const BrandPage: React.FC = () => {
+  const router = useRouter();
+  const { slug } = router.query;
+  const { group, locations, loading } = useClinicGroup(typeof slug === 'string' ? slug : undefined);
+
+  useEffect(() => {
+    if (group) {
+      trackEvent({
+        action: 'brand_page_view',
+        category: 'brand',
+        label: group.id,
+        value: locations.length
+      });
+    }
+  }, [group, locations.length]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mx-auto mb-4"></div>
+        <p>Loading locations...</p>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-bold text-white mb-4">Brand not found</h1>
+        <Link href="/search" className="text-primary hover:underline">
+          Back to search
+        </Link>
+      </div>
+    );
+  }
+
+  const brandName = formatClinicName(group.name);
+  const states = Array.from(new Set(locations.map(location => location.state))).sort();
+  const mappedLocations = locations.filter(location => location.lat && location.lng);
+
+  return (
+    <>
+      <Head>
+        <title>{`${brandName} Locations | Men's Health Finder`}</title>
+        <meta
+          name="description"
+          content={group.description || `${brandName} has ${locations.length} men's health clinic locations${states.length > 0 ? ` in ${states.join(', ')}` : ''}. Compare locations, services and contact details.`}
+        />
+        <link rel="canonical" href={`https://menshealthfinder.com/brand/${group.slug}`} />
+      </Head>
+
+      <main className="min-h-screen bg-gray-900">
+        {/* Brand Header */}
+        <div className="bg-gray-900 border-b border-gray-800">
+          <div className="container mx-auto px-4 py-6 md:py-8">
+            <div className="flex items-center gap-4 mb-4">
+              <div className="w-16 h-16 bg-primary/20 rounded-xl flex items-center justify-center">
+                {group.logoUrl ? (
+                  <Image
+                    src={group.logoUrl}
+                    alt={`${brandName} logo`}
+                    width={48}
+                    height={48}
+                    className="rounded-lg"
+                  />
+                ) : (
+                  <span className="text-2xl font-bold text-primary">{brandName.charAt(0)}</span>
+                )}
+              </div>
+              <div>
+                <h1 className="text-2xl md:text-3xl font-bold text-white">{brandName}</h1>
+                <p className="text-gray-400 text-sm mt-1">
+                  {locations.length} {locations.length === 1 ? 'location' : 'locations'}
+                  {states.length > 0 && ` in ${states.join(', ')}`}
+                </p>
+              </div>
+            </div>
+
+            {group.description && (
+              <p className="text-gray-300 max-w-3xl mb-4">{group.description}</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              {group.services.map(service => (
+                <span key={service} className="px-3 py-1 text-sm rounded-full bg-gray-800 text-gray-300">
+                  {service}
+                </span>
+              ))}
+              {group.website && (
+                <a
+                  href={group.website}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn-secondary ml-auto"
+                  onClick={() => trackEvent({ action: 'brand_website_click', category: 'brand', label: group.id })}
+                >
+                  Visit Website
+                </a>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          {mappedLocations.length > 0 && (
+            <div className="h-96 rounded-xl overflow-hidden">
+              <Map
+                locations={mappedLocations.map((location, index) => ({
+                  id: index,
+                  name: location.name,
+                  address: location.address,
+                  city: location.city,
+                  state: location.state,
+                  lat: location.lat as number,
+                  lng: location.lng as number,
+                  tier: getEffectiveTier(location),
+                  rating: location.rating,
+                  phone: location.phone
+                }))}
+                height="100%"
+              />
+            </div>
+          )}
+
+          <div>
+            <h2 className="text-2xl font-bold text-white mb-6">All Locations</h2>
+            {locations.length === 0 ? (
+              <div className="glass-card p-6 text-center">
+                <p className="text-gray-400">No locations are listed right now.</p>
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-4">
+                {locations.map(location => {
+                  const branch = applyGroupDefaults(location, group);
+                  return (
+                    <ClinicCard
+                      key={location.id}
+                      clinic={{
+                        id: location.id as string,
+                        name: formatClinicName(branch.name),
+                        address: branch.address,
+                        city: branch.city,
+                        state: branch.state,
+                        services: branch.services || [],
+                        tier: getEffectiveTier(location),
+                        phone: branch.phone,
+                        website: branch.website,
+                        rating: branch.rating,
+                        reviewCount: branch.reviewCount,
+                        logo: branch.imageUrl,
+                        verified: branch.verified
+                      }}
+                      onClick={() => router.push(`/clinic/${location.id}`)}
+                    />
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default BrandPage;
@@ -1,18 +1,22 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
+import Image from 'next/image';
 import StructuredData from '../../components/StructuredData';
 import TierBadge from '../../components/TierBadge';
 import UpgradeCallout from '../../components/UpgradeCallout';
 import RecommendedProviders from '../../components/RecommendedProviders';
 import ReviewsSection from '../../components/ReviewsSection';
 import TrackedPhoneLink from '../../components/TrackedPhoneLink';
+import ClinicHours from '../../components/ClinicHours';
 import SeoContentSection from '../../components/SeoContentSection';
 import { VisibleFAQSection } from '../../components/VisibleFAQSection';
 import FaqSchemaScript from '../../components/FaqSchemaScript';
 import dynamic from 'next/dynamic';
 import { useClinic } from '../../utils/hooks/useClinic';
+import { useClinicGroup } from '../../utils/hooks/useClinicGroup';
+import { applyGroupDefaults, getEffectiveTier } from '../../utils/clinicGroupUtils';
 import { formatClinicName } from '../../lib/utils';
 import { event as trackEvent } from '../../lib/analytics';
 import { generateSeoContent } from '../../utils/seo/contentGenerator';
@@ -28,7 +32,13 @@ const ClinicProfile: React.FC = () => {
   const { id } = router.query;
   const { clinic: firestoreClinic, loading: firestoreLoading, error: firestoreError } = useClinic(id as string);
   
-  const clinic = firestoreClinic;
+  const { group, locations: groupLocations } = useClinicGroup(firestoreClinic?.groupId);
+  
+  // Branches fall back to their brand's logo, description and services
+  const clinic = useMemo(
+    () => firestoreClinic && applyGroupDefaults(firestoreClinic, group),
+    [firestoreClinic, group]
+  );
   
   const [activeTab, setActiveTab] = useState('about');
   const [seoContent, setSeoContent] = useState<string | null>(null);
@@ -117,7 +127,9 @@ const ClinicProfile: React.FC = () => {
     'high': 'advanced'
   } as const;
   
-  const tier = tierMap[clinic.tier] || 'free';
+  // Locations covered by their brand's group plan carry the group tier
+  const tier = getEffectiveTier({ ...clinic, tier: tierMap[clinic.tier as keyof typeof tierMap] || clinic.tier });
+  const otherLocations = groupLocations.filter(location => location.id !== clinic.id);
   
   // Determine if the clinic has a logo (only for Standard and Advanced tiers)
   const hasLogo = tier === 'standard' || tier === 'advanced';
@@ -163,9 +175,19 @@ const ClinicProfile: React.FC = () => {
                 <div className="flex items-center gap-4 mb-4">
                   {hasLogo && (
                     <div className="w-16 h-16 bg-primary/20 rounded-xl flex items-center justify-center">
-                      <span className="text-2xl font-bold text-primary">
-                        {formatClinicName(enhancedClinic.name).charAt(0)}
-                      </span>
+                      {enhancedClinic.imageUrl ? (
+                        <Image
+                          src={enhancedClinic.imageUrl}
+                          alt={`${enhancedClinic.name} logo`}
+                          width={48}
+                          height={48}
+                          className="rounded-lg"
+                        />
+                      ) : (
+                        <span className="text-2xl font-bold text-primary">
+                          {formatClinicName(enhancedClinic.name).charAt(0)}
+                        </span>
+                      )}
                     </div>
                   )}
                   <div>
@@ -173,7 +195,17 @@ const ClinicProfile: React.FC = () => {
                       {formatClinicName(enhancedClinic.name)}
                       <TierBadge tier={tier} />
                     </h1>
-                    <p className="text-gray-400 text-sm mt-1">Men's Health Clinic</p>
+                    <p className="text-gray-400 text-sm mt-1">
+                      Men&apos;s Health Clinic
+                      {group && (
+                        <>
+                          {' · '}
+                          <Link href={`/brand/${group.slug}`} className="text-primary hover:underline">
+                            {groupLocations.length > 1 ? `One of ${groupLocations.length} ${group.name} locations` : `Part of ${group.name}`}
+                          </Link>
+                        </>
+                      )}
+                    </p>
                   </div>
                 </div>
                 
@@ -387,6 +419,13 @@ const ClinicProfile: React.FC = () => {
                       </a>
                     </div>
                   )}
+                  
+                  {(enhancedClinic.schedule || (enhancedClinic.hours && enhancedClinic.hours.length > 0)) && (
+                    <div>
+                      <h3 className="font-semibold text-white mb-2">Hours</h3>
+                      <ClinicHours schedule={enhancedClinic.schedule} hours={enhancedClinic.hours} />
+                    </div>
+                  )}
                 </div>
                 
                 {/* Map */}
@@ -453,6 +492,28 @@ const ClinicProfile: React.FC = () => {
                 </div>
               </div>
               
+              {/* Other locations of the same brand */}
+              {group && otherLocations.length > 0 && (
+                <div className="glass-card p-6">
+                  <h3 className="font-semibold text-white mb-4">Other {group.name} Locations</h3>
+                  <ul className="space-y-3">
+                    {otherLocations.slice(0, 5).map(location => (
+                      <li key={location.id}>
+                        <Link href={`/clinic/${location.id}`} className="text-primary hover:underline">
+                          {location.city}, {location.state}
+                        </Link>
+                        <p className="text-sm text-gray-400">{location.address}</p>
+                      </li>
+                    ))}
+                  </ul>
+                  {otherLocations.length > 5 && (
+                    <Link href={`/brand/${group.slug}`} className="inline-block mt-4 text-sm text-primary hover:underline">
+                      View all {groupLocations.length} locations
+                    </Link>
+                  )}
+                </div>
+              )}
+              
               {/* Contact Card */}
               <div className="glass-card p-6">
                 <h3 className="font-semibold text-white mb-4">Contact Information</h3>
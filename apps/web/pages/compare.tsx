@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import TierBadge from '../components/TierBadge';
+import TrackedPhoneLink from '../components/TrackedPhoneLink';
+import { useAutoLocation } from '../hooks/useAutoLocation';
+import useClinicComparison from '../utils/hooks/useClinicComparison';
+import useCompareList from '../utils/hooks/useCompareList';
+import { buildClinicComparison, ClinicComparison, compareUrl, parseCompareIds } from '../lib/compare';
+
+interface ComparisonRow {
+  label: string;
+  render: (column: ClinicComparison) => React.ReactNode;
+}
+
+const None: React.FC<{ text?: string }> = ({ text = 'Not listed' }) => (
+  <span className="text-gray-600">{text}</span>
+);
+
+const TagList: React.FC<{ values: string[] }> = ({ values }) => (
+  values.length === 0 ? <None /> : (
+    <div className="flex flex-wrap gap-1">
+      {values.map(value => (
+        <span key={value} className="px-2 py-0.5 bg-[#222222] text-gray-300 text-xs rounded-full">{value}</span>
+      ))}
+    </div>
+  )
+);
+
+const ROWS: ComparisonRow[] = [
+  {
+    label: 'Rating',
+    render: column => column.rating ? (
+      <span>
+        <span className="text-yellow-400">★</span> {column.rating.toFixed(1)}
+        <span className="text-gray-500"> ({column.reviewCount} review{column.reviewCount === 1 ? '' : 's'})</span>
+      </span>
+    ) : <None text="No reviews yet" />
+  },
+  {
+    label: 'Review breakdown',
+    render: column => {
+      if (!column.reviewDistribution) return <None text="Not shown for this listing" />;
+      const total = column.reviewDistribution.reduce((sum, row) => sum + row.count, 0);
+      return (
+        <div className="space-y-1">
+          {column.reviewDistribution.map(row => (
+            <div key={row.stars} className="flex items-center gap-2 text-xs">
+              <span className="w-6 text-gray-400">{row.stars}★</span>
+              <div className="flex-1 h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-yellow-400" style={{ width: `${total > 0 ? (row.count / total) * 100 : 0}%` }}></div>
+              </div>
+              <span className="w-8 text-right text-gray-500">{row.count}</span>
+            </div>
+          ))}
+        </div>
+      );
+    }
+  },
+  {
+    label: 'Distance',
+    render: column => column.distance === undefined
+      ? <None text="Location unknown" />
+      : column.distance === null ? <None /> : `${column.distance.toFixed(1)} mi`
+  },
+  {
+    label: 'Price',
+    render: column => column.priceBracket || <None />
+  },
+  {
+    label: 'Telehealth',
+    render: column => column.telehealth ? <span className="text-green-400">Yes</span> : <None text="No" />
+  },
+  {
+    label: 'Services',
+    render: column => <TagList values={column.services} />
+  },
+  {
+    label: 'Specialties',
+    render: column => <TagList values={column.specializedServices} />
+  },
+  {
+    label: 'Treatments',
+    render: column => (
+      <>
+        <TagList values={column.treatments} />
+        {column.hiddenTreatments > 0 && (
+          <Link href={`/clinic/${column.clinic.slug || column.clinic.id}`} className="block mt-1 text-xs text-primary hover:underline">
+            +{column.hiddenTreatments} more on profile
+          </Link>
+        )}
+      </>
+    )
+  },
+  {
+    label: 'Payment',
+    render: column => <TagList values={column.paymentMethods} />
+  },
+  {
+    label: 'Accessibility',
+    render: column => <TagList values={column.accessibility} />
+  },
+  {
+    label: 'Hours',
+    render: column => column.hours.length === 0 ? <None /> : (
+      <table className="text-xs">
+        <tbody>
+          {column.hours.map(row => (
+            <tr key={row.day}>
+              <td className="pr-2 text-gray-400">{row.day}</td>
+              <td>{row.hours}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )
+  },
+  {
+    label: 'Contact',
+    render: column => (
+      <div className="flex flex-col gap-1">
+        {column.phone ? (
+          <TrackedPhoneLink
+            phone={column.phone}
+            clinicId={column.clinic.id || ''}
+            sourcePage="compare"
+            clinicTier={column.clinic.tier}
+            className="text-primary hover:underline"
+          />
+        ) : <None />}
+        {column.bookingUrl && (
+          <a href={column.bookingUrl} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:underline">
+            Book online →
+          </a>
+        )}
+      </div>
+    )
+  }
+];
+
+const ComparePage: React.FC = () => {
+  const router = useRouter();
+  const ids = parseCompareIds(router.query.ids);
+  const { clinics, loading, error } = useClinicComparison(router.isReady ? ids : []);
+  const { location } = useAutoLocation();
+  const { clear } = useCompareList();
+  const [copied, setCopied] = useState(false);
+
+  const origin = location && !location.isDefault ? { lat: location.lat, lng: location.lng } : null;
+  const columns = clinics.map(clinic => buildClinicComparison(clinic, origin));
+
+  const removeClinic = (id: string) => {
+    const remaining = ids.filter(existing => existing !== id);
+    router.replace(remaining.length > 0 ? compareUrl(remaining) : '/search', undefined, { shallow: true });
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying compare link:', err);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Compare Clinics | Men&apos;s Health Finder</title>
+        <meta name="description" content="Compare men's health clinics side by side: services, treatments, ratings, prices and hours." />
+        <meta name="robots" content="noindex, follow" />
+      </Head>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Compare Clinics</h1>
+            <p className="text-[#AAAAAA] mt-1">Side by side, as each clinic lists itself</p>
+          </div>
+          {columns.length > 0 && (
+            <div className="flex gap-2">
+              <button
+                onClick={copyLink}
+                className="px-4 py-2 bg-[#222222] text-white text-sm rounded-lg hover:bg-[#333333] transition-colors"
+              >
+                {copied ? 'Link copied' : 'Copy Link'}
+              </button>
+              <button
+                onClick={() => {
+                  clear();
+                  router.push('/search');
+                }}
+                className="px-4 py-2 bg-[#222222] text-gray-300 text-sm rounded-lg hover:bg-[#333333] transition-colors"
+              >
+                Start Over
+              </button>
+            </div>
+          )}
+        </div>
+
+        {loading || !router.isReady ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-red-900 bg-opacity-20 border border-red-700 text-red-400 rounded-md">
+            Failed to load these clinics. Please try again.
+          </div>
+        ) : columns.length === 0 ? (
+          <div className="bg-[#111111] rounded-xl border border-[#222222] p-8 text-center">
+            <p className="text-lg mb-4">No clinics to compare yet.</p>
+            <p className="text-[#AAAAAA] mb-6">Tick &quot;Compare&quot; on up to four clinics in your search results.</p>
+            <Link href="/search" className="btn py-2 px-4">
+              Find Clinics
+            </Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[640px] border-collapse text-sm">
+              <thead>
+                <tr>
+                  <th className="w-36"></th>
+                  {columns.map(column => (
+                    <th key={column.clinic.id} className="p-4 text-left align-top bg-[#111111] border border-[#222222]">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <Link
+                            href={`/clinic/${column.clinic.slug || column.clinic.id}`}
+                            className="text-lg font-bold hover:text-primary transition-colors"
+                          >
+                            {column.clinic.name}
+                          </Link>
+                          <p className="text-gray-400 font-normal">{column.clinic.city}, {column.clinic.state}</p>
+                          <div className="flex items-center gap-2 mt-2">
+                            <TierBadge tier={column.clinic.tier} size="sm" />
+                            {column.verified && <span className="text-xs text-blue-400">Verified</span>}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => removeClinic(column.clinic.id!)}
+                          className="text-gray-500 hover:text-white"
+                          aria-label={`Remove ${column.clinic.name}`}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map(row => (
+                  <tr key={row.label}>
+                    <th className="p-4 text-left align-top text-gray-400 font-medium border border-[#222222]">{row.label}</th>
+                    {columns.map(column => (
+                      <td key={column.clinic.id} className="p-4 align-top border border-[#222222]">
+                        {row.render(column)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {ids.length > columns.length && (
+              <p className="mt-4 text-sm text-gray-500">
+                {ids.length - columns.length} clinic{ids.length - columns.length === 1 ? ' is' : 's are'} no longer listed.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ComparePage;
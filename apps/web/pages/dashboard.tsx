@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
 import Image from 'next/image';
+import { useRouter } from 'next/router';
 import ProtectedRoute from '../components/ProtectedRoute';
 import { useAuth } from '../lib/contexts/authContext';
+import useSavedSearches from '../utils/hooks/useSavedSearches';
+import { savedSearchUrl } from '../lib/api/savedSearchService';
 import { collection, query, where, getDocs, orderBy, limit, doc, deleteDoc, addDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 
@@ -42,8 +45,10 @@ interface UserReview {
 }
 
 const UserDashboard = () => {
-  const { userData, currentUser } = useAuth();
+  const router = useRouter();
+  const { userData, currentUser, updateUserData } = useAuth();
   const [activeTab, setActiveTab] = useState('home');
+  const { savedSearches, toggleAlerts, removeSavedSearch } = useSavedSearches(currentUser?.uid);
   const [localClinics, setLocalClinics] = useState<Clinic[]>([]);
   const [savedProviders, setSavedProviders] = useState<SavedProvider[]>([]);
   const [userReviews, setUserReviews] = useState<UserReview[]>([]);
@@ -61,6 +66,11 @@ const UserDashboard = () => {
     zipCode: '90210'
   } as const;
 
+  // Alert emails link straight to a tab with ?tab=
+  useEffect(() => {
+    if (typeof router.query.tab === 'string') setActiveTab(router.query.tab);
+  }, [router.query.tab]);
+
   // Fetch user data on component mount
   useEffect(() => {
     const fetchUserData = async () => {
@@ -277,6 +287,21 @@ const UserDashboard = () => {
                   </span>
                 )}
               </button>
+              <button
+                className={`py-4 px-6 text-sm font-medium border-b-2 ${
+                  activeTab === 'searches'
+                    ? 'border-primary text-primary'
+                    : 'border-transparent text-[#AAAAAA] hover:text-white'
+                } transition-colors`}
+                onClick={() => setActiveTab('searches')}
+              >
+                Saved Searches
+                {savedSearches.length > 0 && (
+                  <span className="ml-2 bg-primary text-white text-xs rounded-full px-2 py-0.5">
+                    {savedSearches.length}
+                  </span>
+                )}
+              </button>
               <button
                 className={`py-4 px-6 text-sm font-medium border-b-2 ${
                   activeTab === 'reviews'
@@ -492,6 +517,86 @@ const UserDashboard = () => {
             </div>
           )}
           
+          {/* Saved Searches Tab */}
+          {!isLoading && activeTab === 'searches' && (
+            <div>
+              <h2 className="text-xl font-bold mb-2">
+                Your Saved Searches
+              </h2>
+              <p className="text-[#AAAAAA] mb-6">
+                We email {effectiveUserData.email} when new clinics match a saved search.
+              </p>
+              
+              <label className="flex items-center gap-3 mb-6 text-sm">
+                <input
+                  type="checkbox"
+                  checked={userData?.savedProviderAlerts !== false}
+                  onChange={(e) => updateUserData({ savedProviderAlerts: e.target.checked })}
+                  className="accent-primary"
+                />
+                Also email me when a saved provider adds or drops a service
+              </label>
+              
+              {savedSearches.length > 0 ? (
+                <div className="space-y-4">
+                  {savedSearches.map((search) => (
+                    <div key={search.id} className="card p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                      <div>
+                        <Link href={savedSearchUrl(search)} className="text-lg font-bold hover:text-primary transition-colors">
+                          {search.name}
+                        </Link>
+                        <p className="text-[#AAAAAA] text-sm mt-1">
+                          {[
+                            search.query && `"${search.query}"`,
+                            search.filters.services?.join(', '),
+                            search.location && search.radius
+                              ? `within ${search.radius} miles of ${search.location.city || search.location.state || 'your location'}`
+                              : [search.location?.city, search.location?.state].filter(Boolean).join(', ')
+                          ].filter(Boolean).join(' · ') || 'All clinics'}
+                        </p>
+                        {search.lastNotifiedAt && (
+                          <p className="text-[#666666] text-xs mt-1">
+                            Last alert {(search.lastNotifiedAt instanceof Date ? search.lastNotifiedAt : search.lastNotifiedAt.toDate()).toLocaleDateString()}
+                          </p>
+                        )}
+                      </div>
+                      
+                      <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={search.alertsEnabled}
+                            onChange={(e) => toggleAlerts(search.id, e.target.checked).catch(() => {})}
+                            className="accent-primary"
+                          />
+                          Email alerts
+                        </label>
+                        <button
+                          onClick={() => {
+                            if (confirm('Delete this saved search?')) {
+                              removeSavedSearch(search.id).catch(() => {});
+                            }
+                          }}
+                          className="btn-secondary bg-red-900/30 hover:bg-red-900/50 py-2 px-4 text-sm"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="bg-[#111] rounded-xl p-8 text-center">
+                  <p className="text-lg mb-4">You haven't saved any searches yet.</p>
+                  <p className="text-[#AAAAAA] mb-6">Run a search and choose &quot;Save Search &amp; Get Alerts&quot; to hear about new clinics.</p>
+                  <Link href="/search" className="btn py-2 px-4">
+                    Find Clinics
+                  </Link>
+                </div>
+              )}
+            </div>
+          )}
+          
           {/* Reviews Tab */}
           {!isLoading && activeTab === 'reviews' && (
             <div>
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { GetServerSideProps } from 'next';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
 import dynamic from 'next/dynamic';
@@ -9,15 +10,78 @@ import FilterBar from '../components/FilterBar';
 import ClinicCard from '../components/ClinicCard';
 import MobileMapToggle from '../components/MobileMapToggle';
 import ChangeLocationModal from '../components/ChangeLocationModal';
+import ZeroResultSuggestions from '../components/ZeroResultSuggestions';
 import useGeoSearch, { useUserLocation } from '../utils/hooks/useGeoSearch';
 
 // Import types
-import { Clinic, ExtendedClinic, ClinicLocation, TierCountsFlexible, ClinicFilter, safeObjectAccess } from '../types';
-
-// Import the real service only
-import * as clinicService from '../lib/api/clinicService';
+import {
+  ExtendedClinic,
+  ClinicLocation,
+  TierCountsFlexible,
+  ClinicSearchPage,
+  PopularCity,
+  SearchFacets,
+  SearchIndexQuery,
+  SearchRelaxation,
+  safeObjectAccess
+} from '../types';
+
+import { fetchClinicSearch } from '../lib/api/searchIndexService';
+import { logZeroResultSearch } from '../lib/api/searchDemandService';
+import { searchQueryKey } from '../lib/searchQuery';
+import { searchClinicPage, searchCacheControl } from '../lib/clinicSearch';
+
+// Default search radius around the user's location, in miles
+const DEFAULT_RADIUS = 50;
+
+// Clinics loaded for the list and map
+const MAX_RESULTS = 100;
+
+const DEFAULT_FILTERS = {
+  services: [] as string[],
+  tiers: [] as string[],
+  states: [] as string[],
+  verifiedOnly: false,
+  minRating: 0,
+  telehealthOnly: false,
+  openNow: false,
+  openWeekends: false,
+  openEvenings: false
+};
 
-const { searchClinics, queryClinics } = clinicService;
+type SearchFilters = typeof DEFAULT_FILTERS;
+
+interface SearchPageProps {
+  initialResults: ClinicSearchPage | null; // For the search in the URL, rendered on the server
+}
+
+// FilterBar services are category IDs; a known position searches by radius, else by city
+function buildIndexQuery(
+  searchQuery: string,
+  locationQuery: string,
+  filters: SearchFilters,
+  userLocation: { lat: number; lng: number } | null,
+  radius: number
+): SearchIndexQuery {
+  const [city, state] = locationQuery.split(', ');
+  return {
+    text: searchQuery.trim() || undefined,
+    categories: filters.services,
+    tiers: filters.tiers.filter((tier): tier is 'free' | 'standard' | 'advanced' =>
+      ['free', 'standard', 'advanced'].includes(tier)),
+    states: filters.states.length > 0 || userLocation || !state ? filters.states : [state],
+    city: userLocation ? undefined : city || undefined,
+    verifiedOnly: filters.verifiedOnly,
+    minRating: filters.minRating || undefined,
+    telehealthOnly: filters.telehealthOnly,
+    openNow: filters.openNow,
+    openWeekends: filters.openWeekends,
+    openEvenings: filters.openEvenings,
+    lat: userLocation?.lat,
+    lng: userLocation?.lng,
+    radius: userLocation ? radius : undefined
+  };
+}
 
 // Dynamic import for the Map component to avoid SSR issues with Leaflet
 const Map = dynamic(() => import('../components/Map'), {
@@ -32,22 +96,30 @@ const Map = dynamic(() => import('../components/Map'), {
   )
 });
 
-const SearchPage: React.FC = () => {
+const SearchPage: React.FC<SearchPageProps> = ({ initialResults }) => {
   const router = useRouter();
   const { service, location, q } = router.query;
   
-  // Search and filter state
-  const [searchQuery, setSearchQuery] = useState('');
-  const [locationQuery, setLocationQuery] = useState('');
-  const [filters, setFilters] = useState({
-    services: [] as string[],
-    tiers: [] as string[],
-    states: [] as string[],
-    verifiedOnly: false
+  // Search and filter state, starting from the URL the server rendered
+  const [searchQuery, setSearchQuery] = useState(typeof q === 'string' ? q : '');
+  const [locationQuery, setLocationQuery] = useState(typeof location === 'string' ? location : '');
+  const [filters, setFilters] = useState<SearchFilters>({
+    ...DEFAULT_FILTERS,
+    services: typeof service === 'string' ? [service] : []
   });
+  const [radius, setRadius] = useState(DEFAULT_RADIUS);
   
   // Results and UI state
-  const [results, setResults] = useState<ExtendedClinic[]>([]);
+  const [results, setResults] = useState<ExtendedClinic[]>(initialResults?.clinics || []);
+  const [facets, setFacets] = useState<SearchFacets | null>(initialResults?.facets || null); // Only when the search index is available
+  const [totalResults, setTotalResults] = useState<number | null>(initialResults?.total ?? null);
+  const [relaxations, setRelaxations] = useState<SearchRelaxation[]>(initialResults?.relaxations || []);
+  
+  // The server-rendered results stand in for the first search until something changes
+  const serverResults = useRef(initialResults ? {
+    key: searchQueryKey(buildIndexQuery(searchQuery, locationQuery, filters, null, radius)),
+    results: initialResults
+  } : null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showMobileMap, setShowMobileMap] = useState(false);
@@ -68,7 +140,7 @@ const SearchPage: React.FC = () => {
   } = useGeoSearch({
     latitude: userLocation?.lat || 39.8283,
     longitude: userLocation?.lng || -98.5795,
-    radius: 50,
+    radius,
     serviceFilter: service as string,
     tierFilter: filters.tiers
   });
@@ -105,7 +177,7 @@ const SearchPage: React.FC = () => {
   // Perform search when filters change
   useEffect(() => {
     performSearch();
-  }, [filters, searchQuery, locationQuery]);
+  }, [filters, searchQuery, locationQuery, userLocation, radius]);
 
   const geocodeLocation = async (locationString: string) => {
     try {
@@ -139,38 +211,16 @@ const SearchPage: React.FC = () => {
     setLoading(true);
     setError(null);
 
-    try {
-      let searchResults: Clinic[] = [];
-
-      if (searchQuery.trim()) {
-        searchResults = await searchClinics(searchQuery);
-      } else {
-        const clinicFilter: ClinicFilter = {};
-        
-        if (filters.services.length > 0) {
-          clinicFilter.services = filters.services;
-        }
-        if (filters.tiers.length > 0) {
-          const tierValue = filters.tiers[0];
-          
-          // Check if the tier value is a standardized value
-          if (['free', 'standard', 'advanced'].includes(tierValue)) {
-            clinicFilter.tier = tierValue as 'free' | 'standard' | 'advanced';
-          } 
-          // Otherwise, it's a legacy package value
-          else {
-            clinicFilter.package = tierValue;
-          }
-        }
-        if (locationQuery) {
-          const [city, state] = locationQuery.split(', ');
-          if (city) clinicFilter.city = city;
-          if (state) clinicFilter.state = state;
-        }
+    const indexQuery = buildIndexQuery(searchQuery, locationQuery, filters, userLocation, radius);
+    if (serverResults.current?.key !== searchQueryKey(indexQuery)) serverResults.current = null;
 
-        const queryResult = await queryClinics(clinicFilter);
-        searchResults = queryResult.clinics;
-      }
+    try {
+      // Filtered on the server; only distance and sorting are left to do here
+      const page = serverResults.current?.results || await fetchClinicSearch(indexQuery, null, MAX_RESULTS);
+      const searchResults = [...page.clinics];
+      setFacets(page.facets);
+      setTotalResults(page.total);
+      setRelaxations(page.relaxations);
 
       // Add distance if we have user location
       let resultsWithDistance: ExtendedClinic[] = searchResults;
@@ -189,23 +239,14 @@ const SearchPage: React.FC = () => {
         });
       }
 
-      // Apply additional filters
-      let filteredResults = resultsWithDistance;
-      
-      if (filters.verifiedOnly) {
-        filteredResults = filteredResults.filter(clinic => clinic.verified);
-      }
-
-      if (filters.states.length > 0) {
-        filteredResults = filteredResults.filter(clinic => 
-          filters.states.includes(clinic.state)
-        );
-      }
-
       // Sort results
-      sortResults(filteredResults, sortBy);
+      sortResults(resultsWithDistance, sortBy);
 
-      setResults(filteredResults);
+      setResults(resultsWithDistance);
+
+      if (resultsWithDistance.length === 0) {
+        logZeroResultSearch(indexQuery, locationQuery || null, 'search-updated');
+      }
     } catch (err) {
       console.error('Search error:', err);
       setError('Failed to search clinics. Please try again.');
@@ -258,6 +299,50 @@ const SearchPage: React.FC = () => {
     }
   };
 
+  // Apply a suggestion from a search with no results
+  const handleRelax = (relaxation: SearchRelaxation) => {
+    switch (relaxation.filter) {
+      case 'text':
+        setSearchQuery('');
+        break;
+      case 'categories':
+        setFilters(prev => ({ ...prev, services: [] }));
+        break;
+      case 'tiers':
+        setFilters(prev => ({ ...prev, tiers: [] }));
+        break;
+      case 'states':
+        setFilters(prev => ({ ...prev, states: [] }));
+        break;
+      case 'city':
+        setLocationQuery('');
+        break;
+      case 'verifiedOnly':
+        setFilters(prev => ({ ...prev, verifiedOnly: false }));
+        break;
+      case 'minRating':
+        setFilters(prev => ({ ...prev, minRating: 0 }));
+        break;
+      case 'telehealthOnly':
+        setFilters(prev => ({ ...prev, telehealthOnly: false }));
+        break;
+      case 'openNow':
+      case 'openWeekends':
+      case 'openEvenings':
+        setFilters(prev => ({ ...prev, [relaxation.filter]: false }));
+        break;
+      case 'radius':
+        setRadius(relaxation.radius || DEFAULT_RADIUS);
+        break;
+    }
+  };
+
+  const handleSelectCity = (popularCity: PopularCity) => {
+    const cityLocation = `${popularCity.city}, ${popularCity.stateCode}`;
+    setLocationQuery(cityLocation);
+    geocodeLocation(cityLocation);
+  };
+
   const handleLocationDenied = () => {
     // Use default US center
     setMapCenter({ lat: 39.8283, lng: -98.5795, zoom: 4 });
@@ -319,7 +404,8 @@ const SearchPage: React.FC = () => {
         <FilterBar
           filters={filters}
           onFiltersChange={setFilters}
-          totalResults={results.length}
+          totalResults={totalResults ?? results.length}
+          facets={facets}
           isSticky={true}
         />
 
@@ -332,7 +418,7 @@ const SearchPage: React.FC = () => {
               {location && ` in ${location}`}
             </h1>
             <p className="text-gray-400">
-              {loading ? 'Searching...' : `${results.length} clinics found`}
+              {loading ? 'Searching...' : `${totalResults ?? results.length} clinics found`}
               {userLocation && ` • Sorted by distance`}
             </p>
           </div>
@@ -383,23 +469,29 @@ const SearchPage: React.FC = () => {
 
           {/* No Results */}
           {!loading && !error && results.length === 0 && (
-            <div className="text-center py-16">
-              <svg className="w-16 h-16 text-gray-600 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-              </svg>
-              <h3 className="text-xl font-semibold text-white mb-2">No clinics found</h3>
-              <p className="text-gray-400 mb-4">Try adjusting your search criteria or location.</p>
-              <button
-                onClick={() => {
-                  setFilters({ services: [], tiers: [], states: [], verifiedOnly: false });
-                  setSearchQuery('');
-                  setLocationQuery('');
-                }}
-                className="px-4 py-2 bg-primary hover:bg-red-600 text-white rounded-lg transition-colors"
-              >
-                Clear all filters
-              </button>
-            </div>
+            <ZeroResultSuggestions
+              relaxations={relaxations}
+              state={filters.states[0] || locationQuery.split(', ')[1]}
+              city={locationQuery.split(', ')[0]}
+              onRelax={handleRelax}
+              onSelectCity={handleSelectCity}
+              onReset={() => {
+                setFilters({
+                  services: [],
+                  tiers: [],
+                  states: [],
+                  verifiedOnly: false,
+                  minRating: 0,
+                  telehealthOnly: false,
+                  openNow: false,
+                  openWeekends: false,
+                  openEvenings: false
+                });
+                setSearchQuery('');
+                setLocationQuery('');
+                setRadius(DEFAULT_RADIUS);
+              }}
+            />
           )}
 
           {/* Results */}
@@ -465,4 +557,26 @@ const SearchPage: React.FC = () => {
   );
 };
 
-export default SearchPage;
\ No newline at end of file
+// Rendered with its results so crawlers see them and mobile visitors don't wait on a second request
+export const getServerSideProps: GetServerSideProps<SearchPageProps> = async ({ query, res }) => {
+  const param = (name: string): string => (typeof query[name] === 'string' ? (query[name] as string) : '');
+  const indexQuery = buildIndexQuery(
+    param('q'),
+    param('location'),
+    { ...DEFAULT_FILTERS, services: param('service') ? [param('service')] : [] },
+    null,
+    DEFAULT_RADIUS
+  );
+
+  try {
+    const { page } = await searchClinicPage(indexQuery, { pageSize: MAX_RESULTS });
+    res.setHeader('Cache-Control', searchCacheControl(indexQuery));
+    return { props: { initialResults: page } };
+  } catch (error) {
+    // The page still renders, and searches again in the browser
+    console.error('Error rendering search results:', error);
+    return { props: { initialResults: null } };
+  }
+};
+
+export default SearchPage;
@@ -1,20 +1,59 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { GetServerSideProps } from 'next';
+import { ParsedUrlQuery } from 'querystring';
 import Head from 'next/head';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
-import { Clinic, ClinicLocation, TierCountsFlexible, ClinicFilter } from '../types';
+import {
+  Clinic,
+  ClinicLocation,
+  TierCountsFlexible,
+  ClinicFilter,
+  ClinicSearchPage,
+  PopularCity,
+  SearchEventSource,
+  SearchFacets,
+  SearchRelaxation
+} from '../types';
 import TierBadge from '../components/TierBadge';
 import dynamic from 'next/dynamic';
 // Remove Map imports - these functions don't exist in Map component
 import { getServiceSlug } from '../lib/utils';
-import SearchResultsList from '../components/SearchResultsList';
+import SearchResultsList, { RESULTS_PAGE_SIZE } from '../components/SearchResultsList';
+import SaveSearchButton from '../components/SaveSearchButton';
 import { useAutoLocation } from '../hooks/useAutoLocation';
 import ChangeLocationModal from '../components/ChangeLocationModal';
 import { geocodeLocation } from '../utils/geoUtils';
+import useSearchEventLog from '../utils/hooks/useSearchEventLog';
 
-// Import the clinic service
-import * as clinicService from '../lib/api/clinicService';
-const { searchClinics, queryClinics } = clinicService;
+import { fetchClinicSearch, filtersToIndexQuery } from '../lib/api/searchIndexService';
+import { searchQueryKey } from '../lib/searchQuery';
+import { searchClinicPage, searchCacheControl } from '../lib/clinicSearch';
+
+// Search bars that link here say so with ?src=, for the search demand report
+const SEARCH_EVENT_SOURCES: SearchEventSource[] = ['smart-search-bar', 'location-aware-search'];
+
+const SERVICE_OPTIONS = [
+  { value: 'TRT', label: 'Testosterone Replacement' },
+  { value: 'ED Treatment', label: 'ED Treatment' },
+  { value: 'Hair Loss', label: 'Hair Loss' },
+  { value: 'Weight Loss', label: 'Weight Loss' },
+  { value: 'Peptide Therapy', label: 'Peptide Therapy' },
+  { value: 'IV Therapy', label: 'IV Therapy' },
+  { value: 'Cryotherapy', label: 'Cryotherapy' }
+];
+
+// Clinics loaded for the map
+const MAP_RESULTS_LIMIT = 100;
+
+// Number of states listed under the state facet
+const STATE_FACET_LIMIT = 8;
+
+// Facet counts are keyed by the stored value; match the select options case-insensitively
+const facetCount = (counts: Record<string, number>, value: string): number => {
+  const key = Object.keys(counts).find(k => k.toLowerCase() === value.toLowerCase());
+  return key ? counts[key] : 0;
+};
 
 // Dynamic import for the Map component to avoid SSR issues with Leaflet
 const Map = dynamic(() => import('../components/Map'), {
@@ -30,16 +69,38 @@ const Map = dynamic(() => import('../components/Map'), {
   )
 });
 
-const SearchPage: React.FC = () => {
+interface SearchPageProps {
+  initialFilters: ClinicFilter; // From the URL
+  initialResults: ClinicSearchPage | null; // Map, facets and total for initialFilters
+  initialPage: ClinicSearchPage | null; // First page of the results list
+}
+
+// Filters from the URL, built the same way the page builds them as they change
+function filtersFromQuery(query: ParsedUrlQuery): ClinicFilter {
+  const param = (name: string): string => (typeof query[name] === 'string' ? (query[name] as string) : '');
+  const filters: ClinicFilter = {};
+  
+  if (param('q').trim()) filters.searchTerm = param('q').trim();
+  if (param('city')) filters.city = param('city');
+  if (param('state')) filters.state = param('state');
+  if (param('service')) filters.services = [param('service')];
+  if (['free', 'standard', 'advanced'].includes(param('tier'))) {
+    filters.tier = param('tier') as 'free' | 'standard' | 'advanced';
+  }
+  
+  return filters;
+}
+
+const SearchPage: React.FC<SearchPageProps> = ({ initialFilters, initialResults, initialPage }) => {
   const router = useRouter();
   const { q, city, state, service, location } = router.query;
   
-  const [searchTerm, setSearchTerm] = useState<string>('');
-  const [selectedCity, setSelectedCity] = useState<string>('');
-  const [selectedState, setSelectedState] = useState<string>('');
-  const [selectedService, setSelectedService] = useState<string>('');
+  const [searchTerm, setSearchTerm] = useState<string>(initialFilters.searchTerm || '');
+  const [selectedCity, setSelectedCity] = useState<string>(initialFilters.city || '');
+  const [selectedState, setSelectedState] = useState<string>(initialFilters.state || '');
+  const [selectedService, setSelectedService] = useState<string>(initialFilters.services?.[0] || '');
   const [selectedLocation, setSelectedLocation] = useState<string>('');
-  const [filters, setFilters] = useState<ClinicFilter>({});
+  const [filters, setFilters] = useState<ClinicFilter>(initialFilters);
   
   // Helper function to update a specific filter
   const onFilterChange = (name: string, value: any) => {
@@ -49,7 +110,12 @@ const SearchPage: React.FC = () => {
     }));
   };
   
-  const [results, setResults] = useState<Clinic[]>([]);
+  const [results, setResults] = useState<Clinic[]>(initialResults?.clinics || []);
+  const [facets, setFacets] = useState<SearchFacets | null>(initialResults?.facets || null); // Only when the search index is available
+  const [totalResults, setTotalResults] = useState<number | null>(initialResults?.total ?? null);
+  
+  // Results rendered on the server, used instead of searching again until the filters change
+  const serverResults = useRef(initialResults ? { key: searchQueryKey(filtersToIndexQuery(initialFilters)), results: initialResults } : null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -58,6 +124,13 @@ const SearchPage: React.FC = () => {
   const [isLocating, setIsLocating] = useState(false);
   const [showLocationModal, setShowLocationModal] = useState(false);
   
+  // Remember which search bar sent the user here; the URL is rewritten as filters change
+  const [eventSource, setEventSource] = useState<SearchEventSource>('search-page');
+  useEffect(() => {
+    const source = SEARCH_EVENT_SOURCES.find(candidate => candidate === router.query.src);
+    if (source) setEventSource(source);
+  }, [router.query.src]);
+  
   // Use auto-location hook
   const { location: autoLocation, isLoading: autoLocationLoading, error: autoLocationError } = useAutoLocation();
   
@@ -154,6 +227,8 @@ const SearchPage: React.FC = () => {
     const performSearch = async () => {
       if (Object.keys(filters).length === 0) {
         // Don't search if no filters
+        setFacets(null);
+        setTotalResults(null);
         return;
       }
       
@@ -161,21 +236,18 @@ const SearchPage: React.FC = () => {
       setError(null);
       
       try {
-        let results: Clinic[];
+        const indexQuery = filtersToIndexQuery(filters);
+        if (serverResults.current?.key !== searchQueryKey(indexQuery)) serverResults.current = null;
         
-        // If we have a search term, use the search function
-        if (filters.searchTerm) {
-          results = await searchClinics(filters.searchTerm);
-        } else {
-          // Otherwise use the query function with filters
-          const queryResult = await queryClinics(filters);
-          results = queryResult.clinics;
-        }
+        // Ranked results, with facet counts and the total when the search index answered
+        const page = serverResults.current?.results || await fetchClinicSearch(indexQuery, null, MAP_RESULTS_LIMIT);
+        setFacets(page.facets);
+        setTotalResults(page.total);
         
         // Store the search query for later
         localStorage.setItem('lastSearchQuery', filters.searchTerm || '');
         
-        setResults(results);
+        setResults(page.clinics);
       } catch (err) {
         console.error('Search error:', err);
         setError('Failed to perform search. Please try again.');
@@ -228,6 +300,33 @@ const SearchPage: React.FC = () => {
     router.replace({ pathname: router.pathname, query }, undefined, { shallow: true });
   };
   
+  // Apply a suggestion from a search with no results
+  const handleRelax = (relaxation: SearchRelaxation) => {
+    switch (relaxation.filter) {
+      case 'text':
+        setSearchTerm('');
+        break;
+      case 'services':
+        setSelectedService('');
+        break;
+      case 'tiers':
+        onFilterChange('tier', undefined);
+        break;
+      case 'states':
+        setSelectedState('');
+        break;
+      case 'city':
+        setSelectedCity('');
+        break;
+    }
+  };
+  
+  const handleSelectCity = (popularCity: PopularCity) => {
+    setSelectedCity(popularCity.city);
+    setSelectedState(popularCity.stateCode);
+    handleLocationChange(`${popularCity.city}, ${popularCity.stateCode}`);
+  };
+  
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -258,6 +357,24 @@ const SearchPage: React.FC = () => {
   };
   
   // Sort clinics by tier (advanced first, then standard, then free)
+  // Log settled searches for the search demand report
+  const [locationCity, locationState] = selectedLocation.split(', ');
+  const searchEvent = React.useMemo(() => {
+    if (loading || Object.keys(filters).length === 0) return null;
+
+    const { searchTerm: text, ...otherFilters } = filters;
+    return {
+      source: eventSource,
+      query: text || '',
+      location: selectedLocation || mapCenter
+        ? { city: locationCity, state: locationState, lat: mapCenter?.lat, lng: mapCenter?.lng }
+        : null,
+      filters: otherFilters,
+      resultCount: totalResults ?? results.length
+    };
+  }, [loading, filters, eventSource, selectedLocation, locationCity, locationState, mapCenter, totalResults, results.length]);
+  const { logClick } = useSearchEventLog(searchEvent);
+  
   const sortedResults = [...results].sort((a, b) => {
     const tierOrder: Record<string, number> = { 
       'premium': 0, 'advanced': 0, 'high': 0, 
@@ -354,13 +471,11 @@ const SearchPage: React.FC = () => {
                           onChange={(e) => setSelectedService(e.target.value)}
                         >
                           <option value="">All Services</option>
-                          <option value="TRT">Testosterone Replacement</option>
-                          <option value="ED Treatment">ED Treatment</option>
-                          <option value="Hair Loss">Hair Loss</option>
-                          <option value="Weight Loss">Weight Loss</option>
-                          <option value="Peptide Therapy">Peptide Therapy</option>
-                          <option value="IV Therapy">IV Therapy</option>
-                          <option value="Cryotherapy">Cryotherapy</option>
+                          {SERVICE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}{facets ? ` (${facetCount(facets.services, option.value)})` : ''}
+                            </option>
+                          ))}
                         </select>
                         <svg className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-[#777777]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M13 10V3L4 14h7v7l9-11h-7z" />
@@ -407,22 +522,43 @@ const SearchPage: React.FC = () => {
                           className={`px-3 py-2 rounded-lg text-sm transition-all ${filters.tier === 'advanced' ? 'bg-primary text-white' : 'bg-[#222] text-[#AAA] hover:bg-[#333]'}`}
                           onClick={() => onFilterChange('tier', 'advanced')}
                         >
-                          Advanced
+                          Advanced{facets && <span className="ml-1 opacity-70">{facets.tiers.advanced || 0}</span>}
                         </button>
                         <button 
                           className={`px-3 py-2 rounded-lg text-sm transition-all ${filters.tier === 'standard' ? 'bg-yellow-600 text-white' : 'bg-[#222] text-[#AAA] hover:bg-[#333]'}`}
                           onClick={() => onFilterChange('tier', 'standard')}
                         >
-                          Standard
+                          Standard{facets && <span className="ml-1 opacity-70">{facets.tiers.standard || 0}</span>}
                         </button>
                         <button 
                           className={`px-3 py-2 rounded-lg text-sm transition-all ${filters.tier === 'free' ? 'bg-gray-600 text-white' : 'bg-[#222] text-[#AAA] hover:bg-[#333]'}`}
                           onClick={() => onFilterChange('tier', 'free')}
                         >
-                          Free
+                          Free{facets && <span className="ml-1 opacity-70">{facets.tiers.free || 0}</span>}
                         </button>
                       </div>
                     </div>
+                    
+                    {/* State facet (search index only) */}
+                    {facets && Object.keys(facets.states).length > 0 && (
+                      <div>
+                        <label className="block text-sm text-white font-medium mb-2 ml-1">State</label>
+                        <div className="flex flex-wrap gap-2">
+                          {Object.entries(facets.states)
+                            .sort(([, a], [, b]) => b - a)
+                            .slice(0, STATE_FACET_LIMIT)
+                            .map(([stateCode, count]) => (
+                              <button
+                                key={stateCode}
+                                className={`px-3 py-2 rounded-lg text-sm transition-all ${selectedState.toUpperCase() === stateCode ? 'bg-primary text-white' : 'bg-[#222] text-[#AAA] hover:bg-[#333]'}`}
+                                onClick={() => setSelectedState(selectedState.toUpperCase() === stateCode ? '' : stateCode)}
+                              >
+                                {stateCode}<span className="ml-1 opacity-70">{count}</span>
+                              </button>
+                            ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                   
                   {/* Divider */}
@@ -470,6 +606,26 @@ const SearchPage: React.FC = () => {
                 {searchTerm ? ` - "${searchTerm}"` : ''}
               </h1>
               
+              {Object.keys(filters).length > 0 && (
+                <div className="mb-6">
+                  <SaveSearchButton
+                    search={{
+                      query: searchTerm,
+                      location: selectedLocation || selectedState || mapCenter
+                        ? {
+                            city: locationCity || selectedCity || undefined,
+                            state: locationState || selectedState || undefined,
+                            lat: mapCenter?.lat,
+                            lng: mapCenter?.lng
+                          }
+                        : null,
+                      filters: { services: filters.services, tier: filters.tier }
+                    }}
+                    defaultName={[searchTerm || selectedService || 'Clinics', selectedLocation || selectedState].filter(Boolean).join(' in ')}
+                  />
+                </div>
+              )}
+              
               {/* Map View */}
               <div className="mb-8">
                 <Map 
@@ -511,31 +667,11 @@ const SearchPage: React.FC = () => {
                 </div>
               )}
               
-              {/* No Results State */}
-              {!loading && !error && sortedResults.length === 0 && Object.keys(filters).length > 0 && (
-                <div className="py-8 text-center">
-                  <p className="mb-4">No clinics found matching your search criteria.</p>
-                  <button 
-                    onClick={() => {
-                      setSearchTerm('');
-                      setSelectedCity('');
-                      setSelectedState('');
-                      setSelectedService('');
-                      setSelectedLocation('');
-                      setFilters({});
-                    }} 
-                    className="bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded-md"
-                  >
-                    Reset Search
-                  </button>
-                </div>
-              )}
-              
               {/* Result stats */}
               {!loading && sortedResults.length > 0 && (
                 <div className="flex flex-col md:flex-row justify-between items-start mb-6">
                   <p className="text-textSecondary">
-                    Found {sortedResults.length} clinics 
+                    Found {totalResults ?? sortedResults.length} clinics 
                     {selectedLocation ? ` in ${selectedLocation}` : 
                      (selectedCity && selectedState) ? ` in ${selectedCity}, ${selectedState}` :
                      selectedState ? ` in ${selectedState}` : ''}
@@ -574,7 +710,12 @@ const SearchPage: React.FC = () => {
               {/* Results list - Replace with new component */}
               <SearchResultsList 
                 initialFilters={filters} 
+                initialPage={initialPage}
                 userLocation={mapCenter ? { lat: mapCenter.lat, lng: mapCenter.lng } : null}
+                searchLocation={selectedLocation || null}
+                onRelax={handleRelax}
+                onSelectCity={handleSelectCity}
+                onResultClick={logClick}
               />
             </div>
           </div>
@@ -596,4 +737,27 @@ const SearchPage: React.FC = () => {
 // The actual onFilterChange function is implemented inside the component
 // This is just to prevent TypeScript errors for the function referenced in JSX
 
+// Rendered with its results so crawlers see them and mobile visitors don't wait on a second request
+export const getServerSideProps: GetServerSideProps<SearchPageProps> = async ({ query, res }) => {
+  const initialFilters = filtersFromQuery(query);
+  if (Object.keys(initialFilters).length === 0) {
+    return { props: { initialFilters, initialResults: null, initialPage: null } };
+  }
+
+  try {
+    const indexQuery = filtersToIndexQuery(initialFilters);
+    const [results, page] = await Promise.all([
+      searchClinicPage(indexQuery, { pageSize: MAP_RESULTS_LIMIT }),
+      searchClinicPage(indexQuery, { pageSize: RESULTS_PAGE_SIZE })
+    ]);
+
+    res.setHeader('Cache-Control', searchCacheControl(indexQuery));
+    return { props: { initialFilters, initialResults: results.page, initialPage: page.page } };
+  } catch (error) {
+    // The page still renders, and searches again in the browser
+    console.error('Error rendering search results:', error);
+    return { props: { initialFilters, initialResults: null, initialPage: null } };
+  }
+};
+
 export default SearchPage;
\ No newline at end of file
@@ -12,6 +12,7 @@ export interface Clinic {
   country?: string;
   lat?: number | null;
   lng?: number | null;
+  geohash?: string; // Radius search index, written by the worker at import/geocode time
   phone: string;
   website?: string;
   email?: string;
@@ -40,6 +41,11 @@ export interface Clinic {
   verificationStatus?: 'verified' | 'pending' | 'failed';
   verificationMethod?: string;
   
+  // Multi-location brands
+  groupId?: string;
+  billedByGroup?: string; // Set while the tier comes from the group's plan
+  tierBeforeGroup?: 'free' | 'standard' | 'advanced'; // Restored when the group plan stops covering the clinic
+  
   // External IDs for data fetching
   googlePlacesId?: string;
   externalIds?: {
@@ -123,6 +129,16 @@ export interface Clinic {
     telehealth?: boolean;
   };
 
+  // Treatment search index, written by the worker's treatment extractor
+  searchableTerms?: string[];
+  treatments?: {
+    term: string;
+    category?: string;
+    type: 'medication' | 'peptide' | 'therapy' | 'procedure' | 'supplement' | 'unknown';
+    confidence: number;
+    frequency: number;
+  }[];
+
   // Discovery metadata
   discoverySession?: string;
   discoveryGrid?: string;
@@ -188,16 +204,112 @@ export interface Clinic {
     websiteOK: boolean;
   };
   
+  // Data quality, written by the worker's scoreClinicQuality task
+  quality?: {
+    score: number;
+    completeness: number; // 0-100, weighted share of filled fields
+    missing: string[];
+    issues: string[];
+    stale?: boolean;
+    computedAt?: Timestamp | Date;
+  };
+  
   // UI specific properties
   description?: string;
   hours?: { day: string; hours: string; }[];
+  hoursExceptions?: { date: string; hours: string; label?: string }[]; // One-off days ('YYYY-MM-DD'), e.g. "Closed" on a holiday
+  schedule?: ClinicSchedule; // Parsed from hours/hoursExceptions by the worker
   faqs?: { question: string; answer: string; }[];
 }
 
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// Minutes after local midnight; close can run past 1440 for hours that end after midnight
+export interface ScheduleInterval {
+  open: number;
+  close: number;
+}
+
+// Structured opening hours (see lib/clinicHours.ts). Must match ClinicSchedule in the worker's utils/clinicHours.ts
+export interface ClinicSchedule {
+  timeZone: string; // IANA, from the clinic's state/coordinates
+  weekly: Record<Weekday, ScheduleInterval[]>; // Empty list = closed that day
+  exceptions?: { date: string; intervals: ScheduleInterval[]; label?: string }[]; // 'YYYY-MM-DD', overrides weekly
+  closedOnHolidays?: boolean; // Closed on major US holidays unless an exception says otherwise
+  openWeekends: boolean;
+  openEvenings: boolean; // Open past 6 PM on at least one day
+  unparsed?: string[]; // Hours text the parser couldn't read
+}
+
+// Brand with several locations (clinic_groups/{slug}); branches inherit shared fields they leave empty
+export interface ClinicGroup {
+  id: string;
+  name: string;
+  slug: string;
+  website?: string;
+  logoUrl?: string;
+  description?: string;
+  services: string[];
+  createdAt?: Timestamp | Date;
+  updatedAt?: Timestamp | Date;
+}
+
+// One plan bought for the whole brand, covering up to locationLimit locations
+// (clinic_groups/{slug}/private/billing, admin only)
+export interface ClinicGroupBilling {
+  tier: 'free' | 'standard' | 'advanced';
+  locationLimit: number;
+  status: 'active' | 'canceled';
+  coveredClinicIds: string[];
+  updatedAt?: Timestamp | Date;
+}
+
+// One entry in clinics/{id}/history; a missing before/after key means the field was absent on that side
+export interface ClinicChangeEntry {
+  id: string;
+  clinicId: string;
+  source: 'ui' | 'worker' | 'import';
+  actor: string;
+  action?: string;
+  sessionId?: string;
+  restoredFrom?: string;
+  changedAt: Timestamp | Date;
+  fields: string[];
+  changes: Record<string, { before?: any; after?: any }>;
+}
+
 // Extended clinic for search results
 export interface ExtendedClinic extends Clinic {
   distance?: number;
   relevanceScore?: number;
+  ranking?: RankingBreakdown;
+}
+
+// Inputs to the search ranking function (lib/ranking.ts); weights live in settings/searchRanking
+export type RankingFactor =
+  | 'relevance'
+  | 'distance'
+  | 'rating'
+  | 'reviews'
+  | 'completeness'
+  | 'tierBoost'
+  | 'verification'
+  | 'freshness';
+
+export type RankingWeights = Record<RankingFactor, number>;
+
+export interface RankingFactorScore {
+  factor: RankingFactor;
+  value: number; // 0-1 before weighting
+  weight: number;
+  contribution: number; // Points this factor adds to the 0-100 score
+  detail: string; // The raw signal, e.g. "4.6★ from 23 reviews"
+}
+
+// Why a result ranked where it did; factors without a signal (no text query, no location) are left out
+export interface RankingBreakdown {
+  score: number; // 0-100
+  factors: RankingFactorScore[];
 }
 
 // Clinic location for maps
@@ -290,6 +402,294 @@ export interface ClinicFilter {
   verified?: boolean;
 }
 
+// Search index (see lib/searchIndex.ts). Must match SearchDocument in the worker's utils/searchIndex.ts
+export interface SearchDocument {
+  id: string;
+  slug?: string;
+  name: string;
+  address?: string;
+  city: string;
+  state: string;
+  zip?: string;
+  phone?: string;
+  website?: string;
+  tier: 'free' | 'standard' | 'advanced';
+  verified: boolean;
+  services: string[];
+  treatments: string[];
+  searchableTerms: string[];
+  keywords: string[];
+  lat?: number;
+  lng?: number;
+  rating?: number;
+  reviewCount?: number;
+  telehealth?: boolean;
+  completeness?: number; // 0-100, from clinic.quality
+  priorityListing?: boolean; // tierFeatures.priorityListing
+  updatedAt?: string; // ISO date of the clinic's last update
+  schedule?: ClinicSchedule; // For the hours filters
+  totalClicks: number;
+}
+
+export interface SearchIndexQuery {
+  text?: string;
+  services?: string[]; // Any of
+  categories?: string[]; // Any of - service category IDs (serviceCategoryMap in lib/utils)
+  tiers?: Array<'free' | 'standard' | 'advanced'>; // Any of
+  states?: string[]; // Any of
+  city?: string;
+  verifiedOnly?: boolean;
+  minRating?: number;
+  telehealthOnly?: boolean;
+  openNow?: boolean; // At the time of the search, in each clinic's time zone
+  openWeekends?: boolean;
+  openEvenings?: boolean;
+  lat?: number;
+  lng?: number;
+  radius?: number; // Miles around lat/lng
+  page?: number; // 0-based
+  pageSize?: number;
+}
+
+// Query fields a zero-result search can suggest relaxing
+export type SearchIndexFilter =
+  | 'text'
+  | 'services'
+  | 'categories'
+  | 'tiers'
+  | 'states'
+  | 'city'
+  | 'verifiedOnly'
+  | 'minRating'
+  | 'telehealthOnly'
+  | 'openNow'
+  | 'openWeekends'
+  | 'openEvenings'
+  | 'radius';
+
+// A change to a zero-result query that would return results
+export interface SearchRelaxation {
+  filter: SearchIndexFilter; // Dropped, or widened for 'radius'
+  radius?: number; // The wider radius when filter is 'radius'
+  total: number; // Results after the change
+}
+
+// A field value split into matched / unmatched runs for rendering with <mark>
+export interface SearchHighlight {
+  field: 'name' | 'services' | 'treatments';
+  value: string;
+  segments: { text: string; match: boolean }[];
+}
+
+export interface SearchIndexHit {
+  document: SearchDocument;
+  score: number; // Relevance, 0-100 relative to the best hit
+  highlights: SearchHighlight[];
+  ranking: RankingBreakdown; // Hits are ordered by ranking.score
+}
+
+// Value -> number of matching clinics. A facet's own selection is ignored when counting it
+export interface SearchFacets {
+  services: Record<string, number>;
+  categories: Record<string, number>;
+  tiers: Record<string, number>;
+  states: Record<string, number>;
+  ratings: Record<string, number>; // Minimum rating ('4.5', '4', '3') -> clinics rated at least that
+  telehealth: number;
+  hours: { openNow: number; openWeekends: number; openEvenings: number }; // Clinics with a parsed schedule that qualify
+}
+
+export interface SearchIndexResult {
+  hits: SearchIndexHit[];
+  total: number;
+  facets: SearchFacets;
+  relaxations?: SearchRelaxation[]; // Only when total is 0, most results first
+  provider: string;
+}
+
+// One page of clinic search results from /api/search (lib/clinicSearch.ts), also server-rendered by the search pages
+export interface ClinicSearchPage {
+  clinics: ExtendedClinic[]; // Ranked
+  highlights: Record<string, SearchHighlight[]>; // By clinic ID; only from the search index
+  total: number | null; // Null when Firestore answered - it can't count matches
+  facets: SearchFacets | null; // Only from the search index
+  relaxations: SearchRelaxation[]; // Suggested when the first page is empty
+  nextCursor: string | null; // Pass back as ?cursor= for the next page
+  provider: string; // The search index provider, or "firestore"
+  partial?: boolean; // A Firestore radius search hit its read cap, so some clinics in range may be missing
+}
+
+// A city from the worker's clinicCountByLocation stats (stats/cityCounts/cities)
+export interface PopularCity {
+  slug: string;
+  city: string;
+  state: string;
+  stateCode: string;
+  clinicCount: number;
+}
+
+// One search that found nothing, logged to search_zero_results to show unmet demand
+export interface ZeroResultSearch {
+  query: string;
+  filters: Omit<SearchIndexQuery, 'text' | 'page' | 'pageSize'>;
+  location: string | null; // "City, ST" the user searched from, when known
+  page: string; // The search page that ran the query
+  createdAt?: Timestamp | Date;
+}
+
+// How the user got to the search page: directly, or from a search bar that links there with ?src=
+export type SearchEventSource = 'search-page' | 'smart-search-bar' | 'location-aware-search';
+
+export interface SearchEventLocation {
+  city?: string;
+  state?: string;
+  lat?: number;
+  lng?: number;
+}
+
+// One search (type 'search') or a click on one of its results (type 'click') in search_events.
+// Clicks repeat the search's fields so the worker's aggregateSearchDemand task needs no joins.
+export interface SearchEvent {
+  type: 'search' | 'click';
+  sessionId: string;
+  searchId?: string; // Clicks only: the search event the result came from
+  source: SearchEventSource;
+  query: string;
+  terms: string[]; // Normalized query terms, so "testosteron" and "Testosterone" group together
+  location: SearchEventLocation | null;
+  filters: Record<string, any>;
+  resultCount: number;
+  clinicId?: string; // Clicks only
+  position?: number; // Clicks only, 1-based rank in the result list
+  createdAt?: Timestamp | Date;
+}
+
+// Written by the worker's aggregateSearchDemand task to admin/searchDemand
+export interface SearchDemandReport {
+  periodDays: number;
+  generatedAt: Timestamp | Date;
+  totals: {
+    searches: number;
+    clicks: number;
+    zeroResultSearches: number;
+    sessions: number;
+  };
+  topQueries: { query: string; searches: number; clicks: number; zeroResultSearches: number }[];
+  zeroResultQueries: { query: string; searches: number; cities: string[] }[];
+  clickThroughByPosition: { position: number; clicks: number; rate: number }[]; // rate: clicks / searches showing that position
+  unmetDemandByCity: { city: string; state: string; searches: number; zeroResultSearches: number; topQueries: string[] }[];
+}
+
+// One parsed query term (see parseSearchQuery), stored so the worker matches synonyms and corrections the way the site does
+export interface SavedSearchTerm {
+  text: string;
+  variants: string[];
+}
+
+// A signed-in user's search in saved_searches. The worker's sendSavedSearchAlerts task emails
+// the owner a digest when clinics start matching it.
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  email: string;
+  name: string;
+  query: string;
+  terms: SavedSearchTerm[];
+  location: SearchEventLocation | null;
+  radius: number | null; // Miles around location.lat/lng; null matches location.city/state instead
+  filters: Pick<ClinicFilter, 'services' | 'tier' | 'verified'>;
+  alertsEnabled: boolean;
+  notifiedClinicIds?: string[]; // Matches as of the last alert; set by the worker
+  lastNotifiedAt?: Timestamp | Date;
+  createdAt?: Timestamp | Date;
+}
+
+// Background worker job queue, written by the worker's utils/jobQueue.ts (types/jobs.ts there)
+export type WorkerJobRunStatus = 'running' | 'succeeded' | 'failed' | 'abandoned' | 'interrupted' | 'cancelled';
+
+// One parameter in a job's schema, published by the worker (utils/jobParams.ts there)
+export interface WorkerJobParamSpec {
+  type: 'boolean' | 'integer' | 'number' | 'string' | 'string[]';
+  description: string;
+  default?: boolean | number | string | string[];
+  min?: number;
+  max?: number;
+  options?: string[];
+}
+
+export type WorkerJobParamSchema = Record<string, WorkerJobParamSpec>;
+
+// worker_jobs/{name}
+export interface WorkerJob {
+  name: string;
+  schedule: string; // Cron expression, UTC
+  status: 'idle' | 'running' | 'dead-lettered';
+  nextRunAt: Timestamp;
+  lease: { owner: string; runId: string; expiresAt: Timestamp } | null;
+  consecutiveFailures: number;
+  requestedRun?: { params: Record<string, any>; requestedBy: string; requestedAt: Timestamp } | null;
+  defaultSchedule?: string;
+  enabled?: boolean;
+  paramSchema?: WorkerJobParamSchema;
+  overrideErrors?: string[] | null;
+  lastRunId?: string;
+  lastRunAt?: Timestamp;
+  lastStatus?: WorkerJobRunStatus;
+  lastDurationMs?: number;
+  lastError?: string | null;
+  deadLetteredAt?: Timestamp;
+}
+
+// worker_job_runs/{id}
+export interface WorkerJobRun {
+  id: string;
+  job: string;
+  trigger: 'schedule' | 'manual';
+  workerId: string;
+  status: WorkerJobRunStatus;
+  attempt: number;
+  startedAt: Timestamp;
+  heartbeatAt: Timestamp;
+  finishedAt?: Timestamp;
+  durationMs?: number;
+  error?: string;
+  output?: Record<string, string | number | boolean> | null;
+  params?: Record<string, any>;
+  requestedBy?: string;
+  cancelRequested?: boolean;
+  cancelledBy?: string;
+  logCount?: number;
+}
+
+// worker_job_overrides/{name} - admin settings over the job registry's defaults
+export interface WorkerJobOverride {
+  enabled?: boolean;
+  schedule?: string | null;
+  params?: Record<string, any>;
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+  auditId?: string; // The audit entry written with this change
+}
+
+// worker_job_overrides/{name}/audit/{id}
+export interface WorkerJobOverrideAuditEntry {
+  id: string;
+  changedBy: string;
+  changedByUid: string;
+  changedAt: Timestamp;
+  fields: string[];
+  before: Pick<WorkerJobOverride, 'enabled' | 'schedule' | 'params'> | null;
+  after: Pick<WorkerJobOverride, 'enabled' | 'schedule' | 'params'> | null;
+}
+
+// worker_job_runs/{id}/logs/{seq} - a run's console output
+export interface WorkerJobLogLine {
+  seq: number;
+  at: Timestamp;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
 // Discovery and Enhancement Types
 export interface GooglePhoto {
   photo_reference: string;
@@ -0,0 +1,288 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+  WriteBatch
+} from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { commitClinicBatchWithHistory } from '../../lib/api/clinicHistoryService';
+
+// Firestore allows 500 writes per batch
+const MAX_BATCH_WRITES = 450;
+
+// Collections whose documents point at a clinic through a top-level clinicId field
+const CLINIC_LINKED_COLLECTIONS = ['reviews', 'traffic_logs', 'call_logs'];
+
+// Per-clinic subcollections moved onto the primary, keeping document ids (clinic reports read the logs)
+const CLINIC_SUBCOLLECTIONS = ['reviews', 'traffic_logs', 'engagement_logs', 'analytics'];
+
+// Subcollections of running counters: a document both clinics have (analytics/summary) is added together
+const COUNTER_SUBCOLLECTIONS = ['analytics'];
+
+// Scalar profile fields copied from the retired clinic when the primary has no value
+const FILL_FIELDS = [
+  'address',
+  'city',
+  'state',
+  'zip',
+  'phone',
+  'email',
+  'website',
+  'lat',
+  'lng',
+  'description',
+  'hours',
+  'googlePlacesId',
+  'logoUrl'
+];
+
+// Tags that no longer apply once the pair has been resolved
+const RESOLVED_TAGS = ['potential-duplicate', 'duplicate'];
+
+export interface MergeClinicsResult {
+  primaryId: string;
+  retiredId: string;
+  retiredSlug: string;
+  filledFields: string[];
+  movedDocuments: Record<string, number>;
+}
+
+interface MergeActor {
+  adminId: string;
+  adminName: string;
+}
+
+/**
+ * Small helper that commits a write batch whenever it fills up
+ */
+class BatchWriter {
+  private batch: WriteBatch = writeBatch(db);
+  private count = 0;
+
+  async update(ref: DocumentReference, data: DocumentData) {
+    this.batch.update(ref, data);
+    await this.bump();
+  }
+
+  // Both writes go in the same batch, so a merge that is run again never copies a document twice
+  async move(from: DocumentReference, to: DocumentReference, data: DocumentData) {
+    this.batch.set(to, data);
+    this.batch.delete(from);
+    this.count++;
+    await this.bump();
+  }
+
+  async commit() {
+    if (this.count > 0) {
+      await this.batch.commit();
+      this.batch = writeBatch(db);
+      this.count = 0;
+    }
+  }
+
+  private async bump() {
+    this.count++;
+    if (this.count >= MAX_BATCH_WRITES) {
+      await this.commit();
+    }
+  }
+}
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || value === 'invalid' ||
+  (Array.isArray(value) && value.length === 0);
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return new Date(value).getTime() || 0;
+};
+
+/**
+ * Add up the numeric counters of a document both clinics have; other fields keep the primary's value
+ */
+function addCounters(primary: DocumentData, retired: DocumentData): DocumentData {
+  const merged: DocumentData = { ...primary };
+  Object.entries(retired).forEach(([key, value]) => {
+    if (typeof value === 'number' && typeof primary[key] === 'number') {
+      merged[key] = primary[key] + value;
+    } else if (merged[key] === undefined) {
+      merged[key] = value;
+    }
+  });
+  return merged;
+}
+
+/**
+ * Fold reviewStats from both clinics into a count-weighted average
+ */
+function mergeReviewStats(primary: DocumentData, retired: DocumentData) {
+  const a = primary.reviewStats;
+  const b = retired.reviewStats;
+  if (!a?.count) return b?.count ? b : a;
+  if (!b?.count) return a;
+
+  const count = a.count + b.count;
+  const distribution: Record<string, number> = { ...(a.distribution || {}) };
+  Object.entries(b.distribution || {}).forEach(([stars, total]) => {
+    distribution[stars] = (distribution[stars] || 0) + (total as number);
+  });
+
+  return {
+    ...a,
+    averageRating: Math.round(((a.averageRating * a.count + b.averageRating * b.count) / count) * 10) / 10,
+    count,
+    distribution
+  };
+}
+
+function mergeTrafficMeta(primary: DocumentData, retired: DocumentData) {
+  const a = primary.trafficMeta;
+  const b = retired.trafficMeta;
+  if (!a) return b;
+  if (!b) return a;
+
+  return {
+    totalClicks: (a.totalClicks || 0) + (b.totalClicks || 0),
+    topSearchTerms: Array.from(new Set([...(a.topSearchTerms || []), ...(b.topSearchTerms || [])])).slice(0, 10),
+    lastViewed: toMillis(b.lastViewed) > toMillis(a.lastViewed) ? b.lastViewed : a.lastViewed
+  };
+}
+
+/**
+ * Merge a duplicate clinic into a primary clinic.
+ *
+ * The primary keeps its own values and gains any fields it is missing, the union of
+ * tags and services, and the combined review/traffic stats. Reviews, traffic and call
+ * logs are re-pointed at the primary, a redirect is recorded from the retired slug, and
+ * the duplicate document is deleted.
+ *
+ * Linked documents are moved first, in as many batches as they need. The primary update,
+ * redirect, log entry and delete go in one final batch once those have committed, so if the
+ * merge fails part way the duplicate is still there and running it again finishes the job.
+ */
+export async function mergeClinics(
+  primaryId: string,
+  retiredId: string,
+  actor: MergeActor = { adminId: 'current_admin', adminName: 'Admin User' }
+): Promise<MergeClinicsResult> {
+  if (primaryId === retiredId) {
+    throw new Error('Cannot merge a clinic into itself');
+  }
+
+  const primaryRef = doc(db, 'clinics', primaryId);
+  const retiredRef = doc(db, 'clinics', retiredId);
+  const [primarySnap, retiredSnap] = await Promise.all([getDoc(primaryRef), getDoc(retiredRef)]);
+
+  if (!primarySnap.exists() || !retiredSnap.exists()) {
+    throw new Error('Both clinics must exist to merge');
+  }
+
+  const primary = primarySnap.data();
+  const retired = retiredSnap.data();
+  const primarySlug = primary.slug || primaryId;
+  const retiredSlug = retired.slug || retiredId;
+
+  // Build the merged profile
+  const updates: DocumentData = {};
+  const filledFields: string[] = [];
+
+  FILL_FIELDS.forEach(field => {
+    if (isEmpty(primary[field]) && !isEmpty(retired[field])) {
+      updates[field] = retired[field];
+      filledFields.push(field);
+    }
+  });
+
+  updates.tags = Array.from(new Set([...(primary.tags || []), ...(retired.tags || [])]))
+    .filter(tag => !RESOLVED_TAGS.includes(tag));
+  updates.services = Array.from(new Set([...(primary.services || []), ...(retired.services || [])]));
+  updates.mergedFrom = Array.from(new Set([...(primary.mergedFrom || []), retiredId]));
+  updates.potentialDuplicateOf = null;
+  updates.updatedAt = Timestamp.now();
+
+  const reviewStats = mergeReviewStats(primary, retired);
+  if (reviewStats) updates.reviewStats = reviewStats;
+
+  const trafficMeta = mergeTrafficMeta(primary, retired);
+  if (trafficMeta) updates.trafficMeta = trafficMeta;
+
+  const writer = new BatchWriter();
+  const movedDocuments: Record<string, number> = {};
+
+  // Re-point linked documents at the primary clinic
+  for (const collectionName of CLINIC_LINKED_COLLECTIONS) {
+    const linked = await getDocs(query(collection(db, collectionName), where('clinicId', '==', retiredId)));
+    movedDocuments[collectionName] = linked.size;
+
+    for (const linkedDoc of linked.docs) {
+      await writer.update(linkedDoc.ref, { clinicId: primaryId, mergedFromClinicId: retiredId });
+    }
+  }
+
+  // Move the per-clinic subcollections across
+  for (const subcollection of CLINIC_SUBCOLLECTIONS) {
+    const retiredDocs = await getDocs(collection(db, 'clinics', retiredId, subcollection));
+    movedDocuments[`clinics/${subcollection}`] = retiredDocs.size;
+
+    for (const retiredDoc of retiredDocs.docs) {
+      const target = doc(db, 'clinics', primaryId, subcollection, retiredDoc.id);
+      let data: DocumentData = { ...retiredDoc.data(), mergedFromClinicId: retiredId };
+
+      if (COUNTER_SUBCOLLECTIONS.includes(subcollection)) {
+        const existing = await getDoc(target);
+        if (existing.exists()) data = addCounters(existing.data(), retiredDoc.data());
+      }
+
+      await writer.move(retiredDoc.ref, target, data);
+    }
+  }
+
+  await writer.commit();
+
+  const finalBatch = writeBatch(db);
+  finalBatch.update(primaryRef, updates);
+
+  // Old URLs keep working through the redirect (publicly readable, so it holds slugs only)
+  finalBatch.set(doc(db, 'clinic_redirects', retiredSlug), {
+    fromSlug: retiredSlug,
+    fromClinicId: retiredId,
+    toSlug: primarySlug,
+    toClinicId: primaryId,
+    mergedAt: Timestamp.now(),
+    mergedBy: actor.adminId
+  });
+
+  finalBatch.delete(retiredRef);
+
+  // The retired clinic's snapshot is kept in the admin-only log, so the merge is auditable
+  finalBatch.set(doc(collection(db, 'admin_logs')), {
+    clinicId: primaryId,
+    timestamp: Timestamp.now(),
+    actionType: 'clinics_merged',
+    adminId: actor.adminId,
+    adminName: actor.adminName,
+    details: {
+      retiredClinicId: retiredId,
+      retiredSlug,
+      filledFields,
+      movedDocuments,
+      retiredClinic: retired
+    }
+  });
+
+  // Both clinics get a history entry; the retired one's records every field it had
+  await commitClinicBatchWithHistory(finalBatch, [primaryId, retiredId], { action: 'merge' });
+
+  return { primaryId, retiredId, retiredSlug, filledFields, movedDocuments };
+}
+
+export default mergeClinics;
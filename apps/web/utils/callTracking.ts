@@ -43,7 +43,7 @@ export const logCallClick = async (
       deviceType
     });
     
-    // Update clinic call metrics
+    // Update clinic call metrics (visitor analytics, not an edit - not logged to clinic history)
     const clinicRef = doc(db, 'clinics', clinicId);
     
     // Check if trafficMeta exists
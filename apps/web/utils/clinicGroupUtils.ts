@@ -0,0 +1,75 @@
+import { Clinic, ClinicGroup, ClinicGroupBilling } from '@/types';
+import { convertToStandardTier } from './tierUtils';
+
+const TIER_RANK: Record<'free' | 'standard' | 'advanced', number> = {
+  free: 0,
+  standard: 1,
+  advanced: 2
+};
+
+/**
+ * Gets the higher of two tiers
+ */
+export function higherTier(
+  a: 'free' | 'standard' | 'advanced',
+  b: 'free' | 'standard' | 'advanced'
+): 'free' | 'standard' | 'advanced' {
+  return TIER_RANK[a] >= TIER_RANK[b] ? a : b;
+}
+
+/**
+ * Fills brand-level fields (logo, description, services) a branch leaves empty
+ * @param clinic The branch to display
+ * @param group The brand group the branch belongs to
+ * @returns The clinic with inherited fields applied
+ */
+export function applyGroupDefaults(clinic: Clinic, group: ClinicGroup | null | undefined): Clinic {
+  if (!group) return clinic;
+
+  return {
+    ...clinic,
+    imageUrl: clinic.imageUrl || group.logoUrl,
+    description: clinic.description || group.description,
+    services: clinic.services && clinic.services.length > 0 ? clinic.services : group.services
+  };
+}
+
+/**
+ * Checks if a branch is one of the locations paid for by its group's plan
+ * @param clinic The branch to check
+ * @param billing The group's plan (admin only, see getGroupBilling)
+ * @returns Whether the group plan covers the branch
+ */
+export function isCoveredByGroupPlan(clinic: Clinic, billing: ClinicGroupBilling | null | undefined): boolean {
+  if (!billing || billing.status !== 'active' || !clinic.id) return false;
+  return billing.coveredClinicIds.includes(clinic.id);
+}
+
+/**
+ * Gets the tier a branch should display. Covered branches already carry the group plan's tier
+ * (updateGroupBilling writes it), so the plan itself never has to be public.
+ * @param clinic The branch to check
+ * @returns The effective tier
+ */
+export function getEffectiveTier(clinic: Clinic): 'free' | 'standard' | 'advanced' {
+  return clinic.tier || convertToStandardTier(clinic.package || clinic.packageTier);
+}
+
+/**
+ * Picks the locations a group plan covers: the oldest active branches, up to the limit
+ * @param locations All branches in the group
+ * @param locationLimit Number of locations the plan pays for
+ * @returns IDs of the covered branches
+ */
+export function selectCoveredLocations(locations: Clinic[], locationLimit: number): string[] {
+  const toMillis = (value: Clinic['createdAt']) => {
+    if (!value) return Number.MAX_SAFE_INTEGER;
+    return value instanceof Date ? value.getTime() : value.toMillis();
+  };
+
+  return locations
+    .filter(location => location.id && !['paused', 'Paused', 'canceled', 'Canceled'].includes(location.status || ''))
+    .sort((a, b) => toMillis(a.createdAt) - toMillis(b.createdAt))
+    .slice(0, Math.max(0, locationLimit))
+    .map(location => location.id as string);
+}
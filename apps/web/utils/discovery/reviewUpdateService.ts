@@ -253,7 +253,7 @@ export class ReviewUpdateService {
       // Count by source
       const googleReviews = reviews.filter(r => r.source === 'google').length;
       
-      // Update clinic document
+      // Update clinic document (aggregates of the reviews collection, not logged to clinic history)
       await updateDoc(doc(db, 'clinics', clinicId), {
         totalReviews,
         averageRating: Math.round(averageRating * 10) / 10, // Round to 1 decimal
@@ -164,4 +164,88 @@ export function getSavedLocation(): { lat: number; lng: number; city?: string; s
     console.error('Error getting saved location:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const MILES_PER_DEGREE_LAT = 69.0;
+
+/**
+ * Encode coordinates as a geohash (same encoding as the worker's utils/geohash.ts)
+ * 
+ * @param lat - Latitude
+ * @param lng - Longitude
+ * @param precision - Number of characters
+ * @returns Geohash string
+ */
+export function encodeGeohash(lat: number, lng: number, precision: number = 9): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // Longitude first
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const coordinate = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += GEOHASH_BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Get the geohash prefix ranges that together cover a circle. Uses the finest precision whose
+ * cell is at least as large as the radius, so the center cell and its 8 neighbours always
+ * contain the whole circle. Results still need an exact distance check.
+ * 
+ * @param lat - Center latitude
+ * @param lng - Center longitude
+ * @param radiusMiles - Search radius in miles
+ * @returns [start, end] pairs for orderBy('geohash') + startAt/endAt queries
+ */
+export function geohashQueryBounds(lat: number, lng: number, radiusMiles: number): [string, string][] {
+  const milesPerDegreeLng = MILES_PER_DEGREE_LAT * Math.max(Math.cos(lat * Math.PI / 180), 0.01);
+
+  let precision = 1;
+  let cellLat = 180 / 4;
+  let cellLng = 360 / 8;
+  for (let p = 9; p >= 1; p--) {
+    const latDegrees = 180 / Math.pow(2, Math.floor(5 * p / 2));
+    const lngDegrees = 360 / Math.pow(2, Math.ceil(5 * p / 2));
+    if (latDegrees * MILES_PER_DEGREE_LAT >= radiusMiles && lngDegrees * milesPerDegreeLng >= radiusMiles) {
+      precision = p;
+      cellLat = latDegrees;
+      cellLng = lngDegrees;
+      break;
+    }
+  }
+
+  const prefixes = new Set<string>();
+  [-1, 0, 1].forEach(dLat => {
+    [-1, 0, 1].forEach(dLng => {
+      const cellCenterLat = Math.min(90, Math.max(-90, lat + dLat * cellLat));
+      let cellCenterLng = lng + dLng * cellLng;
+      if (cellCenterLng > 180) cellCenterLng -= 360;
+      if (cellCenterLng < -180) cellCenterLng += 360;
+      prefixes.add(encodeGeohash(cellCenterLat, cellCenterLng, precision));
+    });
+  });
+
+  return Array.from(prefixes).sort().map(prefix => [prefix, `${prefix}~`] as [string, string]);
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getClinicsByIds } from '../../lib/api/clinicService';
+
+import { Clinic } from '../../types';
+
+/**
+ * Load the clinics on the compare page
+ * @param ids Clinic IDs in column order; nothing is loaded while empty
+ */
+export const useClinicComparison = (ids: string[]) => {
+  const [clinics, setClinics] = useState<Clinic[]>([]);
+  const [loading, setLoading] = useState<boolean>(ids.length > 0);
+  const [error, setError] = useState<Error | null>(null);
+  const idsKey = ids.join(',');
+
+  const loadClinics = useCallback(async () => {
+    if (!idsKey) {
+      setClinics([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setClinics(await getClinicsByIds(idsKey.split(',')));
+    } catch (err) {
+      console.error('Error fetching clinics to compare:', err);
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [idsKey]);
+
+  useEffect(() => {
+    loadClinics();
+  }, [loadClinics]);
+
+  return { clinics, loading, error, refresh: loadClinics };
+};
+
+export default useClinicComparison;
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getClinicGroup, getGroupLocations } from '../../lib/api/clinicGroupService';
+
+import { Clinic, ClinicGroup } from '../../types';
+
+/**
+ * Load a brand group and its locations
+ * @param groupId The group ID (brand slug); nothing is loaded while undefined
+ * @param activeOnly Only load locations visible on the directory
+ */
+export const useClinicGroup = (groupId: string | undefined, activeOnly: boolean = true) => {
+  const [group, setGroup] = useState<ClinicGroup | null>(null);
+  const [locations, setLocations] = useState<Clinic[]>([]);
+  const [loading, setLoading] = useState<boolean>(Boolean(groupId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadGroup = useCallback(async () => {
+    if (!groupId) {
+      setGroup(null);
+      setLocations([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [groupData, groupLocations] = await Promise.all([
+        getClinicGroup(groupId),
+        getGroupLocations(groupId, activeOnly)
+      ]);
+      setGroup(groupData);
+      setLocations(groupLocations);
+    } catch (err) {
+      console.error('Error fetching clinic group:', err);
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId, activeOnly]);
+
+  useEffect(() => {
+    loadGroup();
+  }, [loadGroup]);
+
+  return { group, locations, loading, error, refresh: loadGroup };
+};
+
+export default useClinicGroup;
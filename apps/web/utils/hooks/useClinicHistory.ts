@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getClinicHistory } from '../../lib/api/clinicHistoryService';
+
+import { ClinicChangeEntry } from '../../types';
+
+/**
+ * Load a clinic's change history, newest first
+ * @param clinicId The clinic ID; nothing is loaded while undefined
+ */
+export const useClinicHistory = (clinicId: string | undefined) => {
+  const [entries, setEntries] = useState<ClinicChangeEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(Boolean(clinicId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!clinicId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setEntries(await getClinicHistory(clinicId));
+    } catch (err) {
+      console.error('Error fetching clinic history:', err);
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [clinicId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  return { entries, loading, error, refresh: loadHistory };
+};
+
+export default useClinicHistory;
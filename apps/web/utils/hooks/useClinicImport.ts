@@ -3,12 +3,27 @@ import { collection, addDoc, serverTimestamp, getDocs, query, where, DocumentRef
 import { db } from '../../lib/firebase';
 import { Clinic } from '../../types';
 import { processClinicForImport } from '../processClinicForImport';
+import {
+  HeaderMapping,
+  ImportSheet,
+  applyHeaderMapping,
+  isGooglePlacesDump,
+  parseCsvSheet,
+  parseGooglePlacesDump,
+  readXlsxSheets,
+  suggestHeaderMapping
+} from '../importFileParsers';
 
 export interface ImportOptions {
   mergeWithExisting: boolean;
   checkForDuplicates: boolean;
   backfillMissingData: boolean;
   importSource: string;
+  dryRun?: boolean;
+  sheets?: string[]; // Spreadsheet sheets to import (default: first sheet)
+  headerMapping?: HeaderMapping; // Column header -> clinic field
+  mappingProfileId?: string; // Saved profile the mapping came from
+  fieldDefaults?: Record<string, string>; // Profile defaults for fields missing from the file
 }
 
 interface DuplicateClinic {
@@ -90,12 +105,13 @@ export const useClinicImport = (): UseClinicImportResult => {
       }));
       
       // Parse the file first to get clinic data
-      const clinics = await parseImportFile(file);
+      const clinics = await parseImportFile(file, options);
       
       // Create an import session in Firestore
       const importSessionsRef = collection(db, 'import_sessions');
       const sessionRef = await addDoc(importSessionsRef, {
         status: 'pending',
+        mode: options.dryRun ? 'dry-run' : 'import',
         fileName: file.name,
         fileSize: file.size,
         totalClinics: clinics.length,
@@ -113,14 +129,19 @@ export const useClinicImport = (): UseClinicImportResult => {
       
       // Create a job for the worker
       const jobsRef = collection(db, 'import_jobs');
-      await addDoc(jobsRef, {
+      const jobRef = await addDoc(jobsRef, {
         sessionId: importId,
         status: 'pending',
+        dryRun: options.dryRun === true,
+        fileName: file.name,
         data: clinics,
         options: options,
         createdAt: serverTimestamp()
       });
       
+      // Link the job so an approved dry-run plan can re-queue it
+      await updateDoc(sessionRef, { jobId: jobRef.id });
+      
       // Update progress
       setImportProgress(prev => ({
         ...prev,
@@ -214,107 +235,46 @@ export const useClinicImport = (): UseClinicImportResult => {
   };
 };
 
-// Helper to parse import files (CSV or JSON)
-async function parseImportFile(file: File): Promise<Partial<Clinic>[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+// Helper to parse import files (CSV, XLSX, JSON or Google Places dumps)
+async function parseImportFile(file: File, options: ImportOptions): Promise<Partial<Clinic>[]> {
+  const fileName = file.name.toLowerCase();
+  
+  if (fileName.endsWith('.json')) {
+    const data = JSON.parse(await file.text());
     
-    reader.onload = (event) => {
-      try {
-        const content = event.target?.result as string;
-        
-        if (file.name.toLowerCase().endsWith('.json')) {
-          // Parse JSON
-          const data = JSON.parse(content);
-          
-          // Check if it's an array of clinics or has a clinics property
-          const clinics = Array.isArray(data) ? data : data.clinics || [];
-          resolve(clinics);
-        } else if (file.name.toLowerCase().endsWith('.csv')) {
-          // Parse CSV
-          const lines = content.trim().split('\n');
-          if (lines.length < 2) {
-            reject(new Error('CSV file is empty or has no data rows'));
-            return;
-          }
-          
-          // Parse headers
-          const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/"/g, ''));
-          
-          // Parse data rows
-          const clinics: Partial<Clinic>[] = [];
-          for (let i = 1; i < lines.length; i++) {
-            const values = lines[i].split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-            const clinic: any = {};
-            
-            headers.forEach((header, index) => {
-              if (values[index]) {
-                // Map CSV headers to clinic fields
-                switch(header) {
-                  case 'name':
-                  case 'clinic_name':
-                    clinic.name = values[index];
-                    break;
-                  case 'address':
-                  case 'street_address':
-                    clinic.address = values[index];
-                    break;
-                  case 'city':
-                    clinic.city = values[index];
-                    break;
-                  case 'state':
-                    clinic.state = values[index];
-                    break;
-                  case 'zip':
-                  case 'zipcode':
-                  case 'postal_code':
-                    clinic.zip = values[index];
-                    break;
-                  case 'phone':
-                  case 'phone_number':
-                    clinic.phone = values[index];
-                    break;
-                  case 'website':
-                  case 'url':
-                    clinic.website = values[index];
-                    break;
-                  case 'services':
-                    clinic.services = values[index].split(';').map(s => s.trim());
-                    break;
-                  case 'tier':
-                  case 'package':
-                    clinic.tier = values[index] as 'free' | 'standard' | 'advanced';
-                    break;
-                }
-              }
-            });
-            
-            if (clinic.name) {
-              clinics.push(clinic);
-            }
-          }
-          
-          resolve(clinics);
-        } else {
-          reject(new Error('Unsupported file format. Please upload a CSV or JSON file.'));
-        }
-      } catch (error) {
-        reject(error);
-      }
-    };
+    if (isGooglePlacesDump(data)) {
+      return parseGooglePlacesDump(data);
+    }
     
-    reader.onerror = () => {
-      reject(new Error('Failed to read the file.'));
-    };
+    // Check if it's an array of clinics or has a clinics property
+    return Array.isArray(data) ? data : data.clinics || [];
+  }
+  
+  if (fileName.endsWith('.csv') || fileName.endsWith('.xlsx')) {
+    const sheets = await readImportSheets(file);
+    const selected = options.sheets?.length
+      ? sheets.filter(sheet => options.sheets!.includes(sheet.name))
+      : [sheets.find(sheet => sheet.rows.length > 0) || sheets[0]];
     
-    if (file.name.toLowerCase().endsWith('.json')) {
-      reader.readAsText(file);
-    } else if (file.name.toLowerCase().endsWith('.csv')) {
-      reader.readAsText(file);
-    } else {
-      reject(new Error('Unsupported file format. Please upload a CSV or JSON file.'));
+    if (selected.length === 0 || !selected[0]) {
+      throw new Error('No sheets selected for import.');
     }
-  });
+    
+    return selected.flatMap(sheet =>
+      applyHeaderMapping(sheet.rows, options.headerMapping || suggestHeaderMapping(sheet.headers), options.fieldDefaults)
+    );
+  }
+  
+  throw new Error('Unsupported file format. Please upload a CSV, XLSX or JSON file.');
+}
+
+// Read tabular files as sheets so the import form can offer sheet selection and header mapping
+export async function readImportSheets(file: File): Promise<ImportSheet[]> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return await readXlsxSheets(file);
+  }
+  
+  return [parseCsvSheet(await file.text(), file.name)];
 }
 
 // Helper to update import log
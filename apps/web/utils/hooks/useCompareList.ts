@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MAX_COMPARE_CLINICS } from '../../lib/compare';
+
+export interface CompareListItem {
+  id: string;
+  name: string;
+}
+
+const STORAGE_KEY = 'compareClinics';
+const CHANGE_EVENT = 'compare-list-change'; // Keeps every button and the compare bar on a page in sync
+
+function readList(): CompareListItem[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.slice(0, MAX_COMPARE_CLINICS) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList(list: CompareListItem[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * The clinics a visitor has picked to compare, kept in localStorage across pages and tabs
+ */
+export const useCompareList = () => {
+  const [items, setItems] = useState<CompareListItem[]>([]);
+
+  useEffect(() => {
+    const sync = () => setItems(readList());
+    sync();
+
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const isComparing = useCallback((id: string) => items.some(item => item.id === id), [items]);
+
+  const toggle = useCallback((clinic: CompareListItem) => {
+    const list = readList();
+    if (list.some(item => item.id === clinic.id)) {
+      writeList(list.filter(item => item.id !== clinic.id));
+    } else if (list.length < MAX_COMPARE_CLINICS) {
+      writeList([...list, { id: clinic.id, name: clinic.name }]);
+    }
+  }, []);
+
+  const clear = useCallback(() => writeList([]), []);
+
+  return { items, isComparing, toggle, clear, isFull: items.length >= MAX_COMPARE_CLINICS };
+};
+
+export default useCompareList;
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { getRankingWeights } from '../../lib/api/rankingSettingsService';
+import { DEFAULT_RANKING_WEIGHTS } from '../../lib/ranking';
+
+import { RankingWeights } from '../../types';
+
+/**
+ * Load the search ranking weights, starting from the defaults until they arrive
+ */
+export const useRankingWeights = () => {
+  const [weights, setWeights] = useState<RankingWeights>(DEFAULT_RANKING_WEIGHTS);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRankingWeights().then(loaded => {
+      if (!cancelled) setWeights(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return weights;
+};
+
+export default useRankingWeights;
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getSavedSearches,
+  setSavedSearchAlerts,
+  deleteSavedSearch
+} from '../../lib/api/savedSearchService';
+
+import { SavedSearch } from '../../types';
+
+/**
+ * Load a user's saved searches, with actions that keep the list in sync
+ */
+export const useSavedSearches = (userId?: string | null) => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadSavedSearches = useCallback(async () => {
+    if (!userId) {
+      setSavedSearches([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setSavedSearches(await getSavedSearches(userId));
+    } catch (err) {
+      console.error('Error fetching saved searches:', err);
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  const toggleAlerts = useCallback(async (savedSearchId: string, enabled: boolean) => {
+    await setSavedSearchAlerts(savedSearchId, enabled);
+    setSavedSearches(prev => prev.map(search =>
+      search.id === savedSearchId ? { ...search, alertsEnabled: enabled } : search
+    ));
+  }, []);
+
+  const removeSavedSearch = useCallback(async (savedSearchId: string) => {
+    await deleteSavedSearch(savedSearchId);
+    setSavedSearches(prev => prev.filter(search => search.id !== savedSearchId));
+  }, []);
+
+  return { savedSearches, loading, error, refresh: loadSavedSearches, toggleAlerts, removeSavedSearch };
+};
+
+export default useSavedSearches;
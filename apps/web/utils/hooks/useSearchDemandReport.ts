@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getSearchDemandReport } from '../../lib/api/searchDemandService';
+
+import { SearchDemandReport } from '../../types';
+
+/**
+ * Load the search demand report the worker writes to admin/searchDemand
+ */
+export const useSearchDemandReport = () => {
+  const [report, setReport] = useState<SearchDemandReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setReport(await getSearchDemandReport());
+    } catch (err) {
+      console.error('Error fetching search demand report:', err);
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return { report, loading, error, refresh: loadReport };
+};
+
+export default useSearchDemandReport;
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { logSearchEvent, logSearchClick, SearchEventInput } from '../../lib/api/searchDemandService';
+
+// Search pages rerun the search on every keystroke; only log once the search has settled
+const SETTLE_DELAY_MS = 2000;
+
+interface LoggedSearch {
+  key: string;
+  search: SearchEventInput;
+  id: Promise<string | null>;
+}
+
+/**
+ * Log a page's searches to search_events and attribute result clicks to them
+ * @param search The current search with its result count, or null while it is loading
+ * @returns logClick(clinicId, position) for result links
+ */
+export const useSearchEventLog = (search: SearchEventInput | null) => {
+  const pending = useRef<SearchEventInput | null>(null);
+  const logged = useRef<LoggedSearch | null>(null);
+
+  // Key on the serialized search so a new object with the same contents doesn't restart the delay
+  const key = search ? JSON.stringify(search) : null;
+
+  // Log the pending search now (if it isn't logged already) and return the latest search's ID
+  const flush = useCallback((): LoggedSearch | null => {
+    const current = pending.current;
+    pending.current = null;
+
+    if (current) {
+      const currentKey = JSON.stringify(current);
+      if (logged.current?.key !== currentKey) {
+        logged.current = { key: currentKey, search: current, id: logSearchEvent(current) };
+      }
+    }
+    return logged.current;
+  }, []);
+
+  useEffect(() => {
+    pending.current = key ? JSON.parse(key) : null;
+    if (!key) return;
+
+    const timer = setTimeout(flush, SETTLE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [key, flush]);
+
+  // A click counts as the search having settled, even inside the delay
+  const logClick = useCallback(async (clinicId: string, position: number) => {
+    const searchLog = flush();
+    if (!searchLog) return;
+
+    logSearchClick(await searchLog.id, searchLog.search, clinicId, position);
+  }, [flush]);
+
+  return { logClick };
+};
+
+export default useSearchEventLog;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useContext } from 'react';
-import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, getDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { updateClinicWithHistory } from '../../lib/api/clinicHistoryService';
 // Remove cross-app import - implement locally or use API
 // import { logSeoAudit } from '../../../worker/utils/seoAuditLogger';
 
@@ -132,8 +133,6 @@ export function useSeoEditor(clinicId: string): UseSeoEditorResult {
     try {
       setLoading(true);
       
-      const clinicRef = doc(db, 'clinics', clinicId);
-      
       // Determine which fields changed
       const changedFields: string[] = [];
       if (originalData) {
@@ -155,14 +154,14 @@ export function useSeoEditor(clinicId: string): UseSeoEditorResult {
       };
 
       // Update Firestore
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         'seoMeta.title': editData.title,
         'seoMeta.description': editData.description,
         'seoMeta.keywords': editData.keywords,
         'seoMeta.lastEdited': serverTimestamp(),
         'seoMeta.editedBy': currentUser,
         seoContent: editData.seoContent
-      });
+      }, { action: 'seo' });
 
       // Log audit (append to existing trail) - disabled until worker app is available
       // await logSeoAudit(clinicId, auditEntry);
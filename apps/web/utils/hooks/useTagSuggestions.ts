@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { doc, onSnapshot, updateDoc, arrayRemove, serverTimestamp } from 'firebase/firestore';
+import { doc, onSnapshot, arrayRemove, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { updateClinicWithHistory } from '../../lib/api/clinicHistoryService';
 import { ClinicSuggestion, runSingleClinicAudit } from './stubs/tagAnalysis';
 
 export interface UseTagSuggestionsResult {
@@ -83,13 +84,12 @@ export function useTagSuggestions(clinicId: string): UseTagSuggestionsResult {
    */
   const dismissSuggestion = async (suggestionId: string): Promise<void> => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
       const targetSuggestion = suggestions.find(s => s.id === suggestionId);
       
       if (targetSuggestion) {
-        await updateDoc(clinicRef, {
+        await updateClinicWithHistory(clinicId, {
           suggestions: arrayRemove(targetSuggestion)
-        });
+        }, { action: 'suggestions' });
         
         console.log(`✅ Dismissed suggestion ${suggestionId}`);
       }
@@ -157,7 +157,6 @@ export function useTagSuggestions(clinicId: string): UseTagSuggestionsResult {
    */
   const addComment = async (suggestionId: string, comment: string): Promise<void> => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
       const updatedSuggestions = suggestions.map(s => 
         s.id === suggestionId 
           ? { 
@@ -169,10 +168,10 @@ export function useTagSuggestions(clinicId: string): UseTagSuggestionsResult {
           : s
       );
       
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         suggestions: updatedSuggestions,
         'seoMeta.lastCommented': serverTimestamp()
-      });
+      }, { action: 'suggestions' });
       
       console.log(`💬 Added comment to suggestion ${suggestionId}`);
     } catch (err) {
@@ -8,7 +8,6 @@ import {
   startAfter, 
   getDocs, 
   doc, 
-  updateDoc,
   arrayRemove,
   arrayUnion,
   getDoc,
@@ -18,6 +17,8 @@ import {
   QueryDocumentSnapshot
 } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { PROVENANCE_FIELDS, updateClinicWithHistory } from '../../lib/api/clinicHistoryService';
+import { mergeClinics as mergeClinicDocuments, MergeClinicsResult } from '../admin/mergeClinics';
 
 // Tags that indicate a clinic needs validation
 export const VALIDATION_TAGS = [
@@ -25,7 +26,10 @@ export const VALIDATION_TAGS = [
   'website-down',
   'geo-mismatch',
   'incomplete-profile',
-  'manual-check'
+  'manual-check',
+  'potential-duplicate',
+  'business-closed',
+  'invalid-phone'
 ];
 
 // All available tags for clinics
@@ -41,6 +45,22 @@ export const ALL_TAGS = [
   'duplicate'
 ];
 
+export type FieldProvenance = {
+  source: 'csv' | 'json' | 'ndjson' | 'xlsx' | 'google-places' | 'import' | 'geocoder' | 'scraper' | 'admin';
+  confidence: number;
+  updatedAt: Timestamp | Date;
+  detail?: string;
+};
+
+export type ClinicQuality = {
+  score: number;
+  completeness: number;
+  missing: string[];
+  issues: string[];
+  stale?: boolean;
+  computedAt?: Timestamp | Date;
+};
+
 export type Clinic = {
   id: string;
   name: string;
@@ -62,6 +82,8 @@ export type Clinic = {
   updatedAt: Date;
   websiteStatus?: 'up' | 'down' | 'unknown';
   lastPinged?: Date;
+  quality?: ClinicQuality;
+  provenance?: Record<string, FieldProvenance>;
   [key: string]: any;
 };
 
@@ -77,6 +99,7 @@ export type ValidationFilters = {
   state: string;
   importSource: string;
   status: string;
+  sortBy: 'updatedAt' | 'qualityScore';
 };
 
 export interface ValidationQueueHook {
@@ -99,6 +122,7 @@ export interface ValidationQueueHook {
   bulkValidate: (clinicIds: string[]) => Promise<void>;
   bulkAddTag: (clinicIds: string[], tag: string) => Promise<void>;
   bulkRemoveTag: (clinicIds: string[], tag: string) => Promise<void>;
+  mergeClinics: (primaryId: string, duplicateId: string) => Promise<MergeClinicsResult>;
 }
 
 // Mock function to check website status - in a real app this would call an API
@@ -126,7 +150,8 @@ export const useValidationQueue = (): ValidationQueueHook => {
     tags: [],
     state: '',
     importSource: '',
-    status: ''
+    status: '',
+    sortBy: 'updatedAt'
   });
   const [selectedClinic, setSelectedClinic] = useState<Clinic | null>(null);
 
@@ -164,8 +189,10 @@ export const useValidationQueue = (): ValidationQueueHook => {
         clinicsQuery = query(clinicsQuery, where('status', '==', filters.status));
       }
 
-      // Add ordering
-      clinicsQuery = query(clinicsQuery, orderBy('updatedAt', 'desc'));
+      // Add ordering; lowest quality first puts the clinics that need the most work at the top
+      clinicsQuery = filters.sortBy === 'qualityScore'
+        ? query(clinicsQuery, orderBy('quality.score', 'asc'))
+        : query(clinicsQuery, orderBy('updatedAt', 'desc'));
       
       // Add pagination
       if (lastDoc && !isInitialLoad) {
@@ -311,13 +338,14 @@ export const useValidationQueue = (): ValidationQueueHook => {
   // Function to update a clinic field
   const updateClinicField = async (clinicId: string, field: string, value: any) => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
+      const provenance: FieldProvenance = { source: 'admin', confidence: 1, updatedAt: Timestamp.now() };
+      const tracked = PROVENANCE_FIELDS.includes(field);
       
-      // Update the field
-      await updateDoc(clinicRef, {
+      // Update the field; tracked fields are stamped with admin provenance and marked for rescoring
+      await updateClinicWithHistory(clinicId, {
         [field]: value,
         updatedAt: Timestamp.now()
-      });
+      }, { action: 'field' });
       
       // Log the action
       const logRef = collection(db, 'admin_logs');
@@ -335,14 +363,24 @@ export const useValidationQueue = (): ValidationQueueHook => {
       });
       
       // Update local state
+      const applyEdit = (c: Clinic): Clinic => ({
+        ...c,
+        [field]: value,
+        updatedAt: new Date(),
+        ...(tracked ? {
+          provenance: { ...c.provenance, [field]: provenance },
+          quality: c.quality ? { ...c.quality, stale: true } : c.quality
+        } : {})
+      });
+      
       setClinics(prevClinics => 
         prevClinics.map(c => 
-          c.id === clinicId ? { ...c, [field]: value, updatedAt: new Date() } : c
+          c.id === clinicId ? applyEdit(c) : c
         )
       );
       
       if (selectedClinic?.id === clinicId) {
-        setSelectedClinic(prev => prev ? { ...prev, [field]: value, updatedAt: new Date() } : null);
+        setSelectedClinic(prev => prev ? applyEdit(prev) : null);
       }
     } catch (err) {
       console.error(`Error updating ${field}:`, err);
@@ -353,21 +391,19 @@ export const useValidationQueue = (): ValidationQueueHook => {
   // Function to update tags
   const updateTags = async (clinicId: string, tagsToAdd: string[], tagsToRemove: string[]) => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
-      
       // Update tags - we need to do this in separate operations
       if (tagsToAdd.length > 0) {
-        await updateDoc(clinicRef, {
+        await updateClinicWithHistory(clinicId, {
           tags: arrayUnion(...tagsToAdd),
           updatedAt: Timestamp.now()
-        });
+        }, { action: 'tags' });
       }
       
       if (tagsToRemove.length > 0) {
-        await updateDoc(clinicRef, {
+        await updateClinicWithHistory(clinicId, {
           tags: arrayRemove(...tagsToRemove),
           updatedAt: Timestamp.now()
-        });
+        }, { action: 'tags' });
       }
       
       // Log the action
@@ -414,19 +450,17 @@ export const useValidationQueue = (): ValidationQueueHook => {
   // Function to mark a clinic as validated
   const validateClinic = async (clinicId: string) => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
-      
       // Update status to active and remove validation tags
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         status: 'active',
         tags: arrayRemove(...VALIDATION_TAGS),
         updatedAt: Timestamp.now()
-      });
+      }, { action: 'validate' });
       
       // Add verified tag
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         tags: arrayUnion('verified')
-      });
+      }, { action: 'validate' });
       
       // Log the action
       const logRef = collection(db, 'admin_logs');
@@ -460,14 +494,12 @@ export const useValidationQueue = (): ValidationQueueHook => {
   // Function to reject a clinic
   const rejectClinic = async (clinicId: string, reason: string) => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
-      
       // Update status to paused and add rejection tags
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         status: 'paused',
         rejectionReason: reason,
         updatedAt: Timestamp.now()
-      });
+      }, { action: 'reject' });
       
       // Log the action
       const logRef = collection(db, 'admin_logs');
@@ -506,11 +538,10 @@ export const useValidationQueue = (): ValidationQueueHook => {
       const status = await checkWebsiteStatus(website);
       
       // Update clinic with status
-      const clinicRef = doc(db, 'clinics', clinicId);
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         websiteStatus: status,
         lastPinged: Timestamp.now()
-      });
+      }, { action: 'website-check' });
       
       // Update tags
       if (status === 'up') {
@@ -550,19 +581,17 @@ export const useValidationQueue = (): ValidationQueueHook => {
     try {
       // Process each clinic
       for (const clinicId of clinicIds) {
-        const clinicRef = doc(db, 'clinics', clinicId);
-        
         // Update status to active and remove validation tags
-        await updateDoc(clinicRef, {
+        await updateClinicWithHistory(clinicId, {
           status: 'active',
           tags: arrayRemove(...VALIDATION_TAGS),
           updatedAt: Timestamp.now()
-        });
+        }, { action: 'validate' });
         
         // Add verified tag
-        await updateDoc(clinicRef, {
+        await updateClinicWithHistory(clinicId, {
           tags: arrayUnion('verified')
-        });
+        }, { action: 'validate' });
         
         // Log the action
         const logRef = collection(db, 'admin_logs');
@@ -596,13 +625,11 @@ export const useValidationQueue = (): ValidationQueueHook => {
     try {
       // Process each clinic
       for (const clinicId of clinicIds) {
-        const clinicRef = doc(db, 'clinics', clinicId);
-        
         // Add tag
-        await updateDoc(clinicRef, {
+        await updateClinicWithHistory(clinicId, {
           tags: arrayUnion(tag),
           updatedAt: Timestamp.now()
-        });
+        }, { action: 'tags' });
         
         // Log the action
         const logRef = collection(db, 'admin_logs');
@@ -647,13 +674,11 @@ export const useValidationQueue = (): ValidationQueueHook => {
     try {
       // Process each clinic
       for (const clinicId of clinicIds) {
-        const clinicRef = doc(db, 'clinics', clinicId);
-        
         // Remove tag
-        await updateDoc(clinicRef, {
+        await updateClinicWithHistory(clinicId, {
           tags: arrayRemove(tag),
           updatedAt: Timestamp.now()
-        });
+        }, { action: 'tags' });
         
         // Log the action
         const logRef = collection(db, 'admin_logs');
@@ -693,6 +718,42 @@ export const useValidationQueue = (): ValidationQueueHook => {
     }
   };
 
+  // Function to merge a duplicate clinic into a primary clinic
+  const mergeClinics = async (primaryId: string, duplicateId: string) => {
+    try {
+      const result = await mergeClinicDocuments(primaryId, duplicateId);
+      
+      // The duplicate no longer exists; reload the primary so local state reflects the merge
+      const primarySnap = await getDoc(doc(db, 'clinics', primaryId));
+      const primaryData = primarySnap.data();
+      
+      setClinics(prevClinics => prevClinics
+        .filter(c => c.id !== duplicateId)
+        .map(c => c.id === primaryId && primaryData ? {
+          ...c,
+          ...primaryData,
+          id: primaryId,
+          tags: primaryData.tags || [],
+          services: primaryData.services || [],
+          createdAt: c.createdAt,
+          updatedAt: new Date()
+        } : c)
+      );
+      
+      if (selectedClinic && [primaryId, duplicateId].includes(selectedClinic.id)) {
+        setSelectedClinic(null);
+      }
+      
+      // Refresh stats
+      await fetchStats();
+      
+      return result;
+    } catch (err) {
+      console.error('Error merging clinics:', err);
+      throw err;
+    }
+  };
+
   return {
     clinics,
     loading,
@@ -712,7 +773,8 @@ export const useValidationQueue = (): ValidationQueueHook => {
     checkWebsite,
     bulkValidate,
     bulkAddTag,
-    bulkRemoveTag
+    bulkRemoveTag,
+    mergeClinics
   };
 };
 
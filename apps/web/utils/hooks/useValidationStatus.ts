@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { doc, onSnapshot, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, onSnapshot, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { updateClinicWithHistory } from '../../lib/api/clinicHistoryService';
 
 export interface ValidationChecklist {
   addressValid: boolean;
@@ -103,8 +104,6 @@ export function useValidationStatus(clinicId: string): UseValidationStatusResult
     notes?: string
   ): Promise<void> => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
-      
       const updateData: any = {
         [`validation.checklist.${item}`]: value,
         'validation.lastUpdated': serverTimestamp()
@@ -114,7 +113,7 @@ export function useValidationStatus(clinicId: string): UseValidationStatusResult
         updateData[`validation.itemNotes.${item}`] = notes;
       }
       
-      await updateDoc(clinicRef, updateData);
+      await updateClinicWithHistory(clinicId, updateData, { action: 'checklist' });
       
       console.log(`✅ Updated validation item ${item}: ${value}`);
     } catch (err) {
@@ -128,16 +127,14 @@ export function useValidationStatus(clinicId: string): UseValidationStatusResult
    */
   const markAsVerified = async (verifiedBy: string, notes?: string): Promise<void> => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
-      
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         isVerified: true,
         verifiedAt: serverTimestamp(),
         verifiedBy,
         'validation.verificationNotes': notes || '',
         'validation.lastValidationRun': serverTimestamp(),
         status: 'active' // Automatically activate verified clinics
-      });
+      }, { action: 'verify' });
       
       console.log(`✅ Clinic ${clinicId} marked as verified by ${verifiedBy}`);
     } catch (err) {
@@ -151,16 +148,14 @@ export function useValidationStatus(clinicId: string): UseValidationStatusResult
    */
   const markAsUnverified = async (reason: string): Promise<void> => {
     try {
-      const clinicRef = doc(db, 'clinics', clinicId);
-      
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicId, {
         isVerified: false,
         verifiedAt: null,
         verifiedBy: null,
         'validation.unverifiedReason': reason,
         'validation.lastValidationRun': serverTimestamp(),
         status: 'pending' // Move back to pending status
-      });
+      }, { action: 'unverify' });
       
       console.log(`❌ Clinic ${clinicId} marked as unverified: ${reason}`);
     } catch (err) {
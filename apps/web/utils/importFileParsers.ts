@@ -0,0 +1,250 @@
+import type { Clinic } from '../types';
+
+import {
+  HEADER_ALIASES,
+  normalizeHeaderKey,
+  splitCityStateZip,
+  splitFullAddress,
+  isGooglePlacesDump
+} from '../../worker/utils/importParsing';
+
+// Aliases, splitting and Places-dump detection are the worker import's own, so both read files the same way
+export { splitCityStateZip, splitFullAddress, isGooglePlacesDump };
+
+// Clinic fields a spreadsheet column can be mapped to in the import form
+export const IMPORT_FIELDS = [
+  'name',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'phone',
+  'website',
+  'email',
+  'services',
+  'tier',
+  'lat',
+  'lng'
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Targets that split one column into several fields
+export const SPLIT_TARGETS = {
+  cityStateZip: 'City, ST ZIP (split)',
+  fullAddress: 'Full address (split)'
+} as const;
+
+export type SplitTarget = keyof typeof SPLIT_TARGETS;
+
+// Source header -> clinic field or split target ('' ignores the column)
+export type HeaderMapping = Record<string, ImportField | SplitTarget | ''>;
+
+export interface ImportSheet {
+  name: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export const normalizeHeader = normalizeHeaderKey;
+
+// The worker calls the tier column "package"
+const aliasesFor = (field: ImportField) => HEADER_ALIASES[field === 'tier' ? 'package' : field] || [];
+
+/**
+ * Suggest a field for each header from known aliases; the first column to claim a field keeps it
+ */
+export function suggestHeaderMapping(headers: string[]): HeaderMapping {
+  const mapping: HeaderMapping = {};
+  const used = new Set<ImportField>();
+
+  headers.forEach(header => {
+    const key = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find(candidate => aliasesFor(candidate).includes(key));
+
+    if (field && !used.has(field)) {
+      mapping[header] = field;
+      used.add(field);
+    } else {
+      mapping[header] = '';
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Convert mapped spreadsheet rows into clinic records, dropping rows without a name.
+ * Several columns mapped to address are joined as address lines.
+ */
+export function applyHeaderMapping(
+  rows: Record<string, string>[],
+  mapping: HeaderMapping,
+  defaults: Record<string, string> = {}
+): Partial<Clinic>[] {
+  const clinics: Partial<Clinic>[] = [];
+
+  rows.forEach(row => {
+    const clinic: any = {};
+
+    const assign = (field: string, value: string) => {
+      switch (field) {
+        case 'address':
+          clinic.address = clinic.address ? `${clinic.address} ${value}` : value;
+          break;
+        case 'services':
+          clinic.services = value.split(/[;|]/).map(s => s.trim()).filter(Boolean);
+          break;
+        case 'tier':
+          clinic.tier = value.toLowerCase() as 'free' | 'standard' | 'advanced';
+          break;
+        case 'lat':
+        case 'lng':
+          if (!isNaN(parseFloat(value))) clinic[field] = parseFloat(value);
+          break;
+        case 'zip':
+          // Spreadsheets drop the leading zero from numeric ZIP codes (02134 -> 2134)
+          clinic.zip = /^\d{4}$/.test(value) ? `0${value}` : value;
+          break;
+        default:
+          clinic[field] = value;
+      }
+    };
+
+    Object.entries(mapping).forEach(([header, target]) => {
+      const value = row[header]?.trim();
+      if (!target || !value) return;
+
+      if (target === 'cityStateZip' || target === 'fullAddress') {
+        const parts = target === 'cityStateZip' ? splitCityStateZip(value) : splitFullAddress(value);
+        Object.entries(parts).forEach(([field, part]) => {
+          if (part && clinic[field] === undefined) assign(field, part);
+        });
+      } else if (target === 'address' || clinic[target] === undefined) {
+        assign(target, value);
+      }
+    });
+
+    Object.entries(defaults).forEach(([field, value]) => {
+      if (value && clinic[field] === undefined) assign(field, value);
+    });
+
+    if (clinic.name) {
+      clinics.push(clinic);
+    }
+  });
+
+  return clinics;
+}
+
+/**
+ * Split CSV text into a single sheet of rows keyed by header
+ */
+export function parseCsvSheet(content: string, name = 'CSV'): ImportSheet {
+  const lines = content.trim().split('\n');
+  if (lines.length < 2) {
+    throw new Error('CSV file is empty or has no data rows');
+  }
+
+  const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
+  const rows = lines.slice(1).map(line => {
+    const values = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (values[index]) row[header] = values[index];
+    });
+    return row;
+  });
+
+  return { name, headers, rows };
+}
+
+/**
+ * Read every sheet of an .xlsx workbook. exceljs is loaded on demand to keep it out of the main bundle.
+ */
+export async function readXlsxSheets(file: File): Promise<ImportSheet[]> {
+  const ExcelJS = (await import('exceljs')).default;
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  return workbook.worksheets.map(sheet => {
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell({ includeEmpty: true }, (cell, column) => {
+      headers[column - 1] = cell.text.trim();
+    });
+
+    const rows: Record<string, string>[] = [];
+    sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      if (rowNumber === 1) return;
+
+      const values: Record<string, string> = {};
+      row.eachCell({ includeEmpty: false }, (cell, column) => {
+        const header = headers[column - 1];
+        if (header) values[header] = cell.text;
+      });
+      rows.push(values);
+    });
+
+    return { name: sheet.name, headers: headers.filter(Boolean), rows };
+  });
+}
+
+/**
+ * Convert Google Places API dumps (legacy Text Search / Place Details, or Places API (New)) into clinics
+ */
+export function parseGooglePlacesDump(data: any): Partial<Clinic>[] {
+  const extract = (item: any): any[] => {
+    if (Array.isArray(item)) return item.flatMap(extract);
+    if (!item || typeof item !== 'object') return [];
+    if (Array.isArray(item.results)) return item.results;
+    if (Array.isArray(item.places)) return item.places;
+    if (item.result) return [item.result];
+    return [item];
+  };
+
+  const seen = new Set<string>();
+  const clinics: Partial<Clinic>[] = [];
+
+  extract(data).forEach(place => {
+    const isNewApi = Boolean(place.displayName || place.formattedAddress || place.addressComponents);
+    const components: Array<{ long: string; short: string; types: string[] }> = (
+      isNewApi ? place.addressComponents || [] : place.address_components || []
+    ).map((component: any) => ({
+      long: isNewApi ? component.longText : component.long_name,
+      short: isNewApi ? component.shortText : component.short_name,
+      types: component.types || []
+    }));
+    const component = (type: string) => components.find(candidate => candidate.types.includes(type));
+
+    const formattedAddress: string = (isNewApi ? place.formattedAddress : place.formatted_address) || place.vicinity || '';
+    const parts = formattedAddress.split(',').map(part => part.trim());
+    const stateIndex = parts.findIndex((part, index) => index > 0 && /^[A-Z]{2}(\s+\d{5}(-\d{4})?)?$/.test(part));
+    const [fallbackState, fallbackZip] = stateIndex > 0 ? parts[stateIndex].split(/\s+/) : [];
+
+    const street = [component('street_number')?.long, component('route')?.long].filter(Boolean).join(' ');
+    const location = isNewApi ? place.location : place.geometry?.location;
+    const clinic: any = {
+      name: isNewApi ? place.displayName?.text : place.name,
+      address: street || parts[0],
+      city: component('locality')?.long || (stateIndex > 0 ? parts[stateIndex - 1] : undefined),
+      state: component('administrative_area_level_1')?.short || fallbackState,
+      zip: component('postal_code')?.long || fallbackZip,
+      phone: isNewApi ? place.nationalPhoneNumber : place.formatted_phone_number,
+      website: isNewApi ? place.websiteUri : place.website,
+      googlePlacesId: isNewApi ? place.id : place.place_id,
+      lat: isNewApi ? location?.latitude : location?.lat,
+      lng: isNewApi ? location?.longitude : location?.lng
+    };
+
+    Object.keys(clinic).forEach(key => {
+      if (clinic[key] === undefined || clinic[key] === '') delete clinic[key];
+    });
+
+    const key = clinic.googlePlacesId || `${clinic.name}|${clinic.address}`;
+    if (!clinic.name || seen.has(key)) return;
+    seen.add(key);
+    clinics.push(clinic);
+  });
+
+  return clinics;
+}
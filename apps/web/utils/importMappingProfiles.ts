@@ -0,0 +1,93 @@
+import { addDoc, collection, getDocs, orderBy, query, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { HeaderMapping, normalizeHeader } from './importFileParsers';
+
+/**
+ * Named column mapping profiles for vendor files (shared with the worker's --profile option)
+ */
+export interface ColumnMapping {
+  source: string; // Header as it appears in the vendor file
+  target: string; // Clinic field or split target
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  mappings: ColumnMapping[];
+  defaults?: Record<string, string>;
+  sampleHeaders?: string[];
+}
+
+export interface ProfileSuggestion {
+  profile: MappingProfile;
+  score: number; // Share of the profile's source headers present in the file (0-1)
+}
+
+// Profiles below this overlap are not suggested automatically
+const SUGGESTION_THRESHOLD = 0.6;
+
+export async function loadMappingProfiles(): Promise<MappingProfile[]> {
+  const snapshot = await getDocs(query(collection(db, 'import_mapping_profiles'), orderBy('name')));
+  return snapshot.docs.map(profileDoc => ({ id: profileDoc.id, ...profileDoc.data() } as MappingProfile));
+}
+
+export async function saveMappingProfile(
+  name: string,
+  mapping: HeaderMapping,
+  headers: string[],
+  createdBy: string
+): Promise<MappingProfile> {
+  const profile = {
+    name,
+    mappings: Object.entries(mapping)
+      .filter(([, target]) => target)
+      .map(([source, target]) => ({ source, target })),
+    defaults: {},
+    sampleHeaders: headers
+  };
+
+  const profileRef = await addDoc(collection(db, 'import_mapping_profiles'), {
+    ...profile,
+    createdBy,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+
+  return { id: profileRef.id, ...profile };
+}
+
+/**
+ * Pick the profile whose source headers best match the file's headers
+ */
+export function suggestMappingProfile(headers: string[], profiles: MappingProfile[]): ProfileSuggestion | null {
+  const available = new Set(headers.map(normalizeHeader));
+  let best: ProfileSuggestion | null = null;
+
+  for (const profile of profiles) {
+    const sources = Array.from(new Set(profile.mappings.map(mapping => normalizeHeader(mapping.source))));
+    if (sources.length === 0) continue;
+
+    const score = sources.filter(source => available.has(source)).length / sources.length;
+    if (!best || score > best.score) best = { profile, score };
+  }
+
+  return best && best.score >= SUGGESTION_THRESHOLD ? best : null;
+}
+
+/**
+ * Express a profile as a mapping over the file's actual headers (matched case/punctuation-insensitively)
+ */
+export function profileToHeaderMapping(profile: MappingProfile, headers: string[]): HeaderMapping {
+  const mapping: HeaderMapping = {};
+  headers.forEach(header => {
+    mapping[header] = '';
+  });
+
+  profile.mappings.forEach(({ source, target }) => {
+    const header = headers.find(candidate => normalizeHeader(candidate) === normalizeHeader(source));
+    if (header) mapping[header] = target as HeaderMapping[string];
+  });
+
+  return mapping;
+}
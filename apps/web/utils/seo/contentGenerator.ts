@@ -1,5 +1,6 @@
 import { db } from '../../lib/firebase';
-import { doc, updateDoc, getDoc, Timestamp } from 'firebase/firestore';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { updateClinicWithHistory } from '../../lib/api/clinicHistoryService';
 import { Clinic } from '../../types';
 
 /**
@@ -114,12 +115,10 @@ export async function storeSeoContent(clinicId: string, content: string): Promis
   }
   
   try {
-    const clinicRef = doc(db, 'clinics', clinicId);
-    
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicId, {
       'seoContent': content,
       'lastUpdated': Timestamp.now()
-    });
+    }, { action: 'seo' });
     
     return true;
   } catch (error) {
@@ -1,5 +1,6 @@
 import { db } from '../../lib/firebase';
-import { doc, updateDoc, getDoc, Timestamp } from 'firebase/firestore';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { updateClinicWithHistory } from '../../lib/api/clinicHistoryService';
 import { Clinic } from '../../types';
 
 export interface SeoMeta {
@@ -59,12 +60,10 @@ export async function generateSeoMeta(clinic: Clinic): Promise<SeoMeta> {
  */
 export async function storeSeoMeta(clinicId: string, seoMeta: SeoMeta): Promise<boolean> {
   try {
-    const clinicRef = doc(db, 'clinics', clinicId);
-    
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicId, {
       'seoMeta': seoMeta,
       'lastUpdated': Timestamp.now()
-    });
+    }, { action: 'seo' });
     
     return true;
   } catch (error) {
@@ -92,10 +91,10 @@ export async function updateIndexStatus(clinicId: string, indexed: boolean): Pro
     const clinicData = clinicDoc.data();
     const seoMeta = clinicData.seoMeta || {};
     
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicId, {
       'seoMeta.indexed': indexed,
       'seoMeta.lastIndexed': indexed ? Timestamp.now() : seoMeta.lastIndexed
-    });
+    }, { action: 'seo' });
     
     return true;
   } catch (error) {
@@ -0,0 +1,83 @@
+import { TREATMENT_PATTERNS } from '../../worker/utils/treatmentPatterns';
+
+/**
+ * Treatment synonyms for search, built from the worker's TREATMENT_PATTERNS
+ * (apps/worker/utils/treatmentPatterns.ts, shared with the website extractor). Each pattern's
+ * alternatives are one synonym group: a query for any of them also finds clinics indexed under the others.
+ */
+
+// Shorthand patients search for that the extractor's patterns don't cover
+const EXTRA_SYNONYMS: string[][] = [
+  ['trt', 'testosterone replacement', 'testosterone', 'low t'],
+  ['hrt', 'hormone replacement', 'hormone therapy'],
+  ['ed', 'erectile dysfunction', 'ed treatment'],
+  ['glp-1', 'glp1', 'semaglutide', 'tirzepatide'],
+  ['weight loss', 'medical weight loss'],
+  ['hair loss', 'hair restoration']
+];
+
+export interface SynonymGroup {
+  canonical: string; // First alternative of the pattern, e.g. 'semaglutide' for /semaglutide|ozempic|.../
+  terms: string[]; // Every spelling in the group, lowercase
+}
+
+/**
+ * Normalize a term for comparison: lowercase, no spaces/hyphens/trademark symbols
+ */
+export function normalizeTermKey(term: string): string {
+  return term.toLowerCase().replace(/[®™©]/g, '').replace(/[\s\-_'.]+/g, '');
+}
+
+/**
+ * Expand one regex alternative (e.g. "test-?c", "ghrp-?[26]", "nad\+?") into literal spellings
+ */
+function expandAlternative(alternative: string): string[] {
+  let results = [''];
+  let i = 0;
+
+  while (i < alternative.length) {
+    let choices: string[];
+    if (alternative[i] === '\\') {
+      choices = [alternative[i + 1]];
+      i += 2;
+    } else if (alternative[i] === '[') {
+      const end = alternative.indexOf(']', i);
+      choices = alternative.slice(i + 1, end).split('');
+      i = end + 1;
+    } else {
+      choices = [alternative[i]];
+      i += 1;
+    }
+
+    if (alternative[i] === '?') {
+      choices = [...choices, ''];
+      i += 1;
+    }
+
+    results = results.flatMap(prefix => choices.map(choice => prefix + choice));
+  }
+
+  return results;
+}
+
+function patternAlternatives(pattern: RegExp): string[] {
+  const body = pattern.source.replace(/^\\b\(/, '').replace(/\)\\b$/, '');
+  return body.split('|').flatMap(expandAlternative);
+}
+
+let synonymGroups: SynonymGroup[] | null = null;
+
+/**
+ * All synonym groups (patterns plus shorthand), built on first use
+ */
+export function getSynonymGroups(): SynonymGroup[] {
+  if (!synonymGroups) {
+    const fromPatterns = Object.values(TREATMENT_PATTERNS).flat().map(pattern => {
+      const terms = Array.from(new Set(patternAlternatives(pattern).map(term => term.toLowerCase())));
+      return { canonical: terms[0], terms };
+    });
+    const extra = EXTRA_SYNONYMS.map(terms => ({ canonical: terms[0], terms }));
+    synonymGroups = [...fromPatterns, ...extra];
+  }
+  return synonymGroups;
+}
@@ -33,18 +33,50 @@ ${colors.bright}USAGE:${colors.reset}
 
 ${colors.bright}COMMANDS:${colors.reset}
 
-  ${colors.bright}import${colors.reset} [file-path]         Import clinics from CSV/JSON files
+  ${colors.bright}import${colors.reset} [file-path] [options]  Import clinics from CSV/JSON files
+  ${colors.bright}import:rollback${colors.reset} [session-id]  Undo an import session (restore updates, delete inserts)
   ${colors.bright}discovery${colors.reset} [options]       Run automated business discovery
   ${colors.bright}discovery:status${colors.reset} [session-id]      Check discovery session status
   ${colors.bright}discovery:pause${colors.reset} [session-id]       Pause a running discovery session
   ${colors.bright}discovery:monitor${colors.reset} [session-id]     Monitor discovery session progress
   ${colors.bright}discovery:list${colors.reset}                    List recent discovery sessions
   ${colors.bright}review-update${colors.reset} [options]   Update reviews for existing clinics
+  ${colors.bright}geocode-backfill${colors.reset} [options] Upgrade approximate (ZIP/city centroid) coordinates
+  ${colors.bright}quality-score${colors.reset} [options]    Recompute clinic data quality scores
+  ${colors.bright}reverify${colors.reset} [options]         Recheck business status, websites and phones
+  ${colors.bright}search-index${colors.reset} [clinic-id]    Rebuild the search index (or re-index one clinic)
+  ${colors.bright}search-demand${colors.reset} [options]    Aggregate on-site searches into the search demand report
+  ${colors.bright}saved-search-alerts${colors.reset} [options] Email users new clinics for their saved searches
+  ${colors.bright}jobs${colors.reset}                      List scheduled jobs with their last and next runs
+  ${colors.bright}jobs:requeue${colors.reset} [job-name]    Put a dead-lettered job back on its schedule
 
 ${colors.bright}IMPORT EXAMPLES:${colors.reset}
   npm run worker import sample-clinics.csv
   npm run worker import ./data/clinics.json
   npm run worker import /path/to/clinic-data.csv
+  npm run worker import clinics.csv --dry-run --merge
+  npm run worker import clinics.csv --apply session_123456789
+  npm run worker import --resume session_123456789
+  npm run worker import statewide.ndjson --concurrency 16
+  npm run worker import:rollback session_123456789 --dry-run
+  npm run worker import:rollback session_123456789 --force
+
+${colors.bright}IMPORT OPTIONS:${colors.reset}
+  --dry-run           Build an insert/update/skip/branch plan without writing clinics
+  --merge             Plan updates for duplicates whose fields changed (default: skip)
+  --apply ID          Run the import using the approved plan from session ID
+  --resume ID         Continue an interrupted import session from its last checkpoint
+  --format FORMAT     Force the input format: csv, json, ndjson, xlsx, google-places
+  --sheet NAMES       XLSX sheets to import, comma-separated, or "all" (default: first sheet)
+  --map MAPPING       Map source headers to fields, e.g. "Practice Name=name,Tel=phone"
+  --profile NAME      Apply a saved column mapping profile (id or name)
+  --concurrency N     Rows processed at once when streaming CSV/NDJSON (default: 8)
+  --geocode-concurrency N  Parallel geocode requests (default: 4 with GEOCODE_API_KEY, else 1/sec)
+  --batch-size N      Clinics per Firestore batch write when streaming (default/max: 100)
+
+${colors.bright}IMPORT ROLLBACK OPTIONS:${colors.reset}
+  --dry-run           Report what would be restored/deleted without writing
+  --force             Also roll back clinics edited since the import (discards those edits)
 
 ${colors.bright}DISCOVERY EXAMPLES:${colors.reset}
   npm run worker discovery --target 5000 --strategy metro_first
@@ -61,6 +93,31 @@ ${colors.bright}REVIEW UPDATE EXAMPLES:${colors.reset}
   npm run worker review-update --discovery-session session_123 
   npm run worker review-update --clinic-ids clinic1 --max-reviews 20 --rate-limit 2000
 
+${colors.bright}GEOCODE BACKFILL OPTIONS:${colors.reset}
+  --dry-run           Report upgrades without writing coordinates
+  --limit N           Max clinics to re-geocode (default: 500)
+  --include-failed    Also retry clinics that have no coordinates
+  --rate-limit N      Delay between lookups in milliseconds (default: 1000)
+  --geohash           Only stamp missing/stale geohashes (radius search index), no lookups
+
+${colors.bright}QUALITY SCORE OPTIONS:${colors.reset}
+  --all               Rescore every clinic (default: only clinics edited by admins since last scored)
+  --limit N           Max clinics to score
+  --dry-run           Compute scores without writing them
+
+${colors.bright}REVERIFY OPTIONS:${colors.reset}
+  --limit N           Max clinics to check this run (default: 200)
+  --stale-days N      Skip clinics checked in the last N days (default: 30)
+  --rate-limit N      Delay between clinics in milliseconds (default: 500)
+  --dry-run           Report closures without hiding or tagging clinics
+
+${colors.bright}SEARCH DEMAND OPTIONS:${colors.reset}
+  --days N            Aggregate searches from the last N days (default: 30)
+  --dry-run           Print the top queries and cities without saving the report
+
+${colors.bright}SAVED SEARCH ALERT OPTIONS:${colors.reset}
+  --dry-run           Print the digests that would be sent without emailing or saving
+
 ${colors.bright}DISCOVERY OPTIONS:${colors.reset}
   --target N          Target number of clinics to find (default: 5000)
   --strategy S        Search strategy: metro_first, nationwide, state_by_state
@@ -109,6 +166,7 @@ ${colors.bright}FEATURES:${colors.reset}
   ✅ Priority-based metro-first search strategy
   ✅ Automatic data normalization and cleaning
   ✅ Address geocoding with Google Maps API
+  ✅ Offline ZIP/city centroid fallback when geocoding APIs are unavailable
   ✅ SEO metadata generation (AI-powered when available)
   ✅ Duplicate detection and smart updates
   ✅ Quality-based tagging for review
@@ -148,9 +206,8 @@ const args = process.argv.slice(3);
     try {
       log.info('Loading import engine...');
       
-      const filePath = args[0];
-      const { importClinics } = await import('./tasks/importClinics');
-      await importClinics(filePath);
+      const { runImportCLI } = await import('./tasks/importClinics');
+      await runImportCLI(args);
       
       log.success('Import completed successfully!');
       process.exit(0);
@@ -161,6 +218,22 @@ const args = process.argv.slice(3);
     }
   }
   
+  if (command === 'import:rollback') {
+    try {
+      log.info('Loading import rollback...');
+      
+      const { runImportRollbackCLI } = await import('./tasks/rollbackImport');
+      await runImportRollbackCLI(args);
+      
+      log.success('Import rollback finished!');
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Import rollback failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
   if (command === 'discovery') {
     try {
       log.info('Loading business discovery engine...');
@@ -193,6 +266,117 @@ const args = process.argv.slice(3);
     }
   }
   
+  if (command === 'geocode-backfill') {
+    try {
+      log.info('Loading geocode backfill...');
+      
+      const { runGeocodeBackfillCLI } = await import('./tasks/backfillGeocodes');
+      await runGeocodeBackfillCLI(args);
+      
+      log.success('Geocode backfill completed successfully!');
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Geocode backfill failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
+  if (command === 'quality-score') {
+    try {
+      log.info('Loading quality scoring...');
+      
+      const { runQualityScoreCLI } = await import('./tasks/scoreClinicQuality');
+      await runQualityScoreCLI(args);
+      
+      log.success('Quality scoring completed successfully!');
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Quality scoring failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
+  if (command === 'reverify') {
+    try {
+      log.info('Loading clinic re-verification...');
+      
+      const { runReverificationCLI } = await import('./tasks/reverifyClinics');
+      await runReverificationCLI(args);
+      
+      log.success('Clinic re-verification completed successfully!');
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Clinic re-verification failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
+  if (command === 'search-index') {
+    try {
+      log.info('Loading search indexer...');
+      
+      const { runSearchIndexCLI } = await import('./tasks/enhanceSearchIndex');
+      await runSearchIndexCLI(args);
+      
+      log.success('Search index updated successfully!');
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Search indexing failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
+  if (command === 'search-demand') {
+    try {
+      log.info('Loading search demand aggregation...');
+      
+      const { runSearchDemandCLI } = await import('./tasks/aggregateSearchDemand');
+      await runSearchDemandCLI(args);
+      
+      log.success('Search demand report updated successfully!');
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Search demand aggregation failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
+  if (command === 'saved-search-alerts') {
+    try {
+      log.info('Loading saved search alerts...');
+      
+      const { runSavedSearchAlertsCLI } = await import('./tasks/sendSavedSearchAlerts');
+      await runSavedSearchAlertsCLI(args);
+      
+      log.success('Saved search alerts completed successfully!');
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Saved search alerts failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
+  if (command === 'jobs' || command === 'jobs:requeue') {
+    try {
+      log.info('Loading job queue...');
+      
+      const { runJobsCLI } = await import('./tasks/manageJobs');
+      await runJobsCLI(command === 'jobs:requeue' ? ['requeue', ...args] : args);
+      
+      process.exit(0);
+      
+    } catch (error) {
+      log.error(`Job queue command failed: ${error}`);
+      process.exit(1);
+    }
+  }
+  
   if (command === 'discovery:status') {
     try {
       log.info('Checking discovery status...');
@@ -254,7 +438,7 @@ const args = process.argv.slice(3);
   }
   
   // Default behavior - show usage if no valid command
-  if (!command || !['import', 'discovery', 'discovery:status', 'discovery:pause', 'discovery:monitor', 'discovery:list', 'review-update'].includes(command)) {
+  if (!command || !['import', 'import:rollback', 'discovery', 'discovery:status', 'discovery:pause', 'discovery:monitor', 'discovery:list', 'review-update', 'geocode-backfill', 'quality-score', 'reverify', 'search-index', 'search-demand', 'saved-search-alerts', 'jobs', 'jobs:requeue'].includes(command)) {
     log.warning('Invalid or missing command');
     showUsage();
     process.exit(1);
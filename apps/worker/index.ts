@@ -11,51 +11,193 @@ import { runTagAudit } from './tasks/runTagAudit';
 import { missedOpportunityScanner } from './tasks/missedOpportunityScanner';
 import { ghostClinicScanner } from './tasks/ghostClinicScanner';
 import { updateClinicReviews } from './tasks/updateClinicReviews';
+import { backfillGeocodes } from './tasks/backfillGeocodes';
+import { scoreClinicQuality } from './tasks/scoreClinicQuality';
+import { reverifyClinics } from './tasks/reverifyClinics';
+import { aggregateSearchDemand } from './tasks/aggregateSearchDemand';
+import { sendSavedSearchAlerts } from './tasks/sendSavedSearchAlerts';
 import { db } from './lib/firebase';
 import { doc, getDoc, onSnapshot } from './lib/firebase-compat';
+import { ScannerOptions } from './tasks/missedOpportunityScanner';
+import {
+  createWorkerId,
+  defineJob,
+  JobDefinition,
+  JOB_RUN_RETENTION_DAYS,
+  pruneJobRuns,
+  registerJobs,
+  releaseJobLeases,
+  runQueuedJob,
+  syncJob
+} from './utils/jobQueue';
+import { effectiveJobSchedule, isJobEnabled, loadJobOverrides, watchJobOverrides } from './utils/jobOverrides';
 
 // Worker state
 let isPaused = true; // Start paused by default
 let intervalId: NodeJS.Timeout | null = null;
+let ticking = false;
+
+// How often to look for due jobs; each job's own schedule is a cron expression (UTC)
+const TICK_INTERVAL_MS = 30 * 1000;
+
+const workerId = createWorkerId();
+
+const DRY_RUN = { type: 'boolean', default: false, description: 'Report what would change without writing' } as const;
+
+// Job registry - default schedules and parameter schemas live here, run state in Firestore
+// (utils/jobQueue.ts). Admins can disable a job or override its schedule and params from the
+// jobs console (utils/jobOverrides.ts); manual runs can pass params too.
+const JOBS: JobDefinition[] = [
+  defineJob({
+    name: 'import-jobs',
+    schedule: '* * * * *', // Every minute
+    params: {},
+    run: async () => {
+      const { processImportJobs } = await import('./tasks/importClinics');
+      return processImportJobs();
+    }
+  }),
+  defineJob({ name: 'analytics', schedule: '0 * * * *', params: {}, run: () => processAnalytics() }), // Hourly
+  defineJob({ name: 'reports', schedule: '0 2 * * *', params: {}, run: () => generateReports() }), // Daily
+  defineJob({ name: 'seo-index', schedule: '0 */6 * * *', params: {}, run: () => runSeoIndexAudit() }), // Every 6 hours
+  defineJob({
+    name: 'tag-audit',
+    schedule: '0 */12 * * *', // Every 12 hours
+    params: {
+      batchSize: { type: 'integer', default: 50, min: 1, max: 500, description: 'Clinics per batch' },
+      statusFilter: { type: 'string[]', default: ['active'], description: 'Clinic statuses to audit' },
+      dryRun: DRY_RUN
+    },
+    run: params => runTagAudit(params)
+  }),
+  defineJob({
+    name: 'opportunities',
+    schedule: '0 */4 * * *', // Every 4 hours
+    params: {
+      maxClinics: { type: 'integer', default: 500, min: 1, max: 10000, description: 'Clinics to scan' },
+      minThreshold: { type: 'number', default: 100, min: 0, description: 'Minimum value to count as an opportunity' },
+      focusAreas: {
+        type: 'string[]',
+        default: ['seo', 'upgrade', 'engagement', 'traffic'],
+        options: ['seo', 'upgrade', 'engagement', 'traffic'],
+        description: 'Kinds of opportunity to look for'
+      },
+      states: { type: 'string[]', default: [], description: 'Only clinics in these states (empty for all)' },
+      dryRun: DRY_RUN
+    },
+    run: params => missedOpportunityScanner({ ...params, focusAreas: params.focusAreas as ScannerOptions['focusAreas'] })
+  }),
+  defineJob({
+    name: 'ghost-clinics',
+    schedule: '30 3 * * *', // Daily
+    params: {
+      inactiveDays: { type: 'integer', default: 90, min: 1, max: 3650, description: 'Days without activity before a clinic is a ghost' },
+      batchSize: { type: 'integer', default: 50, min: 1, max: 500, description: 'Clinics per batch' },
+      dryRun: DRY_RUN
+    },
+    run: params => ghostClinicScanner(params)
+  }),
+  defineJob({
+    name: 'review-updates',
+    schedule: '0 4 * * *', // Daily review refresh
+    params: {
+      enableGoogleReviews: { type: 'boolean', default: true, description: 'Import Google reviews' },
+      maxReviewsPerSource: { type: 'integer', default: 10, min: 1, max: 50, description: 'Reviews kept per source' },
+      rateLimitMs: { type: 'integer', default: 1000, min: 0, max: 60000, description: 'Delay between clinics (ms)' },
+      batchSize: { type: 'integer', default: 50, min: 1, max: 500, description: 'Clinics per batch' },
+      clinicIds: { type: 'string[]', description: 'Only these clinics' },
+      discoverySessionId: { type: 'string', description: 'Only clinics from this discovery session' }
+    },
+    run: params => updateClinicReviews(params)
+  }),
+  defineJob({
+    name: 'geocode-backfill',
+    schedule: '0 5 * * *', // Daily upgrade of approximate coordinates
+    params: {
+      maxClinics: { type: 'integer', default: 500, min: 1, max: 10000, description: 'Clinics to re-geocode' },
+      includeFailed: { type: 'boolean', default: false, description: 'Also retry clinics with no coordinates' },
+      rateLimitMs: { type: 'integer', default: 1000, min: 0, max: 60000, description: 'Delay between lookups (ms)' },
+      maxConsecutiveFailures: { type: 'integer', default: 5, min: 1, max: 100, description: 'Stop after this many failed lookups in a row' },
+      geohashOnly: { type: 'boolean', default: false, description: 'Only stamp missing or stale geohashes' },
+      dryRun: DRY_RUN
+    },
+    run: (params, { signal }) => backfillGeocodes({ ...params, signal })
+  }),
+  defineJob({
+    name: 'quality-scores',
+    schedule: '*/15 * * * *', // Rescore admin-edited clinics every 15 minutes
+    params: {
+      all: { type: 'boolean', default: false, description: 'Rescore every clinic, not just edited ones' },
+      maxClinics: { type: 'integer', min: 1, description: 'Clinics to score (default 500, or all with "all")' },
+      dryRun: DRY_RUN
+    },
+    run: (params, { signal }) => scoreClinicQuality({ ...params, signal })
+  }),
+  defineJob({
+    name: 'reverify-clinics',
+    schedule: '0 6 * * *', // Daily business status / website / phone recheck
+    params: {
+      maxClinics: { type: 'integer', default: 200, min: 1, max: 5000, description: 'Clinics to check' },
+      staleDays: { type: 'integer', default: 30, min: 0, max: 365, description: 'Skip clinics checked in the last N days' },
+      rateLimitMs: { type: 'integer', default: 500, min: 0, max: 60000, description: 'Delay between clinics (ms)' },
+      dryRun: DRY_RUN
+    },
+    run: (params, { signal }) => reverifyClinics({ ...params, signal })
+  }),
+  defineJob({
+    name: 'search-index',
+    schedule: '15 */6 * * *', // Rebuild the search index (facets/ranking) every 6 hours
+    params: {},
+    run: async () => {
+      const { enhanceAllClinicsSearchIndex } = await import('./tasks/enhanceSearchIndex');
+      return enhanceAllClinicsSearchIndex();
+    }
+  }),
+  defineJob({
+    name: 'search-demand',
+    schedule: '0 1 * * *', // Daily search demand report from on-site searches
+    params: {
+      days: { type: 'integer', default: 30, min: 1, max: 365, description: 'Days of searches to aggregate' },
+      dryRun: DRY_RUN
+    },
+    run: params => aggregateSearchDemand(params)
+  }),
+  defineJob({
+    name: 'saved-search-alerts',
+    schedule: '0 14 * * *', // Daily new-clinic digest for saved searches
+    params: { dryRun: DRY_RUN },
+    run: params => sendSavedSearchAlerts(params)
+  }),
+  defineJob({
+    name: 'job-history-cleanup',
+    schedule: '45 0 * * *', // Daily prune of old job runs and their logs
+    params: {
+      retentionDays: { type: 'integer', default: JOB_RUN_RETENTION_DAYS, min: 1, max: 365, description: 'Keep runs from the last N days' }
+    },
+    run: params => pruneJobRuns(params.retentionDays)
+  })
+];
+
+// Run every job that's due and not already leased by another worker
+async function runDueJobs() {
+  if (ticking) return; // The previous tick is still working through jobs
+  ticking = true;
 
-// Define job schedules (in milliseconds)
-const SCHEDULES = {
-  importJobs: 30 * 1000,            // Every 30 seconds
-  analytics: 60 * 60 * 1000,        // Every hour
-  reports: 24 * 60 * 60 * 1000,     // Daily
-  seoIndexAudit: 6 * 60 * 60 * 1000, // Every 6 hours
-  tagAudit: 12 * 60 * 60 * 1000,    // Every 12 hours
-  missedOpportunities: 4 * 60 * 60 * 1000, // Every 4 hours
-  ghostClinics: 24 * 60 * 60 * 1000, // Daily
-  reviewUpdates: 24 * 60 * 60 * 1000, // Daily review refresh
-};
-
-// Track last run times
-const lastRun: Record<string, number> = {};
-
-// Run a job safely
-async function runJob(name: string, job: () => Promise<any>) {
-  if (isPaused) {
-    console.log(`⏸️  Skipping job ${name} - worker is paused`);
-    return;
-  }
-  
   try {
-    console.log(`🚀 Starting job: ${name}`);
-    await job();
-    console.log(`✅ Job completed: ${name}`);
-    lastRun[name] = Date.now();
-  } catch (error) {
-    console.error(`❌ Job failed: ${name}`, error);
+    for (const job of JOBS) {
+      if (isPaused) return;
+      try {
+        // A disabled job only runs when asked to from the jobs console
+        await runQueuedJob(job, workerId, { requestedOnly: !isJobEnabled(job.name) });
+      } catch (error) {
+        console.error(`❌ Failed to run job ${job.name}:`, error);
+      }
+    }
+  } finally {
+    ticking = false;
   }
 }
 
-// Check if job should run
-function shouldRun(name: string, intervalMs: number): boolean {
-  const last = lastRun[name] || 0;
-  return Date.now() - last >= intervalMs;
-}
-
 // Watch worker config in Firestore
 async function watchWorkerConfig() {
   try {
@@ -70,21 +212,13 @@ async function watchWorkerConfig() {
         if (newPausedState !== isPaused) {
           isPaused = newPausedState;
           console.log(`🔄 Worker state changed: ${isPaused ? 'PAUSED' : 'ACTIVE'}`);
-          
-          if (!isPaused && !lastRun.analytics) {
-            // Run initial jobs when unpaused for the first time
-            console.log('🏃 Running initial jobs after unpause...');
-            await runJob('analytics', processAnalytics);
-            await runJob('seo-index', runSeoIndexAudit);
-          }
         }
       } else {
         // No config exists, create default (paused)
         console.log('📝 Creating default worker config (paused)');
         await db.collection('config').doc('worker').set({
           isPaused: true,
-          lastUpdated: new Date(),
-          schedules: SCHEDULES
+          lastUpdated: new Date()
         });
       }
     });
@@ -99,10 +233,15 @@ async function watchWorkerConfig() {
 // Main worker loop
 async function startWorker() {
   console.log('🔧 Men\'s Health Finder Worker Started');
+  console.log(`🆔 Worker ID: ${workerId}`);
   console.log('⏸️  Worker is starting in PAUSED state');
-  console.log('📅 Job Schedules:');
-  Object.entries(SCHEDULES).forEach(([job, interval]) => {
-    console.log(`  - ${job}: every ${interval / 1000 / 60} minutes`);
+
+  await loadJobOverrides(JOBS);
+  await registerJobs(JOBS);
+
+  console.log('📅 Job Schedules (cron, UTC):');
+  JOBS.forEach(job => {
+    console.log(`  - ${job.name}: ${effectiveJobSchedule(job)}${isJobEnabled(job.name) ? '' : ' (disabled)'}`);
   });
 
   // Check for command line job argument (for manual runs)
@@ -110,70 +249,47 @@ async function startWorker() {
   
   if (manualJob) {
     console.log(`📌 Manual job requested: ${manualJob}`);
-    
-    // Temporarily unpause for manual job
-    const wasPaused = isPaused;
-    isPaused = false;
-    
-    switch (manualJob) {
-      case 'import':
-        const { importClinics } = await import('./tasks/importClinics');
-        await runJob('import', importClinics);
-        break;
-        
-      case 'import-jobs':
-        const { processImportJobs } = await import('./tasks/importClinics');
-        await runJob('import-jobs', processImportJobs);
-        break;
-        
-      case 'analytics':
-        await runJob('analytics', processAnalytics);
-        break;
-        
-      case 'reports':
-        await runJob('reports', generateReports);
-        break;
-        
-      case 'seo-index':
-        await runJob('seo-index', runSeoIndexAudit);
-        break;
-        
-      case 'tag-audit':
-        await runJob('tag-audit', runTagAudit);
-        break;
-        
-      case 'opportunities':
-        await runJob('opportunities', missedOpportunityScanner);
-        break;
-        
-      case 'ghost-clinics':
-        await runJob('ghost-clinics', ghostClinicScanner);
-        break;
-        
-      case 'review-updates':
-        await runJob('review-updates', async () => {
-          // Run review updates with default config
-          return updateClinicReviews({
-            enableGoogleReviews: true,
-            maxReviewsPerSource: 10,
-            rateLimitMs: 1000,
-            batchSize: 50
-          });
-        });
-        break;
-        
-      default:
-        console.error('❌ Unknown job type. Available jobs: import, import-jobs, analytics, reports, seo-index, tag-audit, opportunities, ghost-clinics, review-updates');
-        process.exit(1);
+
+    if (manualJob === 'import') {
+      // One-off file import, not a scheduled job
+      const { runImportCLI } = await import('./tasks/importClinics');
+      await runImportCLI(process.argv.slice(3));
+      console.log('✅ Manual job completed');
+      process.exit(0);
     }
-    
-    isPaused = wasPaused; // Restore pause state
-    console.log('✅ Manual job completed');
-    process.exit(0);
+
+    const job = JOBS.find(definition => definition.name === manualJob);
+    if (!job) {
+      console.error(`❌ Unknown job type. Available jobs: import, ${JOBS.map(definition => definition.name).join(', ')}`);
+      process.exit(1);
+    }
+
+    // Optional JSON params after the job name, e.g. reverify-clinics '{"maxClinics":10}'
+    let params = {};
+    try {
+      params = process.argv[3] ? JSON.parse(process.argv[3]) : {};
+    } catch {
+      console.error('❌ Job params must be a JSON object');
+      process.exit(1);
+    }
+
+    // Manual runs ignore the pause and the schedule, but still take the lease
+    const status = await runQueuedJob(job, workerId, { trigger: 'manual', params });
+    if (!status) {
+      console.error(`❌ ${job.name} is already running on another worker`);
+      process.exit(1);
+    }
+    console.log(status === 'succeeded' ? '✅ Manual job completed' : `❌ Manual job ${status}`);
+    process.exit(status === 'succeeded' ? 0 : 1);
   }
 
   // Watch for config changes
   const unsubscribe = await watchWorkerConfig();
+
+  // Apply per-job settings as admins change them, without a restart
+  const stopWatchingOverrides = watchJobOverrides(JOBS, definition => {
+    syncJob(definition).catch(error => console.error(`❌ Failed to update ${definition.name}:`, error));
+  });
   
   // Wait a moment for initial config load
   await new Promise(resolve => setTimeout(resolve, 2000));
@@ -182,73 +298,30 @@ async function startWorker() {
   console.log('🔄 Starting continuous worker loop...');
   console.log(`📊 Current state: ${isPaused ? 'PAUSED' : 'ACTIVE'}`);
   
-  intervalId = setInterval(async () => {
+  intervalId = setInterval(() => {
     if (isPaused) {
       return; // Skip all jobs if paused
     }
-    
-    // Check for import jobs frequently
-    if (shouldRun('import-jobs', SCHEDULES.importJobs)) {
-      const { processImportJobs } = await import('./tasks/importClinics');
-      await runJob('import-jobs', processImportJobs);
-    }
-    
-    // Check each job schedule
-    if (shouldRun('analytics', SCHEDULES.analytics)) {
-      await runJob('analytics', processAnalytics);
-    }
-    
-    if (shouldRun('reports', SCHEDULES.reports)) {
-      await runJob('reports', generateReports);
-    }
-    
-    if (shouldRun('seo-index', SCHEDULES.seoIndexAudit)) {
-      await runJob('seo-index', runSeoIndexAudit);
-    }
-    
-    if (shouldRun('tag-audit', SCHEDULES.tagAudit)) {
-      await runJob('tag-audit', runTagAudit);
-    }
-    
-    if (shouldRun('opportunities', SCHEDULES.missedOpportunities)) {
-      await runJob('opportunities', missedOpportunityScanner);
-    }
-    
-    if (shouldRun('ghost-clinics', SCHEDULES.ghostClinics)) {
-      await runJob('ghost-clinics', ghostClinicScanner);
-    }
-    
-    if (shouldRun('review-updates', SCHEDULES.reviewUpdates)) {
-      await runJob('review-updates', async () => {
-        // Run review updates with default config for scheduled jobs
-        return updateClinicReviews({
-          enableGoogleReviews: true,
-          maxReviewsPerSource: 10,
-          rateLimitMs: 1000,
-          batchSize: 50
-        });
-      });
-    }
-  }, 60 * 1000); // Check every minute
+    runDueJobs();
+  }, TICK_INTERVAL_MS);
 
-  // Keep process alive
-  process.on('SIGTERM', () => {
-    console.log('🛑 Worker shutting down gracefully...');
+  // Hand running jobs back so another replica can pick them up without waiting out the lease
+  const shutdown = async (message: string) => {
+    console.log(message);
     if (intervalId) clearInterval(intervalId);
     if (unsubscribe) unsubscribe();
+    stopWatchingOverrides();
+    await releaseJobLeases(workerId);
     process.exit(0);
-  });
-  
-  process.on('SIGINT', () => {
-    console.log('🛑 Worker interrupted, shutting down...');
-    if (intervalId) clearInterval(intervalId);
-    if (unsubscribe) unsubscribe();
-    process.exit(0);
-  });
+  };
+
+  // Keep process alive
+  process.on('SIGTERM', () => shutdown('🛑 Worker shutting down gracefully...'));
+  process.on('SIGINT', () => shutdown('🛑 Worker interrupted, shutting down...'));
 }
 
 // Start the worker
 startWorker().catch(error => {
   console.error('💥 Worker failed to start:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
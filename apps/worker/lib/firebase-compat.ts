@@ -138,6 +138,10 @@ export function increment(n: number) {
   return admin.firestore.FieldValue.increment(n);
 }
 
+export function deleteField() {
+  return admin.firestore.FieldValue.delete();
+}
+
 export function writeBatch(firestore: admin.firestore.Firestore = db) {
   return firestore.batch();
 }
@@ -0,0 +1,36 @@
+/**
+ * Rebuild data/us-zip-centroids.json (ZIP -> [lat, lng, city, state]) for the offline gazetteer.
+ *
+ * Source: the `zipcodes` npm package (https://github.com/davglass/zipcodes), BSD licensed,
+ * Copyright (c) 2007 Dav Glass. Its US table is in lib/codes.js.
+ *
+ * Usage (from apps/worker):
+ *   npm pack zipcodes@8.0.0 && tar xzf zipcodes-8.0.0.tgz
+ *   node scripts/build-zip-centroids.js package/lib/codes.js
+ *   rm -rf package zipcodes-8.0.0.tgz
+ */
+const fs = require('fs');
+const path = require('path');
+
+const source = process.argv[2];
+if (!source) {
+  console.error('Usage: node scripts/build-zip-centroids.js <path to zipcodes/lib/codes.js>');
+  process.exit(1);
+}
+
+const { codes } = require(path.resolve(source));
+const outPath = path.join(__dirname, '../data/us-zip-centroids.json');
+
+// Military mail (APO/FPO) ZIPs are not places
+const MILITARY_STATES = ['AA', 'AE', 'AP'];
+
+const lines = Object.keys(codes)
+  .filter(zip => /^\d{5}$/.test(zip) && !MILITARY_STATES.includes(codes[zip].state))
+  .sort()
+  .map(zip => {
+    const { latitude, longitude, city, state } = codes[zip];
+    return `  ${JSON.stringify(zip)}:${JSON.stringify([latitude, longitude, city, state])}`;
+  });
+
+fs.writeFileSync(outPath, `{\n${lines.join(',\n')}\n}\n`);
+console.log(`Wrote ${lines.length} ZIP centroids to ${outPath}`);
@@ -0,0 +1,294 @@
+import { doc, setDoc, Timestamp } from '../lib/firebase-compat';
+import { db } from '../lib/firebase';
+
+export interface SearchDemandOptions {
+  days?: number; // Look back this many days of search_events
+  dryRun?: boolean;
+}
+
+export interface SearchDemandResult {
+  success: boolean;
+  eventsRead: number;
+  report?: SearchDemandReport;
+  errors: string[];
+  duration: number;
+}
+
+// Must match SearchEvent in apps/web/types/index.ts (written by the site's searchDemandService)
+interface SearchEvent {
+  type: 'search' | 'click';
+  sessionId: string;
+  searchId?: string;
+  source: string;
+  query: string;
+  terms: string[];
+  location: { city?: string; state?: string; lat?: number; lng?: number } | null;
+  filters: Record<string, any>;
+  resultCount: number;
+  clinicId?: string;
+  position?: number;
+}
+
+// Must match SearchDemandReport in apps/web/types/index.ts
+export interface SearchDemandReport {
+  periodDays: number;
+  generatedAt: Date;
+  totals: {
+    searches: number;
+    clicks: number;
+    zeroResultSearches: number;
+    sessions: number;
+  };
+  topQueries: { query: string; searches: number; clicks: number; zeroResultSearches: number }[];
+  zeroResultQueries: { query: string; searches: number; cities: string[] }[];
+  clickThroughByPosition: { position: number; clicks: number; rate: number }[];
+  unmetDemandByCity: { city: string; state: string; searches: number; zeroResultSearches: number; topQueries: string[] }[];
+}
+
+interface QueryStats {
+  searches: number;
+  clicks: number;
+  zeroResultSearches: number;
+  cities: Map<string, number>;
+}
+
+interface CityStats {
+  city: string;
+  state: string;
+  searches: number;
+  zeroResultSearches: number;
+  queries: Map<string, number>;
+}
+
+const PAGE_SIZE = 1000;
+const MAX_QUERIES = 50;
+const MAX_CITIES = 50;
+const MAX_POSITION = 20; // Clicks further down are folded into the last position
+const QUERIES_PER_CITY = 5;
+
+/**
+ * Aggregate the site's search_events into admin/searchDemand: top queries, zero-result queries,
+ * click-through by result position and the cities where searches most often find nothing.
+ */
+export async function aggregateSearchDemand(options: SearchDemandOptions = {}): Promise<SearchDemandResult> {
+  const startTime = Date.now();
+  const { days = 30, dryRun = false } = options;
+
+  console.log(`🔎 Aggregating ${days} days of search demand${dryRun ? ' (DRY RUN)' : ''}...`);
+
+  const result: SearchDemandResult = {
+    success: true,
+    eventsRead: 0,
+    errors: [],
+    duration: 0
+  };
+
+  const queries = new Map<string, QueryStats>();
+  const cities = new Map<string, CityStats>();
+  const sessions = new Set<string>();
+  const shownAtPosition = new Array<number>(MAX_POSITION).fill(0);
+  const clicksAtPosition = new Array<number>(MAX_POSITION).fill(0);
+  const totals = { searches: 0, clicks: 0, zeroResultSearches: 0, sessions: 0 };
+
+  try {
+    const since = Timestamp.fromMillis(Date.now() - days * 24 * 60 * 60 * 1000);
+    let lastEvent: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+    while (true) {
+      let page = db.collection('search_events')
+        .where('createdAt', '>=', since)
+        .orderBy('createdAt')
+        .limit(PAGE_SIZE);
+      if (lastEvent) page = page.startAfter(lastEvent);
+
+      const snapshot = await page.get();
+      if (snapshot.empty) break;
+
+      for (const eventDoc of snapshot.docs) {
+        result.eventsRead++;
+        const event = eventDoc.data() as SearchEvent;
+        if (event.sessionId) sessions.add(event.sessionId);
+
+        const queryKey = normalizeQuery(event);
+        const queryStats = queryKey ? getQueryStats(queries, queryKey) : undefined;
+        const cityStats = event.location?.city && event.location.state
+          ? getCityStats(cities, event.location.city, event.location.state)
+          : undefined;
+
+        if (event.type === 'click') {
+          totals.clicks++;
+          if (queryStats) queryStats.clicks++;
+          if (event.position && event.position > 0) {
+            clicksAtPosition[Math.min(event.position, MAX_POSITION) - 1]++;
+          }
+          continue;
+        }
+
+        const zeroResults = !event.resultCount;
+        totals.searches++;
+        if (zeroResults) totals.zeroResultSearches++;
+
+        for (let position = 0; position < Math.min(event.resultCount || 0, MAX_POSITION); position++) {
+          shownAtPosition[position]++;
+        }
+
+        if (queryStats) {
+          queryStats.searches++;
+          if (zeroResults) {
+            queryStats.zeroResultSearches++;
+            if (cityStats) increment(queryStats.cities, `${cityStats.city}, ${cityStats.state}`);
+          }
+        }
+
+        if (cityStats) {
+          cityStats.searches++;
+          if (zeroResults) {
+            cityStats.zeroResultSearches++;
+            if (queryKey) increment(cityStats.queries, queryKey);
+          }
+        }
+      }
+
+      lastEvent = snapshot.docs[snapshot.docs.length - 1];
+      if (snapshot.size < PAGE_SIZE) break;
+    }
+
+    totals.sessions = sessions.size;
+
+    const report: SearchDemandReport = {
+      periodDays: days,
+      generatedAt: new Date(),
+      totals,
+      topQueries: Array.from(queries.entries())
+        .filter(([, stats]) => stats.searches > 0)
+        .sort(([, a], [, b]) => b.searches - a.searches)
+        .slice(0, MAX_QUERIES)
+        .map(([query, stats]) => ({
+          query,
+          searches: stats.searches,
+          clicks: stats.clicks,
+          zeroResultSearches: stats.zeroResultSearches
+        })),
+      zeroResultQueries: Array.from(queries.entries())
+        .filter(([, stats]) => stats.zeroResultSearches > 0)
+        .sort(([, a], [, b]) => b.zeroResultSearches - a.zeroResultSearches)
+        .slice(0, MAX_QUERIES)
+        .map(([query, stats]) => ({
+          query,
+          searches: stats.zeroResultSearches,
+          cities: topKeys(stats.cities, QUERIES_PER_CITY)
+        })),
+      clickThroughByPosition: shownAtPosition
+        .map((shown, index) => ({
+          position: index + 1,
+          clicks: clicksAtPosition[index],
+          rate: shown > 0 ? Math.round((clicksAtPosition[index] / shown) * 1000) / 1000 : 0
+        }))
+        .filter(row => row.clicks > 0 || shownAtPosition[row.position - 1] > 0),
+      // Cities where people search and find nothing are the discovery and sales targets
+      unmetDemandByCity: Array.from(cities.values())
+        .filter(stats => stats.zeroResultSearches > 0)
+        .sort((a, b) => b.zeroResultSearches - a.zeroResultSearches || b.searches - a.searches)
+        .slice(0, MAX_CITIES)
+        .map(stats => ({
+          city: stats.city,
+          state: stats.state,
+          searches: stats.searches,
+          zeroResultSearches: stats.zeroResultSearches,
+          topQueries: topKeys(stats.queries, QUERIES_PER_CITY)
+        }))
+    };
+    result.report = report;
+
+    if (!dryRun) {
+      await setDoc(doc(db, 'admin', 'searchDemand'), report);
+    }
+
+    console.log(`🔎 Search demand aggregated: ${totals.searches} searches, ${totals.clicks} clicks, ${totals.zeroResultSearches} with no results across ${totals.sessions} sessions`);
+
+    return { ...result, duration: Date.now() - startTime };
+  } catch (error) {
+    console.error('Search demand aggregation failed:', error);
+
+    return {
+      ...result,
+      success: false,
+      errors: [...result.errors, error instanceof Error ? error.message : 'Unknown error'],
+      duration: Date.now() - startTime
+    };
+  }
+}
+
+// Group by normalized terms so spelling and case variants count as one query; filter-only searches have no key
+function normalizeQuery(event: SearchEvent): string {
+  if (event.terms?.length) return event.terms.join(' ');
+  return (event.query || '').trim().toLowerCase();
+}
+
+function getQueryStats(queries: Map<string, QueryStats>, key: string): QueryStats {
+  let stats = queries.get(key);
+  if (!stats) {
+    stats = { searches: 0, clicks: 0, zeroResultSearches: 0, cities: new Map() };
+    queries.set(key, stats);
+  }
+  return stats;
+}
+
+function getCityStats(cities: Map<string, CityStats>, city: string, state: string): CityStats {
+  const key = `${city.trim().toLowerCase()}|${state.trim().toUpperCase()}`;
+  let stats = cities.get(key);
+  if (!stats) {
+    stats = { city: city.trim(), state: state.trim().toUpperCase(), searches: 0, zeroResultSearches: 0, queries: new Map() };
+    cities.set(key, stats);
+  }
+  return stats;
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+function topKeys(counts: Map<string, number>, limit: number): string[] {
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+// CLI interface for running this task
+export async function runSearchDemandCLI(args: string[]) {
+  const options: SearchDemandOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--days':
+        options.days = parseInt(args[++i], 10);
+        break;
+    }
+  }
+
+  const result = await aggregateSearchDemand(options);
+
+  if (!result.success) {
+    console.error('❌ Search demand aggregation failed');
+    console.error('Errors:', result.errors.slice(0, 5));
+    process.exit(1);
+  }
+
+  console.log(`📊 Read ${result.eventsRead} search events in ${Math.round(result.duration / 1000)}s`);
+  const report = result.report;
+  if (report && options.dryRun) {
+    console.log('🔝 Top queries:', report.topQueries.slice(0, 10).map(row => `${row.query} (${row.searches})`).join(', ') || 'none');
+    console.log('🕳️  Unmet demand:', report.unmetDemandByCity.slice(0, 10).map(row => `${row.city}, ${row.state} (${row.zeroResultSearches})`).join(', ') || 'none');
+  }
+}
+
+// Example usage:
+// npm run worker search-demand
+// npm run worker search-demand --days 7
+// npm run worker search-demand --dry-run
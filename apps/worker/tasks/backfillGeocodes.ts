@@ -0,0 +1,276 @@
+import { collection, getDocs, query, where, limit, serverTimestamp, writeBatch, doc } from '../lib/firebase-compat';
+import { db } from '../lib/firebase';
+import { geocodeAddress, delay, isMorePrecise } from '../utils/geocodeAddress';
+import { geocodeFromGazetteer } from '../utils/gazetteer';
+import { buildGeocodeProvenance, refreshQualityScore } from '../utils/dataQuality';
+import { updateClinicWithHistory } from '../utils/clinicHistory';
+import { clinicGeohash } from '../utils/geohash';
+
+export interface GeocodeBackfillOptions {
+  dryRun?: boolean;
+  maxClinics?: number;
+  includeFailed?: boolean; // Also retry clinics that have no coordinates at all
+  rateLimitMs?: number; // Nominatim allows one request per second
+  maxConsecutiveFailures?: number; // Stop early when the APIs are still down
+  geohashOnly?: boolean; // Only stamp clinic.geohash on clinics that have coordinates but no (or a stale) geohash
+  signal?: AbortSignal; // Stop before the next lookup (the run was cancelled)
+}
+
+export interface GeocodeBackfillResult {
+  success: boolean;
+  scanned: number;
+  upgraded: number;
+  notImproved: number; // The APIs answered, but no more precisely than the centroid the clinic already has
+  unresolved: number;
+  aborted: boolean;
+  errors: string[];
+  duration: number;
+}
+
+/**
+ * Re-geocode clinics that only have gazetteer (ZIP/city centroid) coordinates
+ * once Google or Nominatim answers again. A result only replaces the centroid when it is
+ * more precise (a city-level answer doesn't beat a ZIP centroid).
+ */
+export async function backfillGeocodes(options: GeocodeBackfillOptions = {}): Promise<GeocodeBackfillResult> {
+  const startTime = Date.now();
+  const {
+    dryRun = false,
+    maxClinics = 500,
+    includeFailed = false,
+    rateLimitMs = 1000,
+    maxConsecutiveFailures = 5,
+    geohashOnly = false,
+    signal
+  } = options;
+
+  if (geohashOnly) {
+    return backfillGeohashes(dryRun, startTime);
+  }
+
+  console.log(`📍 Starting geocode backfill${dryRun ? ' (DRY RUN)' : ''}...`);
+
+  const errors: string[] = [];
+  let scanned = 0;
+  let upgraded = 0;
+  let notImproved = 0;
+  let unresolved = 0;
+  let consecutiveFailures = 0;
+  let aborted = false;
+
+  try {
+    const clinicsRef = collection(db, 'clinics');
+    const snapshots = [await getDocs(query(clinicsRef, where('geoSource', '==', 'gazetteer'), limit(maxClinics)))];
+    if (includeFailed) {
+      snapshots.push(await getDocs(query(clinicsRef, where('geoAccuracy', '==', 'failed'), limit(maxClinics))));
+    }
+
+    const clinics = new Map<string, any>();
+    snapshots.forEach(snapshot => {
+      snapshot.docs.forEach(clinicDoc => clinics.set(clinicDoc.id, clinicDoc.data()));
+    });
+
+    console.log(`📋 Found ${clinics.size} clinics with approximate or missing coordinates`);
+
+    for (const [id, clinic] of Array.from(clinics.entries()).slice(0, maxClinics)) {
+      if (signal?.aborted) {
+        console.warn(`⏹️  Cancelled after ${scanned} clinics`);
+        aborted = true;
+        break;
+      }
+      scanned++;
+
+      try {
+        const result = await geocodeAddress(clinic.address || '', clinic.city, clinic.state, clinic.zip, {
+          allowGazetteer: false
+        });
+
+        if (result.geoAccuracy === 'failed') {
+          unresolved++;
+          consecutiveFailures++;
+
+          if (consecutiveFailures >= maxConsecutiveFailures) {
+            console.warn(`⚠️  ${consecutiveFailures} lookups failed in a row - geocoding API still unavailable, stopping`);
+            aborted = true;
+            break;
+          }
+          continue;
+        }
+
+        consecutiveFailures = 0;
+
+        // Clinics saved before geoPrecision existed: work out which centroid they got
+        const currentPrecision = clinic.geoPrecision || (clinic.geoSource === 'gazetteer'
+          ? geocodeFromGazetteer(clinic.city, clinic.state, clinic.zip)?.geoPrecision
+          : undefined);
+        if (!isMorePrecise(result.geoPrecision, currentPrecision)) {
+          notImproved++;
+          console.log(`   ➖ ${clinic.name || id}: ${result.geoPrecision || 'unknown'}-level result, no better than its ${currentPrecision} centroid`);
+          await delay(rateLimitMs);
+          continue;
+        }
+
+        upgraded++;
+        console.log(`   ✅ ${clinic.name || id}: ${result.geoAccuracy} ${result.geoPrecision || ''} (${result.geoSource})`);
+
+        if (!dryRun) {
+          await updateClinicWithHistory(id, {
+            lat: result.lat,
+            lng: result.lng,
+            geohash: clinicGeohash(result),
+            geoAccuracy: result.geoAccuracy,
+            geoSource: result.geoSource,
+            geoPrecision: result.geoPrecision,
+            geoUpdatedAt: serverTimestamp(),
+            'provenance.location': buildGeocodeProvenance(result)
+          }, { source: 'worker', actor: 'backfillGeocodes', action: 'geocode' });
+          await refreshQualityScore(id);
+        }
+      } catch (error) {
+        errors.push(`Failed to backfill ${id}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      await delay(rateLimitMs);
+    }
+
+    console.log(
+      `📍 Geocode backfill complete: ${upgraded} upgraded, ${notImproved} not improved, ${unresolved} unresolved of ${scanned} scanned`
+    );
+
+    return {
+      success: true,
+      scanned,
+      upgraded,
+      notImproved,
+      unresolved,
+      aborted,
+      errors,
+      duration: Date.now() - startTime
+    };
+  } catch (error) {
+    console.error('Geocode backfill failed:', error);
+
+    return {
+      success: false,
+      scanned,
+      upgraded,
+      notImproved,
+      unresolved,
+      aborted,
+      errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
+      duration: Date.now() - startTime
+    };
+  }
+}
+
+/**
+ * Stamp clinic.geohash (used by the web radius search) on every clinic whose coordinates
+ * don't match its stored geohash. No geocoding calls, so it walks the whole collection.
+ */
+async function backfillGeohashes(dryRun: boolean, startTime: number): Promise<GeocodeBackfillResult> {
+  console.log(`📍 Starting geohash backfill${dryRun ? ' (DRY RUN)' : ''}...`);
+
+  const errors: string[] = [];
+  let scanned = 0;
+  let upgraded = 0;
+  let unresolved = 0;
+
+  try {
+    const snapshot = await getDocs(collection(db, 'clinics'));
+    let batch = writeBatch(db);
+    let pending = 0;
+
+    for (const clinicDoc of snapshot.docs) {
+      scanned++;
+      const clinic = clinicDoc.data();
+      const geohash = clinicGeohash(clinic);
+
+      if (!geohash) {
+        unresolved++;
+        continue;
+      }
+      if (clinic.geohash === geohash) continue;
+
+      upgraded++;
+      if (!dryRun) {
+        // The geohash is derived from lat/lng, so it is left out of clinic history
+        batch.update(doc(db, 'clinics', clinicDoc.id), { geohash });
+        if (++pending === 400) {
+          await batch.commit();
+          batch = writeBatch(db);
+          pending = 0;
+        }
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+
+    console.log(`📍 Geohash backfill complete: ${upgraded} stamped, ${unresolved} without coordinates of ${scanned} scanned`);
+
+    return { success: true, scanned, upgraded, notImproved: 0, unresolved, aborted: false, errors, duration: Date.now() - startTime };
+  } catch (error) {
+    console.error('Geohash backfill failed:', error);
+
+    return {
+      success: false,
+      scanned,
+      upgraded,
+      notImproved: 0,
+      unresolved,
+      aborted: false,
+      errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
+      duration: Date.now() - startTime
+    };
+  }
+}
+
+// CLI interface for running this task
+export async function runGeocodeBackfillCLI(args: string[]) {
+  const options: GeocodeBackfillOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--limit':
+        options.maxClinics = parseInt(args[++i], 10);
+        break;
+      case '--include-failed':
+        options.includeFailed = true;
+        break;
+      case '--rate-limit':
+        options.rateLimitMs = parseInt(args[++i], 10);
+        break;
+      case '--geohash':
+        options.geohashOnly = true;
+        break;
+    }
+  }
+
+  const result = await backfillGeocodes(options);
+
+  if (!result.success) {
+    console.error('❌ Geocode backfill failed');
+    console.error('Errors:', result.errors.slice(0, 5));
+    process.exit(1);
+  }
+
+  console.log(`📊 Upgraded ${result.upgraded}/${result.scanned} clinics (${result.notImproved} not improved) in ${Math.round(result.duration / 1000)}s`);
+  if (result.aborted) {
+    console.log('⏸️  Stopped early - run again once the geocoding API is reachable');
+  }
+  if (result.errors.length > 0) {
+    console.log(`⚠️  ${result.errors.length} error(s) encountered`);
+  }
+}
+
+// Example usage:
+// npm run worker geocode-backfill
+// npm run worker geocode-backfill --dry-run --limit 50
+// npm run worker geocode-backfill --include-failed --rate-limit 1500
+// npm run worker geocode-backfill --geohash
@@ -1,5 +1,6 @@
 import { doc, getDoc, updateDoc, serverTimestamp, writeBatch, getDocs, collection, query, where } from '../lib/firebase-compat';
 import { db } from '../lib/firebase';
+import { commitClinicBatchWithHistory } from '../utils/clinicHistory';
 
 export interface ClinicVerificationResult {
   clinicId: string;
@@ -360,7 +361,11 @@ async function updateVerifiedClinics(
     batch.update(clinicRef, updateData);
   }
   
-  await batch.commit();
+  await commitClinicBatchWithHistory(
+    batch,
+    successfulResults.map(result => result.clinicId),
+    { source: 'worker', actor: verifiedBy, action: 'bulk-verify' }
+  );
   console.log(`💾 Updated ${successfulResults.length} verified clinics in Firestore`);
 }
 
@@ -1,5 +1,6 @@
 import * as admin from 'firebase-admin';
 import { Clinic } from '../types/clinic';
+import { getSearchIndexWriter, toSearchDocument, SearchDocument } from '../utils/searchIndex';
 
 // Initialize Firebase admin if not already initialized
 let app: admin.app.App;
@@ -137,38 +138,83 @@ function generateDerivedKeywords(clinic: Clinic): string[] {
   return Array.from(keywords).sort();
 }
 
+/**
+ * Check whether a clinic should be searchable
+ */
+function isActiveClinic(clinicData: Clinic): boolean {
+  return String(clinicData.status || '').toLowerCase() === 'active';
+}
+
 /**
  * Process a single clinic to enhance its search index
  * 
  * @param clinicId - Clinic document ID
  * @param clinicData - Clinic data
- * @returns Result of the operation
+ * @returns Result of the operation, with the clinic's search index document
  */
 async function processClinic(clinicId: string, clinicData: Clinic): Promise<{
   success: boolean;
   keywordsCount?: number;
+  document: SearchDocument;
   error?: string;
 }> {
+  // Generate derived keywords
+  const derivedKeywords = generateDerivedKeywords(clinicData);
+  const document = toSearchDocument(clinicId, clinicData, derivedKeywords);
+  
   try {
-    // Generate derived keywords
-    const derivedKeywords = generateDerivedKeywords(clinicData);
-    
-    // Update the clinic document with derived keywords
+    // Update the clinic document with derived keywords (derived fields, not logged to history)
     await db.collection('clinics').doc(clinicId).update({
       derivedKeywords,
       lastIndexed: admin.firestore.FieldValue.serverTimestamp()});
     
     return {
       success: true,
-      keywordsCount: derivedKeywords.length};
+      keywordsCount: derivedKeywords.length,
+      document};
   } catch (error) {
     console.error(`Error enhancing search index for clinic ${clinicId}:`, error);
     return {
       success: false,
+      document,
       error: (error as Error).message};
   }
 }
 
+/**
+ * Re-index a single clinic: write its keywords and add it to (or drop it from) the search index
+ */
+export async function enhanceClinicSearchIndex(clinicId: string): Promise<{
+  success: boolean;
+  keywordsCount?: number;
+  indexed: boolean;
+  error?: string;
+}> {
+  const docSnap = await db.collection('clinics').doc(clinicId).get();
+  
+  if (!docSnap.exists) {
+    throw new Error(`Clinic with ID ${clinicId} not found`);
+  }
+  
+  const clinicData = docSnap.data() as Clinic;
+  const writer = getSearchIndexWriter();
+  
+  // Paused/inactive clinics are hidden from search
+  if (!isActiveClinic(clinicData)) {
+    await writer.remove([clinicId]);
+    return { success: true, indexed: false };
+  }
+  
+  const result = await processClinic(clinicId, clinicData);
+  await writer.upsert([result.document]);
+  
+  return {
+    success: result.success,
+    keywordsCount: result.keywordsCount,
+    indexed: true,
+    error: result.error};
+}
+
 /**
  * Process all clinics to enhance their search indices
  */
@@ -189,17 +235,22 @@ export async function enhanceAllClinicsSearchIndex(): Promise<{
     
     // Get all active clinics
     const clinicsSnapshot = await db.collection('clinics')
-      .where('status', '==', 'active')
+      .where('status', 'in', ['active', 'Active'])
       .get();
     
     results.total = clinicsSnapshot.size;
     console.log(`Found ${results.total} active clinics to process`);
     
+    const documents: SearchDocument[] = [];
+    
     // Process each clinic
     for (const doc of clinicsSnapshot.docs) {
       const clinicData = doc.data() as Clinic;
       const result = await processClinic(doc.id, clinicData);
       
+      // Clinics whose keyword write failed are still searchable
+      documents.push(result.document);
+      
       if (result.success) {
         results.success++;
         console.log(`✅ Enhanced search index for ${clinicData.name}: ${result.keywordsCount} keywords`);
@@ -213,6 +264,11 @@ export async function enhanceAllClinicsSearchIndex(): Promise<{
       }
     }
     
+    // A full run rebuilds the index, which drops clinics that are no longer active
+    const writer = getSearchIndexWriter();
+    await writer.replaceAll(documents);
+    console.log(`📇 Wrote ${documents.length} clinics to the ${writer.name} search index`);
+    
     console.log(`
     🏁 Search index enhancement complete:
     Total clinics: ${results.total}
@@ -227,39 +283,40 @@ export async function enhanceAllClinicsSearchIndex(): Promise<{
   }
 }
 
+/**
+ * CLI entry point: re-index one clinic, or every active clinic when no ID is given
+ */
+export async function runSearchIndexCLI(args: string[]): Promise<void> {
+  const clinicId = args.find(arg => !arg.startsWith('--'));
+  
+  if (!clinicId) {
+    const results = await enhanceAllClinicsSearchIndex();
+    if (results.failed > 0) {
+      console.warn(`⚠️  ${results.failed} clinics were indexed without saving their keywords`);
+    }
+    return;
+  }
+  
+  console.log(`Processing single clinic: ${clinicId}`);
+  const result = await enhanceClinicSearchIndex(clinicId);
+  
+  if (!result.success) {
+    throw new Error(`Failed to enhance search index: ${result.error}`);
+  }
+  
+  console.log(result.indexed
+    ? `✅ Successfully enhanced search index with ${result.keywordsCount} keywords`
+    : '✅ Clinic is not active - removed from the search index');
+}
+
 /**
  * Main function to run the task
  */
 export async function enhanceSearchIndex(): Promise<void> {
   try {
     // Check for specific clinic ID from command line args
-    const clinicId = process.argv[3];
-    
-    if (clinicId) {
-      // Process a single clinic
-      console.log(`Processing single clinic: ${clinicId}`);
-      const docRef = db.collection('clinics').doc(clinicId);
-      const docSnap = await docRef.get();
-      
-      if (!docSnap.exists) {
-        console.error(`❌ Clinic with ID ${clinicId} not found`);
-        process.exit(1);
-      }
-      
-      const result = await processClinic(clinicId, docSnap.data() as Clinic);
-      
-      if (result.success) {
-        console.log(`✅ Successfully enhanced search index with ${result.keywordsCount} keywords`);
-        process.exit(0);
-      } else {
-        console.error(`❌ Failed to enhance search index: ${result.error}`);
-        process.exit(1);
-      }
-    } else {
-      // Process all clinics
-      await enhanceAllClinicsSearchIndex();
-      process.exit(0);
-    }
+    await runSearchIndexCLI(process.argv.slice(3));
+    process.exit(0);
   } catch (error) {
     console.error('Error running enhanceSearchIndex task:', error);
     process.exit(1);
@@ -269,4 +326,8 @@ export async function enhanceSearchIndex(): Promise<void> {
 // Run the task if called directly
 if (require.main === module) {
   enhanceSearchIndex();
-}
\ No newline at end of file
+}
+
+// Example usage:
+// npm run worker search-index
+// npm run worker search-index <clinic-id>
@@ -1,5 +1,6 @@
-import { collection, getDocs, doc, updateDoc, query, where, serverTimestamp, writeBatch } from '../lib/firebase-compat';
+import { collection, getDocs, query, where, serverTimestamp, writeBatch } from '../lib/firebase-compat';
 import { db } from '../lib/firebase';
+import { updateClinicWithHistory } from '../utils/clinicHistory';
 import { detectClinicEngagement } from '../utils/detectClinicEngagement';
 
 export interface GhostClinicScanResult {
@@ -193,8 +194,6 @@ export async function ghostClinicScanner(
  */
 async function tagAsGhostClinic(clinicId: string, daysSinceActivity: number): Promise<void> {
   try {
-    const clinicRef = doc(db, 'clinics', clinicId);
-    
     // Get current tags to avoid duplicates
     const clinicSnap = await getDocs(query(collection(db, 'clinics'), where('__name__', '==', clinicId)));
     const currentTags = clinicSnap.docs[0]?.data()?.tags || [];
@@ -215,14 +214,14 @@ async function tagAsGhostClinic(clinicId: string, daysSinceActivity: number): Pr
       createdAt: serverTimestamp()
     };
     
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicId, {
       tags: newTags,
       'engagement.status': 'none',
       'engagement.lastGhostCheck': serverTimestamp(),
       'engagement.daysSinceActivity': daysSinceActivity,
       suggestions: [suggestion], // Replace with new suggestion
       'seoMeta.ghostTaggedAt': serverTimestamp()
-    });
+    }, { source: 'worker', actor: 'ghostClinicScanner', action: 'ghost-tag' });
     
     console.log(`🏷️  Tagged ${clinicId} as ghost clinic`);
     
@@ -237,8 +236,6 @@ async function tagAsGhostClinic(clinicId: string, daysSinceActivity: number): Pr
  */
 async function removeGhostTag(clinicId: string): Promise<void> {
   try {
-    const clinicRef = doc(db, 'clinics', clinicId);
-    
     // Get current tags
     const clinicSnap = await getDocs(query(collection(db, 'clinics'), where('__name__', '==', clinicId)));
     const currentTags = clinicSnap.docs[0]?.data()?.tags || [];
@@ -250,13 +247,13 @@ async function removeGhostTag(clinicId: string): Promise<void> {
     // Remove ghost-related suggestions
     const newSuggestions = currentSuggestions.filter((s: any) => s.tagId !== 'ghost-clinic');
     
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicId, {
       tags: newTags,
       suggestions: newSuggestions,
       'engagement.lastGhostCheck': serverTimestamp(),
       'engagement.reactivatedAt': serverTimestamp(),
       'seoMeta.ghostTagRemoved': serverTimestamp()
-    });
+    }, { source: 'worker', actor: 'ghostClinicScanner', action: 'ghost-untag' });
     
     console.log(`✨ Removed ghost tag from ${clinicId}`);
     
@@ -2,23 +2,83 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { parseClinicCSV } from '../utils/parseClinicCSV';
 import { parseClinicJSON } from '../utils/parseClinicJSON';
+import { parseClinicXLSX } from '../utils/parseClinicXLSX';
+import { parseGooglePlaces, isGooglePlacesDump } from '../utils/parseGooglePlaces';
+import { parseHeaderMappingArg, applyFieldOverrides } from '../utils/headerMapping';
+import { loadMappingProfile, applyMappingProfile, withHeaderOverrides } from '../utils/mappingProfiles';
 import { normalizeClinicData } from '../utils/normalizeClinicData';
 import { geocodeAddress, delay } from '../utils/geocodeAddress';
+import { clinicGeohash } from '../utils/geohash';
 import { generateSlug } from '../utils/generateSlug';
 import { tagClinicForReview } from '../utils/tagClinicForReview';
 import { generateSeoMeta } from '../utils/generateSeoMeta';
 import { generateSeoContent } from '../utils/generateSeoContent';
-import { insertOrUpdateClinic } from '../utils/insertOrUpdateClinic';
+import { insertOrUpdateClinic, updateExistingClinic, ClinicBatchWriter } from '../utils/insertOrUpdateClinic';
+import { processWithConcurrency, createRateLimiter, RateLimiter } from '../utils/concurrency';
+import { getStreamFormat, estimateRecordCount, streamImportRecords } from '../utils/streamImportRecords';
+import { diffClinicFields } from '../utils/diffClinicFields';
+import { linkBranchToGroup } from '../utils/clinicGroups';
+import { buildFieldProvenance, buildGeocodeProvenance, importProvenanceSource } from '../utils/dataQuality';
+import {
+  scoreClinicMatch,
+  isBranchOf,
+  ClinicMatchScore,
+  DUPLICATE_THRESHOLD,
+  POSSIBLE_DUPLICATE_THRESHOLD
+} from '../utils/clinicMatcher';
+import {
+  createCheckpoint,
+  getResumeIndex,
+  hashImportFile,
+  hashImportRecords,
+  isHeartbeatStale
+} from '../utils/importCheckpoint';
 import { logImportResults, createImportResult, addError, addSuccess } from '../utils/logImportResults';
-import { RawClinic, ClinicInput, ClinicDocument, SeoMeta } from '../types/clinic';
+import { processRollbackRequests } from './rollbackImport';
+import {
+  RawClinic,
+  ClinicInput,
+  ClinicDocument,
+  SeoMeta,
+  ImportPlanRow,
+  ImportPlanSummary,
+  ImportResult,
+  ImportRunOptions,
+  ImportParseOptions,
+  ProvenanceSource
+} from '../types/clinic';
 import { db } from '../lib/firebase';
-import { collection, addDoc, updateDoc, doc, serverTimestamp, getDoc, query, where, getDocs } from '../lib/firebase-compat';
+import { collection, addDoc, updateDoc, doc, serverTimestamp, getDoc, query, where, getDocs, orderBy, limit, writeBatch } from '../lib/firebase-compat';
+
+// Provenance recorded on every field an import row supplies
+interface ImportOrigin {
+  source: ProvenanceSource;
+  detail?: string; // Source file name
+}
+
+// Shared state for rows processed concurrently by the streaming pipeline
+interface StreamingContext {
+  writer: ClinicBatchWriter;
+  geocodeLimiter: RateLimiter;
+  reservedSlugs: Set<string>;
+}
+
+interface DuplicateCheckResult {
+  isDuplicate: boolean;
+  isNewBranch: boolean;
+  existingId?: string;
+  existing?: Record<string, any>;
+  possibleDuplicateId?: string;
+  confidence?: number;
+  reasons?: string[];
+}
 
 // Create import session for real-time tracking
-async function createImportSession() {
+async function createImportSession(mode: 'import' | 'dry-run' = 'import') {
   return await addDoc(collection(db, 'import_sessions'), {
     startTime: serverTimestamp(),
     status: 'preparing',
+    mode,
     totalClinics: 0,
     processed: 0,
     successful: 0,
@@ -51,20 +111,47 @@ async function getSessionErrors(sessionId: string): Promise<any[]> {
   }
 }
 
-export async function importClinics(filePath?: string): Promise<void> {
+export async function importClinics(filePath?: string, options: ImportRunOptions = {}): Promise<void> {
   const startTime = Date.now();
   const results = createImportResult();
   
-  console.log('🚀 Starting clinic import job...');
+  console.log(`🚀 Starting clinic import job${options.dryRun ? ' (dry run)' : ''}...`);
+  
+  // An approved dry-run session is reused so the plan and its results live together
+  let sessionId: string;
+  let plan: Map<number, ImportPlanRow> | null = null;
+  let resumeState: Record<string, any> | null = null;
+  let startIndex = 0;
   
-  // Create import session for tracking
-  const sessionRef = await createImportSession();
-  const sessionId = sessionRef.id;
-  console.log(`📊 Import session created: ${sessionId}`);
+  const argPath = process.argv[3] && !process.argv[3].startsWith('--') ? process.argv[3] : undefined;
+  
+  if (options.resumeSessionId) {
+    resumeState = await loadResumableSession(options.resumeSessionId);
+    sessionId = options.resumeSessionId;
+    startIndex = getResumeIndex(resumeState.checkpoint);
+    if (resumeState.planSummary) {
+      plan = await loadPlanRows(sessionId);
+    }
+    restoreResultCounts(results, resumeState);
+    console.log(`⏯️  Resuming import session ${sessionId} from row ${startIndex + 1}`);
+  } else if (options.planSessionId) {
+    // Plan rows are matched to the file by index, so it must be the file that was planned
+    const planInput = filePath || argPath;
+    if (!planInput) {
+      throw new Error(`No input file specified. Usage: npm run worker import <file-path> --apply ${options.planSessionId}`);
+    }
+    plan = await loadApprovedPlan(options.planSessionId, await hashImportFile(planInput));
+    sessionId = options.planSessionId;
+    console.log(`📋 Applying approved plan from session: ${sessionId}`);
+  } else {
+    const sessionRef = await createImportSession(options.dryRun ? 'dry-run' : 'import');
+    sessionId = sessionRef.id;
+    console.log(`📊 Import session created: ${sessionId}`);
+  }
   
   try {
     // Determine input source
-    const inputPath = filePath || process.argv[3] || getDefaultSampleFile();
+    const inputPath = filePath || resumeState?.sourcePath || argPath || getDefaultSampleFile();
     
     if (!inputPath) {
       throw new Error('No input file specified. Usage: npm run worker:import <file-path>');
@@ -72,36 +159,82 @@ export async function importClinics(filePath?: string): Promise<void> {
     
     console.log(`📁 Processing file: ${inputPath}`);
     
+    // A resumed run re-parses with the original options
+    const parseOptions: ImportParseOptions = options.parse || resumeState?.parseOptions || {};
+    const inputHash = await hashImportFile(inputPath);
+    const source = stripUndefined({
+      sourceFile: path.basename(inputPath),
+      sourcePath: path.resolve(inputPath),
+      inputHash,
+      parseOptions: Object.keys(parseOptions).length > 0 ? parseOptions : undefined
+    });
+    
+    if (resumeState?.checkpoint?.inputHash && resumeState.checkpoint.inputHash !== inputHash) {
+      throw new Error(`Input file ${inputPath} has changed since session ${sessionId} was checkpointed`);
+    }
+    
+    const origin: ImportOrigin = {
+      source: importProvenanceSource(parseOptions.format, inputPath),
+      detail: path.basename(inputPath)
+    };
+    
+    // CSV/NDJSON files are streamed row by row with bounded concurrency instead of loaded whole
+    const streamFormat = options.dryRun ? null : getStreamFormat(inputPath, parseOptions);
+    if (streamFormat) {
+      await runStreamingImport({
+        inputPath,
+        sessionId,
+        source,
+        parseOptions,
+        options,
+        results,
+        startIndex,
+        startTime,
+        plan,
+        origin,
+        previousErrors: resumeState?.errors || []
+      });
+      console.log(`📊 View progress at: /admin/imports/${sessionId}`);
+      return;
+    }
+    
     // Parse input based on file extension
-    const rawClinics = await parseInputFile(inputPath);
+    const rawClinics = await parseInputFile(inputPath, parseOptions);
     results.totalProcessed = rawClinics.length;
     
-    console.log(`📋 Processing ${rawClinics.length} clinic records...`);
+    if (options.dryRun) {
+      await runDryRun(sessionId, rawClinics, options, source);
+      return;
+    }
+    
+    console.log(`📋 Processing ${rawClinics.length - startIndex} of ${rawClinics.length} clinic records...`);
     
     // Update session with total count
     await updateImportSession(sessionId, {
+      ...source,
       status: 'processing',
       totalClinics: rawClinics.length
     });
     
     // Process each clinic
-    for (let i = 0; i < rawClinics.length; i++) {
+    for (let i = startIndex; i < rawClinics.length; i++) {
       const rawClinic = rawClinics[i];
       const clinicName = rawClinic.name || 'Unknown';
       console.log(`\n🏥 Processing clinic ${i + 1}/${rawClinics.length}: ${clinicName}`);
       
-      // Update session with current clinic
+      // Update session with current clinic; rows before i are done, so checkpoint i - 1
       await updateImportSession(sessionId, {
         currentClinic: clinicName,
         currentIndex: i + 1,
         processed: i,
         successful: results.totalSuccess,
         failed: results.totalFailed,
-        duplicates: results.duplicates || 0
+        duplicates: results.duplicates || 0,
+        checkpoint: createCheckpoint(i - 1, inputHash)
       });
       
       try {
-        const result = await processClinic(rawClinic, results, sessionId);
+        const result = await processClinic(rawClinic, results, sessionId, origin, plan?.get(i));
         
         // Update success in session
         if (result && result.isDuplicate) {
@@ -140,7 +273,8 @@ export async function importClinics(filePath?: string): Promise<void> {
       processed: results.totalProcessed,
       successful: results.totalSuccess,
       failed: results.totalFailed,
-      duplicates: results.duplicates || 0
+      duplicates: results.duplicates || 0,
+      checkpoint: createCheckpoint(rawClinics.length - 1, inputHash)
     });
     
     console.log('✅ Clinic import completed successfully');
@@ -163,26 +297,258 @@ export async function importClinics(filePath?: string): Promise<void> {
   }
 }
 
-async function parseInputFile(inputPath: string): Promise<RawClinic[]> {
+interface StreamingImportParams {
+  inputPath: string;
+  sessionId: string;
+  source: Record<string, any>;
+  parseOptions: ImportParseOptions;
+  options: ImportRunOptions;
+  results: ImportResult;
+  startIndex: number;
+  startTime: number;
+  plan: Map<number, ImportPlanRow> | null;
+  origin: ImportOrigin;
+  previousErrors: any[];
+}
+
+// Session progress is written at most this often while streaming (instead of once per row)
+const STREAM_PROGRESS_INTERVAL_MS = 5000;
+
+// Process a CSV/NDJSON file as a stream: rows are pulled only as fast as the pipeline drains,
+// geocoding is rate limited, and clinic writes are committed in Firestore batches
+async function runStreamingImport(params: StreamingImportParams): Promise<void> {
+  const { inputPath, sessionId, source, parseOptions, options, results, startIndex, startTime, plan, origin } = params;
+  const format = getStreamFormat(inputPath, parseOptions)!;
+  const hasGoogleKey = Boolean(process.env.GEOCODE_API_KEY);
+  const concurrency = options.concurrency || 8;
+  
+  const streaming: StreamingContext = {
+    writer: new ClinicBatchWriter(sessionId, options.batchSize || 100),
+    // Nominatim's usage policy allows one request per second
+    geocodeLimiter: createRateLimiter(options.geocodeConcurrency || (hasGoogleKey ? 4 : 1), hasGoogleKey ? 0 : 1000),
+    reservedSlugs: new Set<string>()
+  };
+  
+  let totalEstimate = await estimateRecordCount(inputPath, format);
+  const recentErrors: any[] = [...params.previousErrors];
+  const completed = new Set<number>();
+  let watermark = startIndex - 1; // Every row up to here is written, so it is safe to checkpoint
+  let completedThisRun = 0;
+  let dispatched = startIndex;
+  let lastReport = 0;
+  let reporting: Promise<void> | null = null;
+  const runStartedAt = Date.now();
+  
+  console.log(`🌊 Streaming ~${totalEstimate} ${format.toUpperCase()} rows (concurrency ${concurrency}, batch ${options.batchSize || 100})`);
+  
+  await updateImportSession(sessionId, {
+    ...source,
+    status: 'processing',
+    streaming: true,
+    totalClinics: totalEstimate,
+    totalEstimated: true
+  });
+  
+  const reportProgress = async (final = false) => {
+    const processed = startIndex + completedThisRun;
+    totalEstimate = Math.max(totalEstimate, processed);
+    const elapsedSeconds = (Date.now() - runStartedAt) / 1000;
+    const rowsPerSecond = elapsedSeconds > 0 ? completedThisRun / elapsedSeconds : 0;
+    const etaSeconds = rowsPerSecond > 0 ? Math.round((totalEstimate - processed) / rowsPerSecond) : null;
+    
+    await updateImportSession(sessionId, {
+      processed,
+      currentIndex: dispatched,
+      totalClinics: totalEstimate,
+      successful: results.totalSuccess,
+      failed: results.totalFailed,
+      duplicates: results.duplicates || 0,
+      checkpoint: createCheckpoint(watermark, source.inputHash),
+      throughput: { rowsPerSecond: Math.round(rowsPerSecond * 100) / 100, etaSeconds: final ? 0 : etaSeconds },
+      successfulSlugs: results.successfulSlugs.slice(-100),
+      errors: recentErrors.slice(-50)
+    });
+    
+    if (!final) {
+      console.log(`📈 ${processed}/${totalEstimate} rows (${rowsPerSecond.toFixed(1)} rows/s${etaSeconds ? `, ETA ${Math.ceil(etaSeconds / 60)}m` : ''})`);
+    }
+  };
+  
+  const markDone = (index: number) => {
+    completed.add(index);
+    completedThisRun++;
+    while (completed.has(watermark + 1)) {
+      completed.delete(watermark + 1);
+      watermark++;
+    }
+    
+    if (!reporting && Date.now() - lastReport >= STREAM_PROGRESS_INTERVAL_MS) {
+      lastReport = Date.now();
+      reporting = reportProgress().finally(() => {
+        reporting = null;
+      });
+    }
+  };
+  
+  const recordFailure = (rawClinic: RawClinic, error: any) => {
+    const clinicName = rawClinic.name || 'Unknown';
+    console.error(`❌ Failed to process clinic: ${clinicName}`, error);
+    addError(results, 'PROCESSING_ERROR', `Failed to process ${clinicName}: ${error}`, rawClinic);
+    results.totalFailed++;
+    recentErrors.push({ clinic: clinicName, error: error?.message || String(error), timestamp: new Date() });
+  };
+  
+  // Rows before the checkpoint are read but not processed
+  async function* remainingRows() {
+    let index = 0;
+    for await (const record of streamImportRecords(inputPath, parseOptions)) {
+      if (index++ >= startIndex) yield record;
+    }
+  }
+  
+  await processWithConcurrency(remainingRows(), concurrency, async (rawClinic, offset) => {
+    const index = startIndex + offset;
+    dispatched = Math.max(dispatched, index + 1);
+    
+    try {
+      await streaming.writer.waitForCapacity();
+      const result = await processClinic(rawClinic, results, sessionId, origin, plan?.get(index), streaming);
+      
+      if (result?.isDuplicate) {
+        results.duplicates = (results.duplicates || 0) + 1;
+      }
+      
+      // The row counts as done once its batch is committed, not when it is queued
+      if (result?.write) {
+        result.write
+          .then(written => addSuccess(results, written.slug, written.action))
+          .catch(error => recordFailure(rawClinic, error))
+          .finally(() => markDone(index));
+        return;
+      }
+    } catch (error) {
+      recordFailure(rawClinic, error);
+    }
+    
+    markDone(index);
+  });
+  
+  await streaming.writer.flush();
+  if (reporting) await reporting;
+  
+  results.totalProcessed = startIndex + completedThisRun;
+  results.duration = Date.now() - startTime;
+  await logImportResults(results);
+  
+  await reportProgress(true);
+  await updateImportSession(sessionId, {
+    status: 'completed',
+    endTime: serverTimestamp(),
+    totalClinics: results.totalProcessed,
+    totalEstimated: false
+  });
+  
+  console.log(`✅ Streamed import completed: ${results.totalProcessed} rows in ${Math.round(results.duration / 1000)}s`);
+}
+
+async function parseInputFile(inputPath: string, options: ImportParseOptions = {}): Promise<RawClinic[]> {
+  // NDJSON has no whole-file parser; collect the streamed rows (used by dry-runs)
+  if (getStreamFormat(inputPath, options) === 'ndjson') {
+    const records: RawClinic[] = [];
+    for await (const record of streamImportRecords(inputPath, options)) {
+      records.push(record);
+    }
+    return records;
+  }
+  
+  if (options.profile) {
+    return await parseWithMappingProfile(inputPath, options);
+  }
+  
   const extension = path.extname(inputPath).toLowerCase();
+  let records: RawClinic[];
   
-  switch (extension) {
+  switch (options.format || extension) {
+    case 'csv':
     case '.csv':
-      return await parseClinicCSV(inputPath);
-    case '.json':
-      return await parseClinicJSON(inputPath);
-    default:
+      records = await parseClinicCSV(inputPath);
+      break;
+    case 'xlsx':
+    case '.xlsx':
+      // Header mapping is applied per sheet while reading
+      return await parseClinicXLSX(inputPath, { sheets: options.sheets, headerMapping: options.headerMapping });
+    case 'google-places':
+      return await parseGooglePlaces(inputPath);
+    case 'json':
+    case '.json': {
+      const content = fs.readFileSync(inputPath, 'utf-8');
+      if (isGooglePlacesDump(JSON.parse(content))) {
+        return await parseGooglePlaces(content);
+      }
+      records = await parseClinicJSON(content);
+      break;
+    }
+    default: {
       // Try to detect format from content
       const content = fs.readFileSync(inputPath, 'utf-8').trim();
       if (content.startsWith('[') || content.startsWith('{')) {
-        return await parseClinicJSON(content);
-      } else {
-        return await parseClinicCSV(content);
+        return await parseInputFile(inputPath, { ...options, format: 'json' });
       }
+      records = await parseClinicCSV(content);
+    }
   }
+  
+  // CSV/JSON keys are already normalized by their parsers; rename any explicitly mapped columns
+  return records.map(record => applyFieldOverrides(record, options.headerMapping));
 }
 
-async function processClinic(rawClinic: RawClinic, results: any, sessionId: string): Promise<any> {
+// Read rows with the vendor's original headers and map them through a saved profile
+async function parseWithMappingProfile(inputPath: string, options: ImportParseOptions): Promise<RawClinic[]> {
+  // --map entries on the command line override the profile for the same header
+  const profile = withHeaderOverrides(await loadMappingProfile(options.profile!), options.headerMapping);
+  const format = options.format || path.extname(inputPath).toLowerCase().replace('.', '');
+  
+  let rows: RawClinic[];
+  switch (format) {
+    case 'xlsx':
+      rows = await parseClinicXLSX(inputPath, { sheets: options.sheets, rawHeaders: true });
+      break;
+    case 'json':
+      rows = await parseClinicJSON(inputPath, { rawHeaders: true });
+      break;
+    case 'csv':
+      rows = await parseClinicCSV(inputPath, { rawHeaders: true });
+      break;
+    default:
+      throw new Error(`Mapping profiles are not supported for ${format || 'this'} files`);
+  }
+  
+  console.log(`🗺️  Applying mapping profile "${profile.name}" (${profile.mappings.length} columns)`);
+  return rows
+    .map(row => applyMappingProfile(row, profile))
+    .filter(record => Object.keys(record).length > 0);
+}
+
+async function processClinic(
+  rawClinic: RawClinic,
+  results: any,
+  sessionId: string,
+  origin: ImportOrigin,
+  planRow?: ImportPlanRow,
+  streaming?: StreamingContext
+): Promise<any> {
+  // Rows covered by an approved plan follow the admin's decision
+  if (planRow?.action === 'skip') {
+    console.log(`⏭️  Skipped by approved plan: ${planRow.name} (${planRow.reason || 'no reason'})`);
+    return { isDuplicate: true };
+  }
+  
+  if (planRow?.action === 'update' && planRow.existingId && planRow.diff?.length) {
+    const result = await updateExistingClinic(planRow.existingId, planRow.diff, sessionId, origin.source);
+    addSuccess(results, result.slug, result.action);
+    return { isDuplicate: false, slug: result.slug };
+  }
+  
   // Step 1: Normalize clinic data
   const normalizedClinic = normalizeClinicData(rawClinic);
   
@@ -192,44 +558,66 @@ async function processClinic(rawClinic: RawClinic, results: any, sessionId: stri
     return { isDuplicate: false };
   }
   
-  // Step 2: Geocode address
-  const geocodeResult = await geocodeAddress(
-    normalizedClinic.address,
-    normalizedClinic.city,
-    normalizedClinic.state,
-    normalizedClinic.zip
+  // Record where each value came from; Places rows keep their source even inside a generic JSON file
+  normalizedClinic.provenance = buildFieldProvenance(
+    normalizedClinic,
+    normalizedClinic.googlePlacesId ? 'google-places' : origin.source,
+    { detail: origin.detail }
   );
   
-  normalizedClinic.lat = geocodeResult.lat;
-  normalizedClinic.lng = geocodeResult.lng;
+  // Step 2: Geocode address (sources such as Google Places exports already carry coordinates)
+  await geocodeClinic(normalizedClinic, streaming);
   
-  if (geocodeResult.geoAccuracy === 'failed') {
-    console.warn(`⚠️  Geocoding failed for ${normalizedClinic.name}`);
+  // Step 3: Check for duplicates (different logic for branches). Approved insert and branch rows
+  // keep the match and slug they were planned with, unless the clinics they were planned
+  // against have changed since
+  let duplicateCheck: DuplicateCheckResult;
+  if (planRow?.action === 'insert' || planRow?.action === 'branch') {
+    const conflict = await findPlanConflict(planRow, normalizedClinic, streaming);
+    if (conflict) {
+      console.log(`⚠️  Plan conflict: ${planRow.name} (${conflict})`);
+      addError(results, 'PLAN_CONFLICT', `${planRow.name}: ${conflict}`, rawClinic);
+      results.totalFailed++;
+      return { isDuplicate: false, conflict: true };
+    }
+    
+    duplicateCheck = planRow.action === 'branch'
+      ? { isDuplicate: true, isNewBranch: true, existingId: planRow.existingId }
+      : { isDuplicate: false, isNewBranch: false, possibleDuplicateId: planRow.existingId, confidence: planRow.confidence };
+    streaming?.reservedSlugs.add(planRow.slug!);
+  } else {
+    duplicateCheck = await checkForDuplicate(normalizedClinic);
   }
   
-  // Step 3: Check for duplicates (different logic for branches)
-  const duplicateCheck = await checkForDuplicate(normalizedClinic);
-  
   // Step 4: Generate slug (handle branches)
   let slug;
   if (duplicateCheck.isDuplicate && duplicateCheck.isNewBranch) {
     // Same name but different location - create branch slug
-    slug = await generateSlug(
+    slug = planRow?.slug || await generateSlug(
       normalizedClinic.name, 
       normalizedClinic.city, 
       normalizedClinic.state,
-      true // Force location in slug for branches
+      true, // Force location in slug for branches
+      streaming?.reservedSlugs
     );
     normalizedClinic.tags.push('branch-location');
+    normalizedClinic.groupId = await linkBranchToGroup(duplicateCheck.existingId!, normalizedClinic);
   } else if (duplicateCheck.isDuplicate && !duplicateCheck.isNewBranch) {
     // True duplicate - skip or merge based on settings
-    console.log(`⚠️  Duplicate detected: ${normalizedClinic.name} in ${normalizedClinic.city}`);
+    console.log(`⚠️  Duplicate detected: ${normalizedClinic.name} in ${normalizedClinic.city} (${duplicateCheck.reasons?.join(', ') || 'match'})`);
     addError(results, 'DUPLICATE', `Duplicate clinic: ${normalizedClinic.name}`, rawClinic);
     results.totalFailed++;
     return { isDuplicate: true };
   } else {
-    // New clinic
-    slug = await generateSlug(normalizedClinic.name, normalizedClinic.city, normalizedClinic.state);
+    // New clinic - flag near-matches so they surface in the validation queue
+    if (duplicateCheck.possibleDuplicateId) {
+      normalizedClinic.tags.push('potential-duplicate');
+      normalizedClinic.potentialDuplicateOf = {
+        id: duplicateCheck.possibleDuplicateId,
+        confidence: duplicateCheck.confidence!
+      };
+    }
+    slug = planRow?.slug || await generateSlug(normalizedClinic.name, normalizedClinic.city, normalizedClinic.state, false, streaming?.reservedSlugs);
   }
   normalizedClinic.slug = slug;
   
@@ -276,12 +664,18 @@ async function processClinic(rawClinic: RawClinic, results: any, sessionId: stri
     normalizedClinic.tags.push('needs-review');
   }
   
-  // Step 8: Insert or update in Firestore
+  // Step 8: Insert or update in Firestore; streamed rows are batched and the caller records the outcome
+  if (streaming) {
+    const write = streaming.writer.write(normalizedClinic as Omit<ClinicDocument, 'slug'>, slug, seoMeta, seoContent);
+    return { isDuplicate: false, slug, write };
+  }
+  
   const result = await insertOrUpdateClinic(
     normalizedClinic as Omit<ClinicDocument, 'slug'>,
     slug,
     seoMeta,
-    seoContent
+    seoContent,
+    sessionId
   );
   
   addSuccess(results, result.slug, result.action);
@@ -306,79 +700,438 @@ async function getSessionSuccessfulSlugs(sessionId: string): Promise<string[]> {
   }
 }
 
-// Check for duplicate clinics with branch detection
-async function checkForDuplicate(clinic: ClinicInput): Promise<{isDuplicate: boolean, isNewBranch: boolean}> {
-  const { name, address, city, state, phone } = clinic;
-  
-  // Check for exact address match (true duplicate)
-  if (address && city) {
-    const exactAddressMatch = await getDocs(
-      query(
-        collection(db, 'clinics'),
-        where('address', '==', address),
-        where('city', '==', city),
-        where('state', '==', state)
-      )
+// Geocode a normalized row in place and set its geohash; rows that carry coordinates keep them.
+// Dry runs geocode too, so rows are matched on the same signals as the real run
+async function geocodeClinic(normalizedClinic: ClinicInput, streaming?: StreamingContext): Promise<void> {
+  if (normalizedClinic.lat === undefined || normalizedClinic.lng === undefined) {
+    const geocode = () => geocodeAddress(
+      normalizedClinic.address,
+      normalizedClinic.city,
+      normalizedClinic.state,
+      normalizedClinic.zip
     );
-      
-    if (!exactAddressMatch.empty) {
-      return { isDuplicate: true, isNewBranch: false };
+    const geocodeResult = await (streaming ? streaming.geocodeLimiter(geocode) : geocode());
+    
+    normalizedClinic.lat = geocodeResult.lat;
+    normalizedClinic.lng = geocodeResult.lng;
+    normalizedClinic.geoAccuracy = geocodeResult.geoAccuracy;
+    if (geocodeResult.geoAccuracy !== 'failed' && normalizedClinic.provenance) {
+      normalizedClinic.provenance.location = buildGeocodeProvenance(geocodeResult);
+    }
+    if (geocodeResult.geoSource) {
+      // Gazetteer centroids are upgraded later by the geocode backfill task
+      normalizedClinic.geoSource = geocodeResult.geoSource;
+    }
+    
+    if (geocodeResult.geoAccuracy === 'failed') {
+      console.warn(`⚠️  Geocoding failed for ${normalizedClinic.name}`);
     }
   }
   
-  // Check for same name in same city (likely duplicate)
-  if (name && city) {
-    const sameCityMatch = await getDocs(
-      query(
-        collection(db, 'clinics'),
-        where('name', '==', name),
-        where('city', '==', city)
-      )
-    );
-      
-    if (!sameCityMatch.empty) {
-      return { isDuplicate: true, isNewBranch: false };
+  const geohash = clinicGeohash(normalizedClinic);
+  if (geohash) {
+    normalizedClinic.geohash = geohash;
+  }
+}
+
+// Why an approved insert or branch row can no longer run as planned, or null if it still can
+async function findPlanConflict(
+  planRow: ImportPlanRow,
+  clinic: ClinicInput,
+  streaming?: StreamingContext
+): Promise<string | null> {
+  if (!planRow.slug) {
+    return 'Plan row has no slug';
+  }
+  
+  if (streaming?.reservedSlugs.has(planRow.slug) || (await getDoc(doc(db, 'clinics', planRow.slug))).exists()) {
+    return `Slug ${planRow.slug} has been taken since the plan was approved`;
+  }
+  
+  if (planRow.action === 'branch' && !(await getDoc(doc(db, 'clinics', planRow.existingId!))).exists()) {
+    return `Clinic ${planRow.existingId}, planned as this branch's parent, no longer exists`;
+  }
+  
+  const duplicateCheck = await checkForDuplicate(clinic);
+  if (duplicateCheck.isDuplicate && !duplicateCheck.isNewBranch) {
+    return `Now matches existing clinic ${duplicateCheck.existingId}`;
+  }
+  
+  if (planRow.action === 'insert' && duplicateCheck.isNewBranch) {
+    return `Now matches as a branch of ${duplicateCheck.existingId}`;
+  }
+  
+  return null;
+}
+
+// Build the per-row plan for a dry run and park the session until an admin approves it
+async function runDryRun(
+  sessionId: string,
+  rawClinics: RawClinic[],
+  options: ImportRunOptions,
+  extra: Record<string, any> = {}
+): Promise<ImportPlanSummary> {
+  console.log(`🔍 Planning ${rawClinics.length} clinic records (no writes)...`);
+  
+  await updateImportSession(sessionId, {
+    ...extra,
+    status: 'planning',
+    totalClinics: rawClinics.length
+  });
+  
+  const rows: ImportPlanRow[] = [];
+  const reservedSlugs = new Set<string>(); // Planned rows are not written, so they can't see each other's slugs
+  for (let i = 0; i < rawClinics.length; i++) {
+    rows.push(await planClinic(rawClinics[i], i, options, reservedSlugs));
+    
+    // Same pacing as the real run, for the geocoding APIs
+    if (i < rawClinics.length - 1) {
+      await delay(100);
+    }
+    
+    if ((i + 1) % 50 === 0) {
+      await updateImportSession(sessionId, { processed: i + 1 });
     }
   }
   
-  // Check for same name but different location (branch)
-  if (name) {
-    const sameNameMatch = await getDocs(
-      query(
-        collection(db, 'clinics'),
-        where('name', '==', name)
-      )
-    );
-      
-    if (!sameNameMatch.empty) {
-      // Same name exists but in different location - this is a branch
-      return { isDuplicate: true, isNewBranch: true };
+  const summary = summarizePlan(rows);
+  await saveImportPlan(sessionId, rows);
+  
+  await updateImportSession(sessionId, {
+    status: 'awaiting_approval',
+    processed: rows.length,
+    planSummary: summary,
+    plannedAt: serverTimestamp()
+  });
+  
+  console.log(`📋 Plan ready: ${summary.insert} insert, ${summary.update} update, ${summary.branch} branch, ${summary.skip} skip`);
+  console.log(`👀 Review and approve at: /admin/imports/${sessionId}`);
+  
+  return summary;
+}
+
+// Decide what the real run would do with a single row, without writing anything
+async function planClinic(
+  rawClinic: RawClinic,
+  index: number,
+  options: ImportRunOptions,
+  reservedSlugs: Set<string>
+): Promise<ImportPlanRow> {
+  const normalizedClinic = normalizeClinicData(rawClinic);
+  const name = normalizedClinic.name || rawClinic.name || 'Unknown';
+  
+  if (!normalizedClinic.name) {
+    return { index, name, action: 'skip', reason: 'Clinic name is required' };
+  }
+  
+  await geocodeClinic(normalizedClinic);
+  const duplicateCheck = await checkForDuplicate(normalizedClinic);
+  
+  if (duplicateCheck.isDuplicate && duplicateCheck.isNewBranch) {
+    const slug = await generateSlug(normalizedClinic.name, normalizedClinic.city, normalizedClinic.state, true, reservedSlugs);
+    return stripUndefined({
+      index,
+      name,
+      action: 'branch',
+      slug,
+      existingId: duplicateCheck.existingId,
+      confidence: duplicateCheck.confidence,
+      reason: 'Same name exists in another location'
+    });
+  }
+  
+  if (duplicateCheck.isDuplicate) {
+    const diff = diffClinicFields(duplicateCheck.existing || {}, normalizedClinic);
+    
+    if (options.mergeWithExisting && diff.length > 0) {
+      return stripUndefined({
+        index,
+        name,
+        action: 'update',
+        existingId: duplicateCheck.existingId,
+        confidence: duplicateCheck.confidence,
+        diff
+      });
     }
+    
+    return stripUndefined({
+      index,
+      name,
+      action: 'skip',
+      existingId: duplicateCheck.existingId,
+      confidence: duplicateCheck.confidence,
+      reason: diff.length > 0 ? 'Duplicate (merge disabled)' : 'Duplicate with no changes',
+      diff: diff.length > 0 ? diff : undefined
+    });
   }
   
-  // Check for same phone number (might be duplicate)
-  if (phone && phone !== 'invalid') {
-    const phoneMatch = await getDocs(
-      query(
-        collection(db, 'clinics'),
-        where('phone', '==', phone)
-      )
-    );
+  const slug = await generateSlug(normalizedClinic.name, normalizedClinic.city, normalizedClinic.state, false, reservedSlugs);
+  
+  if (duplicateCheck.possibleDuplicateId) {
+    return {
+      index,
+      name,
+      action: 'insert',
+      slug,
+      existingId: duplicateCheck.possibleDuplicateId,
+      confidence: duplicateCheck.confidence,
+      reason: 'Possible duplicate - will be flagged for review'
+    };
+  }
+  
+  return { index, name, action: 'insert', slug };
+}
+
+function summarizePlan(rows: ImportPlanRow[]): ImportPlanSummary {
+  const summary: ImportPlanSummary = { total: rows.length, insert: 0, update: 0, skip: 0, branch: 0 };
+  rows.forEach(row => {
+    summary[row.action]++;
+  });
+  return summary;
+}
+
+// Plan rows go in a subcollection so large files stay under the document size limit
+async function saveImportPlan(sessionId: string, rows: ImportPlanRow[]): Promise<void> {
+  const batchSize = 400;
+  
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = writeBatch(db);
+    rows.slice(i, i + batchSize).forEach(row => {
+      batch.set(doc(db, 'import_sessions', sessionId, 'plan_rows', String(row.index).padStart(6, '0')), row);
+    });
+    await batch.commit();
+  }
+}
+
+// The plan only applies to the input it was built from: inputHash is the hash of that input
+async function loadApprovedPlan(sessionId: string, inputHash: string): Promise<Map<number, ImportPlanRow>> {
+  const sessionDoc = await getDoc(doc(db, 'import_sessions', sessionId));
+  
+  if (!sessionDoc.exists()) {
+    throw new Error(`Import session not found: ${sessionId}`);
+  }
+  
+  const session = sessionDoc.data() || {};
+  if (session.status !== 'approved') {
+    throw new Error(`Import plan ${sessionId} is not approved (status: ${session.status})`);
+  }
+  
+  if (!session.inputHash) {
+    throw new Error(`Import plan ${sessionId} has no input hash; run the dry run again`);
+  }
+  
+  if (session.inputHash !== inputHash) {
+    const planned = session.sourcePath || session.sourceFile || 'the planned input';
+    throw new Error(`Input doesn't match the data plan ${sessionId} was built from (${planned}); run the dry run again`);
+  }
+  
+  return loadPlanRows(sessionId);
+}
+
+async function loadPlanRows(sessionId: string): Promise<Map<number, ImportPlanRow>> {
+  const rowsSnapshot = await getDocs(
+    query(collection(db, `import_sessions/${sessionId}/plan_rows`), orderBy('index'))
+  );
+  
+  const plan = new Map<number, ImportPlanRow>();
+  rowsSnapshot.forEach(rowDoc => {
+    const row = rowDoc.data() as ImportPlanRow;
+    plan.set(row.index, row);
+  });
+  
+  return plan;
+}
+
+// Sessions in these states can be continued from their checkpoint
+const RESUMABLE_STATUSES = ['processing', 'resuming', 'failed'];
+
+async function loadResumableSession(sessionId: string): Promise<Record<string, any>> {
+  const sessionDoc = await getDoc(doc(db, 'import_sessions', sessionId));
+  
+  if (!sessionDoc.exists()) {
+    throw new Error(`Import session not found: ${sessionId}`);
+  }
+  
+  const session = sessionDoc.data();
+  if (!RESUMABLE_STATUSES.includes(session.status)) {
+    throw new Error(`Import session ${sessionId} cannot be resumed (status: ${session.status})`);
+  }
+  
+  return session;
+}
+
+function restoreResultCounts(results: ImportResult, session: Record<string, any>): void {
+  results.totalSuccess = session.successful || 0;
+  results.totalFailed = session.failed || 0;
+  results.duplicates = session.duplicates || 0;
+}
+
+// Atomically take over a stale session so only one worker resumes it
+async function claimOrphanedSession(sessionId: string): Promise<boolean> {
+  const sessionRef = doc(db, 'import_sessions', sessionId);
+  
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(sessionRef);
+    const session = snapshot.data();
+    
+    if (!session || session.status !== 'processing' || !isHeartbeatStale(session.lastUpdate)) {
+      return false;
+    }
+    
+    transaction.update(sessionRef, {
+      status: 'resuming',
+      lastUpdate: serverTimestamp(),
+      recoveredAt: serverTimestamp()
+    });
+    return true;
+  });
+}
+
+async function findJobIdForSession(sessionId: string, session: Record<string, any>): Promise<string | null> {
+  if (session.jobId) return session.jobId;
+  
+  const jobsSnapshot = await getDocs(
+    query(collection(db, 'import_jobs'), where('sessionId', '==', sessionId), limit(1))
+  );
+  return jobsSnapshot.empty ? null : jobsSnapshot.docs[0].id;
+}
+
+// Pick up sessions left in "processing" by a worker that stopped heartbeating
+async function recoverOrphanedImports(): Promise<void> {
+  const sessionsSnapshot = await getDocs(
+    query(collection(db, 'import_sessions'), where('status', '==', 'processing'))
+  );
+  
+  for (const sessionDoc of sessionsSnapshot.docs) {
+    const session = sessionDoc.data();
+    const sessionId = sessionDoc.id;
+    
+    if (!isHeartbeatStale(session.lastUpdate) || !(await claimOrphanedSession(sessionId))) {
+      continue;
+    }
+    
+    const resumeFrom = getResumeIndex(session.checkpoint);
+    console.warn(`🩺 Recovering orphaned import session ${sessionId} at row ${resumeFrom + 1}`);
+    
+    try {
+      const jobId = await findJobIdForSession(sessionId, session);
       
-    if (!phoneMatch.empty) {
-      // Check if it's the same address
-      const existingClinic = phoneMatch.docs[0].data();
-      if (existingClinic.address === address && existingClinic.city === city) {
-        return { isDuplicate: true, isNewBranch: false };
+      if (jobId) {
+        // Re-queue the job; the pending-job loop below continues it from the checkpoint
+        await updateDoc(doc(db, 'import_jobs', jobId), {
+          status: 'pending',
+          resumeFrom,
+          recoveredAt: serverTimestamp()
+        });
+      } else if (session.sourcePath && fs.existsSync(session.sourcePath)) {
+        await importClinics(undefined, { resumeSessionId: sessionId });
+      } else {
+        await updateImportSession(sessionId, {
+          status: 'failed',
+          endTime: serverTimestamp(),
+          error: 'Worker stopped and the input file is not available to resume'
+        });
       }
-      // Different address with same phone - might be data error
-      console.warn(`⚠️  Same phone number ${phone} found for different location`);
+    } catch (error) {
+      console.error(`Failed to recover import session ${sessionId}:`, error);
+    }
+  }
+}
+
+function stripUndefined<T extends Record<string, any>>(value: T): T {
+  Object.keys(value).forEach(key => {
+    if (value[key] === undefined) delete value[key];
+  });
+  return value;
+}
+
+// Fuzzy-match the clinic against nearby candidates, with branch detection
+async function checkForDuplicate(clinic: ClinicInput): Promise<DuplicateCheckResult> {
+  const candidates = await findDuplicateCandidates(clinic);
+  
+  let best: { id: string; data: Record<string, any>; match: ClinicMatchScore } | null = null;
+  let branch: { id: string; match: ClinicMatchScore } | null = null;
+  
+  for (const [id, data] of candidates) {
+    const match = scoreClinicMatch(clinic, data);
+    
+    if (isBranchOf(clinic, data, match)) {
+      if (!branch || match.nameScore > branch.match.nameScore) branch = { id, match };
+      continue;
     }
+    
+    if (!best || match.score > best.match.score) best = { id, data, match };
+  }
+  
+  if (best && best.match.score >= DUPLICATE_THRESHOLD) {
+    return {
+      isDuplicate: true,
+      isNewBranch: false,
+      existingId: best.id,
+      existing: best.data,
+      confidence: best.match.score,
+      reasons: best.match.reasons
+    };
+  }
+  
+  if (branch) {
+    // Same brand name exists in another location - this is a branch
+    return {
+      isDuplicate: true,
+      isNewBranch: true,
+      existingId: branch.id,
+      confidence: branch.match.score,
+      reasons: branch.match.reasons
+    };
+  }
+  
+  if (best && best.match.score >= POSSIBLE_DUPLICATE_THRESHOLD) {
+    console.warn(`⚠️  Possible duplicate of ${best.id} (${Math.round(best.match.score * 100)}%): ${clinic.name}`);
+    return {
+      isDuplicate: false,
+      isNewBranch: false,
+      possibleDuplicateId: best.id,
+      confidence: best.match.score,
+      reasons: best.match.reasons
+    };
   }
   
   return { isDuplicate: false, isNewBranch: false };
 }
 
+// Gather existing clinics worth scoring: same city, zip or phone, plus exact-name matches for branches
+async function findDuplicateCandidates(clinic: ClinicInput): Promise<Map<string, Record<string, any>>> {
+  const { name, city, state, zip, phone } = clinic;
+  const candidateQueries = [];
+  
+  if (city && state) {
+    candidateQueries.push(query(collection(db, 'clinics'), where('city', '==', city), where('state', '==', state), limit(200)));
+  }
+  
+  if (zip) {
+    candidateQueries.push(query(collection(db, 'clinics'), where('zip', '==', zip), limit(100)));
+  }
+  
+  if (phone && phone !== 'invalid') {
+    candidateQueries.push(query(collection(db, 'clinics'), where('phone', '==', phone), limit(20)));
+  }
+  
+  if (name) {
+    candidateQueries.push(query(collection(db, 'clinics'), where('name', '==', name), limit(20)));
+  }
+  
+  const candidates = new Map<string, Record<string, any>>();
+  const snapshots = await Promise.all(candidateQueries.map(candidateQuery => getDocs(candidateQuery)));
+  
+  snapshots.forEach(snapshot => {
+    snapshot.docs.forEach(candidate => {
+      if (!candidates.has(candidate.id)) candidates.set(candidate.id, candidate.data());
+    });
+  });
+  
+  return candidates;
+}
+
 function getDefaultSampleFile(): string {
   // Look for sample file in the scripts directory
   const possiblePaths = [
@@ -402,6 +1155,9 @@ export async function processImportJobs(): Promise<void> {
   console.log('🔍 Checking for pending import jobs...');
   
   try {
+    await recoverOrphanedImports();
+    await processRollbackRequests();
+    
     // Get pending import jobs
     const jobsQuery = query(
       collection(db, 'import_jobs'),
@@ -427,6 +1183,59 @@ export async function processImportJobs(): Promise<void> {
       console.log(`   Total clinics: ${job.data?.length || 0}`);
       
       try {
+        const jobOptions: ImportRunOptions = {
+          dryRun: job.dryRun === true,
+          mergeWithExisting: job.options?.mergeWithExisting === true
+        };
+        
+        // Dry-run jobs only produce a plan; the job waits until the session is approved
+        if (jobOptions.dryRun && job.sessionId) {
+          await updateDoc(doc(db, 'import_jobs', jobId), {
+            status: 'planning',
+            startedAt: serverTimestamp()
+          });
+          
+          const summary = await runDryRun(job.sessionId, job.data || [], jobOptions, {
+            jobId,
+            inputHash: hashImportRecords(job.data || [])
+          });
+          
+          await updateDoc(doc(db, 'import_jobs', jobId), {
+            status: 'awaiting_approval',
+            plannedAt: serverTimestamp(),
+            planSummary: summary
+          });
+          
+          console.log(`\n📋 Import job ${jobId} planned, awaiting approval`);
+          continue;
+        }
+        
+        const clinics = job.data || [];
+        const inputHash = hashImportRecords(clinics);
+        const origin: ImportOrigin = {
+          source: importProvenanceSource(undefined, job.fileName),
+          detail: job.fileName
+        };
+        const startIndex = job.resumeFrom || 0;
+        const results = createImportResult();
+        
+        if (startIndex > 0 && job.sessionId) {
+          const session = await loadResumableSession(job.sessionId);
+          if (session.checkpoint?.inputHash && session.checkpoint.inputHash !== inputHash) {
+            throw new Error(`Import data for job ${jobId} has changed since it was checkpointed`);
+          }
+          restoreResultCounts(results, session);
+          console.log(`   Resuming from row ${startIndex + 1}`);
+        }
+        
+        // A job re-queued after approval executes the stored plan; a resumed one was checked
+        // against it when it first started
+        const plan = job.planApproved && job.sessionId
+          ? startIndex > 0
+            ? await loadPlanRows(job.sessionId)
+            : await loadApprovedPlan(job.sessionId, inputHash)
+          : null;
+        
         // Update job status to processing
         await updateDoc(doc(db, 'import_jobs', jobId), {
           status: 'processing',
@@ -442,18 +1251,15 @@ export async function processImportJobs(): Promise<void> {
         }
         
         // Process the clinics
-        const results = createImportResult();
-        const clinics = job.data || [];
-        
-        for (let i = 0; i < clinics.length; i++) {
+        for (let i = startIndex; i < clinics.length; i++) {
           const clinic = clinics[i];
           console.log(`\n${i + 1}/${clinics.length}: Processing ${clinic.name || 'Unknown'}`);
           
           try {
             // Process single clinic
-            const processResult = await processClinic(clinic, results, job.sessionId);
+            const processResult = await processClinic(clinic, results, job.sessionId, origin, plan?.get(i));
             
-            if (!processResult.isDuplicate) {
+            if (!processResult.isDuplicate && !processResult.conflict) {
               results.totalSuccess++;
             }
             
@@ -463,7 +1269,8 @@ export async function processImportJobs(): Promise<void> {
                 processed: i + 1,
                 successful: results.totalSuccess,
                 failed: results.totalFailed,
-                duplicates: results.errors.filter(e => e.code === 'DUPLICATE').length
+                duplicates: results.errors.filter(e => e.code === 'DUPLICATE').length,
+                checkpoint: createCheckpoint(i, inputHash)
               });
             }
             
@@ -540,4 +1347,73 @@ export async function processImportJobs(): Promise<void> {
   } catch (error) {
     console.error('Error checking import jobs:', error);
   }
-}
\ No newline at end of file
+}
+
+// CLI interface for running this task
+export async function runImportCLI(args: string[]) {
+  const options: ImportRunOptions = {};
+  let filePath: string | undefined;
+
+  // Parse command line arguments
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--merge':
+        options.mergeWithExisting = true;
+        break;
+      case '--apply':
+        options.planSessionId = args[++i];
+        break;
+      case '--resume':
+        options.resumeSessionId = args[++i];
+        break;
+      case '--format':
+        options.parse = { ...options.parse, format: args[++i] as ImportParseOptions['format'] };
+        break;
+      case '--sheet': {
+        // Comma-separated sheet names, or "all"
+        const sheets = args[++i].split(',').map(name => name.trim()).filter(Boolean);
+        options.parse = { ...options.parse, sheets: sheets.includes('all') ? ['*'] : sheets };
+        break;
+      }
+      case '--map':
+        options.parse = { ...options.parse, headerMapping: parseHeaderMappingArg(args[++i]) };
+        break;
+      case '--profile':
+        options.parse = { ...options.parse, profile: args[++i] };
+        break;
+      case '--concurrency':
+        options.concurrency = parseInt(args[++i]);
+        break;
+      case '--geocode-concurrency':
+        options.geocodeConcurrency = parseInt(args[++i]);
+        break;
+      case '--batch-size':
+        options.batchSize = parseInt(args[++i]);
+        break;
+      default:
+        if (!arg.startsWith('--') && !filePath) {
+          filePath = arg;
+        }
+    }
+  }
+
+  if ([options.dryRun, options.planSessionId, options.resumeSessionId].filter(Boolean).length > 1) {
+    throw new Error('--dry-run, --apply and --resume cannot be used together');
+  }
+
+  await importClinics(filePath, options);
+}
+
+// Example usage:
+// npm run worker import clinics.csv --dry-run --merge
+// npm run worker import clinics.csv --apply <sessionId>
+// npm run worker import --resume <sessionId>
+// npm run worker import leads.xlsx --sheet "Dallas,Houston" --map "Practice Name=name,Tel=phone"
+// npm run worker import places-dump.json --format google-places
+// npm run worker import vendor-x.csv --profile vendorX
+// npm run worker import statewide.ndjson --concurrency 16 --batch-size 50
@@ -0,0 +1,58 @@
+import { listJobStates, requeueJob } from '../utils/jobQueue';
+import { JobState } from '../types/jobs';
+
+function formatTime(value?: FirebaseFirestore.Timestamp): string {
+  return value ? value.toDate().toISOString().replace('T', ' ').slice(0, 16) : '-';
+}
+
+function describeJob(job: JobState): string {
+  const state = job.lease
+    ? `running on ${job.lease.owner} (lease until ${formatTime(job.lease.expiresAt)})`
+    : job.enabled === false ? 'disabled' : job.status;
+  const last = job.lastStatus
+    ? `${job.lastStatus} ${formatTime(job.lastRunAt)}${job.lastDurationMs !== undefined ? ` in ${Math.round(job.lastDurationMs / 1000)}s` : ''}`
+    : 'never run';
+  return `  ${job.name.padEnd(22)} ${job.schedule.padEnd(14)} ${state.padEnd(14)} next ${formatTime(job.nextRunAt)}  last ${last}`;
+}
+
+// CLI interface for running this task
+export async function runJobsCLI(args: string[]) {
+  const [action, name] = args;
+
+  if (action === 'requeue') {
+    if (!name) {
+      throw new Error('Usage: jobs:requeue <job-name>');
+    }
+    if (!(await requeueJob(name))) {
+      throw new Error(`Job "${name}" doesn't exist or isn't dead-lettered`);
+    }
+    console.log(`♻️  ${name} is back on its schedule and will run on the next tick`);
+    return;
+  }
+
+  const jobs = await listJobStates();
+  if (jobs.length === 0) {
+    console.log('No jobs registered yet - they are created when the worker starts');
+    return;
+  }
+
+  console.log('📅 Jobs (cron schedules and times in UTC):');
+  jobs.forEach(job => {
+    console.log(describeJob(job));
+    if (job.lastError) console.log(`      ❌ ${job.lastError.split('\n')[0]}`);
+    if (job.overrideErrors?.length) console.log(`      ⚠️  Override ignored: ${job.overrideErrors.join('; ')}`);
+    if (job.defaultSchedule && job.schedule !== job.defaultSchedule) console.log(`      🔧 Schedule overridden (default ${job.defaultSchedule})`);
+    if (job.requestedRun) console.log(`      📌 Run requested by ${job.requestedRun.requestedBy}`);
+    if (job.consecutiveFailures > 0) console.log(`      ⚠️  ${job.consecutiveFailures} consecutive failure(s)`);
+  });
+
+  const deadLettered = jobs.filter(job => job.status === 'dead-lettered');
+  if (deadLettered.length > 0) {
+    console.log(`\n🪦 Dead-lettered: ${deadLettered.map(job => job.name).join(', ')}`);
+    console.log('Fix the cause, then run jobs:requeue <job-name> to put a job back on its schedule.');
+  }
+}
+
+// Example usage:
+// npm run worker jobs
+// npm run worker jobs:requeue review-updates
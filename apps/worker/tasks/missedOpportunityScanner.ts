@@ -1,5 +1,6 @@
 import { db } from '../lib/firebase';
-import { collection, query, where, getDocs, doc, updateDoc, arrayUnion } from '../lib/firebase-compat';
+import { collection, query, where, getDocs, arrayUnion } from '../lib/firebase-compat';
+import { updateClinicWithHistory } from '../utils/clinicHistory';
 import { defineRevenueLeakage } from '../utils/defineRevenueLeakage';
 import { alertEngine } from '../utils/alertEngine';
 import { calculateSeoScore } from '../utils/calculateSeoScore';
@@ -371,13 +372,12 @@ async function detectTrafficOpportunities(clinic: any, minThreshold: number): Pr
 
 async function addOpportunityTags(clinicSlug: string, opportunities: MissedOpportunity[]): Promise<number> {
   try {
-    const clinicRef = doc(db, 'clinics', clinicSlug);
     const tags = opportunities.map(opp => `opportunity-${opp.opportunityType}`);
     const uniqueTags = [...new Set(tags)];
     
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicSlug, {
       tags: arrayUnion(...uniqueTags)
-    });
+    }, { source: 'worker', actor: 'missedOpportunityScanner', action: 'opportunity-tags' });
     
     return uniqueTags.length;
   } catch (error) {
@@ -388,7 +388,6 @@ async function addOpportunityTags(clinicSlug: string, opportunities: MissedOppor
 
 async function addOpportunitySuggestions(clinicSlug: string, opportunities: MissedOpportunity[]): Promise<number> {
   try {
-    const clinicRef = doc(db, 'clinics', clinicSlug);
     const suggestions = opportunities.flatMap(opp => 
       opp.actionItems.map(action => ({
         type: opp.opportunityType,
@@ -399,11 +398,11 @@ async function addOpportunitySuggestions(clinicSlug: string, opportunities: Miss
       }))
     );
     
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicSlug, {
       'opportunities.suggestions': arrayUnion(...suggestions),
       'opportunities.lastAnalyzed': new Date(),
       'opportunities.totalValue': opportunities.reduce((sum, opp) => sum + opp.estimatedValue, 0)
-    });
+    }, { source: 'worker', actor: 'missedOpportunityScanner', action: 'opportunity-suggestions' });
     
     return suggestions.length;
   } catch (error) {
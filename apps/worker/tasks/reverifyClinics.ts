@@ -0,0 +1,328 @@
+import { doc, getDoc, setDoc, deleteField } from '../lib/firebase-compat';
+import { db } from '../lib/firebase';
+import { BusinessStatus } from '../types/clinic';
+import { delay } from '../utils/geocodeAddress';
+import { findPlace, getPlaceBusinessStatus, hasPlacesApiKey } from '../utils/placesClient';
+import { validateWebsiteIsReachable } from '../utils/validateWebsite';
+import { formatPhoneNumber } from '../utils/formatPhoneNumber';
+import { raiseClinicAlert, resolveClinicAlerts } from '../utils/alertEngine';
+import { updateClinicWithHistory } from '../utils/clinicHistory';
+
+export interface ReverificationOptions {
+  dryRun?: boolean;
+  maxClinics?: number;
+  staleDays?: number; // Skip clinics checked more recently than this
+  rateLimitMs?: number; // Pause between clinics (Places + website requests)
+  signal?: AbortSignal; // Stop before the next clinic (the run was cancelled); the cursor keeps the progress
+}
+
+export interface ClinicStatusCheck {
+  clinicId: string;
+  businessStatus?: BusinessStatus;
+  statusSource: 'place_id' | 'text_search' | 'none'; // Only place_id results are trusted enough to hide a clinic
+  placeId?: string;
+  websiteReachable: boolean | null; // null when the clinic has no website/phone
+  phoneValid: boolean | null;
+  hidden: boolean;
+  restored: boolean;
+  alerted: boolean;
+}
+
+export interface ReverificationResult {
+  success: boolean;
+  scanned: number;
+  checked: number;
+  closed: number;
+  hidden: number;
+  restored: number;
+  websiteDown: number;
+  invalidPhones: number;
+  alertsCreated: number;
+  cycleComplete: boolean;
+  aborted: boolean; // Stopped early because the run was cancelled
+  errors: string[];
+  duration: number;
+}
+
+const CLOSED_STATUSES: BusinessStatus[] = ['closed_temporarily', 'closed_permanently'];
+const CLOSED_ALERT_TYPE = 'clinic_closed';
+const PAGE_SIZE = 100;
+
+/**
+ * Recheck business status, website reachability and phone format for the clinics checked longest ago.
+ * Walks the collection from a persisted cursor so every clinic is revisited once per cycle.
+ */
+export async function reverifyClinics(options: ReverificationOptions = {}): Promise<ReverificationResult> {
+  const startTime = Date.now();
+  const {
+    dryRun = false,
+    maxClinics = 200,
+    staleDays = 30,
+    rateLimitMs = 500,
+    signal
+  } = options;
+
+  console.log(`🔁 Starting clinic re-verification${dryRun ? ' (DRY RUN)' : ''}...`);
+  if (!hasPlacesApiKey()) {
+    console.warn('⚠️  No Places API key set - checking websites and phones only');
+  }
+
+  const result: ReverificationResult = {
+    success: true,
+    scanned: 0,
+    checked: 0,
+    closed: 0,
+    hidden: 0,
+    restored: 0,
+    websiteDown: 0,
+    invalidPhones: 0,
+    alertsCreated: 0,
+    cycleComplete: false,
+    aborted: false,
+    errors: [],
+    duration: 0
+  };
+
+  const cursorRef = doc(db, 'admin', 'clinicReverification');
+  const staleBefore = Date.now() - staleDays * 24 * 60 * 60 * 1000;
+
+  try {
+    const cursorDoc = await getDoc(cursorRef);
+    let lastClinicId: string | undefined = cursorDoc.exists() ? cursorDoc.data()?.lastClinicId : undefined;
+
+    while (result.checked < maxClinics && !signal?.aborted) {
+      let page = db.collection('clinics').orderBy('__name__').limit(PAGE_SIZE);
+      if (lastClinicId) page = page.startAfter(lastClinicId);
+
+      const snapshot = await page.get();
+      if (snapshot.empty) {
+        // Reached the end of the collection: start the next cycle from the top
+        result.cycleComplete = true;
+        lastClinicId = undefined;
+        break;
+      }
+
+      for (const clinicDoc of snapshot.docs) {
+        if (result.checked >= maxClinics) break;
+        if (signal?.aborted) {
+          console.warn(`⏹️  Cancelled after ${result.checked} clinics`);
+          break;
+        }
+
+        result.scanned++;
+        lastClinicId = clinicDoc.id;
+
+        const clinic = { id: clinicDoc.id, ...clinicDoc.data() } as Record<string, any>;
+        const lastChecked = toMillis(clinic.validation?.statusCheck?.checkedAt);
+        if (lastChecked && lastChecked > staleBefore) continue;
+
+        try {
+          const check = await reverifyClinic(clinic, dryRun);
+          result.checked++;
+
+          if (check.businessStatus && CLOSED_STATUSES.includes(check.businessStatus)) result.closed++;
+          if (check.hidden) result.hidden++;
+          if (check.restored) result.restored++;
+          if (check.websiteReachable === false) result.websiteDown++;
+          if (check.phoneValid === false) result.invalidPhones++;
+          if (check.alerted) result.alertsCreated++;
+        } catch (error) {
+          result.errors.push(`Failed to re-verify ${clinicDoc.id}: ${error instanceof Error ? error.message : error}`);
+        }
+
+        await delay(rateLimitMs);
+      }
+
+      if (snapshot.size < PAGE_SIZE && result.checked < maxClinics && !signal?.aborted) {
+        result.cycleComplete = true;
+        lastClinicId = undefined;
+        break;
+      }
+    }
+    result.aborted = Boolean(signal?.aborted) && !result.cycleComplete && result.checked < maxClinics;
+
+    if (!dryRun) {
+      await setDoc(cursorRef, {
+        lastClinicId: lastClinicId || null,
+        lastRunAt: new Date(),
+        ...(result.cycleComplete ? { lastCycleCompletedAt: new Date() } : {})
+      }, { merge: true });
+    }
+
+    console.log(`🔁 Re-verification complete: ${result.checked} checked, ${result.closed} closed (${result.hidden} hidden), ${result.restored} restored, ${result.websiteDown} websites down, ${result.invalidPhones} invalid phones`);
+
+    return { ...result, duration: Date.now() - startTime };
+  } catch (error) {
+    console.error('Clinic re-verification failed:', error);
+
+    return {
+      ...result,
+      success: false,
+      errors: [...result.errors, error instanceof Error ? error.message : 'Unknown error'],
+      duration: Date.now() - startTime
+    };
+  }
+}
+
+async function reverifyClinic(clinic: Record<string, any>, dryRun: boolean): Promise<ClinicStatusCheck> {
+  const check: ClinicStatusCheck = {
+    clinicId: clinic.id,
+    statusSource: 'none',
+    websiteReachable: clinic.website ? await validateWebsiteIsReachable(clinic.website) : null,
+    phoneValid: clinic.phone ? formatPhoneNumber(clinic.phone) !== 'invalid' : null,
+    hidden: false,
+    restored: false,
+    alerted: false
+  };
+
+  // A linked place ID is authoritative; a text match is only good enough to flag for review
+  const place = clinic.googlePlacesId
+    ? await getPlaceBusinessStatus(clinic.googlePlacesId)
+    : await findPlace(clinic.name, [clinic.address, clinic.city, clinic.state].filter(Boolean).join(', '));
+
+  if (place?.businessStatus) {
+    check.businessStatus = place.businessStatus;
+    check.statusSource = clinic.googlePlacesId ? 'place_id' : 'text_search';
+    check.placeId = place.placeId;
+  }
+
+  const isClosed = Boolean(check.businessStatus && CLOSED_STATUSES.includes(check.businessStatus));
+  const tags = new Set<string>(clinic.tags || []);
+  const updates: Record<string, any> = {};
+
+  toggleTag(tags, 'website-down', check.websiteReachable);
+  toggleTag(tags, 'invalid-phone', check.phoneValid);
+
+  if (isClosed) {
+    tags.add('business-closed');
+    tags.add('needs-review');
+  } else if (check.businessStatus === 'operational') {
+    tags.delete('business-closed');
+  }
+
+  if (check.statusSource === 'place_id') {
+    updates.businessStatus = check.businessStatus;
+
+    const isLive = ['active', 'Active'].includes(clinic.status);
+    if (isClosed && isLive && !clinic.autoHidden) {
+      // Paused clinics drop out of public search; keep the old status so a reopening can restore it
+      updates.status = 'paused';
+      updates.autoHidden = {
+        reason: check.businessStatus,
+        previousStatus: clinic.status,
+        hiddenAt: new Date()
+      };
+      check.hidden = true;
+      console.log(`   🚫 ${clinic.name || clinic.id}: ${check.businessStatus}, hidden from the directory`);
+    } else if (check.businessStatus === 'operational' && clinic.autoHidden) {
+      updates.status = clinic.autoHidden.previousStatus || 'active';
+      updates.autoHidden = deleteField();
+      check.restored = true;
+      console.log(`   ✅ ${clinic.name || clinic.id}: operational again, restored to ${updates.status}`);
+    }
+  } else if (isClosed) {
+    console.log(`   ⚠️  ${clinic.name || clinic.id}: closest Places match is ${check.businessStatus}, flagged for review`);
+  }
+
+  updates.tags = Array.from(tags);
+  updates['validation.statusCheck'] = {
+    checkedAt: new Date(),
+    source: check.statusSource,
+    businessStatus: check.businessStatus || null,
+    placeId: check.placeId || null,
+    websiteReachable: check.websiteReachable,
+    phoneValid: check.phoneValid
+  };
+
+  if (dryRun) return check;
+
+  await updateClinicWithHistory(clinic.id, updates, { source: 'worker', actor: 'reverifyClinics', action: 'reverify' });
+
+  if (isClosed && isPaidClinic(clinic)) {
+    const alert = await raiseClinicAlert(clinic, {
+      type: CLOSED_ALERT_TYPE,
+      severity: check.statusSource === 'place_id' ? 'critical' : 'warn',
+      title: `Paid Clinic Closed: ${clinic.name}`,
+      message: check.statusSource === 'place_id'
+        ? `${clinic.name} is ${check.businessStatus?.replace('_', ' ')} on Google and was hidden from the directory. Contact the clinic about their subscription.`
+        : `${clinic.name} may be ${check.businessStatus?.replace('_', ' ')} (matched by name on Google). Confirm before changing the listing.`,
+      data: {
+        businessStatus: check.businessStatus,
+        placeId: check.placeId,
+        package: clinic.package || clinic.tier || null,
+        hidden: check.hidden
+      },
+      actionRequired: true
+    });
+    check.alerted = Boolean(alert);
+  } else if (check.restored) {
+    await resolveClinicAlerts(clinic, CLOSED_ALERT_TYPE);
+  }
+
+  return check;
+}
+
+// passed === null means the field is empty, which the quality score already covers
+function toggleTag(tags: Set<string>, tag: string, passed: boolean | null) {
+  if (passed === false) tags.add(tag);
+  if (passed === true) tags.delete(tag);
+}
+
+function isPaidClinic(clinic: Record<string, any>): boolean {
+  return [clinic.tier, clinic.package, clinic.packageTier].some(plan => plan && String(plan).toLowerCase() !== 'free');
+}
+
+function toMillis(value: any): number | undefined {
+  if (!value) return undefined;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+}
+
+// CLI interface for running this task
+export async function runReverificationCLI(args: string[]) {
+  const options: ReverificationOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--limit':
+        options.maxClinics = parseInt(args[++i], 10);
+        break;
+      case '--stale-days':
+        options.staleDays = parseInt(args[++i], 10);
+        break;
+      case '--rate-limit':
+        options.rateLimitMs = parseInt(args[++i], 10);
+        break;
+    }
+  }
+
+  const result = await reverifyClinics(options);
+
+  if (!result.success) {
+    console.error('❌ Clinic re-verification failed');
+    console.error('Errors:', result.errors.slice(0, 5));
+    process.exit(1);
+  }
+
+  console.log(`📊 Re-verified ${result.checked}/${result.scanned} clinics in ${Math.round(result.duration / 1000)}s`);
+  if (result.alertsCreated > 0) {
+    console.log(`🚨 ${result.alertsCreated} alert(s) opened for closed paid clinics`);
+  }
+  if (result.cycleComplete) {
+    console.log('🔄 Reached the end of the clinic list - next run starts from the top');
+  }
+  if (result.errors.length > 0) {
+    console.log(`⚠️  ${result.errors.length} error(s) encountered`);
+  }
+}
+
+// Example usage:
+// npm run worker reverify
+// npm run worker reverify --dry-run --limit 25
+// npm run worker reverify --stale-days 7 --rate-limit 1000
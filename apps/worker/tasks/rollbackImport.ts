@@ -0,0 +1,127 @@
+import { collection, doc, getDocs, query, where, updateDoc, serverTimestamp } from '../lib/firebase-compat';
+import { db } from '../lib/firebase';
+import { rollbackImportSession, RollbackOptions, RollbackReport } from '../utils/importJournal';
+
+// Conflicts stored on the session doc; the full list is printed by the CLI
+const MAX_STORED_CONFLICTS = 200;
+
+/**
+ * Roll back an import session and record the outcome on import_sessions/{sessionId}.rollback
+ */
+export async function rollbackImport(
+  sessionId: string,
+  options: RollbackOptions & { requestedBy?: string } = {}
+): Promise<RollbackReport> {
+  const sessionRef = doc(db, 'import_sessions', sessionId);
+
+  if (!options.dryRun) {
+    await updateDoc(sessionRef, {
+      'rollback.status': 'rolling_back',
+      'rollback.startedAt': serverTimestamp()
+    });
+  }
+
+  try {
+    const report = await rollbackImportSession(sessionId, options);
+    if (options.dryRun) return report;
+
+    // Conflicts skipped without --force are still applied, so the session is only partly undone
+    const complete = report.errors.length === 0 && (options.force || report.conflicts.length === 0);
+    await updateDoc(sessionRef, {
+      ...(complete ? { status: 'rolled_back' } : {}),
+      rollback: {
+        status: complete ? 'completed' : 'partial',
+        requestedBy: options.requestedBy || 'cli',
+        force: options.force === true,
+        restored: report.restored,
+        deleted: report.deleted,
+        skipped: report.skipped,
+        conflicts: report.conflicts.slice(0, MAX_STORED_CONFLICTS),
+        conflictCount: report.conflicts.length,
+        errors: report.errors.slice(0, 20),
+        completedAt: serverTimestamp()
+      },
+      lastUpdate: serverTimestamp()
+    });
+
+    return report;
+  } catch (error) {
+    if (!options.dryRun) {
+      await updateDoc(sessionRef, {
+        'rollback.status': 'failed',
+        'rollback.errors': [error instanceof Error ? error.message : String(error)],
+        'rollback.completedAt': serverTimestamp()
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run rollbacks requested from the admin import page (rollback.status == 'requested')
+ */
+export async function processRollbackRequests(): Promise<void> {
+  const requests = await getDocs(
+    query(collection(db, 'import_sessions'), where('rollback.status', '==', 'requested'))
+  );
+
+  for (const sessionDoc of requests.docs) {
+    const request = sessionDoc.data().rollback || {};
+    console.log(`⏪ Rollback requested for import session ${sessionDoc.id} by ${request.requestedBy || 'unknown'}`);
+
+    try {
+      await rollbackImport(sessionDoc.id, { force: request.force === true, requestedBy: request.requestedBy });
+    } catch (error) {
+      console.error(`Failed to roll back import session ${sessionDoc.id}:`, error);
+    }
+  }
+}
+
+// CLI interface for running this task
+export async function runImportRollbackCLI(args: string[]) {
+  const options: RollbackOptions = {};
+  let sessionId: string | undefined;
+
+  for (const arg of args) {
+    switch (arg) {
+      case '--force':
+        options.force = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        if (!arg.startsWith('--') && !sessionId) {
+          sessionId = arg;
+        }
+    }
+  }
+
+  if (!sessionId) {
+    throw new Error('Usage: import:rollback <sessionId> [--dry-run] [--force]');
+  }
+
+  const report = await rollbackImport(sessionId, options);
+
+  console.log(`📊 Restored ${report.restored}, deleted ${report.deleted}, skipped ${report.skipped}`);
+
+  if (report.conflicts.length > 0) {
+    console.log(`\n⚠️  ${report.conflicts.length} clinic(s) changed since the import${options.force ? ' (rolled back anyway)' : ''}:`);
+    report.conflicts.forEach(conflict => {
+      console.log(`  - ${conflict.clinicId} (${conflict.action}): ${conflict.reason}${conflict.changedAt ? ` at ${conflict.changedAt}` : ''}${conflict.changedBy ? ` by ${conflict.changedBy}` : ''}`);
+    });
+    if (!options.force) {
+      console.log('Re-run with --force to roll these back too (their later edits will be lost).');
+    }
+  }
+
+  if (report.errors.length > 0) {
+    console.log(`\n❌ ${report.errors.length} error(s):`);
+    report.errors.slice(0, 10).forEach(error => console.log(`  - ${error}`));
+  }
+}
+
+// Example usage:
+// npm run worker import:rollback session_123456789 --dry-run
+// npm run worker import:rollback session_123456789
+// npm run worker import:rollback session_123456789 --force
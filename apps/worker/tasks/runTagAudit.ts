@@ -1,6 +1,7 @@
-import { collection, getDocs, doc, updateDoc, serverTimestamp, writeBatch } from '../lib/firebase-compat';
+import { collection, getDocs, doc, serverTimestamp, writeBatch } from '../lib/firebase-compat';
 import { db } from '../lib/firebase';
 import { analyzeClinicTags, getTagAnalysisSummary, ClinicAnalysisResult } from '../utils/analyzeClinicTags';
+import { commitClinicBatchWithHistory, updateClinicWithHistory } from '../utils/clinicHistory';
 
 export interface TagAuditResult {
   success: boolean;
@@ -150,7 +151,8 @@ async function updateClinicsInBatch(
     }
   }
   
-  await batch.commit();
+  const clinicIds = clinics.slice(0, results.length).filter((_, i) => results[i]).map(clinic => clinic.id);
+  await commitClinicBatchWithHistory(batch, clinicIds, { source: 'worker', actor: 'runTagAudit', action: 'tag-audit' });
   console.log(`💾 Updated ${Math.min(clinics.length, results.length)} clinics in Firestore`);
 }
 
@@ -163,14 +165,13 @@ export async function runSingleClinicAudit(clinicId: string): Promise<ClinicAnal
   const result = await analyzeClinicTags(clinicId);
   
   // Update Firestore
-  const clinicRef = doc(db, 'clinics', clinicId);
-  await updateDoc(clinicRef, {
+  await updateClinicWithHistory(clinicId, {
     tags: result.tags,
     suggestions: result.suggestions,
     'seoMeta.seoScore': result.seoScore,
     'seoMeta.tagScanLastRun': serverTimestamp(),
     'seoMeta.tagsLastUpdated': serverTimestamp()
-  });
+  }, { source: 'worker', actor: 'runTagAudit', action: 'tag-audit' });
   
   console.log(`✅ Single audit complete for ${clinicId}`);
   return result;
@@ -0,0 +1,153 @@
+import { deleteField, writeBatch } from '../lib/firebase-compat';
+import { db } from '../lib/firebase';
+import { computeQualityScore } from '../utils/dataQuality';
+import { buildClinicSchedule } from '../utils/clinicHours';
+
+export interface QualityScoreOptions {
+  dryRun?: boolean;
+  all?: boolean; // Rescore every clinic (backfill, or after changing the weights)
+  maxClinics?: number;
+  signal?: AbortSignal; // Stop after the current page (the run was cancelled)
+}
+
+export interface QualityScoreResult {
+  success: boolean;
+  scanned: number;
+  updated: number;
+  averageScore: number;
+  aborted: boolean; // Stopped early because the run was cancelled
+  errors: string[];
+  duration: number;
+}
+
+const PAGE_SIZE = 300;
+
+/**
+ * Recompute clinic.quality and clinic.schedule for clinics an admin edited (quality.stale) or, with --all, every clinic.
+ * Imports and the enrichment pipeline score clinics as they write them; this catches everything else.
+ */
+export async function scoreClinicQuality(options: QualityScoreOptions = {}): Promise<QualityScoreResult> {
+  const startTime = Date.now();
+  const { dryRun = false, all = false, maxClinics = all ? Infinity : 500, signal } = options;
+
+  console.log(`📐 Scoring clinic data quality${all ? ' (all clinics)' : ''}${dryRun ? ' (DRY RUN)' : ''}...`);
+
+  const errors: string[] = [];
+  let scanned = 0;
+  let updated = 0;
+  let scoreTotal = 0;
+  let aborted = false;
+
+  const scorePage = async (docs: FirebaseFirestore.QueryDocumentSnapshot[]) => {
+    const batch = writeBatch(db);
+
+    docs.forEach(clinicDoc => {
+      scanned++;
+      try {
+        const data = clinicDoc.data();
+        const quality = computeQualityScore(data);
+        scoreTotal += quality.score;
+        // Admin edits to hours land here too, so the parsed schedule is refreshed alongside the score.
+        // Both are derived fields that clinic history ignores, so this batch isn't logged.
+        batch.update(clinicDoc.ref, { quality, schedule: buildClinicSchedule(data) || deleteField() });
+        updated++;
+      } catch (error) {
+        errors.push(`Failed to score ${clinicDoc.id}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    if (!dryRun) {
+      await batch.commit();
+    }
+  };
+
+  try {
+    if (all) {
+      let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+      while (scanned < maxClinics) {
+        if (signal?.aborted) {
+          console.warn(`⏹️  Cancelled after ${scanned} clinics`);
+          aborted = true;
+          break;
+        }
+
+        let page = db.collection('clinics').orderBy('__name__').limit(Math.min(PAGE_SIZE, maxClinics - scanned));
+        if (last) page = page.startAfter(last);
+
+        const snapshot = await page.get();
+        if (snapshot.empty) break;
+
+        await scorePage(snapshot.docs);
+        last = snapshot.docs[snapshot.docs.length - 1];
+        console.log(`   📊 Scored ${scanned} clinics`);
+      }
+    } else {
+      const snapshot = await db.collection('clinics')
+        .where('quality.stale', '==', true)
+        .limit(Math.min(maxClinics, 450)) // One write batch
+        .get();
+      console.log(`📋 Found ${snapshot.size} clinics edited since they were last scored`);
+
+      if (!snapshot.empty) {
+        await scorePage(snapshot.docs);
+      }
+    }
+
+    const averageScore = updated > 0 ? Math.round(scoreTotal / updated) : 0;
+    console.log(`📐 Quality scoring complete: ${updated} scored (average ${averageScore}) of ${scanned} scanned`);
+
+    return { success: true, scanned, updated, averageScore, aborted, errors, duration: Date.now() - startTime };
+  } catch (error) {
+    console.error('Quality scoring failed:', error);
+
+    return {
+      success: false,
+      scanned,
+      updated,
+      averageScore: updated > 0 ? Math.round(scoreTotal / updated) : 0,
+      aborted,
+      errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
+      duration: Date.now() - startTime
+    };
+  }
+}
+
+// CLI interface for running this task
+export async function runQualityScoreCLI(args: string[]) {
+  const options: QualityScoreOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--all':
+        options.all = true;
+        break;
+      case '--limit':
+        options.maxClinics = parseInt(args[++i], 10);
+        break;
+    }
+  }
+
+  const result = await scoreClinicQuality(options);
+
+  if (!result.success) {
+    console.error('❌ Quality scoring failed');
+    console.error('Errors:', result.errors.slice(0, 5));
+    process.exit(1);
+  }
+
+  console.log(`📊 Scored ${result.updated}/${result.scanned} clinics in ${Math.round(result.duration / 1000)}s`);
+  if (result.errors.length > 0) {
+    console.log(`⚠️  ${result.errors.length} error(s) encountered`);
+  }
+}
+
+// Example usage:
+// npm run worker quality-score
+// npm run worker quality-score --all
+// npm run worker quality-score --all --limit 1000 --dry-run
@@ -464,7 +464,8 @@ async function isRateLimited(): Promise<boolean> {
   }
 }
 
-function getEmailProvider(): EmailProvider {
+// Also used by sendSavedSearchAlerts
+export function getEmailProvider(): EmailProvider {
   if (process.env.NODE_ENV === 'development') {
     return new MockEmailProvider();
   }
@@ -0,0 +1,439 @@
+import { db } from '../lib/firebase';
+import { toSearchDocument, SearchDocument } from '../utils/searchIndex';
+import { distanceMeters } from '../utils/clinicMatcher';
+import { getEmailProvider } from './sendQueuedMessages';
+
+export interface SavedSearchAlertOptions {
+  dryRun?: boolean;
+}
+
+export interface SavedSearchAlertResult {
+  success: boolean;
+  searchesChecked: number;
+  savedProvidersChecked: number;
+  newMatches: number;
+  serviceChanges: number;
+  emailsSent: number;
+  errors: string[];
+  duration: number;
+}
+
+// Must match SavedSearch in apps/web/types/index.ts (written by the site's savedSearchService)
+interface SavedSearch {
+  userId: string;
+  email: string;
+  name: string;
+  query: string;
+  terms: { text: string; variants: string[] }[];
+  location: { city?: string; state?: string; lat?: number; lng?: number } | null;
+  radius: number | null;
+  filters: { services?: string[]; tier?: string; verified?: boolean };
+  alertsEnabled: boolean;
+  notifiedClinicIds?: string[];
+}
+
+// savedProviders documents written by the dashboard; notifiedServices is ours
+interface SavedProvider {
+  userId: string;
+  clinicId: string | number;
+  notifiedServices?: string[];
+}
+
+interface UserDigest {
+  email?: string;
+  searches: { name: string; url: string; clinics: SearchDocument[] }[];
+  serviceChanges: { clinic: SearchDocument; added: string[]; removed: string[] }[];
+  // Written only once the digest is sent, so a failed send is retried on the next run
+  updates: { ref: FirebaseFirestore.DocumentReference; data: Record<string, any> }[];
+}
+
+const PAGE_SIZE = 500;
+const USERS_PER_READ = 100;
+const CLINICS_PER_SEARCH = 10; // Listed in the email; the rest are behind the search link
+const METERS_PER_MILE = 1609.344;
+
+/**
+ * Email users a digest of clinics that started matching their saved searches since the last
+ * alert, and of services added or dropped by providers they saved. Matches are diffed against
+ * notifiedClinicIds/notifiedServices from the previous run; the first run for a search or
+ * saved provider only records them, so users aren't sent everything that already matched.
+ */
+export async function sendSavedSearchAlerts(options: SavedSearchAlertOptions = {}): Promise<SavedSearchAlertResult> {
+  const startTime = Date.now();
+  const { dryRun = false } = options;
+
+  console.log(`🔔 Checking saved searches${dryRun ? ' (DRY RUN)' : ''}...`);
+
+  const result: SavedSearchAlertResult = {
+    success: true,
+    searchesChecked: 0,
+    savedProvidersChecked: 0,
+    newMatches: 0,
+    serviceChanges: 0,
+    emailsSent: 0,
+    errors: [],
+    duration: 0
+  };
+
+  try {
+    const [searchesSnapshot, savedProvidersSnapshot] = await Promise.all([
+      db.collection('saved_searches').where('alertsEnabled', '==', true).get(),
+      db.collection('savedProviders').get()
+    ]);
+
+    if (searchesSnapshot.empty && savedProvidersSnapshot.empty) {
+      console.log('🔔 No saved searches or saved providers');
+      return { ...result, duration: Date.now() - startTime };
+    }
+
+    const clinics = await loadActiveClinics();
+    const users = await loadUsers(savedProvidersSnapshot.docs.map(doc => (doc.data() as SavedProvider).userId));
+    const digests = new Map<string, UserDigest>();
+    const baselines: UserDigest['updates'] = [];
+
+    const getDigest = (userId: string): UserDigest => {
+      let digest = digests.get(userId);
+      if (!digest) {
+        digest = { email: users.get(userId)?.email, searches: [], serviceChanges: [], updates: [] };
+        digests.set(userId, digest);
+      }
+      return digest;
+    };
+
+    for (const searchDoc of searchesSnapshot.docs) {
+      result.searchesChecked++;
+      const search = searchDoc.data() as SavedSearch;
+      const matchIds = Array.from(clinics.values())
+        .filter(clinic => matchesSavedSearch(search, clinic))
+        .map(clinic => clinic.id);
+
+      if (!search.notifiedClinicIds) {
+        baselines.push({ ref: searchDoc.ref, data: { notifiedClinicIds: matchIds } });
+        continue;
+      }
+
+      const notified = new Set(search.notifiedClinicIds);
+      const newClinics = matchIds.filter(id => !notified.has(id)).map(id => clinics.get(id)!);
+      if (newClinics.length === 0) {
+        // Keep the list current so clinics that stop matching aren't held forever
+        if (matchIds.length !== search.notifiedClinicIds.length) {
+          baselines.push({ ref: searchDoc.ref, data: { notifiedClinicIds: matchIds } });
+        }
+        continue;
+      }
+
+      result.newMatches += newClinics.length;
+      const digest = getDigest(search.userId);
+      digest.email = search.email || digest.email;
+      digest.searches.push({ name: search.name, url: savedSearchUrl(search), clinics: newClinics });
+      digest.updates.push({ ref: searchDoc.ref, data: { notifiedClinicIds: matchIds, lastNotifiedAt: new Date() } });
+    }
+
+    for (const savedDoc of savedProvidersSnapshot.docs) {
+      const saved = savedDoc.data() as SavedProvider;
+      const clinic = clinics.get(String(saved.clinicId));
+      if (!saved.userId || !clinic || users.get(saved.userId)?.savedProviderAlerts === false) continue;
+
+      result.savedProvidersChecked++;
+      const services = Array.from(new Set(clinic.services)).sort();
+
+      if (!saved.notifiedServices) {
+        baselines.push({ ref: savedDoc.ref, data: { notifiedServices: services } });
+        continue;
+      }
+
+      const before = new Set(saved.notifiedServices.map(service => service.toLowerCase()));
+      const after = new Set(services.map(service => service.toLowerCase()));
+      const added = services.filter(service => !before.has(service.toLowerCase()));
+      const removed = saved.notifiedServices.filter(service => !after.has(service.toLowerCase()));
+      if (added.length === 0 && removed.length === 0) continue;
+
+      result.serviceChanges++;
+      const digest = getDigest(saved.userId);
+      digest.serviceChanges.push({ clinic, added, removed });
+      digest.updates.push({ ref: savedDoc.ref, data: { notifiedServices: services } });
+    }
+
+    if (!dryRun) {
+      await commitUpdates(baselines);
+    }
+
+    const emailProvider = getEmailProvider();
+    const from = process.env.OUTREACH_FROM_EMAIL || 'noreply@menshealthfinder.com';
+
+    for (const [userId, digest] of digests) {
+      if (!digest.email) {
+        result.errors.push(`No email address for user ${userId}`);
+        continue;
+      }
+
+      const subject = digestSubject(digest);
+      if (dryRun) {
+        console.log(`📧 Would email ${digest.email}: ${subject}`);
+        continue;
+      }
+
+      const sendResult = await emailProvider.send({
+        to: digest.email,
+        subject,
+        html: generateDigestHTML(digest),
+        from,
+        trackingId: `saved-search-${userId}-${Date.now()}`
+      });
+
+      if (!sendResult.success) {
+        result.errors.push(`Failed to email ${digest.email}: ${sendResult.error}`);
+        continue;
+      }
+
+      result.emailsSent++;
+      await commitUpdates(digest.updates);
+    }
+
+    console.log(`🔔 Saved search alerts: ${result.newMatches} new matches and ${result.serviceChanges} service changes, ${result.emailsSent} emails sent`);
+
+    return { ...result, duration: Date.now() - startTime };
+  } catch (error) {
+    console.error('Saved search alerts failed:', error);
+
+    return {
+      ...result,
+      success: false,
+      errors: [...result.errors, error instanceof Error ? error.message : 'Unknown error'],
+      duration: Date.now() - startTime
+    };
+  }
+}
+
+// Every clinic visible on the site, in the same shape the search index uses
+async function loadActiveClinics(): Promise<Map<string, SearchDocument>> {
+  const clinics = new Map<string, SearchDocument>();
+  let lastClinic: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  while (true) {
+    let page = db.collection('clinics')
+      .where('status', 'in', ['active', 'Active'])
+      .orderBy('__name__')
+      .limit(PAGE_SIZE);
+    if (lastClinic) page = page.startAfter(lastClinic);
+
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    snapshot.docs.forEach(clinicDoc => clinics.set(clinicDoc.id, toSearchDocument(clinicDoc.id, clinicDoc.data())));
+
+    lastClinic = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.size < PAGE_SIZE) break;
+  }
+
+  return clinics;
+}
+
+async function loadUsers(userIds: string[]): Promise<Map<string, { email?: string; savedProviderAlerts?: boolean }>> {
+  const users = new Map<string, { email?: string; savedProviderAlerts?: boolean }>();
+  const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+
+  for (let i = 0; i < uniqueIds.length; i += USERS_PER_READ) {
+    const refs = uniqueIds.slice(i, i + USERS_PER_READ).map(id => db.collection('users').doc(id));
+    const snapshots = await db.getAll(...refs);
+    snapshots.forEach(userDoc => {
+      if (userDoc.exists) users.set(userDoc.id, userDoc.data() as { email?: string; savedProviderAlerts?: boolean });
+    });
+  }
+
+  return users;
+}
+
+async function commitUpdates(updates: UserDigest['updates']) {
+  // Batches are capped at 500 writes
+  for (let i = 0; i < updates.length; i += 500) {
+    const batch = db.batch();
+    updates.slice(i, i + 500).forEach(update => batch.update(update.ref, update.data));
+    await batch.commit();
+  }
+}
+
+// Same normalization as tokenize() in apps/web/lib/searchIndex.ts
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[®™©]/g, '')
+    .replace(/([a-z])-(\d)/g, '$1$2')
+    .split(/[^a-z0-9+]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether a clinic matches a saved search: inside its radius (or city/state), through its
+ * filters, and with every query term found under one of its spellings
+ */
+function matchesSavedSearch(search: SavedSearch, clinic: SearchDocument): boolean {
+  const location = search.location;
+  if (search.radius && typeof location?.lat === 'number' && typeof location.lng === 'number') {
+    const meters = distanceMeters(location, clinic);
+    if (meters === null || meters > search.radius * METERS_PER_MILE) return false;
+  } else {
+    if (location?.state && clinic.state.toUpperCase() !== location.state.toUpperCase()) return false;
+    if (location?.city && clinic.city.toLowerCase() !== location.city.toLowerCase()) return false;
+  }
+
+  const filters = search.filters || {};
+  if (filters.tier && clinic.tier !== filters.tier) return false;
+  if (filters.verified && !clinic.verified) return false;
+  if (filters.services && filters.services.length > 0) {
+    const wanted = filters.services.map(service => service.toLowerCase());
+    if (!clinic.services.some(service => wanted.includes(service.toLowerCase()))) return false;
+  }
+
+  if (!search.terms || search.terms.length === 0) return true;
+
+  const words = new Set(
+    [clinic.name, ...clinic.services, ...clinic.treatments, ...clinic.searchableTerms, ...clinic.keywords]
+      .flatMap(tokenize)
+  );
+  return search.terms.every(term =>
+    term.variants.some(variant => {
+      const tokens = tokenize(variant);
+      return tokens.length > 0 && tokens.every(token => words.has(token));
+    })
+  );
+}
+
+// Must match savedSearchUrl in apps/web/lib/api/savedSearchService.ts
+function savedSearchUrl(search: SavedSearch): string {
+  const params = new URLSearchParams();
+  if (search.query) params.set('q', search.query);
+  if (search.location?.city && search.location.state) {
+    params.set('location', `${search.location.city}, ${search.location.state}`);
+  } else if (search.location?.state) {
+    params.set('state', search.location.state);
+  }
+  if (search.filters?.services?.[0]) params.set('service', search.filters.services[0]);
+  if (search.filters?.tier) params.set('tier', search.filters.tier);
+
+  const queryString = params.toString();
+  return queryString ? `/search?${queryString}` : '/search';
+}
+
+function digestSubject(digest: UserDigest): string {
+  const newClinics = digest.searches.reduce((sum, search) => sum + search.clinics.length, 0);
+  if (newClinics === 0) {
+    return digest.serviceChanges.length === 1
+      ? `${digest.serviceChanges[0].clinic.name} updated its services`
+      : `${digest.serviceChanges.length} of your saved providers updated their services`;
+  }
+  if (digest.searches.length === 1) {
+    return `${newClinics} new clinic${newClinics === 1 ? '' : 's'} for "${digest.searches[0].name}"`;
+  }
+  return `${newClinics} new clinics for your saved searches`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function clinicLine(clinic: SearchDocument, baseUrl: string): string {
+  const url = clinic.slug ? `${baseUrl}/clinic/${clinic.slug}` : `${baseUrl}/clinic/${clinic.id}`;
+  const place = [clinic.city, clinic.state].filter(Boolean).join(', ');
+  return `<a href="${url}">${escapeHtml(clinic.name)}</a>${place ? ` - ${escapeHtml(place)}` : ''}`;
+}
+
+function generateDigestHTML(digest: UserDigest): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://menshealthfinder.com';
+
+  const searchSections = digest.searches.map(search => `
+            <div class="section">
+                <h2>${escapeHtml(search.name)}</h2>
+                <ul>
+                    ${search.clinics.slice(0, CLINICS_PER_SEARCH).map(clinic => `<li>${clinicLine(clinic, baseUrl)}</li>`).join('')}
+                </ul>
+                <p><a href="${baseUrl}${search.url}">
+                    ${search.clinics.length > CLINICS_PER_SEARCH ? `See all ${search.clinics.length} new clinics` : 'Run this search'}
+                </a></p>
+            </div>`).join('');
+
+  const serviceSection = digest.serviceChanges.length === 0 ? '' : `
+            <div class="section">
+                <h2>Your saved providers</h2>
+                <ul>
+                    ${digest.serviceChanges.map(change => `<li>${clinicLine(change.clinic, baseUrl)}
+                        ${change.added.length > 0 ? `<br>Now offers: ${escapeHtml(change.added.join(', '))}` : ''}
+                        ${change.removed.length > 0 ? `<br>No longer lists: ${escapeHtml(change.removed.join(', '))}` : ''}
+                    </li>`).join('')}
+                </ul>
+            </div>`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>${escapeHtml(digestSubject(digest))}</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { border-bottom: 2px solid #2563eb; padding-bottom: 20px; margin-bottom: 30px; }
+            .logo { color: #2563eb; font-size: 24px; font-weight: bold; }
+            .section { margin-bottom: 30px; }
+            .section h2 { font-size: 18px; margin-bottom: 10px; }
+            .footer {
+                border-top: 1px solid #eee;
+                padding-top: 20px;
+                font-size: 12px;
+                color: #666;
+                text-align: center;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <div class="logo">Men's Health Finder</div>
+            </div>
+            ${searchSections}
+            ${serviceSection}
+            <div class="footer">
+                <p>You're receiving this because you saved searches or providers on Men's Health Finder.</p>
+                <p><a href="${baseUrl}/dashboard?tab=searches">Manage alerts</a></p>
+                <p>Men's Health Finder<br>© ${new Date().getFullYear()} All rights reserved</p>
+            </div>
+        </div>
+    </body>
+    </html>
+  `;
+}
+
+// CLI interface for running this task
+export async function runSavedSearchAlertsCLI(args: string[]) {
+  const options: SavedSearchAlertOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+    }
+  }
+
+  const result = await sendSavedSearchAlerts(options);
+
+  if (!result.success) {
+    console.error('❌ Saved search alerts failed');
+    console.error('Errors:', result.errors.slice(0, 5));
+    process.exit(1);
+  }
+
+  console.log(`🔎 Checked ${result.searchesChecked} saved searches and ${result.savedProvidersChecked} saved providers in ${Math.round(result.duration / 1000)}s`);
+  if (result.errors.length > 0) {
+    console.log(`⚠️  ${result.errors.length} digests not sent; they are retried on the next run`);
+    result.errors.slice(0, 5).forEach(error => console.log(`  - ${error}`));
+  }
+}
+
+// Example usage:
+// npm run worker saved-search-alerts
+// npm run worker saved-search-alerts --dry-run
@@ -1,5 +1,6 @@
 import { db } from '../lib/firebase';
-import { doc, getDoc, updateDoc, arrayUnion } from '../lib/firebase-compat';
+import { doc, getDoc, arrayUnion } from '../lib/firebase-compat';
+import { updateClinicWithHistory } from '../utils/clinicHistory';
 
 export interface UpgradeEmailData {
   clinicName: string;
@@ -51,7 +52,7 @@ export async function sendUpgradeEmail(clinicSlug: string): Promise<UpgradeEmail
     const emailResult = await sendEmailViaProvider(emailData);
     
     // Log the email sent
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicSlug, {
       'communications.emails': arrayUnion({
         type: 'upgrade_offer',
         sentAt: new Date(),
@@ -66,7 +67,7 @@ export async function sendUpgradeEmail(clinicSlug: string): Promise<UpgradeEmail
       }),
       'sales.lastUpgradeEmailSent': new Date(),
       'sales.upgradeEmailCount': (clinic.sales?.upgradeEmailCount || 0) + 1
-    });
+    }, { source: 'worker', actor: 'sendUpgradeEmail', action: 'upgrade-email' });
     
     console.log(`Upgrade email sent to ${emailData.contactEmail} for clinic ${clinicSlug}`);
     
@@ -30,15 +30,103 @@ export interface ClinicInput {
   tags: string[];
   lat?: number;
   lng?: number;
+  geohash?: string; // Radius search index (utils/geohash.ts)
   slug?: string;
+  potentialDuplicateOf?: { id: string; confidence: number }; // Set by fuzzy matching on import
+  googlePlacesId?: string;
+  businessStatus?: BusinessStatus;
+  groupId?: string; // clinic_groups doc for multi-location brands
+  geoAccuracy?: GeocodeResult['geoAccuracy'];
+  geoSource?: GeocodeSource;
+  provenance?: ClinicProvenance;
+  quality?: ClinicQuality;
+  hours?: { day: string; hours: string }[]; // Free text, as listed
+  hoursExceptions?: { date: string; hours: string; label?: string }[]; // One-off days ('YYYY-MM-DD')
+  schedule?: ClinicSchedule; // Parsed from hours by utils/clinicHours.ts
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A brand with several locations (clinic_groups/{slug}); branches inherit shared fields they leave empty
+export interface ClinicGroup {
+  id: string;
+  name: string;
+  slug: string;
+  website?: string;
+  logoUrl?: string;
+  description?: string;
+  services: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One plan bought for the whole brand; covers up to locationLimit branches
+// (clinic_groups/{slug}/private/billing, admin only)
+export interface ClinicGroupBilling {
+  tier: 'free' | 'standard' | 'advanced';
+  locationLimit: number;
+  status: 'active' | 'canceled';
+  coveredClinicIds: string[];
+  updatedAt: Date;
+}
+
+// Google Places business_status, lower-cased
+export type BusinessStatus = 'operational' | 'closed_temporarily' | 'closed_permanently';
+
+// Where a field's current value came from; file formats are used for imports
+export type ProvenanceSource = ImportFileFormat | 'import' | 'geocoder' | 'scraper' | 'admin';
+
+export interface FieldProvenance {
+  source: ProvenanceSource;
+  confidence: number; // 0-1
+  updatedAt: Date;
+  detail?: string; // File name, geocoder, scraped URL or admin
+}
+
+// Keyed by clinic field; coordinates are tracked under 'location'
+export type ClinicProvenance = Record<string, FieldProvenance>;
+
+// Stored completeness/quality score, recomputed on every write (or by the quality-score task)
+export interface ClinicQuality {
+  score: number; // 0-100, completeness weighted by field confidence minus validation errors
+  completeness: number; // 0-100, weighted share of filled fields
+  missing: string[];
+  issues: string[]; // validateClinicData errors
+  stale?: boolean; // Set by admin edits until the worker recomputes
+  computedAt: Date;
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// Minutes after local midnight; close can run past 1440 for hours that end after midnight
+export interface ScheduleInterval {
+  open: number;
+  close: number;
+}
+
+// Structured opening hours. Must match ClinicSchedule in apps/web/types/index.ts
+export interface ClinicSchedule {
+  timeZone: string; // IANA
+  weekly: Record<Weekday, ScheduleInterval[]>; // Empty list = closed that day
+  exceptions?: { date: string; intervals: ScheduleInterval[]; label?: string }[]; // 'YYYY-MM-DD', overrides weekly
+  closedOnHolidays?: boolean; // Major US holidays
+  openWeekends: boolean;
+  openEvenings: boolean; // Open past 6 PM on at least one day
+  unparsed?: string[]; // Hours text the parser couldn't read
+}
+
+// Where a clinic's coordinates came from; 'gazetteer' is the bundled ZIP/city centroid fallback
+export type GeocodeSource = 'google' | 'nominatim' | 'gazetteer' | 'import';
+
+// What a geocode result points at, from most to least precise
+export type GeocodePrecision = 'address' | 'street' | 'zip' | 'city' | 'region';
+
 export interface GeocodeResult {
   lat: number;
   lng: number;
   geoAccuracy: 'exact' | 'approximate' | 'failed';
+  geoSource?: GeocodeSource;
+  geoPrecision?: GeocodePrecision;
 }
 
 export interface SeoMeta {
@@ -78,5 +166,53 @@ export interface ImportError {
   count: number;
 }
 
+export type ImportPlanAction = 'insert' | 'update' | 'skip' | 'branch';
+
+export interface FieldDiff {
+  field: string;
+  before: any;
+  after: any;
+}
+
+// One row of a dry-run import plan, stored under import_sessions/{id}/plan_rows
+export interface ImportPlanRow {
+  index: number;
+  name: string;
+  action: ImportPlanAction;
+  slug?: string;
+  existingId?: string;
+  confidence?: number; // Match score (0-1) against existingId
+  reason?: string;
+  diff?: FieldDiff[];
+}
+
+export interface ImportPlanSummary {
+  total: number;
+  insert: number;
+  update: number;
+  skip: number;
+  branch: number;
+}
+
+export interface ImportRunOptions {
+  dryRun?: boolean;
+  mergeWithExisting?: boolean;
+  planSessionId?: string; // Execute a previously approved dry-run plan
+  resumeSessionId?: string; // Continue an interrupted session from its checkpoint
+  parse?: ImportParseOptions;
+  concurrency?: number; // Rows processed at once when streaming CSV/NDJSON (default 8)
+  geocodeConcurrency?: number; // Parallel geocode requests (default 4 with GEOCODE_API_KEY, else 1/sec for Nominatim)
+  batchSize?: number; // Clinics per Firestore batch when streaming (max 100)
+}
+
+export type ImportFileFormat = 'csv' | 'json' | 'ndjson' | 'xlsx' | 'google-places';
+
+export interface ImportParseOptions {
+  format?: ImportFileFormat; // Overrides detection from the file extension
+  sheets?: string[]; // XLSX sheet names; ['*'] for every sheet
+  headerMapping?: Record<string, string>; // Source header -> clinic field
+  profile?: string; // Mapping profile id or name from import_mapping_profiles
+}
+
 // Export Clinic as alias for ClinicDocument for compatibility
 export type Clinic = ClinicDocument;
\ No newline at end of file
@@ -0,0 +1,117 @@
+// Durable job queue (utils/jobQueue.ts). Timestamps are Firestore Timestamps when read back.
+
+export type JobStatus = 'idle' | 'running' | 'dead-lettered';
+
+export type JobRunStatus =
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'abandoned' // Its worker stopped heartbeating mid-run
+  | 'interrupted' // Its worker shut down mid-run and handed the job back
+  | 'cancelled'; // Stopped from the admin jobs console
+
+export type JobTrigger = 'schedule' | 'manual';
+
+// Job parameters, passed to the task as its options (e.g. { dryRun: true, maxClinics: 50 })
+export type JobParams = Record<string, any>;
+
+// One parameter in a job's schema (utils/jobParams.ts). The schema is published on the job's
+// document so the admin console can validate overrides and run params before saving them.
+export interface JobParamSpec {
+  type: 'boolean' | 'integer' | 'number' | 'string' | 'string[]';
+  description: string;
+  default?: boolean | number | string | string[];
+  min?: number; // integer / number
+  max?: number;
+  options?: readonly string[]; // Allowed values for string / string[]
+}
+
+export type JobParamSchema = Record<string, JobParamSpec>;
+
+// A run asked for from the admin jobs console; the next free worker picks it up
+export interface JobRunRequest {
+  params: JobParams;
+  requestedBy: string;
+  requestedAt: FirebaseFirestore.Timestamp;
+}
+
+export interface JobLease {
+  owner: string; // Worker ID
+  runId: string;
+  expiresAt: FirebaseFirestore.Timestamp;
+}
+
+// worker_jobs/{name} - one per job; the lease makes sure only one worker runs it at a time
+export interface JobState {
+  name: string;
+  schedule: string; // Cron expression, UTC
+  status: JobStatus;
+  nextRunAt: FirebaseFirestore.Timestamp;
+  lease: JobLease | null;
+  consecutiveFailures: number;
+  requestedRun?: JobRunRequest | null;
+  defaultSchedule?: string; // The registry's schedule; schedule differs when overridden
+  enabled?: boolean; // False when disabled by an override
+  paramSchema?: JobParamSchema;
+  overrideErrors?: string[] | null; // Why the worker rejected the current override, if it did
+  lastRunId?: string;
+  lastRunAt?: FirebaseFirestore.Timestamp;
+  lastStatus?: JobRunStatus;
+  lastDurationMs?: number;
+  lastError?: string | null;
+  deadLetteredAt?: FirebaseFirestore.Timestamp;
+}
+
+// Small enough to list: a run's top-level numbers, strings and booleans
+export type JobOutputSummary = Record<string, string | number | boolean>;
+
+// worker_job_runs/{id} - history, one per run
+export interface JobRun {
+  job: string;
+  trigger: JobTrigger;
+  workerId: string;
+  status: JobRunStatus;
+  attempt: number; // 1, or more when retrying after failures
+  startedAt: FirebaseFirestore.Timestamp;
+  heartbeatAt: FirebaseFirestore.Timestamp;
+  finishedAt?: FirebaseFirestore.Timestamp;
+  durationMs?: number;
+  error?: string;
+  output?: JobOutputSummary | null;
+  leaseLost?: boolean; // Finished after another worker had taken the job over
+  params?: JobParams;
+  requestedBy?: string; // Runs requested from the jobs console
+  cancelRequested?: boolean; // Set by the jobs console; the worker aborts the run's signal
+  cancelledBy?: string;
+  logCount?: number; // Lines captured, including any that weren't stored
+}
+
+export type JobLogLevel = 'info' | 'warn' | 'error';
+
+// worker_job_runs/{id}/logs/{seq} - the run's console output, line by line
+export interface JobLogLine {
+  seq: number;
+  at: FirebaseFirestore.Timestamp;
+  level: JobLogLevel;
+  message: string;
+}
+
+// worker_job_overrides/{name} - admin settings layered over the registry. Missing fields keep the defaults.
+export interface JobOverride {
+  enabled?: boolean;
+  schedule?: string | null; // Cron expression, UTC
+  params?: JobParams; // Over the schema defaults; run params go over these
+  updatedBy?: string;
+  updatedAt?: FirebaseFirestore.Timestamp;
+  auditId?: string; // The audit entry written with this change; a reset leaves only these fields
+}
+
+// worker_job_overrides/{name}/audit/{id} - one per override change, written with the change (enforced by the rules)
+export interface JobOverrideAuditEntry {
+  changedBy: string;
+  changedByUid: string;
+  changedAt: FirebaseFirestore.Timestamp;
+  fields: string[]; // enabled, schedule, params.<name>
+  before: Pick<JobOverride, 'enabled' | 'schedule' | 'params'> | null;
+  after: Pick<JobOverride, 'enabled' | 'schedule' | 'params'> | null; // null when reset to defaults
+}
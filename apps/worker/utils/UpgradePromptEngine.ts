@@ -1,6 +1,7 @@
-import { doc, getDoc, updateDoc, Timestamp } from '../lib/firebase-compat';
+import { doc, getDoc, Timestamp } from '../lib/firebase-compat';
 import { db } from '../lib/firebase';
 import { getClinicEngagement, ClinicEngagement } from './detectClinicEngagement';
+import { updateClinicWithHistory } from './clinicHistory';
 
 export interface UpgradePrompt {
   reason: string;
@@ -66,13 +67,13 @@ export async function generateUpgradePrompt(
       };
       
       // Save upgrade prompt to clinic
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicSlug, {
         upgradePrompt: {
           ...prompt,
           timestamp: Timestamp.fromDate(prompt.timestamp)
         },
         'seoMeta.upgradePromptLastGenerated': Timestamp.fromDate(new Date())
-      });
+      }, { source: 'worker', actor: 'generateUpgradePrompt', action: 'upgrade-prompt' });
       
       console.log(`✅ Upgrade prompt generated for ${clinicSlug}: ${prompt.type} - ${prompt.priority}`);
       
@@ -84,10 +85,10 @@ export async function generateUpgradePrompt(
       };
     } else {
       // Clear existing upgrade prompt if no longer relevant
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicSlug, {
         upgradePrompt: null,
         'seoMeta.upgradePromptLastGenerated': Timestamp.fromDate(new Date())
-      });
+      }, { source: 'worker', actor: 'generateUpgradePrompt', action: 'upgrade-prompt' });
       
       return {
         success: true,
@@ -282,11 +283,10 @@ export async function getUpgradePrompt(clinicSlug: string): Promise<UpgradePromp
  */
 export async function clearUpgradePrompt(clinicSlug: string): Promise<boolean> {
   try {
-    const clinicRef = doc(db, 'clinics', clinicSlug);
-    await updateDoc(clinicRef, {
+    await updateClinicWithHistory(clinicSlug, {
       upgradePrompt: null,
       'seoMeta.upgradePromptCleared': Timestamp.fromDate(new Date())
-    });
+    }, { source: 'worker', actor: 'clearUpgradePrompt', action: 'upgrade-prompt' });
     
     console.log(`✅ Upgrade prompt cleared for ${clinicSlug}`);
     return true;
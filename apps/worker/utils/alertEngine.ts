@@ -229,6 +229,50 @@ async function processClinicAlerts(clinic: any, dryRun: boolean): Promise<number
   return alertsCreated;
 }
 
+/**
+ * Open an alert from outside the trigger table (e.g. verification tasks).
+ * Returns null when the clinic already has an unresolved alert of that type.
+ */
+export async function raiseClinicAlert(
+  clinic: any,
+  alert: Pick<SystemAlert, 'type' | 'severity' | 'title' | 'message' | 'data' | 'actionRequired'>
+): Promise<SystemAlert | null> {
+  const existingAlert = (clinic.alerts || []).find((existing: SystemAlert) =>
+    existing.type === alert.type && !existing.resolvedAt
+  );
+  if (existingAlert) return null;
+
+  const created: SystemAlert = {
+    ...alert,
+    id: `${alert.type}_${clinic.id}_${Date.now()}`,
+    clinicSlug: clinic.id,
+    createdAt: new Date()
+  };
+
+  const clinicRef = doc(db, 'clinics', clinic.id);
+  await updateDoc(clinicRef, {
+    alerts: arrayUnion(created)
+  });
+  await addToGlobalAlerts(created);
+
+  console.log(`🚨 Alert created: ${created.title}`);
+  return created;
+}
+
+/**
+ * Resolve a clinic's open alerts of one type once the condition has cleared
+ */
+export async function resolveClinicAlerts(clinic: any, type: string): Promise<number> {
+  const openAlerts = (clinic.alerts || []).filter((alert: SystemAlert) =>
+    alert.type === type && !alert.resolvedAt
+  );
+
+  for (const alert of openAlerts) {
+    await resolveAlert(clinic.id, alert.id);
+  }
+  return openAlerts.length;
+}
+
 async function addToGlobalAlerts(alert: SystemAlert): Promise<void> {
   try {
     const globalAlertsRef = doc(db, 'admin', 'alerts');
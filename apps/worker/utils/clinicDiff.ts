@@ -0,0 +1,58 @@
+/**
+ * Field-by-field diff of clinic snapshots, shared by the worker's history writers and the admin
+ * history tab (apps/web/lib/api/clinicHistoryService.ts imports this file). Keep it free of imports
+ * so it builds in both apps.
+ */
+
+// A missing key means the field did not exist on that side of the change
+export interface ClinicFieldChange {
+  before?: any;
+  after?: any;
+}
+
+// Bookkeeping that changes on every write, or is recomputed from the rest (the quality score, the
+// schedule parsed from hours, search keywords, the geohash of lat/lng), would drown out real edits.
+// Writers that only touch these fields (scoreClinicQuality, refreshQualityScore, enhanceSearchIndex,
+// backfillGeocodes' geohash pass) skip history.
+export const HISTORY_IGNORED_FIELDS = ['updatedAt', 'lastUpdated', 'quality', 'schedule', 'derivedKeywords', 'lastIndexed', 'geohash'];
+
+// Key-order independent JSON so maps read back from Firestore compare equal
+export function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (typeof value.toMillis === 'function') return `ts:${value.toMillis()}`;
+  if (value instanceof Date) return `ts:${value.getTime()}`;
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+
+  return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+}
+
+/**
+ * Diff two clinic snapshots field by field (top-level fields only)
+ *
+ * @param before - The clinic before the write
+ * @param after - The clinic after the write
+ * @returns - Changed fields with their before/after values
+ */
+export function diffClinicSnapshots(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): Record<string, ClinicFieldChange> {
+  const changes: Record<string, ClinicFieldChange> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach(field => {
+    if (HISTORY_IGNORED_FIELDS.includes(field)) return;
+
+    const hadValue = before != null && before[field] !== undefined;
+    const hasValue = after != null && after[field] !== undefined;
+    if (hadValue && hasValue && stableStringify(before![field]) === stableStringify(after![field])) return;
+    if (!hadValue && !hasValue) return;
+
+    const change: ClinicFieldChange = {};
+    if (hadValue) change.before = before![field];
+    if (hasValue) change.after = after![field];
+    changes[field] = change;
+  });
+
+  return changes;
+}
@@ -2,6 +2,8 @@ import { EnhancedClinicWebsiteScraper } from './enhancedWebsiteScraper';
 import { generateEnhancedSeoContent, generateServiceBasedFAQs } from './enhancedSeoGenerator';
 import { generateStructuredFAQs, convertToFAQSchema, FAQItem } from './schemaFaqGenerator';
 import { ClinicInput } from '../types/clinic';
+import { computeQualityScore, SOURCE_CONFIDENCE } from './dataQuality';
+import { recordClinicChange } from './clinicHistory';
 import * as admin from 'firebase-admin';
 
 // Initialize Firebase Admin if not already done
@@ -128,7 +130,7 @@ export class ClinicEnrichmentPipeline {
       };
 
       // Step 5: Update clinic in Firestore
-      await this.updateClinicWithEnrichedData(clinic.id!, result.enrichedData);
+      await this.updateClinicWithEnrichedData(clinic.id!, result.enrichedData, clinic.website);
       
       result.success = true;
       console.log(`✅ Successfully enriched ${clinic.name}`);
@@ -191,7 +193,8 @@ export class ClinicEnrichmentPipeline {
    */
   private async updateClinicWithEnrichedData(
     clinicId: string, 
-    enrichedData: EnrichmentResult['enrichedData']
+    enrichedData: EnrichmentResult['enrichedData'],
+    website: string
   ): Promise<void> {
     if (!enrichedData) return;
 
@@ -225,10 +228,29 @@ export class ClinicEnrichmentPipeline {
         scrapingConfidence: enrichedData.scrapingDetails?.confidence,
         pagesAnalyzed: enrichedData.scrapingDetails?.pagesScraped,
       },
+
+      // Services are now (at least partly) backed by the clinic's own website
+      'provenance.services': {
+        source: 'scraper',
+        confidence: enrichedData.scrapingDetails?.confidence ?? SOURCE_CONFIDENCE.scraper,
+        updatedAt: new Date(),
+        detail: website
+      },
     };
 
     // Update clinic document
-    await this.db.collection('clinics').doc(clinicId).update(updateData);
+    const clinicRef = this.db.collection('clinics').doc(clinicId);
+    const before = (await clinicRef.get()).data() || null;
+    await clinicRef.update(updateData);
+
+    // Rescore with the merged services list
+    const updated = await clinicRef.get();
+    await clinicRef.update({ quality: computeQualityScore(updated.data() || {}) });
+    await recordClinicChange(clinicId, before, updated.data(), {
+      source: 'worker',
+      actor: 'clinicEnrichmentPipeline',
+      action: 'enrich'
+    });
 
     // Log enrichment event
     await this.logEnrichmentEvent(clinicId, enrichedData);
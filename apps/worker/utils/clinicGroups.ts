@@ -0,0 +1,63 @@
+import { db } from '../lib/firebase';
+import { doc, getDoc, setDoc } from '../lib/firebase-compat';
+import { ClinicGroup, ClinicInput } from '../types/clinic';
+import { generateGroupSlug } from './generateSlug';
+import { updateClinicWithHistory } from './clinicHistory';
+
+/**
+ * Find or create the brand group for a newly detected branch.
+ * The clinic it matched becomes the group's first location and seeds the shared brand fields.
+ */
+export async function linkBranchToGroup(existingClinicId: string, branch: ClinicInput): Promise<string> {
+  const existingRef = doc(db, 'clinics', existingClinicId);
+  const existingDoc = await getDoc(existingRef);
+  const existing = existingDoc.exists() ? existingDoc.data() as Record<string, any> : {};
+
+  if (existing.groupId) {
+    return existing.groupId;
+  }
+
+  const groupId = generateGroupSlug(existing.name || branch.name) || existingClinicId;
+  const groupRef = doc(db, 'clinic_groups', groupId);
+  const groupDoc = await getDoc(groupRef);
+
+  if (!groupDoc.exists()) {
+    const now = new Date();
+    const group: Omit<ClinicGroup, 'id'> = {
+      name: existing.name || branch.name,
+      slug: groupId,
+      services: existing.services?.length ? existing.services : branch.services,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const website = brandWebsite(existing.website || branch.website);
+    if (website) group.website = website;
+    if (existing.imageUrl) group.logoUrl = existing.imageUrl;
+
+    await setDoc(groupRef, group);
+    console.log(`🏷️  Created clinic group ${groupId} for ${group.name}`);
+  }
+
+  if (existingDoc.exists()) {
+    await updateClinicWithHistory(existingClinicId, { groupId, updatedAt: new Date() }, {
+      source: 'import',
+      actor: 'clinicGroups',
+      action: 'group-link'
+    });
+  }
+
+  return groupId;
+}
+
+// Branch pages usually link to a location path; the group keeps the brand's home page
+function brandWebsite(website?: string): string | undefined {
+  if (!website) return undefined;
+
+  try {
+    const url = new URL(website.startsWith('http') ? website : `https://${website}`);
+    return `${url.protocol}//${url.hostname}`;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,110 @@
+import { db } from '../lib/firebase';
+import { ClinicFieldChange, HISTORY_IGNORED_FIELDS, diffClinicSnapshots } from './clinicDiff';
+
+/**
+ * Generic change log for clinics/{id}: every tracked write adds a clinics/{id}/history entry
+ * with the before/after value of each top-level field it changed. The admin history tab
+ * restores a version by replaying the `before` values of everything written after it.
+ */
+
+export { ClinicFieldChange, HISTORY_IGNORED_FIELDS, diffClinicSnapshots };
+
+export type ClinicChangeSource = 'ui' | 'worker' | 'import';
+
+export interface ClinicChangeMeta {
+  source: ClinicChangeSource;
+  actor: string; // Admin email, task name or import session
+  action?: string; // e.g. 'inserted', 'reverify', 'rollback', 'restore'
+  sessionId?: string;
+  restoredFrom?: string; // History entry a restore went back to
+}
+
+export interface ClinicChangeEntry extends ClinicChangeMeta {
+  clinicId: string;
+  changedAt: Date;
+  fields: string[];
+  changes: Record<string, ClinicFieldChange>;
+}
+
+/**
+ * History entry for a write, or null when no tracked field changed
+ */
+export function buildClinicChange(
+  clinicId: string,
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+  meta: ClinicChangeMeta,
+  changedAt: Date = new Date()
+): ClinicChangeEntry | null {
+  const changes = diffClinicSnapshots(before, after);
+  const fields = Object.keys(changes);
+  if (fields.length === 0) return null;
+
+  const entry: ClinicChangeEntry = { ...meta, clinicId, changedAt, fields, changes };
+  Object.keys(entry).forEach(key => {
+    if ((entry as Record<string, any>)[key] === undefined) delete (entry as Record<string, any>)[key];
+  });
+  return entry;
+}
+
+export function clinicHistoryRef(clinicId: string): FirebaseFirestore.DocumentReference {
+  return db.collection('clinics').doc(clinicId).collection('history').doc();
+}
+
+/**
+ * Record a write whose before and after images the caller already has
+ */
+export async function recordClinicChange(
+  clinicId: string,
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+  meta: ClinicChangeMeta
+): Promise<void> {
+  try {
+    const entry = buildClinicChange(clinicId, before, after, meta);
+    if (entry) {
+      await clinicHistoryRef(clinicId).set(entry);
+    }
+  } catch (error) {
+    // History is best effort; never fail the write it describes
+    console.warn(`⚠️  Failed to record history for clinic ${clinicId}:`, error);
+  }
+}
+
+/**
+ * Update a clinic and log the change. The after image is read back so sentinel values
+ * (arrayUnion, serverTimestamp, deleteField) are recorded as what they resolved to.
+ */
+export async function updateClinicWithHistory(
+  clinicId: string,
+  updates: Record<string, any>,
+  meta: ClinicChangeMeta
+): Promise<void> {
+  const clinicRef = db.collection('clinics').doc(clinicId);
+  const before = (await clinicRef.get()).data() || null;
+
+  await clinicRef.update(updates);
+
+  const after = (await clinicRef.get()).data() || null;
+  await recordClinicChange(clinicId, before, after, meta);
+}
+
+/**
+ * Commit a batch of clinic updates and log a change for each clinic it touched
+ */
+export async function commitClinicBatchWithHistory(
+  batch: { commit(): Promise<unknown> },
+  clinicIds: string[],
+  meta: ClinicChangeMeta
+): Promise<void> {
+  const clinicRefs = clinicIds.map(clinicId => db.collection('clinics').doc(clinicId));
+  const before = clinicRefs.length > 0 ? await db.getAll(...clinicRefs) : [];
+
+  await batch.commit();
+
+  if (clinicRefs.length === 0) return;
+  const after = await db.getAll(...clinicRefs);
+  for (let i = 0; i < clinicIds.length; i++) {
+    await recordClinicChange(clinicIds[i], before[i].data() || null, after[i].data() || null, meta);
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Structured opening hours (clinic.schedule), parsed from the free-text clinic.hours rows
+ * ({ day: 'Mon-Fri', hours: '9:00 AM - 5:00 PM' }) and clinic.hoursExceptions. The web app
+ * evaluates the schedule (open now, next opening) in apps/web/lib/clinicHours.ts.
+ */
+
+import { ClinicSchedule, ScheduleInterval, Weekday } from '../types/clinic';
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const EVENING_START = 18 * 60;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Order matters: the first pattern that matches a word wins
+const DAY_PATTERNS: [RegExp, Weekday][] = [
+  [/^sun(day)?$/, 'sun'],
+  [/^mon(day)?$/, 'mon'],
+  [/^tue(s|sday)?$/, 'tue'],
+  [/^wed(s|nesday)?$/, 'wed'],
+  [/^thu(r|rs|rsday)?$/, 'thu'],
+  [/^fri(day)?$/, 'fri'],
+  [/^sat(urday)?$/, 'sat']
+];
+
+const DAY_GROUPS: Record<string, Weekday[]> = {
+  weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  weekends: ['sat', 'sun'],
+  weekend: ['sat', 'sun'],
+  daily: WEEKDAYS,
+  everyday: WEEKDAYS,
+  'every day': WEEKDAYS,
+  '7 days': WEEKDAYS
+};
+
+// Zone per state; split states list the zone most of their population is in
+const STATE_TIME_ZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DC: 'America/New_York',
+  DE: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver', PR: 'America/Puerto_Rico'
+};
+
+// Parts of split states in another zone, by approximate coordinates (first match wins)
+const TIME_ZONE_REGIONS: Record<string, { zone: string; test: (lat: number, lng: number) => boolean }[]> = {
+  FL: [{ zone: 'America/Chicago', test: (lat, lng) => lng < -85.0 }], // Panhandle west of the Apalachicola
+  IN: [
+    { zone: 'America/Chicago', test: (lat, lng) => lat > 41.0 && lng < -86.8 }, // Gary / Lake Michigan
+    { zone: 'America/Chicago', test: (lat, lng) => lat < 38.5 && lng < -86.9 } // Evansville
+  ],
+  KY: [{ zone: 'America/Chicago', test: (lat, lng) => lng < -85.9 }],
+  TN: [{ zone: 'America/New_York', test: (lat, lng) => lng > -85.4 }], // East Tennessee
+  MI: [{ zone: 'America/Chicago', test: (lat, lng) => lat > 45.5 && lng < -87.6 }], // Upper Peninsula on the WI border
+  TX: [{ zone: 'America/Denver', test: (lat, lng) => lng < -104.9 }], // El Paso
+  KS: [{ zone: 'America/Denver', test: (lat, lng) => lng < -101.5 }],
+  NE: [{ zone: 'America/Denver', test: (lat, lng) => lng < -101.0 }],
+  SD: [{ zone: 'America/Denver', test: (lat, lng) => lng < -100.5 }],
+  ND: [{ zone: 'America/Denver', test: (lat, lng) => lat < 47.0 && lng < -101.5 }],
+  ID: [{ zone: 'America/Los_Angeles', test: (lat) => lat > 45.5 }], // Panhandle
+  OR: [{ zone: 'America/Boise', test: (lat, lng) => lat < 44.5 && lng > -117.8 }] // Malheur County
+};
+
+/**
+ * IANA time zone for a clinic, from its state code and (for split states) coordinates
+ */
+export function timeZoneForLocation(state?: string, lat?: number, lng?: number): string | null {
+  const code = (state || '').trim().toUpperCase();
+  const zone = STATE_TIME_ZONES[code];
+  if (!zone) return null;
+
+  if (typeof lat === 'number' && typeof lng === 'number') {
+    const region = TIME_ZONE_REGIONS[code]?.find(candidate => candidate.test(lat, lng));
+    if (region) return region.zone;
+  }
+  return zone;
+}
+
+function parseDay(word: string): Weekday | null {
+  const match = DAY_PATTERNS.find(([pattern]) => pattern.test(word.replace(/\.$/, '')));
+  return match ? match[1] : null;
+}
+
+/**
+ * Read a day label: "Monday", "Mon-Fri", "Sat & Sun", "Weekdays", "Mon, Wed, Fri"
+ *
+ * @returns - The days it covers, or null when it isn't a day label
+ */
+export function parseDays(label: string): Weekday[] | null {
+  const text = label.toLowerCase().trim().replace(/\s*(?:\bthrough\b|\bthru\b|\bto\b|–|—)\s*/g, '-');
+  if (DAY_GROUPS[text]) return DAY_GROUPS[text];
+
+  const days: Weekday[] = [];
+  for (const part of text.split(/\s*(?:,|&|\/|\band\b)\s*/).filter(Boolean)) {
+    const [from, to, ...rest] = part.split(/\s*-\s*/);
+    const start = parseDay(from);
+    if (!start || rest.length > 0) return null;
+
+    if (to === undefined) {
+      days.push(start);
+      continue;
+    }
+
+    const end = parseDay(to);
+    if (!end) return null;
+    // Ranges wrap around the week ("Sat-Mon")
+    for (let i = WEEKDAYS.indexOf(start); ; i = (i + 1) % 7) {
+      days.push(WEEKDAYS[i]);
+      if (WEEKDAYS[i] === end) break;
+    }
+  }
+
+  return days.length > 0 ? Array.from(new Set(days)) : null;
+}
+
+interface ParsedTime {
+  hour: number;
+  minute: number;
+  meridiem?: 'a' | 'p';
+  twentyFourHour: boolean; // "17:00" or "09:00"
+}
+
+function parseTime(text: string): ParsedTime | null {
+  const value = text.toLowerCase().replace(/\s+/g, '');
+  if (value === 'noon') return { hour: 12, minute: 0, meridiem: 'p', twentyFourHour: false };
+  if (value === 'midnight') return { hour: 12, minute: 0, meridiem: 'a', twentyFourHour: false };
+
+  const match = value.match(/^(\d{1,2})(?:[:.]?(\d{2}))?(?:([ap])\.?m?\.?)?$/);
+  if (!match) return null;
+
+  const hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  if (hour > 24 || minute > 59) return null;
+
+  return {
+    hour,
+    minute,
+    meridiem: match[3] as ParsedTime['meridiem'],
+    twentyFourHour: !match[3] && (hour > 12 || hour === 0 || match[1].startsWith('0'))
+  };
+}
+
+const toMinutes = (time: ParsedTime, meridiem?: 'a' | 'p'): number =>
+  meridiem ? ((time.hour % 12) + (meridiem === 'p' ? 12 : 0)) * 60 + time.minute : time.hour * 60 + time.minute;
+
+/**
+ * Read one range: "9:00 AM - 5:00 PM", "9am-5pm", "9-5", "08:00-17:00", "10 PM - 2 AM"
+ */
+function parseRange(text: string): ScheduleInterval | null {
+  const parts = text.split(/\s*(?:-|–|—|\bto\b)\s*/).filter(Boolean);
+  if (parts.length !== 2) return null;
+
+  const start = parseTime(parts[0]);
+  const end = parseTime(parts[1]);
+  if (!start || !end) return null;
+
+  let open: number;
+  let close: number;
+
+  if (start.meridiem || end.meridiem) {
+    close = toMinutes(end, end.meridiem || start.meridiem);
+    if (start.meridiem) {
+      open = toMinutes(start, start.meridiem);
+    } else {
+      // "1-5pm" is afternoon, "9-5pm" is morning
+      open = toMinutes(start, end.meridiem);
+      if (open >= close) open = toMinutes(start, 'a');
+    }
+  } else {
+    open = toMinutes(start);
+    close = toMinutes(end);
+    // "9-5" means 9 AM to 5 PM
+    if (!start.twentyFourHour && !end.twentyFourHour && close <= open && close < 12 * 60) close += 12 * 60;
+  }
+
+  // Past midnight: "10 PM - 2 AM", or a close of "12 AM"
+  if (close <= open) close += MINUTES_PER_DAY;
+  if (open >= MINUTES_PER_DAY || close - open > MINUTES_PER_DAY) return null;
+
+  return { open, close };
+}
+
+/**
+ * Read a day's hours text
+ *
+ * @returns - Open intervals (empty when closed), or null when the text has no usable times
+ *   ("By appointment", "Call for hours")
+ */
+export function parseHoursText(text: string): ScheduleInterval[] | null {
+  const value = text.toLowerCase().trim();
+  if (!value) return null;
+  if (/^closed\b/.test(value)) return [];
+  if (/24\s*(hours|hrs|\/\s*7)|open 24/.test(value)) return [{ open: 0, close: MINUTES_PER_DAY }];
+
+  const intervals: ScheduleInterval[] = [];
+  for (const part of value.split(/\s*(?:,|;|\band\b|&)\s*/).filter(Boolean)) {
+    const interval = parseRange(part);
+    if (!interval) return null;
+    intervals.push(interval);
+  }
+
+  return intervals.sort((a, b) => a.open - b.open);
+}
+
+// "Mon-Fri: 9-5" or "Saturday 10am - 2pm" when an import put the whole line in one field
+function splitDayAndHours(line: string): { day: string; hours: string } | null {
+  const match = line.match(/^([a-z.,&\/\s–—-]+?)\s*:?\s+((?:closed|open|\d|noon|midnight).*)$/i);
+  return match && parseDays(match[1]) ? { day: match[1], hours: match[2] } : null;
+}
+
+/**
+ * Build a clinic's schedule from its hours
+ *
+ * @param clinic - Clinic data with hours, hoursExceptions, state and lat/lng
+ * @returns - The schedule, or null when the clinic has no readable hours or no known time zone
+ */
+export function buildClinicSchedule(clinic: Record<string, any>): ClinicSchedule | null {
+  const rows: { day: string; hours: string }[] = Array.isArray(clinic.hours) ? clinic.hours : [];
+  if (rows.length === 0) return null;
+
+  const timeZone = timeZoneForLocation(clinic.state, clinic.lat, clinic.lng);
+  if (!timeZone) return null;
+
+  const weekly = Object.fromEntries(WEEKDAYS.map(day => [day, [] as ScheduleInterval[]])) as Record<Weekday, ScheduleInterval[]>;
+  const unparsed: string[] = [];
+  let closedOnHolidays = false;
+  let parsedDays = 0;
+
+  rows.forEach(row => {
+    if (!row || typeof row.hours !== 'string') return;
+
+    let day = typeof row.day === 'string' ? row.day.trim() : '';
+    let hours = row.hours.trim();
+    if (!day) {
+      const split = splitDayAndHours(hours);
+      if (split) ({ day, hours } = split);
+    }
+
+    if (/^holidays?\b/i.test(day)) {
+      if (parseHoursText(hours)?.length === 0) closedOnHolidays = true;
+      else unparsed.push(`${day}: ${hours}`);
+      return;
+    }
+
+    const days = parseDays(day);
+    const intervals = parseHoursText(hours);
+    if (!days || !intervals) {
+      unparsed.push(day ? `${day}: ${hours}` : hours);
+      return;
+    }
+
+    days.forEach(weekday => weekly[weekday].push(...intervals));
+    parsedDays += days.length;
+  });
+
+  // Nothing readable: no schedule, rather than one that says closed all week
+  if (parsedDays === 0) return null;
+  WEEKDAYS.forEach(day => weekly[day].sort((a, b) => a.open - b.open));
+
+  const exceptions: NonNullable<ClinicSchedule['exceptions']> = [];
+  (Array.isArray(clinic.hoursExceptions) ? clinic.hoursExceptions : []).forEach((exception: any) => {
+    const intervals = typeof exception?.hours === 'string' ? parseHoursText(exception.hours) : null;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(exception?.date || '') || !intervals) {
+      unparsed.push(`${exception?.date || '?'}: ${exception?.hours || ''}`);
+      return;
+    }
+    exceptions.push(exception.label
+      ? { date: exception.date, intervals, label: exception.label }
+      : { date: exception.date, intervals });
+  });
+
+  const schedule: ClinicSchedule = {
+    timeZone,
+    weekly,
+    openWeekends: weekly.sat.length > 0 || weekly.sun.length > 0,
+    openEvenings: WEEKDAYS.some(day => weekly[day].some(interval => interval.close > EVENING_START))
+  };
+
+  // Firestore rejects undefined, so optional fields are only set when present
+  if (exceptions.length > 0) schedule.exceptions = exceptions.sort((a, b) => a.date.localeCompare(b.date));
+  if (closedOnHolidays) schedule.closedOnHolidays = true;
+  if (unparsed.length > 0) schedule.unparsed = unparsed;
+
+  return schedule;
+}
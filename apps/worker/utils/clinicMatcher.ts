@@ -0,0 +1,235 @@
+/**
+ * Fuzzy clinic matching used for duplicate and branch detection during imports
+ */
+
+// Scores at or above this are treated as the same clinic
+export const DUPLICATE_THRESHOLD = 0.85;
+// Scores in [POSSIBLE_DUPLICATE_THRESHOLD, DUPLICATE_THRESHOLD) are imported but flagged for review
+export const POSSIBLE_DUPLICATE_THRESHOLD = 0.6;
+// Same brand name at a clearly different location is a branch
+export const BRANCH_NAME_THRESHOLD = 0.9;
+const BRANCH_MIN_DISTANCE_METERS = 2000;
+
+export interface MatchableClinic {
+  name?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  phone?: string;
+  lat?: number | null;
+  lng?: number | null;
+}
+
+export interface ClinicMatchScore {
+  score: number;
+  nameScore: number;
+  addressScore: number;
+  phoneMatch: boolean | null; // null when either side has no usable phone
+  distanceMeters: number | null;
+  reasons: string[];
+}
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  boulevard: 'blvd',
+  drive: 'dr',
+  lane: 'ln',
+  court: 'ct',
+  circle: 'cir',
+  parkway: 'pkwy',
+  highway: 'hwy',
+  place: 'pl',
+  terrace: 'ter',
+  suite: 'ste',
+  building: 'bldg',
+  floor: 'fl',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+  northeast: 'ne',
+  northwest: 'nw',
+  southeast: 'se',
+  southwest: 'sw'
+};
+
+const NAME_STOP_WORDS = new Set(['the', 'llc', 'inc', 'pllc', 'pc', 'pa', 'corp', 'co', 'ltd', 'of', 'at']);
+
+/**
+ * Lowercase, expand "&", strip punctuation and collapse whitespace
+ */
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * "123 Main Street, Suite #4" and "123 Main St. Ste 4" normalize to the same string
+ */
+export function normalizeAddress(address?: string): string {
+  if (!address) return '';
+
+  return normalizeText(address.replace(/#\s*/g, ' ste '))
+    .split(' ')
+    .map(token => ADDRESS_ABBREVIATIONS[token] || token)
+    .join(' ');
+}
+
+/**
+ * Keep the last 10 digits so "+1 (214) 555-0100" matches "214.555.0100"
+ */
+export function normalizePhone(phone?: string): string {
+  if (!phone || phone === 'invalid') return '';
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : '';
+}
+
+/**
+ * Strip legal suffixes and the clinic's own city from its name, so
+ * "Low T Center - Plano" and "Low-T Center Plano" compare equal
+ */
+export function normalizeClinicName(name?: string, city?: string): string {
+  if (!name) return '';
+
+  const cityTokens = new Set(city ? normalizeText(city).split(' ') : []);
+  const tokens = normalizeText(name)
+    .split(' ')
+    .filter(token => token && !NAME_STOP_WORDS.has(token));
+
+  // Only drop city tokens when something meaningful is left
+  const withoutCity = tokens.filter(token => !cityTokens.has(token));
+  return (withoutCity.length > 0 ? withoutCity : tokens).join(' ');
+}
+
+/**
+ * Dice coefficient over character bigrams (0-1), tolerant of small spelling differences
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const compactA = a.replace(/\s+/g, '');
+  const compactB = b.replace(/\s+/g, '');
+  if (compactA === compactB) return 1;
+  if (compactA.length < 2 || compactB.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < compactA.length - 1; i++) {
+    const bigram = compactA.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < compactB.length - 1; i++) {
+    const bigram = compactB.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (compactA.length + compactB.length - 2);
+}
+
+/**
+ * Haversine distance in meters, or null if either side lacks usable coordinates
+ */
+export function distanceMeters(a: MatchableClinic, b: MatchableClinic): number | null {
+  if (!hasCoordinates(a) || !hasCoordinates(b)) return null;
+
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const earthRadius = 6371000;
+  const dLat = toRad(b.lat! - a.lat!);
+  const dLng = toRad(b.lng! - a.lng!);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat!)) * Math.cos(toRad(b.lat!)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * earthRadius * Math.asin(Math.sqrt(h));
+}
+
+function hasCoordinates(clinic: MatchableClinic): boolean {
+  return typeof clinic.lat === 'number' && typeof clinic.lng === 'number' &&
+    !(clinic.lat === 0 && clinic.lng === 0);
+}
+
+/**
+ * Score how likely two clinic records describe the same location (0-1)
+ */
+export function scoreClinicMatch(incoming: MatchableClinic, existing: MatchableClinic): ClinicMatchScore {
+  const reasons: string[] = [];
+
+  const nameScore = stringSimilarity(
+    normalizeClinicName(incoming.name, incoming.city),
+    normalizeClinicName(existing.name, existing.city)
+  );
+
+  const incomingAddress = normalizeAddress(incoming.address);
+  const existingAddress = normalizeAddress(existing.address);
+  const addressScore = stringSimilarity(incomingAddress, existingAddress);
+
+  const incomingPhone = normalizePhone(incoming.phone);
+  const existingPhone = normalizePhone(existing.phone);
+  const phoneMatch = incomingPhone && existingPhone ? incomingPhone === existingPhone : null;
+
+  // Weighted average over the signals both records actually have
+  let weighted = nameScore * 0.45;
+  let totalWeight = 0.45;
+
+  if (incomingAddress && existingAddress) {
+    weighted += addressScore * 0.35;
+    totalWeight += 0.35;
+  }
+
+  if (phoneMatch !== null) {
+    weighted += (phoneMatch ? 1 : 0) * 0.2;
+    totalWeight += 0.2;
+  }
+
+  let score = weighted / totalWeight;
+
+  const distance = distanceMeters(incoming, existing);
+  if (distance !== null) {
+    if (distance <= 100) {
+      score = Math.min(1, score + 0.1);
+      reasons.push(`within ${Math.round(distance)}m`);
+    } else if (distance > BRANCH_MIN_DISTANCE_METERS) {
+      score *= 0.7;
+      reasons.push(`${(distance / 1000).toFixed(1)}km apart`);
+    }
+  }
+
+  if (nameScore >= BRANCH_NAME_THRESHOLD) reasons.push('name match');
+  if (addressScore >= 0.9) reasons.push('address match');
+  if (phoneMatch) reasons.push('phone match');
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    nameScore,
+    addressScore,
+    phoneMatch,
+    distanceMeters: distance,
+    reasons
+  };
+}
+
+/**
+ * A same-brand record at a clearly different location (another city or far away)
+ */
+export function isBranchOf(incoming: MatchableClinic, existing: MatchableClinic, match: ClinicMatchScore): boolean {
+  if (match.nameScore < BRANCH_NAME_THRESHOLD || match.score >= DUPLICATE_THRESHOLD) return false;
+
+  if (match.distanceMeters !== null) {
+    return match.distanceMeters > BRANCH_MIN_DISTANCE_METERS;
+  }
+
+  return normalizeText(incoming.city || '') !== normalizeText(existing.city || '') || match.addressScore < 0.5;
+}
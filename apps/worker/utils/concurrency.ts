@@ -0,0 +1,71 @@
+import { delay } from './geocodeAddress';
+
+/**
+ * Run handler over an async iterable with at most `concurrency` calls in flight.
+ * The next item is only pulled once a slot frees up, which pushes back on streaming sources.
+ */
+export async function processWithConcurrency<T>(
+  items: AsyncIterable<T>,
+  concurrency: number,
+  handler: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  const inFlight = new Set<Promise<void>>();
+  let index = 0;
+
+  for await (const item of items) {
+    const task: Promise<void> = handler(item, index++).finally(() => {
+      inFlight.delete(task);
+    });
+    inFlight.add(task);
+
+    if (inFlight.size >= Math.max(concurrency, 1)) {
+      await Promise.race(inFlight);
+    }
+  }
+
+  await Promise.all(inFlight);
+}
+
+export type RateLimiter = <R>(task: () => Promise<R>) => Promise<R>;
+
+/**
+ * Limit concurrent calls and space their start times (e.g. Nominatim allows one request per second)
+ */
+export function createRateLimiter(concurrency: number, minIntervalMs: number = 0): RateLimiter {
+  const waiting: Array<() => void> = [];
+  let active = 0;
+  let nextStart = 0;
+
+  const acquire = async () => {
+    if (active < Math.max(concurrency, 1)) {
+      active++;
+    } else {
+      // release() hands its slot straight to the next waiter
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+
+    const startAt = Math.max(Date.now(), nextStart);
+    nextStart = startAt + minIntervalMs;
+    if (startAt > Date.now()) {
+      await delay(startAt - Date.now());
+    }
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async <R>(task: () => Promise<R>): Promise<R> => {
+    await acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC.
+ * Supports *, lists, ranges, steps (*\/15, 1-5/2) and month/day names (jan, mon).
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Give up on expressions that can't match (e.g. "0 0 31 2 *") after this long
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(text: string, names: string[] | undefined, offset: number): number {
+  const named = names ? names.indexOf(text.toLowerCase()) : -1;
+  if (named >= 0) return named + offset;
+  if (!/^\d+$/.test(text)) return NaN;
+  return parseInt(text, 10);
+}
+
+function parseField(field: string, label: string, min: number, max: number, names?: string[], nameOffset: number = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (extra !== undefined || !(step > 0) || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Invalid ${label} step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(range, names, nameOffset);
+      end = stepText === undefined ? start : max; // "5/15" means from 5, every 15
+    }
+
+    if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${label} "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @throws When the expression isn't five valid fields
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" needs 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 'day of week', 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0); // 7 is also Sunday
+
+  return {
+    expression: fields.join(' '),
+    minutes: parseField(minute, 'minute', 0, 59),
+    hours: parseField(hour, 'hour', 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 'day of month', 1, 31),
+    months: parseField(month, 'month', 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*'
+  };
+}
+
+/**
+ * Check a cron expression without throwing
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Like cron itself: when both day fields are restricted, either one matching is enough
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time a schedule fires strictly after a moment
+ *
+ * @param schedule - A cron expression or parsed schedule
+ * @param after - Start looking from here (default: now)
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date = new Date()): Date {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that can't match rather than stepping minute by minute
+  while (date.getTime() - after.getTime() <= MAX_LOOKAHEAD_MS) {
+    if (!parsed.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(parsed, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!parsed.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!parsed.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${parsed.expression}" never runs`);
+}
@@ -0,0 +1,164 @@
+import { db } from '../lib/firebase';
+import { doc, getDoc, updateDoc } from '../lib/firebase-compat';
+import {
+  ClinicInput,
+  ClinicProvenance,
+  ClinicQuality,
+  FieldProvenance,
+  GeocodeResult,
+  ImportFileFormat,
+  ProvenanceSource
+} from '../types/clinic';
+import { validateClinicData } from './dataValidation';
+
+/**
+ * Field-level provenance and the stored completeness/quality score (clinic.provenance, clinic.quality)
+ */
+
+// How much each field contributes to completeness; 'location' stands for lat/lng
+export const QUALITY_FIELD_WEIGHTS: Record<string, number> = {
+  name: 10,
+  address: 10,
+  city: 5,
+  state: 5,
+  zip: 5,
+  phone: 15,
+  website: 15,
+  email: 5,
+  services: 15,
+  location: 15
+};
+
+// Default confidence per source when the writer has nothing more specific
+export const SOURCE_CONFIDENCE: Record<ProvenanceSource, number> = {
+  admin: 1,
+  'google-places': 0.9,
+  scraper: 0.75,
+  csv: 0.7,
+  json: 0.7,
+  ndjson: 0.7,
+  xlsx: 0.7,
+  import: 0.6,
+  geocoder: 0.8
+};
+
+// Clinics written before provenance was tracked
+const UNKNOWN_SOURCE_CONFIDENCE = 0.6;
+const ISSUE_PENALTY = 10;
+
+const hasValue = (clinic: Record<string, any>, field: string): boolean => {
+  if (field === 'location') {
+    return typeof clinic.lat === 'number' && typeof clinic.lng === 'number' && clinic.geoAccuracy !== 'failed';
+  }
+
+  const value = clinic[field];
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '' && value !== 'invalid';
+  return value !== undefined && value !== null;
+};
+
+/**
+ * Provenance entries for every tracked field that has a value
+ */
+export function buildFieldProvenance(
+  clinic: Record<string, any>,
+  source: ProvenanceSource,
+  options: { confidence?: number; detail?: string; fields?: string[] } = {}
+): ClinicProvenance {
+  const provenance: ClinicProvenance = {};
+  const fields = options.fields || Object.keys(QUALITY_FIELD_WEIGHTS);
+  const updatedAt = new Date();
+
+  fields.forEach(field => {
+    if (!hasValue(clinic, field)) return;
+
+    const entry: FieldProvenance = {
+      source,
+      confidence: options.confidence ?? SOURCE_CONFIDENCE[source],
+      updatedAt
+    };
+    if (options.detail) entry.detail = options.detail;
+    provenance[field] = entry;
+  });
+
+  return provenance;
+}
+
+/**
+ * Provenance for geocoded coordinates; centroid fallbacks are much less trustworthy than a street match
+ */
+export function buildGeocodeProvenance(result: GeocodeResult): FieldProvenance {
+  const entry: FieldProvenance = {
+    source: 'geocoder',
+    confidence: result.geoAccuracy === 'exact' ? SOURCE_CONFIDENCE.geocoder : result.geoAccuracy === 'approximate' ? 0.4 : 0,
+    updatedAt: new Date()
+  };
+  if (result.geoSource) entry.detail = result.geoSource;
+  return entry;
+}
+
+/**
+ * Map an import file format (or file name) to its provenance source
+ */
+export function importProvenanceSource(format?: ImportFileFormat | string, fileName?: string): ProvenanceSource {
+  const candidate = (format || (fileName?.split('.').pop() ?? '')).toLowerCase();
+  if (candidate === 'jsonl') return 'ndjson';
+  return ['csv', 'json', 'ndjson', 'xlsx', 'google-places'].includes(candidate)
+    ? candidate as ProvenanceSource
+    : 'import';
+}
+
+/**
+ * Dotted update keys (provenance.phone, ...) so partial writes don't replace other fields' provenance
+ */
+export function provenanceUpdates(provenance: ClinicProvenance): Record<string, FieldProvenance> {
+  const updates: Record<string, FieldProvenance> = {};
+  Object.entries(provenance).forEach(([field, entry]) => {
+    updates[`provenance.${field}`] = entry;
+  });
+  return updates;
+}
+
+export function computeQualityScore(clinic: Partial<ClinicInput> & Record<string, any>): ClinicQuality {
+  const provenance: ClinicProvenance = clinic.provenance || {};
+  const missing: string[] = [];
+  let totalWeight = 0;
+  let filledWeight = 0;
+  let confidentWeight = 0;
+
+  Object.entries(QUALITY_FIELD_WEIGHTS).forEach(([field, weight]) => {
+    totalWeight += weight;
+    if (!hasValue(clinic, field)) {
+      missing.push(field);
+      return;
+    }
+
+    filledWeight += weight;
+    confidentWeight += weight * (provenance[field]?.confidence ?? UNKNOWN_SOURCE_CONFIDENCE);
+  });
+
+  // Missing fields already cost completeness; only penalize values that are present but invalid
+  const validation = validateClinicData(clinic);
+  const issues = validation.errors
+    .filter(error => !missing.includes(error.field))
+    .map(error => `${error.field}: ${error.message}`);
+
+  const completeness = Math.round((filledWeight / totalWeight) * 100);
+  const score = Math.max(0, Math.min(100, Math.round((confidentWeight / totalWeight) * 100) - issues.length * ISSUE_PENALTY));
+
+  return { score, completeness, missing, issues, computedAt: new Date() };
+}
+
+/**
+ * Recompute and store the score for one clinic after a partial update. Not logged to clinic
+ * history: the score is derived, and the update that made it stale was logged by its writer.
+ */
+export async function refreshQualityScore(clinicId: string): Promise<ClinicQuality | null> {
+  const clinicRef = doc(db, 'clinics', clinicId);
+  const snapshot = await getDoc(clinicRef);
+  if (!snapshot.exists()) return null;
+
+  const quality = computeQualityScore(snapshot.data() as Record<string, any>);
+  await updateDoc(clinicRef, { quality });
+  return quality;
+}
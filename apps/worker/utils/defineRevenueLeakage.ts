@@ -1,5 +1,6 @@
 import { db } from '../lib/firebase';
-import { doc, getDoc, updateDoc, arrayUnion } from '../lib/firebase-compat';
+import { doc, getDoc, arrayUnion } from '../lib/firebase-compat';
+import { updateClinicWithHistory } from './clinicHistory';
 
 export interface RevenueLeakage {
   type: 'missed-call-leads' | 'unindexed-premium' | 'traffic-loss' | 'upgrade-missed' | 'seo-gaps';
@@ -82,7 +83,7 @@ export async function defineRevenueLeakage(clinicSlug: string): Promise<RevenueL
       console.log(`💰 Revenue leakage detected for ${clinic.name}: $${totalMonthlyLoss}/month`);
       
       // Update clinic document with leakage data
-      await updateDoc(clinicRef, {
+      await updateClinicWithHistory(clinicSlug, {
         'revenueLeaks': leakages.map(leak => ({
           type: leak.type,
           estimate: leak.estimate,
@@ -95,7 +96,7 @@ export async function defineRevenueLeakage(clinicSlug: string): Promise<RevenueL
           lastAnalyzed: new Date(),
           recommendations
         }
-      });
+      }, { source: 'worker', actor: 'defineRevenueLeakage', action: 'revenue-leakage' });
     }
     
     return result;
@@ -0,0 +1,49 @@
+import { ClinicInput, FieldDiff } from '../types/clinic';
+
+// Fields an import row is allowed to change on an existing clinic
+export const IMPORT_DIFF_FIELDS = ['name', 'address', 'city', 'state', 'zip', 'phone', 'website', 'services'] as const;
+
+/**
+ * Compare an incoming normalized clinic against an existing Firestore doc.
+ * Empty incoming values never overwrite existing data, so they are not reported.
+ */
+export function diffClinicFields(
+  existing: Record<string, any>,
+  incoming: Partial<ClinicInput>,
+  fields: readonly string[] = IMPORT_DIFF_FIELDS
+): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+
+  for (const field of fields) {
+    const after = (incoming as any)[field];
+    if (isEmptyValue(after) || (field === 'phone' && after === 'invalid')) continue;
+
+    const before = existing?.[field];
+    if (!valuesEqual(before, after)) {
+      diffs.push({ field, before: before ?? null, after });
+    }
+  }
+
+  return diffs;
+}
+
+function isEmptyValue(value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const left = Array.isArray(a) ? [...a].map(String).sort() : [];
+    const right = Array.isArray(b) ? [...b].map(String).sort() : [];
+    return left.length === right.length && left.every((value, i) => value === right[i]);
+  }
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  return a === b;
+}
@@ -2,8 +2,8 @@ import { ClinicInput } from '../types/clinic';
 import { WebsiteScrapingResult, ScrapedService } from './enhancedWebsiteScraper';
 import fetch from 'node-fetch';
 import { retryWithBackoff, retryStrategies } from './retryWithBackoff';
-import { db } from '../lib/firebase';
-import { doc, updateDoc, serverTimestamp } from '../lib/firebase-compat';
+import { serverTimestamp } from '../lib/firebase-compat';
+import { updateClinicWithHistory } from './clinicHistory';
 
 /**
  * Enhanced SEO content generator that uses scraped website data
@@ -45,12 +45,12 @@ export async function generateEnhancedSeoContent(
 
     // Clear any previous failure flags if successful
     if (clinicId) {
-      await updateDoc(doc(db, 'clinics', clinicId), {
+      await updateClinicWithHistory(clinicId, {
         needs_seo_content: false,
         seo_generation_failed_at: null,
         seo_generation_error: null,
         seo_content_generated_at: serverTimestamp()
-      });
+      }, { source: 'worker', actor: 'generateEnhancedSeoContent', action: 'seo' });
     }
 
     return content;
@@ -59,12 +59,12 @@ export async function generateEnhancedSeoContent(
     
     // Mark clinic as needing content generation
     if (clinicId) {
-      await updateDoc(doc(db, 'clinics', clinicId), {
+      await updateClinicWithHistory(clinicId, {
         needs_seo_content: true,
         seo_generation_failed_at: serverTimestamp(),
         seo_generation_error: error instanceof Error ? error.message : 'Unknown error',
         seo_generation_attempts: (clinic as any).seo_generation_attempts ? (clinic as any).seo_generation_attempts + 1 : 1
-      });
+      }, { source: 'worker', actor: 'generateEnhancedSeoContent', action: 'seo' });
     }
     
     throw error;
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeocodeResult } from '../types/clinic';
+
+/**
+ * Offline US ZIP / city centroids (data/us-zip-centroids.json) used when no geocoding API answers.
+ * Each entry is ZIP -> [lat, lng, city, state]; city centroids are the mean of their ZIP centroids.
+ */
+
+type ZipEntry = [number, number, string, string];
+
+export interface GazetteerMatch {
+  lat: number;
+  lng: number;
+  city: string;
+  state: string;
+  matchedBy: 'zip' | 'city';
+}
+
+const DATA_PATH = path.join(__dirname, '../data/us-zip-centroids.json');
+
+let zipIndex: Record<string, ZipEntry> | null = null;
+let cityIndex: Map<string, { lat: number; lng: number; city: string; state: string }> | null = null;
+
+// Loaded on first use so tasks that never geocode don't pay for the ~2 MB parse
+function loadZipIndex(): Record<string, ZipEntry> {
+  if (!zipIndex) {
+    try {
+      zipIndex = JSON.parse(fs.readFileSync(DATA_PATH, 'utf-8')) as Record<string, ZipEntry>;
+    } catch (error) {
+      console.warn(`⚠️  Gazetteer data unavailable at ${DATA_PATH}:`, error);
+      zipIndex = {};
+    }
+  }
+  return zipIndex;
+}
+
+function loadCityIndex() {
+  if (!cityIndex) {
+    const sums = new Map<string, { lat: number; lng: number; count: number; city: string; state: string }>();
+
+    Object.values(loadZipIndex()).forEach(([lat, lng, city, state]) => {
+      const key = cityKey(city, state);
+      const entry = sums.get(key) || { lat: 0, lng: 0, count: 0, city, state };
+      entry.lat += lat;
+      entry.lng += lng;
+      entry.count++;
+      sums.set(key, entry);
+    });
+
+    cityIndex = new Map();
+    sums.forEach((entry, key) => {
+      cityIndex!.set(key, {
+        lat: Number((entry.lat / entry.count).toFixed(4)),
+        lng: Number((entry.lng / entry.count).toFixed(4)),
+        city: entry.city,
+        state: entry.state
+      });
+    });
+  }
+  return cityIndex;
+}
+
+function cityKey(city: string, state: string): string {
+  const normalizedCity = city
+    .toLowerCase()
+    .replace(/\bsaint\b/g, 'st')
+    .replace(/\bfort\b/g, 'ft')
+    .replace(/\bmount\b/g, 'mt')
+    .replace(/[^a-z0-9]/g, '');
+  return `${normalizedCity}|${state.trim().toUpperCase()}`;
+}
+
+export function lookupZip(zip: string): GazetteerMatch | null {
+  const zip5 = zip.trim().match(/^(\d{5})/)?.[1];
+  const entry = zip5 ? loadZipIndex()[zip5] : undefined;
+  if (!entry) return null;
+
+  const [lat, lng, city, state] = entry;
+  return { lat, lng, city, state, matchedBy: 'zip' };
+}
+
+export function lookupCity(city: string, state: string): GazetteerMatch | null {
+  const entry = loadCityIndex().get(cityKey(city, state));
+  return entry ? { ...entry, matchedBy: 'city' } : null;
+}
+
+/**
+ * Approximate coordinates from the bundled dataset: ZIP centroid first, then city centroid.
+ * A ZIP whose state contradicts the given state is ignored (typo'd ZIPs are common in vendor files).
+ */
+export function geocodeFromGazetteer(city?: string, state?: string, zip?: string): GeocodeResult | null {
+  const byZip = zip ? lookupZip(zip) : null;
+  const match = byZip && (!state || byZip.state === state.trim().toUpperCase())
+    ? byZip
+    : city && state
+      ? lookupCity(city, state)
+      : null;
+
+  if (!match) return null;
+
+  return {
+    lat: match.lat,
+    lng: match.lng,
+    geoAccuracy: 'approximate',
+    geoSource: 'gazetteer',
+    geoPrecision: match.matchedBy
+  };
+}
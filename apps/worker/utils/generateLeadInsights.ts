@@ -419,6 +419,7 @@ function generateRecommendations(insights: LeadInsights, trends: any): string[]
 
 async function updateClinicLeadStats(clinicSlug: string, insights: LeadInsights): Promise<void> {
   try {
+    // Lead stats are aggregates of the leads collection, so they are left out of clinic history
     const clinicRef = doc(db, 'clinics', clinicSlug);
     await updateDoc(clinicRef, {
       'leadStats.totalLeads': insights.totalLeads,
@@ -1,6 +1,12 @@
 import admin from '../lib/firebase';
 
-export async function generateSlug(clinicName: string, city: string, state: string, forceLocation: boolean = false): Promise<string> {
+export async function generateSlug(
+  clinicName: string,
+  city: string,
+  state: string,
+  forceLocation: boolean = false,
+  reserved?: Set<string> // Slugs claimed by concurrent rows that are not written yet
+): Promise<string> {
   // Create base slug from clinic name, city, and state
   const baseSlug = createBaseSlug(clinicName, city, state, forceLocation);
   
@@ -9,7 +15,8 @@ export async function generateSlug(clinicName: string, city: string, state: stri
   let finalSlug = baseSlug;
   let counter = 1;
   
-  while (await slugExists(db, finalSlug)) {
+  // reserved is re-checked after the Firestore lookup because another row may have claimed the slug meanwhile
+  while (reserved?.has(finalSlug) || await slugExists(db, finalSlug) || reserved?.has(finalSlug)) {
     counter++;
     finalSlug = `${baseSlug}-${counter}`;
     
@@ -19,6 +26,7 @@ export async function generateSlug(clinicName: string, city: string, state: stri
     }
   }
   
+  reserved?.add(finalSlug);
   return finalSlug;
 }
 
@@ -27,13 +35,7 @@ function createBaseSlug(name: string, city: string, state: string, forceLocation
   let combined;
   if (forceLocation) {
     // Clean name first, then add location
-    const cleanName = name
-      .toLowerCase()
-      .trim()
-      .replace(/\b(llc|inc|corp|corporation|company|co|ltd|limited|clinic|medical|center|health|mens|men's)\b/g, '')
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/[\s-]+/g, '-')
-      .replace(/^-+|-+$/g, '');
+    const cleanName = cleanBrandName(name);
     
     combined = `${cleanName}-${city.toLowerCase()}-${state.toLowerCase()}`;
   } else {
@@ -57,6 +59,21 @@ function createBaseSlug(name: string, city: string, state: string, forceLocation
     .replace(/-+$/, '');
 }
 
+// Brand part of a branch slug, also used as the clinic_groups doc ID
+export function generateGroupSlug(name: string): string {
+  return cleanBrandName(name).substring(0, 60).replace(/-+$/, '');
+}
+
+function cleanBrandName(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/\b(llc|inc|corp|corporation|company|co|ltd|limited|clinic|medical|center|health|mens|men's)\b/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/[\s-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
 async function slugExists(db: FirebaseFirestore.Firestore, slug: string): Promise<boolean> {
   try {
     const doc = await db.collection('clinics').doc(slug).get();
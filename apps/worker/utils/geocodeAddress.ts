@@ -1,7 +1,30 @@
 import fetch from 'node-fetch';
-import { GeocodeResult } from '../types/clinic';
+import { GeocodePrecision, GeocodeResult } from '../types/clinic';
+import { geocodeFromGazetteer } from './gazetteer';
+
+const PRECISION_RANK: Record<GeocodePrecision, number> = { region: 0, city: 1, zip: 2, street: 3, address: 4 };
+
+/**
+ * Whether a result pins a clinic down more closely than what it has now (unknown counts as least precise)
+ */
+export function isMorePrecise(result?: GeocodePrecision, current?: GeocodePrecision): boolean {
+  return PRECISION_RANK[result || 'region'] > (current ? PRECISION_RANK[current] : -1);
+}
+
+export interface GeocodeOptions {
+  // Fall back to bundled ZIP/city centroids when both APIs fail (default: true)
+  allowGazetteer?: boolean;
+}
+
+export async function geocodeAddress(
+  address: string,
+  city?: string,
+  state?: string,
+  zip?: string,
+  options: GeocodeOptions = {}
+): Promise<GeocodeResult> {
+  const { allowGazetteer = true } = options;
 
-export async function geocodeAddress(address: string, city?: string, state?: string, zip?: string): Promise<GeocodeResult> {
   // Build full address string
   const fullAddress = buildFullAddress(address, city, state, zip);
   
@@ -27,12 +50,20 @@ export async function geocodeAddress(address: string, city?: string, state?: str
     return await geocodeWithNominatim(fullAddress);
   } catch (error) {
     console.error('Geocoding failed for address:', fullAddress, error);
-    return {
-      lat: 0,
-      lng: 0,
-      geoAccuracy: 'failed'
-    };
   }
+  
+  // Last resort: offline ZIP/city centroid, good enough for radius search and map pins
+  const approximate = allowGazetteer ? geocodeFromGazetteer(city, state, zip) : null;
+  if (approximate) {
+    console.warn(`📍 Using approximate ZIP/city centroid for: ${fullAddress}`);
+    return approximate;
+  }
+  
+  return {
+    lat: 0,
+    lng: 0,
+    geoAccuracy: 'failed'
+  };
 }
 
 async function geocodeWithGoogle(address: string): Promise<GeocodeResult> {
@@ -56,7 +87,9 @@ async function geocodeWithGoogle(address: string): Promise<GeocodeResult> {
     return {
       lat: location.lat,
       lng: location.lng,
-      geoAccuracy: accuracy
+      geoAccuracy: accuracy,
+      geoSource: 'google',
+      geoPrecision: googlePrecision(result)
     };
   }
   
@@ -88,13 +121,36 @@ async function geocodeWithNominatim(address: string): Promise<GeocodeResult> {
     return {
       lat: parseFloat(result.lat),
       lng: parseFloat(result.lon),
-      geoAccuracy: accuracy
+      geoAccuracy: accuracy,
+      geoSource: 'nominatim',
+      geoPrecision: nominatimPrecision(result)
     };
   }
   
   throw new Error('Nominatim geocoding returned no results');
 }
 
+function googlePrecision(result: any): GeocodePrecision {
+  const types: string[] = result.types || [];
+  const locationType = result.geometry?.location_type;
+
+  if (locationType === 'ROOFTOP' || locationType === 'RANGE_INTERPOLATED') return 'address';
+  if (types.some(type => ['street_address', 'premise', 'subpremise', 'establishment', 'point_of_interest'].includes(type))) return 'address';
+  if (types.includes('route') || types.includes('intersection')) return 'street';
+  if (types.includes('postal_code')) return 'zip';
+  if (types.some(type => ['locality', 'sublocality', 'neighborhood', 'postal_town'].includes(type))) return 'city';
+  return 'region';
+}
+
+function nominatimPrecision(result: any): GeocodePrecision {
+  if (result.class === 'building' || result.type === 'house') return 'address';
+  if (['amenity', 'healthcare', 'office', 'shop'].includes(result.class)) return 'address';
+  if (result.class === 'highway') return 'street';
+  if (result.type === 'postcode') return 'zip';
+  if (result.class === 'place' && ['city', 'town', 'village', 'hamlet', 'suburb', 'neighbourhood'].includes(result.type)) return 'city';
+  return 'region';
+}
+
 function buildFullAddress(address: string, city?: string, state?: string, zip?: string): string {
   const parts = [address, city, state, zip].filter(part => part && part.trim() !== '');
   return parts.join(', ');
@@ -0,0 +1,53 @@
+/**
+ * Geohash encoding for clinic coordinates (clinic.geohash). The web search runs radius queries
+ * as geohash prefix ranges, so the encoding here must match utils/geoUtils.ts in apps/web.
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// 9 characters is a ~5m cell - enough for any prefix the radius search asks for
+export const GEOHASH_PRECISION = 9;
+
+export function encodeGeohash(lat: number, lng: number, precision: number = GEOHASH_PRECISION): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // Longitude first
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const coordinate = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Geohash for a clinic's coordinates, or null when it has none worth indexing
+ * (missing, failed geocode, or the 0,0 placeholder)
+ */
+export function clinicGeohash(clinic: { lat?: number | null; lng?: number | null; geoAccuracy?: string }): string | null {
+  if (typeof clinic.lat !== 'number' || typeof clinic.lng !== 'number') return null;
+  if (!Number.isFinite(clinic.lat) || !Number.isFinite(clinic.lng)) return null;
+  if (clinic.geoAccuracy === 'failed' || (clinic.lat === 0 && clinic.lng === 0)) return null;
+
+  return encodeGeohash(clinic.lat, clinic.lng);
+}
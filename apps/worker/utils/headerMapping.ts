@@ -0,0 +1,99 @@
+import { RawClinic } from '../types/clinic';
+import { HEADER_ALIASES, normalizeHeaderKey } from './importParsing';
+
+// Maps a source column header to a RawClinic field
+export type HeaderMapping = Record<string, string>;
+
+export { normalizeHeaderKey };
+
+export const MAPPABLE_FIELDS = Object.keys(HEADER_ALIASES);
+
+/**
+ * Work out which clinic field each source header feeds. Explicit overrides win;
+ * unrecognised headers are kept under their normalized key so nothing is lost.
+ */
+export function buildHeaderMapping(headers: string[], overrides: HeaderMapping = {}): HeaderMapping {
+  const normalizedOverrides: HeaderMapping = {};
+  Object.entries(overrides).forEach(([header, field]) => {
+    normalizedOverrides[normalizeHeaderKey(header)] = field;
+  });
+
+  const mapping: HeaderMapping = {};
+  const usedFields = new Set<string>();
+
+  headers.forEach(header => {
+    const key = normalizeHeaderKey(header);
+    if (!key) return;
+
+    if (normalizedOverrides[key]) {
+      mapping[header] = normalizedOverrides[key];
+      usedFields.add(normalizedOverrides[key]);
+      return;
+    }
+
+    // First column to claim a field keeps it (e.g. "Phone" before "Phone 2")
+    const field = MAPPABLE_FIELDS.find(candidate => HEADER_ALIASES[candidate].includes(key));
+    if (field && !usedFields.has(field)) {
+      mapping[header] = field;
+      usedFields.add(field);
+    } else {
+      mapping[header] = key;
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Convert a row keyed by source headers into a RawClinic
+ */
+export function applyHeaderMapping(row: Record<string, any>, mapping: HeaderMapping): RawClinic {
+  const clinic: RawClinic = {};
+
+  Object.entries(row).forEach(([header, value]) => {
+    const field = mapping[header] || normalizeHeaderKey(header);
+    if (!field || value === null || value === undefined) return;
+
+    const text = String(value).trim();
+    if (text !== '' && clinic[field] === undefined) {
+      clinic[field] = text;
+    }
+  });
+
+  return clinic;
+}
+
+/**
+ * Rename explicitly mapped columns on a record whose keys were already normalized by the CSV/JSON parsers
+ */
+export function applyFieldOverrides(record: RawClinic, headerMapping?: HeaderMapping): RawClinic {
+  if (!headerMapping || Object.keys(headerMapping).length === 0) return record;
+
+  const mapped: RawClinic = { ...record };
+  Object.entries(headerMapping).forEach(([header, field]) => {
+    const key = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (key !== field && record[key] !== undefined) {
+      mapped[field] = record[key];
+      delete mapped[key];
+    }
+  });
+  return mapped;
+}
+
+/**
+ * Parse a CLI mapping argument such as "Practice Name=name,Tel=phone"
+ */
+export function parseHeaderMappingArg(arg: string): HeaderMapping {
+  const mapping: HeaderMapping = {};
+
+  arg.split(',').forEach(pair => {
+    const separator = pair.lastIndexOf('=');
+    if (separator <= 0) return;
+
+    const header = pair.substring(0, separator).trim();
+    const field = pair.substring(separator + 1).trim();
+    if (header && field) mapping[header] = field;
+  });
+
+  return mapping;
+}
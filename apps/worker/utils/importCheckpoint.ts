@@ -0,0 +1,56 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+// Sessions without an update for this long are treated as orphaned by a dead worker
+export const IMPORT_HEARTBEAT_TIMEOUT_MS = parseInt(process.env.IMPORT_HEARTBEAT_TIMEOUT_MS || '', 10) || 10 * 60 * 1000;
+
+export interface ImportCheckpoint {
+  lastProcessedIndex: number;
+  inputHash: string;
+}
+
+/**
+ * Hash an import file so a resumed run can verify it is reading the same input.
+ * Streamed so national-scale files are never held in memory.
+ */
+export async function hashImportFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Hash queued import records (import_jobs payloads have no backing file)
+ */
+export function hashImportRecords(records: any[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(records)).digest('hex');
+}
+
+export function createCheckpoint(lastProcessedIndex: number, inputHash: string): ImportCheckpoint {
+  return { lastProcessedIndex, inputHash };
+}
+
+/**
+ * Index of the first row still to be processed for a stored checkpoint
+ */
+export function getResumeIndex(checkpoint?: ImportCheckpoint | null): number {
+  if (!checkpoint || typeof checkpoint.lastProcessedIndex !== 'number') return 0;
+  return checkpoint.lastProcessedIndex + 1;
+}
+
+/**
+ * Check whether a session heartbeat (Firestore Timestamp, Date or millis) has expired
+ */
+export function isHeartbeatStale(heartbeat: any, timeoutMs: number = IMPORT_HEARTBEAT_TIMEOUT_MS): boolean {
+  if (!heartbeat) return true;
+
+  const millis = typeof heartbeat.toMillis === 'function'
+    ? heartbeat.toMillis()
+    : heartbeat instanceof Date
+      ? heartbeat.getTime()
+      : Number(heartbeat);
+
+  return !millis || Date.now() - millis > timeoutMs;
+}
@@ -0,0 +1,197 @@
+import { db } from '../lib/firebase';
+import { collection, doc, getDoc, getDocs, setDoc, updateDoc, serverTimestamp, Timestamp } from '../lib/firebase-compat';
+import { recordClinicChange } from './clinicHistory';
+
+/**
+ * Per-session journal of clinic writes (import_sessions/{sessionId}/changes/{clinicId}) used to roll an import back.
+ * Updated clinics keep their before-image; inserted clinics are deleted on rollback.
+ */
+
+export type ImportChangeAction = 'inserted' | 'updated';
+
+export interface ImportChange {
+  clinicId: string;
+  action: ImportChangeAction;
+  before: Record<string, any> | null; // Clinic document as it was before the session first touched it
+  writtenAt: Date; // When the import last wrote the clinic; history entries after it are edits made since
+  recordedAt?: any;
+  rolledBackAt?: any;
+}
+
+export interface RollbackConflict {
+  clinicId: string;
+  action: ImportChangeAction;
+  reason: 'modified' | 'deleted';
+  changedAt?: string; // Latest edit since the import
+  changedBy?: string; // Its history actor
+}
+
+export interface RollbackReport {
+  sessionId: string;
+  restored: number;
+  deleted: number;
+  skipped: number; // Already rolled back by an earlier run, or inserted clinics deleted since
+  conflicts: RollbackConflict[];
+  errors: string[];
+  dryRun: boolean;
+}
+
+export interface RollbackOptions {
+  force?: boolean; // Roll back conflicting clinics too, discarding edits made since the import
+  dryRun?: boolean;
+}
+
+const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toDate === 'function') return value.toDate().getTime();
+  const parsed = new Date(value).getTime();
+  return isNaN(parsed) ? null : parsed;
+};
+
+export function buildImportChange(
+  clinicId: string,
+  action: ImportChangeAction,
+  before: Record<string, any> | null,
+  writtenAt: Date
+): ImportChange {
+  return { clinicId, action, before, writtenAt, recordedAt: serverTimestamp() };
+}
+
+/**
+ * Record a clinic write. If the session already touched this clinic, the original before-image is kept.
+ */
+export async function recordImportChange(
+  sessionId: string,
+  clinicId: string,
+  action: ImportChangeAction,
+  before: Record<string, any> | null,
+  writtenAt: Date
+): Promise<void> {
+  const changeRef = doc(db, 'import_sessions', sessionId, 'changes', clinicId);
+
+  try {
+    const existing = await getDoc(changeRef);
+    if (existing.exists()) {
+      await updateDoc(changeRef, { writtenAt });
+      return;
+    }
+
+    await setDoc(changeRef, buildImportChange(clinicId, action, before, writtenAt));
+  } catch (error) {
+    // A missing journal entry only limits rollback; it must not fail the import itself
+    console.warn(`Failed to record import change for ${clinicId}:`, error);
+  }
+}
+
+/**
+ * Latest clinics/{id}/history entry written after the import, ignoring the session's own entries.
+ * History is used rather than updatedAt because not every writer bumps updatedAt.
+ */
+async function findEditSinceImport(
+  clinicRef: FirebaseFirestore.DocumentReference,
+  sessionId: string,
+  writtenAt: number
+): Promise<{ changedAt: number; actor?: string } | null> {
+  const history = await clinicRef.collection('history')
+    .where('changedAt', '>', new Date(writtenAt))
+    .orderBy('changedAt', 'desc')
+    .get();
+
+  const edit = history.docs.map(entry => entry.data()).find(entry => entry.sessionId !== sessionId);
+  if (!edit) return null;
+  return { changedAt: toMillis(edit.changedAt) ?? writtenAt, actor: edit.actor };
+}
+
+/**
+ * Restore updated clinics to their before-images and delete the clinics the session inserted.
+ * Clinics with history entries from anyone else since the import's write are reported as conflicts
+ * and left alone unless forced.
+ */
+export async function rollbackImportSession(sessionId: string, options: RollbackOptions = {}): Promise<RollbackReport> {
+  const { force = false, dryRun = false } = options;
+  const report: RollbackReport = { sessionId, restored: 0, deleted: 0, skipped: 0, conflicts: [], errors: [], dryRun };
+
+  const session = await getDoc(doc(db, 'import_sessions', sessionId));
+  if (!session.exists()) {
+    throw new Error(`Import session not found: ${sessionId}`);
+  }
+
+  const changes = await getDocs(collection(db, `import_sessions/${sessionId}/changes`));
+  console.log(`⏪ Rolling back ${changes.size} clinic change(s) from session ${sessionId}${dryRun ? ' (DRY RUN)' : ''}`);
+
+  for (const changeDoc of changes.docs) {
+    const change = changeDoc.data() as ImportChange;
+
+    if (change.rolledBackAt) {
+      report.skipped++;
+      continue;
+    }
+
+    try {
+      const clinicRef = db.collection('clinics').doc(change.clinicId);
+      const current = await clinicRef.get();
+      const writtenAt = toMillis(change.writtenAt);
+      const edit = current.exists && writtenAt !== null ? await findEditSinceImport(clinicRef, sessionId, writtenAt) : null;
+
+      let conflict: RollbackConflict | null = null;
+      if (!current.exists && change.action === 'updated') {
+        conflict = { clinicId: change.clinicId, action: change.action, reason: 'deleted' };
+      } else if (edit) {
+        conflict = {
+          clinicId: change.clinicId,
+          action: change.action,
+          reason: 'modified',
+          changedAt: new Date(edit.changedAt).toISOString()
+        };
+        if (edit.actor) conflict.changedBy = edit.actor;
+      }
+
+      if (conflict) {
+        report.conflicts.push(conflict);
+        if (!force) {
+          console.warn(`   ⚠️  ${change.clinicId}: ${conflict.reason} since import, skipped`);
+          continue;
+        }
+      }
+
+      if (change.action === 'inserted' || !change.before) {
+        if (!current.exists) {
+          // Already removed by someone else - nothing to undo
+          report.skipped++;
+        } else {
+          if (!dryRun) {
+            // Also removes the analytics/traffic_logs placeholders created on insert
+            await db.recursiveDelete(clinicRef);
+          }
+          report.deleted++;
+        }
+      } else {
+        if (!dryRun) {
+          await clinicRef.set(change.before);
+          await recordClinicChange(change.clinicId, current.data() || null, change.before, {
+            source: 'import',
+            actor: `import_sessions/${sessionId}`,
+            action: 'rollback',
+            sessionId
+          });
+        }
+        report.restored++;
+      }
+
+      if (!dryRun) {
+        await updateDoc(changeDoc.ref, { rolledBackAt: serverTimestamp() });
+      }
+    } catch (error) {
+      report.errors.push(`${change.clinicId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(
+    `⏪ Rollback ${dryRun ? 'preview' : 'complete'}: ${report.restored} restored, ${report.deleted} deleted, ` +
+    `${report.conflicts.length} conflict(s), ${report.errors.length} error(s)`
+  );
+
+  return report;
+}
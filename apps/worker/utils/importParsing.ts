@@ -0,0 +1,73 @@
+/**
+ * Header aliases, column splitting and Places-dump detection shared by the worker import and the
+ * web import form (apps/web/utils/importFileParsers.ts imports this file). Keep it free of imports
+ * so it builds in both apps.
+ */
+
+// Known spellings of each clinic field in spreadsheets and exports, compared after normalizeHeaderKey
+export const HEADER_ALIASES: Record<string, string[]> = {
+  name: ['name', 'clinicname', 'practicename', 'businessname', 'company', 'companyname', 'clinic', 'practice', 'title'],
+  address: ['address', 'address1', 'streetaddress', 'street', 'addressline1', 'address1line'],
+  city: ['city', 'town', 'locality'],
+  state: ['state', 'st', 'province', 'region', 'stateprovince'],
+  zip: ['zip', 'zipcode', 'postalcode', 'postcode', 'zippostalcode'],
+  phone: ['phone', 'phonenumber', 'telephone', 'tel', 'mainphone', 'officephone', 'phone1'],
+  website: ['website', 'websiteurl', 'url', 'web', 'site', 'homepage'],
+  services: ['services', 'treatments', 'specialties', 'servicesoffered'],
+  package: ['package', 'tier', 'plan', 'packagetier'],
+  status: ['status', 'clinicstatus'],
+  email: ['email', 'emailaddress', 'contactemail'],
+  lat: ['lat', 'latitude'],
+  lng: ['lng', 'lon', 'long', 'longitude']
+};
+
+export function normalizeHeaderKey(header: string): string {
+  return String(header).toLowerCase().trim().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * "Dallas, TX 75201" / "Dallas TX 75201-1234" -> city, state, zip
+ */
+export function splitCityStateZip(value: string): { city?: string; state?: string; zip?: string } {
+  const match = value.trim().match(/^(.*?)[,\s]+([A-Za-z]{2})\.?(?:\s+(\d{5}(?:-\d{4})?))?$/);
+  if (!match) {
+    return { city: value.trim() };
+  }
+
+  return {
+    city: match[1].replace(/,$/, '').trim(),
+    state: match[2].toUpperCase(),
+    zip: match[3]
+  };
+}
+
+/**
+ * "123 Main St, Suite 4, Dallas, TX 75201" -> address, city, state, zip
+ */
+export function splitFullAddress(value: string): { address?: string; city?: string; state?: string; zip?: string } {
+  const parts = value.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length < 2) {
+    return { address: value.trim() };
+  }
+
+  // The last one or two parts hold "City, ST ZIP" or "City ST ZIP"
+  const tail = splitCityStateZip(parts.slice(-2).join(', '));
+  if (tail.state && parts.length >= 3) {
+    return { address: parts.slice(0, -2).join(', '), ...tail };
+  }
+
+  const lastOnly = splitCityStateZip(parts[parts.length - 1]);
+  return { address: parts.slice(0, -1).join(', '), ...lastOnly };
+}
+
+/**
+ * Check whether parsed JSON looks like a Google Places API dump rather than clinic records
+ */
+export function isGooglePlacesDump(data: any): boolean {
+  const sample = Array.isArray(data) ? data[0] : data;
+  if (!sample || typeof sample !== 'object') return false;
+
+  if (Array.isArray(sample.results) || Array.isArray(sample.places) || sample.result) return true;
+
+  return Boolean(sample.place_id || sample.formatted_address || sample.displayName || sample.formattedAddress);
+}
@@ -1,46 +1,58 @@
 import admin from '../lib/firebase';
-import { ClinicDocument, SeoMeta } from '../types/clinic';
+import { ClinicDocument, SeoMeta, FieldDiff, ProvenanceSource } from '../types/clinic';
+import { recordImportChange, buildImportChange } from './importJournal';
+import { buildFieldProvenance, computeQualityScore, provenanceUpdates } from './dataQuality';
+import { buildClinicSchedule } from './clinicHours';
+import { buildClinicChange, clinicHistoryRef, recordClinicChange, ClinicChangeMeta } from './clinicHistory';
+
+export interface ClinicWriteResult {
+  action: 'inserted' | 'updated';
+  slug: string;
+}
+
+interface PendingClinicWrite {
+  clinicData: Omit<ClinicDocument, 'slug'>;
+  slug: string;
+  seoMeta: SeoMeta;
+  seoContent: string;
+  resolve: (result: ClinicWriteResult) => void;
+  reject: (error: any) => void;
+}
+
+function importChangeMeta(action: 'inserted' | 'updated', sessionId?: string): ClinicChangeMeta {
+  return sessionId
+    ? { source: 'import', actor: `import_sessions/${sessionId}`, action, sessionId }
+    : { source: 'import', actor: 'importClinics', action };
+}
 
 export async function insertOrUpdateClinic(
   clinicData: Omit<ClinicDocument, 'slug'>,
   slug: string,
   seoMeta: SeoMeta,
-  seoContent: string
+  seoContent: string,
+  sessionId?: string // Journals the write so the import session can be rolled back
 ): Promise<{ action: 'inserted' | 'updated'; slug: string }> {
   
   const db = admin.firestore();
   const clinicRef = db.collection('clinics').doc(slug);
+  let before: Record<string, any> | null | undefined; // undefined until the existing doc has been read
   
   try {
     // Check if clinic already exists
     const existingDoc = await clinicRef.get();
     const exists = existingDoc.exists;
+    before = exists ? existingDoc.data() || null : null;
     
     // Prepare the document data
-    const documentData: ClinicDocument = {
-      ...clinicData,
-      slug,
-      seoMeta,
-      seoContent,
-      updatedAt: new Date()
-    };
+    const documentData = buildClinicDocument(clinicData, slug, seoMeta, seoContent, before);
     
     if (exists) {
-      // Update existing clinic
-      const existingData = existingDoc.data();
-      
-      // Merge tags (keep existing tags and add new ones)
-      const existingTags = existingData?.tags || [];
-      const newTags = documentData.tags || [];
-      documentData.tags = [...new Set([...existingTags, ...newTags])];
-      
-      // Keep original createdAt
-      if (existingData?.createdAt) {
-        documentData.createdAt = existingData.createdAt;
-      }
-      
       // Update the document
       await clinicRef.set(documentData, { merge: false }); // Full replace to ensure clean data
+      if (sessionId) {
+        await recordImportChange(sessionId, slug, 'updated', before, documentData.updatedAt);
+      }
+      await recordClinicChange(slug, before, documentData, importChangeMeta('updated', sessionId));
       
       console.log(`✅ Updated existing clinic: ${slug}`);
       return { action: 'updated', slug };
@@ -48,6 +60,10 @@ export async function insertOrUpdateClinic(
     } else {
       // Insert new clinic
       await clinicRef.set(documentData);
+      if (sessionId) {
+        await recordImportChange(sessionId, slug, 'inserted', null, documentData.updatedAt);
+      }
+      await recordClinicChange(slug, null, documentData, importChangeMeta('inserted', sessionId));
       
       // Initialize subcollections if needed
       await initializeSubcollections(clinicRef);
@@ -69,10 +85,16 @@ export async function insertOrUpdateClinic(
         slug,
         seoMeta,
         seoContent,
+        quality: computeQualityScore(clinicData),
         updatedAt: new Date()
       };
       
       await clinicRef.set(documentData);
+      // Without a before-image the write can't be undone safely, so it is left out of the journal
+      if (sessionId && before !== undefined) {
+        await recordImportChange(sessionId, slug, before ? 'updated' : 'inserted', before, documentData.updatedAt);
+      }
+      await recordClinicChange(slug, before, documentData, importChangeMeta(before ? 'updated' : 'inserted', sessionId));
       console.log(`✅ Retry successful for clinic: ${slug}`);
       return { action: 'inserted', slug };
       
@@ -83,22 +105,103 @@ export async function insertOrUpdateClinic(
   }
 }
 
+// Apply the field-level changes from an approved import plan to an existing clinic
+export async function updateExistingClinic(
+  clinicId: string,
+  diff: FieldDiff[],
+  sessionId?: string,
+  source?: ProvenanceSource
+): Promise<{ action: 'updated'; slug: string }> {
+  const db = admin.firestore();
+  const clinicRef = db.collection('clinics').doc(clinicId);
+  const before = (await clinicRef.get()).data() || null;
+
+  const updates: Record<string, any> = { updatedAt: new Date() };
+  diff.forEach(change => {
+    updates[change.field] = change.after;
+  });
+  
+  const merged = { ...before, ...updates };
+  if (source) {
+    const provenance = buildFieldProvenance(merged, source, { fields: diff.map(change => change.field) });
+    Object.assign(updates, provenanceUpdates(provenance));
+    merged.provenance = { ...before?.provenance, ...provenance };
+  }
+  updates.quality = computeQualityScore(merged);
+  const schedule = buildClinicSchedule(merged);
+  if (schedule) updates.schedule = schedule;
+
+  await clinicRef.update(updates);
+  if (sessionId) {
+    await recordImportChange(sessionId, clinicId, 'updated', before, updates.updatedAt);
+  }
+  // Dotted provenance keys are folded into merged, so it is the full after image
+  await recordClinicChange(clinicId, before, merged, importChangeMeta('updated', sessionId));
+
+  console.log(`✅ Merged ${diff.length} field(s) into existing clinic: ${clinicId}`);
+  return { action: 'updated', slug: clinicId };
+}
+
+function buildClinicDocument(
+  clinicData: Omit<ClinicDocument, 'slug'>,
+  slug: string,
+  seoMeta: SeoMeta,
+  seoContent: string,
+  existingData: Record<string, any> | null,
+  updatedAt: Date = new Date()
+): ClinicDocument {
+  const documentData: ClinicDocument = {
+    ...clinicData,
+    slug,
+    seoMeta,
+    seoContent,
+    updatedAt
+  };
+  
+  if (existingData) {
+    // Merge tags (keep existing tags and add new ones)
+    const existingTags = existingData.tags || [];
+    const newTags = documentData.tags || [];
+    documentData.tags = [...new Set([...existingTags, ...newTags])];
+    
+    // Keep original createdAt
+    if (existingData.createdAt) {
+      documentData.createdAt = existingData.createdAt;
+    }
+    
+    // Fields this write didn't supply keep their earlier provenance
+    if (existingData.provenance) {
+      documentData.provenance = { ...existingData.provenance, ...documentData.provenance };
+    }
+  }
+  
+  documentData.quality = computeQualityScore(documentData);
+  const schedule = buildClinicSchedule(documentData);
+  if (schedule) documentData.schedule = schedule;
+  
+  return documentData;
+}
+
+// Placeholder docs every new clinic starts with
+function subcollectionPlaceholders(clinicRef: FirebaseFirestore.DocumentReference) {
+  return [
+    {
+      ref: clinicRef.collection('analytics').doc('summary'),
+      data: { views: 0, calls: 0, websiteClicks: 0, lastUpdated: new Date(), createdAt: new Date() }
+    },
+    {
+      ref: clinicRef.collection('traffic_logs').doc('_placeholder'),
+      data: { note: 'This collection will store traffic analytics', createdAt: new Date() }
+    }
+  ];
+}
+
 async function initializeSubcollections(clinicRef: FirebaseFirestore.DocumentReference): Promise<void> {
   try {
-    // Initialize analytics subcollection with empty document
-    await clinicRef.collection('analytics').doc('summary').set({
-      views: 0,
-      calls: 0,
-      websiteClicks: 0,
-      lastUpdated: new Date(),
-      createdAt: new Date()
-    });
-    
-    // Initialize traffic_logs subcollection placeholder
-    await clinicRef.collection('traffic_logs').doc('_placeholder').set({
-      note: 'This collection will store traffic analytics',
-      createdAt: new Date()
-    });
+    // Initialize analytics summary and traffic_logs placeholder
+    for (const placeholder of subcollectionPlaceholders(clinicRef)) {
+      await placeholder.ref.set(placeholder.data);
+    }
     
   } catch (error) {
     // Don't fail the main operation if subcollection initialization fails
@@ -140,4 +243,141 @@ export async function batchInsertClinics(clinics: ClinicDocument[]): Promise<voi
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Groups clinic upserts (plus journal and history entries and subcollection placeholders) into Firestore
+ * batches for large imports. Up to 5 writes per clinic, so 100 clinics stay within the 500-write batch limit.
+ */
+export class ClinicBatchWriter {
+  private db: FirebaseFirestore.Firestore;
+  private queue: PendingClinicWrite[] = [];
+  private unflushed = 0; // Queued plus currently committing
+  private commits: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private sessionId?: string,
+    private batchSize: number = 100,
+    private maxDelayMs: number = 5000 // Flush partial batches so slow (geocode-bound) imports still checkpoint
+  ) {
+    this.db = admin.firestore();
+    this.batchSize = Math.min(Math.max(batchSize, 1), 100);
+  }
+
+  /**
+   * Queue a clinic; resolves once its batch is committed
+   */
+  write(
+    clinicData: Omit<ClinicDocument, 'slug'>,
+    slug: string,
+    seoMeta: SeoMeta,
+    seoContent: string
+  ): Promise<ClinicWriteResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ clinicData, slug, seoMeta, seoContent, resolve, reject });
+      this.unflushed++;
+
+      if (this.queue.length >= this.batchSize) {
+        this.scheduleCommit();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.scheduleCommit(), this.maxDelayMs);
+      }
+    });
+  }
+
+  /**
+   * Backpressure: wait while two batches' worth of clinics are waiting on Firestore
+   */
+  async waitForCapacity(): Promise<void> {
+    while (this.unflushed >= this.batchSize * 2) {
+      await this.commits;
+    }
+  }
+
+  async flush(): Promise<void> {
+    this.scheduleCommit();
+    await this.commits;
+  }
+
+  private scheduleCommit(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.queue.splice(0, this.queue.length);
+    if (batch.length === 0) return;
+
+    // Commits run one at a time so journal before-images are read after earlier batches landed
+    this.commits = this.commits.then(() => this.commit(batch));
+  }
+
+  private async commit(batch: PendingClinicWrite[]): Promise<void> {
+    try {
+      const clinicRefs = batch.map(item => this.db.collection('clinics').doc(item.slug));
+      const changeRefs = this.sessionId
+        ? batch.map(item => this.db.collection('import_sessions').doc(this.sessionId!).collection('changes').doc(item.slug))
+        : [];
+
+      const existing = await this.db.getAll(...clinicRefs);
+      const journaled = changeRefs.length > 0 ? await this.db.getAll(...changeRefs) : [];
+
+      const writeBatch = this.db.batch();
+      const updatedAt = new Date();
+      const results: ClinicWriteResult[] = [];
+
+      batch.forEach((item, index) => {
+        const before = existing[index].exists ? existing[index].data() || null : null;
+        const documentData = buildClinicDocument(item.clinicData, item.slug, item.seoMeta, item.seoContent, before, updatedAt);
+        writeBatch.set(clinicRefs[index], documentData);
+
+        const change = buildClinicChange(
+          item.slug,
+          before,
+          documentData,
+          importChangeMeta(before ? 'updated' : 'inserted', this.sessionId),
+          updatedAt
+        );
+        if (change) {
+          writeBatch.set(clinicHistoryRef(item.slug), change);
+        }
+
+        if (!before) {
+          subcollectionPlaceholders(clinicRefs[index]).forEach(placeholder => {
+            writeBatch.set(placeholder.ref, placeholder.data);
+          });
+        }
+
+        if (this.sessionId) {
+          if (journaled[index].exists) {
+            writeBatch.update(changeRefs[index], { writtenAt: updatedAt });
+          } else {
+            writeBatch.set(
+              changeRefs[index],
+              buildImportChange(item.slug, before ? 'updated' : 'inserted', before, updatedAt)
+            );
+          }
+        }
+
+        results.push({ action: before ? 'updated' : 'inserted', slug: item.slug });
+      });
+
+      await writeBatch.commit();
+      batch.forEach((item, index) => item.resolve(results[index]));
+    } catch (error) {
+      console.warn(`⚠️  Batch of ${batch.length} clinics failed, writing them one at a time:`, error);
+
+      for (const item of batch) {
+        try {
+          item.resolve(await insertOrUpdateClinic(item.clinicData, item.slug, item.seoMeta, item.seoContent, this.sessionId));
+        } catch (itemError) {
+          item.reject(itemError);
+        }
+      }
+    } finally {
+      this.unflushed -= batch.length;
+    }
+  }
+}
+
@@ -0,0 +1,114 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as util from 'util';
+import { db } from '../lib/firebase';
+import { Timestamp } from '../lib/firebase-compat';
+import { JobLogLevel, JobLogLine } from '../types/jobs';
+
+/**
+ * Captures a job run's console output into worker_job_runs/{runId}/logs, so the admin jobs
+ * console can show (and tail) it. Tasks keep using console.log - anything logged while the
+ * run's promise chain is active is attributed to that run, including from awaited helpers.
+ */
+
+export const JOB_LOGS_SUBCOLLECTION = 'logs';
+
+// Lines are written in batches, at most this often
+const FLUSH_INTERVAL_MS = 2000;
+// After this many lines a run's output is only counted, not stored
+const MAX_STORED_LINES = 1000;
+const MAX_LINE_LENGTH = 2000;
+// Firestore allows 500 writes per batch
+const MAX_BATCH_WRITES = 450;
+
+// Strip terminal colours (the CLI's log helpers use them)
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+interface RunLogContext {
+  runId: string;
+  pending: JobLogLine[];
+  count: number;
+}
+
+const storage = new AsyncLocalStorage<RunLogContext>();
+let consolePatched = false;
+
+// Route console output through the current run's context (when there is one) as well as the terminal
+function patchConsole() {
+  if (consolePatched) return;
+  consolePatched = true;
+
+  const levels: Array<[keyof Console, JobLogLevel]> = [['log', 'info'], ['info', 'info'], ['warn', 'warn'], ['error', 'error']];
+  for (const [method, level] of levels) {
+    const original = (console[method] as (...args: any[]) => void).bind(console);
+    (console as any)[method] = (...args: any[]) => {
+      original(...args);
+      const context = storage.getStore();
+      if (context) capture(context, level, util.format(...args));
+    };
+  }
+}
+
+function capture(context: RunLogContext, level: JobLogLevel, text: string) {
+  context.count++;
+  if (context.count > MAX_STORED_LINES) return;
+
+  context.pending.push({
+    seq: context.count,
+    at: Timestamp.now(),
+    level,
+    message: text.replace(ANSI_PATTERN, '').slice(0, MAX_LINE_LENGTH)
+  });
+}
+
+async function flush(context: RunLogContext): Promise<void> {
+  if (context.pending.length === 0) return;
+
+  const lines = context.pending.splice(0, context.pending.length);
+  const logsRef = db.collection('worker_job_runs').doc(context.runId).collection(JOB_LOGS_SUBCOLLECTION);
+  for (let i = 0; i < lines.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    lines.slice(i, i + MAX_BATCH_WRITES).forEach(line => batch.set(logsRef.doc(String(line.seq).padStart(6, '0')), line));
+    await batch.commit();
+  }
+}
+
+/**
+ * Run a job with its console output captured to the run's log
+ *
+ * @param runId - The worker_job_runs document the lines belong to
+ * @param fn - The job
+ * @returns - The job's result or error, and how many lines it logged
+ */
+export async function runWithJobLogs<T>(
+  runId: string,
+  fn: () => Promise<T>
+): Promise<{ result?: T; error?: unknown; logCount: number }> {
+  patchConsole();
+
+  const context: RunLogContext = { runId, pending: [], count: 0 };
+  // Log writes are best-effort: a failed flush must not fail the job
+  const flushSafely = () => flush(context).catch(error => {
+    storage.exit(() => console.error(`❌ Failed to store logs for run ${runId}:`, error));
+  });
+
+  const timer = setInterval(flushSafely, FLUSH_INTERVAL_MS);
+  let outcome: { result?: T; error?: unknown };
+  try {
+    outcome = { result: await storage.run(context, fn) };
+  } catch (error) {
+    outcome = { error };
+  }
+  clearInterval(timer);
+
+  if (context.count > MAX_STORED_LINES) {
+    context.pending.push({
+      seq: MAX_STORED_LINES + 1,
+      at: Timestamp.now(),
+      level: 'warn',
+      message: `… ${context.count - MAX_STORED_LINES} more lines not stored`
+    });
+  }
+  await flushSafely();
+
+  return { ...outcome, logCount: context.count };
+}
@@ -0,0 +1,104 @@
+import { db } from '../lib/firebase';
+import { JobOverride } from '../types/jobs';
+import { JobDefinition } from './jobQueue';
+import { validateJobOverride } from './jobParams';
+
+/**
+ * Per-job settings from the admin console (worker_job_overrides/{name}): enable/disable, a
+ * schedule in place of the registry's, and params over the schema defaults. The running worker
+ * watches the collection and picks changes up straight away. An override that fails validation
+ * is ignored as a whole - the job runs on its defaults, and the errors are shown on the job.
+ */
+
+export const JOB_OVERRIDES_COLLECTION = 'worker_job_overrides';
+
+interface OverrideState {
+  override: JobOverride | null; // Only set when valid
+  errors: string[] | null;
+}
+
+const overrides = new Map<string, OverrideState>();
+
+function applyOverride(definition: JobDefinition, data: JobOverride | null): OverrideState {
+  if (!data) {
+    const state = { override: null, errors: null };
+    overrides.set(definition.name, state);
+    return state;
+  }
+
+  const errors = validateJobOverride(definition.params, data);
+  const state = errors.length > 0 ? { override: null, errors } : { override: data, errors: null };
+  overrides.set(definition.name, state);
+  return state;
+}
+
+/**
+ * Read every job's override before the jobs are registered, so they start with their settings
+ */
+export async function loadJobOverrides(definitions: JobDefinition[]): Promise<void> {
+  const snapshot = await db.collection(JOB_OVERRIDES_COLLECTION).get();
+  const byName = new Map(snapshot.docs.map(docSnap => [docSnap.id, docSnap.data() as JobOverride]));
+
+  definitions.forEach(definition => {
+    const state = applyOverride(definition, byName.get(definition.name) || null);
+    if (state.errors) {
+      console.error(`❌ Ignoring invalid override for ${definition.name}: ${state.errors.join('; ')}`);
+    }
+  });
+}
+
+/**
+ * Hot-reload overrides as admins change them
+ *
+ * @param definitions - The job registry
+ * @param onChange - Called after a job's override changes (to update its schedule and state)
+ * @returns - Unsubscribe
+ */
+export function watchJobOverrides(definitions: JobDefinition[], onChange: (definition: JobDefinition) => void): () => void {
+  return db.collection(JOB_OVERRIDES_COLLECTION).onSnapshot(snapshot => {
+    snapshot.docChanges().forEach(change => {
+      const definition = definitions.find(job => job.name === change.doc.id);
+      if (!definition) return;
+
+      const data = change.type === 'removed' ? null : change.doc.data() as JobOverride;
+      const state = applyOverride(definition, data);
+
+      if (state.errors) {
+        console.error(`❌ Ignoring invalid override for ${definition.name}: ${state.errors.join('; ')}`);
+      } else {
+        console.log(`🔧 Reloaded settings for ${definition.name}${data ? ` (changed by ${data.updatedBy || 'unknown'})` : ' (reset to defaults)'}`);
+      }
+      onChange(definition);
+    });
+  }, error => {
+    console.error('❌ Failed to watch job overrides:', error);
+  });
+}
+
+/**
+ * A job's current valid override, if it has one
+ */
+export function getJobOverride(name: string): JobOverride | null {
+  return overrides.get(name)?.override || null;
+}
+
+/**
+ * Why a job's override was rejected, or null when it's valid (or there isn't one)
+ */
+export function getJobOverrideErrors(name: string): string[] | null {
+  return overrides.get(name)?.errors || null;
+}
+
+/**
+ * Whether a job runs on its schedule (requested runs go ahead either way)
+ */
+export function isJobEnabled(name: string): boolean {
+  return getJobOverride(name)?.enabled !== false;
+}
+
+/**
+ * The schedule a job runs on: its override's, or the registry's
+ */
+export function effectiveJobSchedule(definition: JobDefinition): string {
+  return getJobOverride(definition.name)?.schedule || definition.schedule;
+}
@@ -0,0 +1,109 @@
+import { JobOverride, JobParams, JobParamSchema, JobParamSpec } from '../types/jobs';
+import { isValidCron } from './cron';
+
+/**
+ * Job parameter schemas: each job in the registry declares the options it takes, with types,
+ * ranges and defaults. Overrides from the admin console and params for manual runs are checked
+ * against them before a job sees them. The web's jobs console uses validateJobParams from here too.
+ */
+
+type SpecValue<T extends JobParamSpec> =
+  T['type'] extends 'boolean' ? boolean
+    : T['type'] extends 'string' ? string
+      : T['type'] extends 'string[]' ? string[]
+        : number;
+
+// The params a job's run function receives: parameters with a default are always set
+export type JobParamValues<S extends JobParamSchema> = {
+  [K in keyof S]: S[K] extends { default: any } ? SpecValue<S[K]> : SpecValue<S[K]> | undefined;
+};
+
+function checkValue(name: string, spec: JobParamSpec, value: unknown): string | null {
+  switch (spec.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${name} must be true or false`;
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${name} must be a number`;
+      if (spec.type === 'integer' && !Number.isInteger(value)) return `${name} must be a whole number`;
+      if (spec.min !== undefined && value < spec.min) return `${name} must be at least ${spec.min}`;
+      if (spec.max !== undefined && value > spec.max) return `${name} must be at most ${spec.max}`;
+      return null;
+    }
+    case 'string':
+      if (typeof value !== 'string') return `${name} must be text`;
+      if (spec.options && !spec.options.includes(value)) return `${name} must be one of ${spec.options.join(', ')}`;
+      return null;
+    case 'string[]': {
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return `${name} must be a list of text values`;
+      const invalid = spec.options ? value.filter(item => !spec.options!.includes(item)) : [];
+      return invalid.length > 0 ? `${name} can only contain ${spec.options!.join(', ')}` : null;
+    }
+    default:
+      return `${name} has an unknown type`;
+  }
+}
+
+/**
+ * Check params against a job's schema. Params may be partial; unknown names are errors.
+ *
+ * @param schema - The job's parameter schema
+ * @param params - Params from an override or a manual run
+ * @returns - Error messages (empty when valid)
+ */
+export function validateJobParams(schema: JobParamSchema, params: unknown): string[] {
+  if (params === undefined || params === null) return [];
+  if (typeof params !== 'object' || Array.isArray(params)) return ['Params must be an object'];
+
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(params as Record<string, unknown>)) {
+    const spec = schema[name];
+    if (!spec) {
+      errors.push(`Unknown parameter ${name}`);
+      continue;
+    }
+    if (value === null) continue; // Cleared - falls back to the default
+    const error = checkValue(name, spec, value);
+    if (error) errors.push(error);
+  }
+  return errors;
+}
+
+/**
+ * Check an override document: enabled flag, cron schedule and params
+ *
+ * @param schema - The job's parameter schema
+ * @param override - worker_job_overrides/{name}
+ * @returns - Error messages (empty when valid)
+ */
+export function validateJobOverride(schema: JobParamSchema, override: JobOverride): string[] {
+  const errors: string[] = [];
+  if (override.enabled !== undefined && typeof override.enabled !== 'boolean') {
+    errors.push('enabled must be true or false');
+  }
+  if (override.schedule && !isValidCron(override.schedule)) {
+    errors.push(`Invalid cron schedule "${override.schedule}"`);
+  }
+  return errors.concat(validateJobParams(schema, override.params));
+}
+
+/**
+ * Layer params over a schema's defaults. Each layer should already be validated; null values
+ * (a cleared override) leave the value underneath in place.
+ *
+ * @param schema - The job's parameter schema
+ * @param layers - Overrides, then run params
+ * @returns - The params the job runs with
+ */
+export function resolveJobParams(schema: JobParamSchema, ...layers: Array<JobParams | undefined>): JobParams {
+  const resolved: JobParams = {};
+  for (const [name, spec] of Object.entries(schema)) {
+    if (spec.default !== undefined) resolved[name] = spec.default;
+  }
+  for (const layer of layers) {
+    for (const [name, value] of Object.entries(layer || {})) {
+      if (value !== null && value !== undefined) resolved[name] = value;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,508 @@
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { db } from '../lib/firebase';
+import { onSnapshot, Timestamp } from '../lib/firebase-compat';
+import { JobOutputSummary, JobParams, JobParamSchema, JobRunStatus, JobState, JobTrigger } from '../types/jobs';
+import { nextCronRun, parseCron } from './cron';
+import { runWithJobLogs } from './jobLogs';
+import { JobParamValues, resolveJobParams, validateJobParams } from './jobParams';
+import { effectiveJobSchedule, getJobOverride, getJobOverrideErrors, isJobEnabled } from './jobOverrides';
+
+/**
+ * Firestore-backed job queue, so any number of worker replicas can share one schedule.
+ * Each job has a worker_jobs/{name} document with its cron schedule and next run time.
+ * A worker claims a due job by taking its lease in a transaction, heartbeats the lease
+ * while the job runs, and records every run in worker_job_runs. A job that keeps failing
+ * is dead-lettered - it stops running on schedule until it's requeued.
+ *
+ * The admin jobs console asks for runs by setting requestedRun on the job, and cancels them
+ * by setting cancelRequested on the run - the worker picks both up from Firestore.
+ */
+
+export const JOBS_COLLECTION = 'worker_jobs';
+export const JOB_RUNS_COLLECTION = 'worker_job_runs';
+
+// A worker that stops heartbeating for this long loses its jobs to the next replica
+export const JOB_LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '', 10) || 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = Math.floor(JOB_LEASE_MS / 3);
+
+// Consecutive failures (including runs abandoned by a dead worker) before a job is dead-lettered
+export const MAX_JOB_FAILURES = parseInt(process.env.MAX_JOB_FAILURES || '', 10) || 5;
+
+// Failed runs retry after 1, 2, 4... minutes, unless the schedule comes round sooner
+const RETRY_BASE_MS = 60 * 1000;
+
+// Run history (and its logs) is kept this long
+export const JOB_RUN_RETENTION_DAYS = parseInt(process.env.JOB_RUN_RETENTION_DAYS || '', 10) || 30;
+const PRUNE_PAGE_SIZE = 100;
+
+const MAX_OUTPUT_FIELDS = 20;
+const MAX_OUTPUT_STRING = 200;
+const MAX_ERROR_LENGTH = 1000;
+
+export interface JobContext {
+  runId: string;
+  signal: AbortSignal; // Aborted when the run is cancelled; long-running tasks stop early on it and return { aborted: true }
+}
+
+export interface JobDefinition {
+  name: string;
+  schedule: string; // Cron expression, UTC (an override can replace it)
+  params: JobParamSchema;
+  run: (params: JobParams, context: JobContext) => Promise<any>;
+}
+
+/**
+ * Define a job with its parameter schema; run() gets params typed from the schema, with the
+ * defaults filled in and any override and run params applied
+ */
+export function defineJob<const S extends JobParamSchema>(definition: {
+  name: string;
+  schedule: string;
+  params: S;
+  run: (params: JobParamValues<S>, context: JobContext) => Promise<any>;
+}): JobDefinition {
+  return definition as unknown as JobDefinition;
+}
+
+export interface RunJobOptions {
+  trigger?: JobTrigger; // "manual" runs now whatever the schedule, and even when dead-lettered
+  params?: JobParams; // For a manual run (requested runs bring their own)
+  requestedOnly?: boolean; // Only take a run requested from the jobs console (the job is disabled)
+}
+
+// A run this worker has claimed
+interface JobClaim {
+  runId: string;
+  trigger: JobTrigger;
+  params: JobParams;
+}
+
+// Runs this process holds leases for, so they can be handed back on shutdown
+const activeRuns = new Map<string, string>(); // job name -> run ID
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return Number(value) || 0;
+}
+
+function jobRef(name: string): FirebaseFirestore.DocumentReference {
+  return db.collection(JOBS_COLLECTION).doc(name);
+}
+
+function runRef(runId: string): FirebaseFirestore.DocumentReference {
+  return db.collection(JOB_RUNS_COLLECTION).doc(runId);
+}
+
+/**
+ * A unique ID for this worker process, used as the lease owner
+ */
+export function createWorkerId(): string {
+  return `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Keep a run's result small enough to store and list: top-level numbers, strings and
+ * booleans, with arrays reduced to their length
+ */
+export function summarizeJobOutput(result: any): JobOutputSummary | null {
+  if (result === undefined || result === null) return null;
+  if (typeof result !== 'object') return { result: String(result).slice(0, MAX_OUTPUT_STRING) };
+
+  const summary: JobOutputSummary = {};
+  for (const [key, value] of Object.entries(result)) {
+    if (Object.keys(summary).length >= MAX_OUTPUT_FIELDS) break;
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      summary[key] = value;
+    } else if (typeof value === 'string') {
+      summary[key] = value.slice(0, MAX_OUTPUT_STRING);
+    } else if (Array.isArray(value)) {
+      summary[`${key}Count`] = value.length;
+    }
+  }
+  return summary;
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+// What fetch and other signal-aware APIs throw when their signal is aborted
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// When to try again after a failure: backing off, but never later than the next scheduled run
+function retryAt(schedule: string, failures: number, now: number): number {
+  const backoff = now + RETRY_BASE_MS * Math.pow(2, Math.max(failures - 1, 0));
+  return Math.min(backoff, nextCronRun(schedule, new Date(now)).getTime());
+}
+
+/**
+ * Bring a job's document in line with the registry and its override: schedule (moving the next
+ * run when it changes), enabled flag, the parameter schema for the admin console, and any
+ * override errors. Run state, leases and history are left alone.
+ */
+export async function syncJob(definition: JobDefinition): Promise<void> {
+  const ref = jobRef(definition.name);
+  const schedule = effectiveJobSchedule(definition);
+
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    const job = snapshot.data() as JobState | undefined;
+    const published = {
+      defaultSchedule: definition.schedule,
+      enabled: isJobEnabled(definition.name),
+      paramSchema: definition.params,
+      overrideErrors: getJobOverrideErrors(definition.name)
+    };
+
+    if (!job) {
+      const state: JobState = {
+        name: definition.name,
+        schedule,
+        status: 'idle',
+        nextRunAt: Timestamp.fromDate(nextCronRun(schedule)),
+        lease: null,
+        consecutiveFailures: 0,
+        ...published
+      };
+      transaction.set(ref, state);
+    } else if (job.schedule !== schedule) {
+      transaction.update(ref, { ...published, schedule, nextRunAt: Timestamp.fromDate(nextCronRun(schedule)) });
+    } else {
+      transaction.update(ref, published);
+    }
+  });
+}
+
+/**
+ * Create job documents for new jobs and pick up schedule changes, so a restart doesn't reset
+ * anything. Load overrides (loadJobOverrides) first.
+ *
+ * @throws When a definition has an invalid cron expression
+ */
+export async function registerJobs(definitions: JobDefinition[]): Promise<void> {
+  definitions.forEach(definition => parseCron(definition.schedule));
+
+  for (const definition of definitions) {
+    await syncJob(definition);
+  }
+}
+
+// Take a job's lease and open its run record, or null when it isn't this worker's to run.
+// A run requested from the jobs console goes ahead of the schedule (and of a dead letter).
+async function claimJob(
+  definition: JobDefinition,
+  workerId: string,
+  trigger: JobTrigger,
+  params: JobParams,
+  requestedOnly: boolean
+): Promise<JobClaim | null> {
+  const ref = jobRef(definition.name);
+  const newRunRef = db.collection(JOB_RUNS_COLLECTION).doc();
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    const job = snapshot.data() as JobState | undefined;
+    if (!job) return null;
+
+    const now = Date.now();
+    if (job.lease && toMillis(job.lease.expiresAt) > now) return null; // Running elsewhere
+
+    let failures = job.consecutiveFailures || 0;
+
+    // An expired lease means the worker holding it died mid-run, which counts as a failure
+    if (job.lease) {
+      failures++;
+      transaction.set(runRef(job.lease.runId), {
+        status: 'abandoned' as JobRunStatus,
+        finishedAt: Timestamp.fromMillis(now),
+        error: `Worker ${job.lease.owner} stopped heartbeating`
+      }, { merge: true });
+
+      if (failures >= MAX_JOB_FAILURES && trigger === 'schedule' && !job.requestedRun && !requestedOnly) {
+        transaction.update(ref, {
+          status: 'dead-lettered',
+          lease: null,
+          consecutiveFailures: failures,
+          lastStatus: 'abandoned',
+          lastError: `Worker ${job.lease.owner} stopped heartbeating`,
+          deadLetteredAt: Timestamp.fromMillis(now)
+        });
+        return null;
+      }
+    }
+
+    const request = trigger === 'schedule' ? job.requestedRun : null;
+    if (!request && trigger === 'schedule' && (requestedOnly || job.status === 'dead-lettered' || toMillis(job.nextRunAt) > now)) {
+      if (job.lease) transaction.update(ref, { status: 'idle', lease: null, consecutiveFailures: failures });
+      return null;
+    }
+
+    const claim: JobClaim = {
+      runId: newRunRef.id,
+      trigger: request ? 'manual' : trigger,
+      params: request ? request.params || {} : params
+    };
+
+    transaction.update(ref, {
+      status: 'running',
+      consecutiveFailures: failures,
+      requestedRun: null,
+      lease: { owner: workerId, runId: newRunRef.id, expiresAt: Timestamp.fromMillis(now + JOB_LEASE_MS) }
+    });
+    transaction.set(newRunRef, {
+      job: definition.name,
+      trigger: claim.trigger,
+      workerId,
+      status: 'running',
+      attempt: failures + 1,
+      startedAt: Timestamp.fromMillis(now),
+      heartbeatAt: Timestamp.fromMillis(now),
+      params: claim.params,
+      ...(request ? { requestedBy: request.requestedBy } : {})
+    });
+    return claim;
+  });
+}
+
+// Extend the lease while the job runs; false once another worker has taken it over
+async function renewLease(name: string, workerId: string, runId: string): Promise<boolean> {
+  const ref = jobRef(name);
+
+  return db.runTransaction(async transaction => {
+    const job = (await transaction.get(ref)).data() as JobState | undefined;
+    if (job?.lease?.owner !== workerId || job.lease.runId !== runId) return false;
+
+    const now = Date.now();
+    transaction.update(ref, { 'lease.expiresAt': Timestamp.fromMillis(now + JOB_LEASE_MS) });
+    transaction.update(runRef(runId), { heartbeatAt: Timestamp.fromMillis(now) });
+    return true;
+  });
+}
+
+// Record the outcome, release the lease and schedule the next run (or dead-letter the job)
+async function finishJob(
+  definition: JobDefinition,
+  claim: JobClaim,
+  startedAt: number,
+  outcome: { status: JobRunStatus; error?: string; output?: JobOutputSummary | null; logCount: number }
+): Promise<void> {
+  const ref = jobRef(definition.name);
+  const { runId } = claim;
+  const failed = outcome.status === 'failed';
+
+  await db.runTransaction(async transaction => {
+    const job = (await transaction.get(ref)).data() as JobState | undefined;
+    const now = Date.now();
+    const run: Record<string, any> = {
+      status: outcome.status,
+      finishedAt: Timestamp.fromMillis(now),
+      durationMs: now - startedAt,
+      output: outcome.output ?? null,
+      logCount: outcome.logCount
+    };
+    if (outcome.error) run.error = outcome.error;
+
+    // Another worker took the job over (this one missed its heartbeats); the job is theirs now
+    if (job?.lease?.runId !== runId) {
+      transaction.set(runRef(runId), { ...run, leaseLost: true }, { merge: true });
+      return;
+    }
+
+    // Cancelling isn't a failure, but doesn't clear earlier ones either
+    const failures = failed ? (job.consecutiveFailures || 0) + 1 : outcome.status === 'succeeded' ? 0 : job.consecutiveFailures || 0;
+    const deadLettered = failed && failures >= MAX_JOB_FAILURES;
+    const staysDeadLettered = job.status === 'dead-lettered' && outcome.status === 'cancelled';
+
+    // A manual run leaves the schedule as it was, unless it failed and needs a retry
+    const nextRunAt = failed
+      ? Timestamp.fromMillis(retryAt(job.schedule, failures, now))
+      : claim.trigger === 'schedule'
+        ? Timestamp.fromDate(nextCronRun(job.schedule, new Date(now)))
+        : job.nextRunAt;
+
+    const update: Record<string, any> = {
+      status: deadLettered || staysDeadLettered ? 'dead-lettered' : 'idle',
+      lease: null,
+      consecutiveFailures: failures,
+      nextRunAt,
+      lastRunId: runId,
+      lastRunAt: Timestamp.fromMillis(startedAt),
+      lastStatus: outcome.status,
+      lastDurationMs: now - startedAt,
+      lastError: outcome.error || null
+    };
+    if (deadLettered) update.deadLetteredAt = Timestamp.fromMillis(now);
+
+    transaction.update(ref, update);
+    transaction.set(runRef(runId), run, { merge: true });
+  });
+}
+
+/**
+ * Run a job if it's due (or requested from the jobs console) and no other worker has it
+ *
+ * @param definition - The job
+ * @param workerId - This worker (createWorkerId)
+ * @param options - Manual trigger and params, or only taking requested runs
+ * @returns - How the run ended, or null when this worker didn't run it
+ */
+export async function runQueuedJob(
+  definition: JobDefinition,
+  workerId: string,
+  options: RunJobOptions = {}
+): Promise<JobRunStatus | null> {
+  const { trigger = 'schedule', params = {}, requestedOnly = false } = options;
+  const claim = await claimJob(definition, workerId, trigger, params, requestedOnly);
+  if (!claim) return null;
+
+  const { runId } = claim;
+  activeRuns.set(definition.name, runId);
+  const startedAt = Date.now();
+  const heartbeat = setInterval(() => {
+    renewLease(definition.name, workerId, runId)
+      .then(held => {
+        if (!held) console.warn(`⚠️  Lost the lease on ${definition.name} - another worker has taken it over`);
+      })
+      .catch(error => console.error(`❌ Heartbeat failed for ${definition.name}:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Cancelling aborts the signal; the run still holds its lease until the task has returned
+  const controller = new AbortController();
+  const stopWatching = onSnapshot(runRef(runId), snapshot => {
+    const run = snapshot.data();
+    if (run?.cancelRequested && !controller.signal.aborted) {
+      console.warn(`⏹️  Cancelling ${definition.name} (requested by ${run.cancelledBy || 'an admin'})`);
+      controller.abort();
+    }
+  });
+
+  console.log(`🚀 Starting job: ${definition.name} (run ${runId}${claim.trigger === 'manual' ? ', manual' : ''})`);
+  const { result, error, logCount } = await runWithJobLogs(runId, async () => {
+    try {
+      const paramErrors = validateJobParams(definition.params, claim.params);
+      if (paramErrors.length > 0) {
+        throw new Error(`Invalid params: ${paramErrors.join('; ')}`);
+      }
+      const resolved = resolveJobParams(definition.params, getJobOverride(definition.name)?.params, claim.params);
+      return await definition.run(resolved, { runId, signal: controller.signal });
+    } catch (error) {
+      console.error(`❌ Job failed: ${definition.name}`, error);
+      throw error;
+    }
+  });
+  clearInterval(heartbeat);
+  stopWatching();
+
+  // Only a task that stopped early on the signal was cancelled; one that finished or failed anyway
+  // is recorded as such (the run keeps cancelRequested, so the console still shows the request)
+  const stoppedOnCancel = controller.signal.aborted && (error ? isAbortError(error) : result?.aborted === true);
+  const status: JobRunStatus = stoppedOnCancel ? 'cancelled' : error ? 'failed' : 'succeeded';
+  if (controller.signal.aborted && !stoppedOnCancel) {
+    console.warn(`⚠️  ${definition.name} ${status} before the cancel took effect`);
+  }
+  try {
+    await finishJob(definition, claim, startedAt, {
+      status,
+      error: error && status === 'failed' ? describeError(error) : undefined,
+      output: summarizeJobOutput(result),
+      logCount
+    });
+    if (status === 'succeeded') {
+      console.log(`✅ Job completed: ${definition.name} in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+    } else if (status === 'cancelled') {
+      console.log(`⏹️  Job cancelled: ${definition.name}`);
+    }
+    return status;
+  } finally {
+    activeRuns.delete(definition.name);
+  }
+}
+
+/**
+ * Hand back the leases this worker holds (on shutdown), so another replica can pick the
+ * jobs up straight away instead of waiting for the leases to expire
+ */
+export async function releaseJobLeases(workerId: string): Promise<void> {
+  for (const [name, runId] of Array.from(activeRuns.entries())) {
+    const ref = jobRef(name);
+    try {
+      await db.runTransaction(async transaction => {
+        const job = (await transaction.get(ref)).data() as JobState | undefined;
+        if (job?.lease?.owner !== workerId || job.lease.runId !== runId) return;
+
+        transaction.update(ref, { status: 'idle', lease: null });
+        transaction.set(runRef(runId), {
+          status: 'interrupted' as JobRunStatus,
+          finishedAt: Timestamp.now(),
+          error: 'Worker shut down'
+        }, { merge: true });
+      });
+      console.log(`↩️  Released ${name}`);
+    } catch (error) {
+      console.error(`❌ Failed to release ${name}:`, error);
+    }
+  }
+}
+
+/**
+ * Put a dead-lettered job back on its schedule
+ *
+ * @returns - False when there's no such job or it isn't dead-lettered
+ */
+export async function requeueJob(name: string): Promise<boolean> {
+  const ref = jobRef(name);
+
+  return db.runTransaction(async transaction => {
+    const job = (await transaction.get(ref)).data() as JobState | undefined;
+    if (!job || job.status !== 'dead-lettered') return false;
+
+    transaction.update(ref, {
+      status: 'idle',
+      consecutiveFailures: 0,
+      nextRunAt: Timestamp.now()
+    });
+    return true;
+  });
+}
+
+/**
+ * Every job's current state, by name
+ */
+export async function listJobStates(): Promise<JobState[]> {
+  const snapshot = await db.collection(JOBS_COLLECTION).orderBy('name').get();
+  return snapshot.docs.map(docSnap => docSnap.data() as JobState);
+}
+
+/**
+ * Delete run records (with their logs) older than the retention window
+ *
+ * @param retentionDays - Keep runs started in the last N days
+ * @returns - How many runs were deleted
+ */
+export async function pruneJobRuns(retentionDays: number = JOB_RUN_RETENTION_DAYS): Promise<{ deletedRuns: number }> {
+  const cutoff = Timestamp.fromMillis(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  let deletedRuns = 0;
+
+  while (true) {
+    const snapshot = await db.collection(JOB_RUNS_COLLECTION)
+      .where('startedAt', '<', cutoff)
+      .limit(PRUNE_PAGE_SIZE)
+      .get();
+    if (snapshot.empty) break;
+
+    for (const runDoc of snapshot.docs) {
+      await db.recursiveDelete(runDoc.ref);
+      deletedRuns++;
+    }
+    if (snapshot.size < PRUNE_PAGE_SIZE) break;
+  }
+
+  console.log(`🧹 Deleted ${deletedRuns} job runs older than ${retentionDays} days`);
+  return { deletedRuns };
+}
@@ -0,0 +1,113 @@
+import { db } from '../lib/firebase';
+import { collection, doc, getDoc, getDocs, query, where, limit } from '../lib/firebase-compat';
+import { RawClinic } from '../types/clinic';
+import { normalizeHeaderKey } from './headerMapping';
+import { splitCityStateZip, splitFullAddress } from './importParsing';
+
+export { splitCityStateZip, splitFullAddress };
+
+/**
+ * Named column mapping profiles for vendor files, stored in import_mapping_profiles
+ */
+
+// Targets that split one source column into several clinic fields
+export const SPLIT_TARGETS = ['cityStateZip', 'fullAddress'] as const;
+export type SplitTarget = typeof SPLIT_TARGETS[number];
+
+export interface ColumnMapping {
+  source: string; // Header as it appears in the vendor file
+  target: string; // RawClinic field, or a split target
+}
+
+export interface MappingProfile {
+  id?: string;
+  name: string;
+  description?: string;
+  mappings: ColumnMapping[];
+  defaults?: Record<string, string>; // Values for fields the vendor file never contains (e.g. a single-state list)
+  sampleHeaders?: string[]; // Headers of the file the profile was built from, used for suggestions
+}
+
+/**
+ * Load a profile by document id or by name
+ */
+export async function loadMappingProfile(idOrName: string): Promise<MappingProfile> {
+  const byId = await getDoc(doc(db, 'import_mapping_profiles', idOrName));
+  if (byId.exists()) {
+    return { id: byId.id, ...byId.data() } as MappingProfile;
+  }
+
+  const byName = await getDocs(
+    query(collection(db, 'import_mapping_profiles'), where('name', '==', idOrName), limit(1))
+  );
+  if (byName.empty) {
+    throw new Error(`Mapping profile not found: ${idOrName}`);
+  }
+
+  const match = byName.docs[0];
+  return { id: match.id, ...match.data() } as MappingProfile;
+}
+
+/**
+ * Put --map entries ahead of the profile's own mappings for the same header
+ */
+export function withHeaderOverrides(profile: MappingProfile, headerMapping?: Record<string, string>): MappingProfile {
+  const overrides = Object.entries(headerMapping || {}).map(([source, target]) => ({ source, target }));
+  const overridden = new Set(overrides.map(mapping => mapping.source.toLowerCase()));
+
+  return {
+    ...profile,
+    mappings: [...overrides, ...profile.mappings.filter(mapping => !overridden.has(mapping.source.toLowerCase()))]
+  };
+}
+
+/**
+ * Build a RawClinic from a row keyed by the vendor's original headers
+ */
+export function applyMappingProfile(row: Record<string, any>, profile: MappingProfile): RawClinic {
+  const clinic: RawClinic = {};
+  const rowByKey = new Map<string, string>();
+
+  Object.entries(row).forEach(([header, value]) => {
+    if (value !== null && value !== undefined && String(value).trim() !== '') {
+      rowByKey.set(normalizeHeaderKey(header), String(value).trim());
+    }
+  });
+
+  profile.mappings.forEach(({ source, target }) => {
+    const value = rowByKey.get(normalizeHeaderKey(source));
+    if (!value || !target) return;
+
+    if (target === 'cityStateZip' || target === 'fullAddress') {
+      const parts = target === 'cityStateZip' ? splitCityStateZip(value) : splitFullAddress(value);
+      Object.entries(parts).forEach(([field, part]) => {
+        if (part && clinic[field] === undefined) clinic[field] = part;
+      });
+      return;
+    }
+
+    // Several columns mapped to address are address lines ("Street1", "Street2")
+    if (target === 'address' && clinic.address) {
+      clinic.address = `${clinic.address} ${value}`;
+    } else if (clinic[target] === undefined) {
+      clinic[target] = value;
+    }
+  });
+
+  Object.entries(profile.defaults || {}).forEach(([field, value]) => {
+    if (clinic[field] === undefined && value) clinic[field] = value;
+  });
+
+  return clinic;
+}
+
+/**
+ * Share of a profile's mapped source headers present in a file (0-1)
+ */
+export function scoreProfileMatch(headers: string[], profile: MappingProfile): number {
+  const available = new Set(headers.map(normalizeHeaderKey));
+  const sources = Array.from(new Set(profile.mappings.map(mapping => normalizeHeaderKey(mapping.source))));
+  if (sources.length === 0) return 0;
+
+  return sources.filter(source => available.has(source)).length / sources.length;
+}
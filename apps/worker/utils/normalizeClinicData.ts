@@ -1,5 +1,6 @@
 import { RawClinic, ClinicInput } from '../types/clinic';
 import { formatPhoneNumber } from './formatPhoneNumber';
+import { toBusinessStatus } from './placesClient';
 
 export function normalizeClinicData(raw: RawClinic): ClinicInput {
   // Extract and normalize basic fields
@@ -11,7 +12,9 @@ export function normalizeClinicData(raw: RawClinic): ClinicInput {
   const website = normalizeWebsite(raw.website || '');
   
   // Parse services
-  const services = parseServices(raw.services || '');
+  // Jobs queued from the admin UI carry services as an array
+  const rawServices: unknown = raw.services;
+  const services = parseServices(Array.isArray(rawServices) ? rawServices.join(';') : raw.services || '');
   
   // Normalize phone
   const phone = formatPhoneNumber(raw.phone || '');
@@ -34,6 +37,12 @@ export function normalizeClinicData(raw: RawClinic): ClinicInput {
   
   const now = new Date();
   
+  // Keep coordinates supplied by the source so geocoding can be skipped
+  const lat = parseCoordinate(raw.lat, 90);
+  const lng = parseCoordinate(raw.lng, 180);
+  const coordinates = lat !== undefined && lng !== undefined ? { lat, lng } : {};
+  const businessStatus = toBusinessStatus(raw.businessstatus || raw.businessStatus);
+  
   return {
     name,
     address,
@@ -46,11 +55,20 @@ export function normalizeClinicData(raw: RawClinic): ClinicInput {
     package: packageLevel,
     status: tags.length > 0 ? 'paused' : status, // Pause if validation issues
     tags,
+    ...coordinates,
+    ...(raw.googleplacesid || raw.googlePlacesId ? { googlePlacesId: raw.googleplacesid || raw.googlePlacesId } : {}),
+    ...(businessStatus ? { businessStatus } : {}),
     createdAt: now,
     updatedAt: now
   };
 }
 
+function parseCoordinate(value: string | undefined, max: number): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed === 0 || Math.abs(parsed) > max ? undefined : parsed;
+}
+
 function normalizeWebsite(website: string): string {
   if (!website || website.trim() === '') return '';
   
@@ -2,7 +2,7 @@ import * as fs from 'fs';
 import { parse } from 'csv-parse/sync';
 import { RawClinic } from '../types/clinic';
 
-export async function parseClinicCSV(input: string): Promise<RawClinic[]> {
+export async function parseClinicCSV(input: string, options: { rawHeaders?: boolean } = {}): Promise<RawClinic[]> {
   let csvContent: string;
   
   // Check if input is a file path or raw CSV string
@@ -33,7 +33,8 @@ export async function parseClinicCSV(input: string): Promise<RawClinic[]> {
       const normalized: RawClinic = {};
       
       Object.keys(record).forEach(key => {
-        const normalizedKey = normalizeHeader(key);
+        // Mapping profiles match against the vendor's original headers
+        const normalizedKey = options.rawHeaders ? key : normalizeHeader(key);
         const value = record[key];
         
         // Handle empty cells
@@ -51,7 +52,7 @@ export async function parseClinicCSV(input: string): Promise<RawClinic[]> {
   }
 }
 
-function normalizeHeader(header: string): string {
+export function normalizeHeader(header: string): string {
   return header
     .toLowerCase()
     .trim()
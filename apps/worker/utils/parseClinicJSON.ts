@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import { RawClinic } from '../types/clinic';
 
-export async function parseClinicJSON(input: string): Promise<RawClinic[]> {
+export async function parseClinicJSON(input: string, options: { rawHeaders?: boolean } = {}): Promise<RawClinic[]> {
   let jsonContent: string;
   
   // Check if input is a file path or raw JSON string
@@ -27,7 +27,8 @@ export async function parseClinicJSON(input: string): Promise<RawClinic[]> {
       const normalized: RawClinic = {};
       
       Object.keys(record).forEach(key => {
-        const normalizedKey = normalizeKey(key);
+        // Mapping profiles match against the vendor's original keys
+        const normalizedKey = options.rawHeaders ? key : normalizeKey(key);
         const value = record[key];
         
         // Convert to string and handle empty values
@@ -47,7 +48,7 @@ export async function parseClinicJSON(input: string): Promise<RawClinic[]> {
   }
 }
 
-function normalizeKey(key: string): string {
+export function normalizeKey(key: string): string {
   return key
     .toLowerCase()
     .trim()
@@ -0,0 +1,112 @@
+import ExcelJS from 'exceljs';
+import { RawClinic } from '../types/clinic';
+import { buildHeaderMapping, applyHeaderMapping, HeaderMapping } from './headerMapping';
+
+export interface XlsxParseOptions {
+  // Sheet names to read; defaults to the first sheet with data. ['*'] reads every sheet.
+  sheets?: string[];
+  // Explicit source header -> clinic field overrides
+  headerMapping?: HeaderMapping;
+  // Keep the original headers as keys (for mapping profiles) instead of mapping to clinic fields
+  rawHeaders?: boolean;
+}
+
+export interface XlsxSheetInfo {
+  name: string;
+  rowCount: number;
+  headers: string[];
+}
+
+async function loadWorkbook(filePath: string): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.readFile(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read XLSX file: ${filePath}. Error: ${error}`);
+  }
+  return workbook;
+}
+
+function readHeaders(sheet: ExcelJS.Worksheet): string[] {
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell({ includeEmpty: true }, (cell, column) => {
+    headers[column - 1] = cell.text.trim();
+  });
+  return headers;
+}
+
+/**
+ * List the sheets in a workbook so the caller can choose which to import
+ */
+export async function listXlsxSheets(filePath: string): Promise<XlsxSheetInfo[]> {
+  const workbook = await loadWorkbook(filePath);
+
+  return workbook.worksheets.map(sheet => ({
+    name: sheet.name,
+    rowCount: Math.max(sheet.actualRowCount - 1, 0),
+    headers: readHeaders(sheet).filter(Boolean)
+  }));
+}
+
+export async function parseClinicXLSX(filePath: string, options: XlsxParseOptions = {}): Promise<RawClinic[]> {
+  const workbook = await loadWorkbook(filePath);
+  const sheets = selectSheets(workbook, options.sheets);
+  const records: RawClinic[] = [];
+
+  sheets.forEach(sheet => {
+    const headers = readHeaders(sheet);
+    const mapping = buildHeaderMapping(headers.filter(Boolean), options.headerMapping);
+    let sheetCount = 0;
+
+    sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      if (rowNumber === 1) return;
+
+      const values: Record<string, string> = {};
+      row.eachCell({ includeEmpty: false }, (cell, column) => {
+        const header = headers[column - 1];
+        if (header) values[header] = cell.text;
+      });
+
+      const clinic: RawClinic = options.rawHeaders ? values : applyHeaderMapping(values, mapping);
+      if (Object.keys(clinic).length === 0) return;
+
+      // Spreadsheets drop the leading zero from numeric ZIP codes (02134 -> 2134)
+      if (clinic.zip && /^\d{4}$/.test(clinic.zip)) {
+        clinic.zip = `0${clinic.zip}`;
+      }
+
+      clinic.sourcesheet = sheet.name;
+      records.push(clinic);
+      sheetCount++;
+    });
+
+    console.log(`   📄 Sheet "${sheet.name}": ${sheetCount} rows`);
+  });
+
+  console.log(`✅ Parsed ${records.length} records from XLSX (${sheets.length} sheet${sheets.length === 1 ? '' : 's'})`);
+  return records;
+}
+
+function selectSheets(workbook: ExcelJS.Workbook, requested?: string[]): ExcelJS.Worksheet[] {
+  if (workbook.worksheets.length === 0) {
+    throw new Error('Workbook contains no sheets');
+  }
+
+  if (!requested || requested.length === 0) {
+    const firstWithData = workbook.worksheets.find(sheet => sheet.actualRowCount > 1);
+    return [firstWithData || workbook.worksheets[0]];
+  }
+
+  if (requested.includes('*')) {
+    return workbook.worksheets;
+  }
+
+  return requested.map(name => {
+    const sheet = workbook.worksheets.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!sheet) {
+      const available = workbook.worksheets.map(candidate => candidate.name).join(', ');
+      throw new Error(`Sheet "${name}" not found. Available sheets: ${available}`);
+    }
+    return sheet;
+  });
+}
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import { RawClinic } from '../types/clinic';
+import { isGooglePlacesDump } from './importParsing';
+
+export { isGooglePlacesDump };
+
+/**
+ * Parse saved Google Places API responses into RawClinic records.
+ *
+ * Accepts legacy Text/Nearby Search ({ results: [...] }), Place Details ({ result: {...} }),
+ * Places API (New) ({ places: [...] }), or an array of any of these (e.g. paginated dumps).
+ */
+export async function parseGooglePlaces(input: string): Promise<RawClinic[]> {
+  let content: string;
+
+  if (input.trim().startsWith('[') || input.trim().startsWith('{')) {
+    content = input;
+  } else {
+    try {
+      content = fs.readFileSync(input, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read Google Places file: ${input}. Error: ${error}`);
+    }
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse Google Places JSON: ${error}`);
+  }
+
+  const places = extractPlaces(data);
+  const seen = new Set<string>();
+  const records: RawClinic[] = [];
+
+  places.forEach(place => {
+    const clinic = placeToRawClinic(place);
+    const key = clinic.googleplacesid || `${clinic.name}|${clinic.address}`;
+
+    // Paginated dumps frequently repeat places across pages
+    if (!clinic.name || seen.has(key)) return;
+    seen.add(key);
+    records.push(clinic);
+  });
+
+  console.log(`✅ Parsed ${records.length} places from Google Places export`);
+  return records;
+}
+
+function extractPlaces(data: any): any[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(item => extractPlaces(item));
+  }
+
+  if (!data || typeof data !== 'object') return [];
+  if (Array.isArray(data.results)) return data.results;
+  if (Array.isArray(data.places)) return data.places;
+  if (data.result) return [data.result];
+
+  return [data];
+}
+
+function placeToRawClinic(place: any): RawClinic {
+  // Places API (New) uses camelCase fields and nested display names
+  const isNewApi = Boolean(place.displayName || place.formattedAddress || place.addressComponents);
+  const components = isNewApi
+    ? (place.addressComponents || []).map((component: any) => ({
+        long_name: component.longText,
+        short_name: component.shortText,
+        types: component.types || []
+      }))
+    : place.address_components || [];
+
+  const component = (type: string, short = false): string | undefined => {
+    const match = components.find((candidate: any) => candidate.types.includes(type));
+    return match ? (short ? match.short_name : match.long_name) : undefined;
+  };
+
+  const formattedAddress: string = (isNewApi ? place.formattedAddress : place.formatted_address) || place.vicinity || '';
+  const street = [component('street_number'), component('route')].filter(Boolean).join(' ');
+  const location = isNewApi ? place.location : place.geometry?.location;
+  const lat = isNewApi ? location?.latitude : location?.lat;
+  const lng = isNewApi ? location?.longitude : location?.lng;
+
+  const clinic: RawClinic = {
+    name: isNewApi ? place.displayName?.text : place.name,
+    address: street || formattedAddress.split(',')[0]?.trim(),
+    city: component('locality') || component('postal_town') || component('sublocality'),
+    state: component('administrative_area_level_1', true),
+    zip: component('postal_code'),
+    phone: isNewApi
+      ? place.nationalPhoneNumber || place.internationalPhoneNumber
+      : place.formatted_phone_number || place.international_phone_number,
+    website: isNewApi ? place.websiteUri : place.website,
+    googleplacesid: isNewApi ? place.id : place.place_id,
+    businessstatus: isNewApi ? place.businessStatus : place.business_status,
+    rating: place.rating !== undefined ? String(place.rating) : undefined,
+    reviewcount: (isNewApi ? place.userRatingCount : place.user_ratings_total)?.toString(),
+    lat: typeof lat === 'number' ? String(lat) : undefined,
+    lng: typeof lng === 'number' ? String(lng) : undefined
+  };
+
+  // Text Search results without address_components: fall back to "street, city, ST 12345, USA"
+  if (!clinic.city && formattedAddress) {
+    const parts = formattedAddress.split(',').map(part => part.trim());
+    const stateIndex = parts.findIndex((part, index) => index > 0 && /^[A-Z]{2}(\s+\d{5}(-\d{4})?)?$/.test(part));
+    if (stateIndex > 0) {
+      const [state, zip] = parts[stateIndex].split(/\s+/);
+      clinic.city = parts[stateIndex - 1];
+      clinic.state = clinic.state || state;
+      clinic.zip = clinic.zip || zip;
+    }
+  }
+
+  Object.keys(clinic).forEach(key => {
+    if (clinic[key] === undefined || clinic[key] === '') delete clinic[key];
+  });
+
+  return clinic;
+}
@@ -0,0 +1,80 @@
+import fetch from 'node-fetch';
+import { BusinessStatus } from '../types/clinic';
+
+export interface PlaceStatusResult {
+  placeId: string;
+  businessStatus?: BusinessStatus; // Undefined when Places has no status for the listing
+  name?: string;
+}
+
+const PLACES_API_URL = 'https://maps.googleapis.com/maps/api/place';
+
+function getPlacesApiKey(): string | undefined {
+  return process.env.GOOGLE_PLACES_API_KEY || process.env.GOOGLE_MAPS_API_KEY || process.env.GEOCODE_API_KEY;
+}
+
+export function hasPlacesApiKey(): boolean {
+  return Boolean(getPlacesApiKey());
+}
+
+/**
+ * Map Places business_status ("CLOSED_PERMANENTLY") to the stored clinic value
+ */
+export function toBusinessStatus(value?: string): BusinessStatus | undefined {
+  const normalized = (value || '').trim().toLowerCase();
+  return ['operational', 'closed_temporarily', 'closed_permanently'].includes(normalized)
+    ? normalized as BusinessStatus
+    : undefined;
+}
+
+/**
+ * Business status for a known place ID; null when there is no API key or the place no longer exists
+ */
+export async function getPlaceBusinessStatus(placeId: string): Promise<PlaceStatusResult | null> {
+  const key = getPlacesApiKey();
+  if (!key) return null;
+
+  const url = `${PLACES_API_URL}/details/json?place_id=${encodeURIComponent(placeId)}&fields=place_id,name,business_status&key=${key}`;
+  const response = await fetch(url);
+  const data = await response.json() as any;
+
+  if (data.status === 'NOT_FOUND' || data.status === 'INVALID_REQUEST') {
+    return null;
+  }
+  if (data.status !== 'OK') {
+    throw new Error(`Place details failed: ${data.status}`);
+  }
+
+  return {
+    placeId: data.result.place_id || placeId,
+    businessStatus: toBusinessStatus(data.result.business_status),
+    name: data.result.name
+  };
+}
+
+/**
+ * Best text match for a clinic that was never linked to a place ID
+ */
+export async function findPlace(name: string, address: string): Promise<PlaceStatusResult | null> {
+  const key = getPlacesApiKey();
+  if (!key || !name) return null;
+
+  const input = [name, address].filter(Boolean).join(', ');
+  const url = `${PLACES_API_URL}/findplacefromtext/json?input=${encodeURIComponent(input)}&inputtype=textquery&fields=place_id,name,business_status&key=${key}`;
+  const response = await fetch(url);
+  const data = await response.json() as any;
+
+  if (data.status === 'ZERO_RESULTS') {
+    return null;
+  }
+  if (data.status !== 'OK' || !data.candidates?.length) {
+    throw new Error(`Find place failed: ${data.status}`);
+  }
+
+  const candidate = data.candidates[0];
+  return {
+    placeId: candidate.place_id,
+    businessStatus: toBusinessStatus(candidate.business_status),
+    name: candidate.name
+  };
+}
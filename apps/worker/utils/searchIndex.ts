@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClinicSchedule } from '../types/clinic';
+
+/**
+ * Search index for the public clinic search (facets, ranking, highlighting - things Firestore
+ * queries can't do). The worker writes documents through a SearchIndexWriter; the web app
+ * reads them through the matching provider in apps/web/lib/searchIndex.ts.
+ *
+ * Providers (SEARCH_INDEX_PROVIDER):
+ *  - local (default): one JSON file on disk (SEARCH_INDEX_PATH), loaded into memory by the
+ *    web API route. Meant for dev, tests and single-server deploys.
+ *  - A hosted engine implements SearchIndexWriter here and SearchIndexProvider on the web side.
+ */
+
+// Bump when SearchDocument changes shape; readers ignore files with another version
+export const SEARCH_INDEX_VERSION = 1;
+
+export const DEFAULT_SEARCH_INDEX_PATH = path.join(__dirname, '../data/search-index.json');
+
+// Must match SearchDocument in apps/web/types/index.ts
+export interface SearchDocument {
+  id: string;
+  slug?: string;
+  name: string;
+  address?: string;
+  city: string;
+  state: string;
+  zip?: string;
+  phone?: string;
+  website?: string;
+  tier: 'free' | 'standard' | 'advanced';
+  verified: boolean;
+  services: string[];
+  treatments: string[];
+  searchableTerms: string[];
+  keywords: string[]; // derivedKeywords from enhanceSearchIndex
+  lat?: number;
+  lng?: number;
+  rating?: number;
+  reviewCount?: number;
+  telehealth?: boolean;
+  completeness?: number; // quality.completeness from scoreClinicQuality (0-100)
+  priorityListing?: boolean; // tierFeatures.priorityListing, a ranking factor
+  updatedAt?: string; // ISO date, for ranking freshness
+  schedule?: ClinicSchedule; // clinic.schedule, for the open now / weekends / evenings filters
+  totalClicks: number;
+}
+
+export interface SearchIndexFile {
+  version: number;
+  updatedAt: string;
+  documents: Record<string, SearchDocument>;
+}
+
+export interface SearchIndexWriter {
+  readonly name: string;
+  /** Add or replace documents */
+  upsert(documents: SearchDocument[]): Promise<void>;
+  /** Remove documents by clinic ID (unknown IDs are ignored) */
+  remove(ids: string[]): Promise<void>;
+  /** Replace the whole index, dropping documents not in `documents` */
+  replaceAll(documents: SearchDocument[]): Promise<void>;
+}
+
+const LEGACY_PACKAGE_TIERS: Record<string, SearchDocument['tier']> = {
+  premium: 'advanced',
+  high: 'advanced',
+  basic: 'standard',
+  low: 'standard'
+};
+
+/**
+ * Build the index document for a clinic
+ *
+ * @param clinicId - Clinic document ID
+ * @param data - Clinic document data
+ * @param keywords - Derived keywords for the clinic
+ */
+export function toSearchDocument(clinicId: string, data: Record<string, any>, keywords: string[] = []): SearchDocument {
+  const tier: SearchDocument['tier'] = ['free', 'standard', 'advanced'].includes(data.tier)
+    ? data.tier
+    : LEGACY_PACKAGE_TIERS[String(data.package || '').toLowerCase()] || 'free';
+
+  const document: SearchDocument = {
+    id: clinicId,
+    name: data.name || '',
+    city: data.city || '',
+    state: data.state || '',
+    tier,
+    verified: !!(data.verified || data.validationStatus?.verified),
+    services: Array.isArray(data.services) ? data.services : [],
+    treatments: Array.isArray(data.treatments)
+      ? data.treatments.map((treatment: any) => treatment?.term).filter(Boolean)
+      : [],
+    searchableTerms: Array.isArray(data.searchableTerms) ? data.searchableTerms : [],
+    keywords,
+    totalClicks: data.trafficMeta?.totalClicks || 0
+  };
+
+  // Optional fields are left off rather than stored as null to keep the file small
+  if (data.slug) document.slug = data.slug;
+  if (data.address) document.address = data.address;
+  if (data.zip) document.zip = data.zip;
+  if (data.phone) document.phone = data.phone;
+  if (data.website) document.website = data.website;
+  if (typeof data.lat === 'number' && typeof data.lng === 'number') {
+    document.lat = data.lat;
+    document.lng = data.lng;
+  }
+  const rating = data.reviewStats?.averageRating ?? data.rating ?? data.googleRating;
+  if (typeof rating === 'number') document.rating = rating;
+  const reviewCount = data.reviewStats?.count ?? data.reviewCount ?? data.googleReviewCount;
+  if (typeof reviewCount === 'number') document.reviewCount = reviewCount;
+  if (data.specializedServices?.telehealth || document.services.some(service => /telehealth|telemedicine|virtual/i.test(service))) {
+    document.telehealth = true;
+  }
+  if (typeof data.quality?.completeness === 'number') document.completeness = data.quality.completeness;
+  if (typeof data.tierFeatures?.priorityListing === 'boolean') document.priorityListing = data.tierFeatures.priorityListing;
+  const updatedAt = toDate(data.updatedAt || data.lastUpdated);
+  if (updatedAt) document.updatedAt = updatedAt.toISOString();
+  if (data.schedule?.timeZone && data.schedule.weekly) document.schedule = data.schedule;
+
+  return document;
+}
+
+function toDate(value: any): Date | undefined {
+  if (!value) return undefined;
+  const date = typeof value.toDate === 'function' ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * In-process index persisted as one JSON file. Writes go to a temp file that is renamed
+ * over the old one, so a reader never sees a half-written index.
+ */
+export class LocalSearchIndexWriter implements SearchIndexWriter {
+  readonly name = 'local';
+
+  constructor(private readonly filePath: string = DEFAULT_SEARCH_INDEX_PATH) {}
+
+  async upsert(documents: SearchDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    const index = this.read();
+    documents.forEach(document => {
+      index.documents[document.id] = document;
+    });
+    this.write(index);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const index = this.read();
+    const before = Object.keys(index.documents).length;
+    ids.forEach(id => delete index.documents[id]);
+
+    if (Object.keys(index.documents).length !== before) {
+      this.write(index);
+    }
+  }
+
+  async replaceAll(documents: SearchDocument[]): Promise<void> {
+    const index = this.emptyIndex();
+    documents.forEach(document => {
+      index.documents[document.id] = document;
+    });
+    this.write(index);
+  }
+
+  private emptyIndex(): SearchIndexFile {
+    return { version: SEARCH_INDEX_VERSION, updatedAt: new Date().toISOString(), documents: {} };
+  }
+
+  private read(): SearchIndexFile {
+    if (!fs.existsSync(this.filePath)) return this.emptyIndex();
+
+    try {
+      const index = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as SearchIndexFile;
+      if (index.version === SEARCH_INDEX_VERSION && index.documents) return index;
+      console.warn(`⚠️  Search index at ${this.filePath} has version ${index.version}, starting a new one`);
+    } catch (error) {
+      console.warn(`⚠️  Search index at ${this.filePath} is unreadable, starting a new one:`, error);
+    }
+    return this.emptyIndex();
+  }
+
+  private write(index: SearchIndexFile): void {
+    index.updatedAt = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(index), 'utf8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Get the configured search index writer
+ */
+export function getSearchIndexWriter(): SearchIndexWriter {
+  const provider = process.env.SEARCH_INDEX_PROVIDER || 'local';
+
+  switch (provider) {
+    case 'local':
+      return new LocalSearchIndexWriter(process.env.SEARCH_INDEX_PATH || DEFAULT_SEARCH_INDEX_PATH);
+    default:
+      throw new Error(`Unknown SEARCH_INDEX_PROVIDER: ${provider}`);
+  }
+}
@@ -2,6 +2,7 @@ import admin from '../lib/firebase';
 import { generateSeoMeta } from './generateSeoMeta';
 import { generateSeoContent } from './generateSeoContent';
 import { ClinicInput, ClinicDocument, SeoMeta } from '../types/clinic';
+import { recordClinicChange } from './clinicHistory';
 
 export async function updateClinicSeoData(slug: string): Promise<{
   success: boolean;
@@ -43,6 +44,11 @@ export async function updateClinicSeoData(slug: string): Promise<{
     };
     
     await clinicRef.update(updateData);
+    await recordClinicChange(slug, clinicData, { ...clinicData, ...updateData }, {
+      source: 'worker',
+      actor: 'seoMetaWriter',
+      action: 'seo'
+    });
     
     console.log(`✅ Updated SEO data for: ${slug}`);
     
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { parse } from 'csv-parse';
+import { RawClinic, ImportParseOptions } from '../types/clinic';
+import { normalizeHeader } from './parseClinicCSV';
+import { normalizeKey } from './parseClinicJSON';
+import { applyFieldOverrides } from './headerMapping';
+import { loadMappingProfile, applyMappingProfile, withHeaderOverrides } from './mappingProfiles';
+
+/**
+ * Row-at-a-time readers for large CSV and NDJSON files. Rows are only read as fast as the
+ * consumer pulls them, so a slow import pipeline holds a bounded amount of the file in memory.
+ */
+
+export type StreamFormat = 'csv' | 'ndjson';
+
+/**
+ * Formats that can be streamed; JSON arrays, XLSX and Places dumps must be loaded whole
+ */
+export function getStreamFormat(inputPath: string, options: ImportParseOptions = {}): StreamFormat | null {
+  const format = options.format || path.extname(inputPath).toLowerCase().replace('.', '');
+  if (format === 'csv') return 'csv';
+  if (format === 'ndjson' || format === 'jsonl') return 'ndjson';
+  return null;
+}
+
+/**
+ * Cheap row estimate (newline count) so progress and ETA are available before the stream finishes
+ */
+export async function estimateRecordCount(inputPath: string, format: StreamFormat): Promise<number> {
+  let lines = 0;
+  let lastByte = 10;
+
+  for await (const chunk of fs.createReadStream(inputPath)) {
+    const buffer = chunk as Buffer;
+    for (let i = 0; i < buffer.length; i++) {
+      if (buffer[i] === 10) lines++;
+    }
+    if (buffer.length > 0) lastByte = buffer[buffer.length - 1];
+  }
+
+  // Count a final line without a trailing newline; CSV loses one line to the header
+  if (lastByte !== 10) lines++;
+  return Math.max(format === 'csv' ? lines - 1 : lines, 0);
+}
+
+export async function* streamImportRecords(
+  inputPath: string,
+  options: ImportParseOptions = {}
+): AsyncGenerator<RawClinic> {
+  const format = getStreamFormat(inputPath, options);
+  if (!format) {
+    throw new Error(`Streaming is not supported for ${path.basename(inputPath)}`);
+  }
+
+  const profile = options.profile
+    ? withHeaderOverrides(await loadMappingProfile(options.profile), options.headerMapping)
+    : null;
+  if (profile) {
+    console.log(`🗺️  Applying mapping profile "${profile.name}" (${profile.mappings.length} columns)`);
+  }
+
+  const rows = format === 'csv'
+    ? streamCsvRows(inputPath, Boolean(profile))
+    : streamNdjsonRows(inputPath, Boolean(profile));
+
+  for await (const row of rows) {
+    if (!profile) {
+      yield applyFieldOverrides(row, options.headerMapping);
+      continue;
+    }
+
+    // Same filtering as the in-memory parser, so row indexes match approved plans and checkpoints
+    const record = applyMappingProfile(row, profile);
+    if (Object.keys(record).length > 0) yield record;
+  }
+}
+
+async function* streamCsvRows(inputPath: string, rawHeaders: boolean): AsyncGenerator<RawClinic> {
+  const parser = fs.createReadStream(inputPath).pipe(parse({
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+    quote: '"',
+    escape: '"',
+    relax_column_count: true
+  }));
+
+  for await (const record of parser) {
+    const normalized: RawClinic = {};
+    Object.keys(record).forEach(key => {
+      const value = record[key];
+      normalized[rawHeaders ? key : normalizeHeader(key)] = value && value.trim() !== '' ? value.trim() : undefined;
+    });
+    yield normalized;
+  }
+}
+
+async function* streamNdjsonRows(inputPath: string, rawHeaders: boolean): AsyncGenerator<RawClinic> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(inputPath, { encoding: 'utf-8' }),
+    crlfDelay: Infinity
+  });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === '') continue;
+
+    let record: Record<string, any>;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${lineNumber} of ${path.basename(inputPath)}: ${error}`);
+    }
+
+    const normalized: RawClinic = {};
+    Object.keys(record).forEach(key => {
+      const value = record[key];
+      if (value !== null && value !== undefined && value !== '') {
+        normalized[rawHeaders ? key : normalizeKey(key)] = String(value).trim();
+      }
+    });
+    yield normalized;
+  }
+}
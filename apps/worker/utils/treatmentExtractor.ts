@@ -1,172 +1,11 @@
 import * as cheerio from 'cheerio';
+import { TREATMENT_PATTERNS } from './treatmentPatterns';
 
 /**
  * Advanced treatment extractor that identifies all medical treatments and procedures
  * mentioned on a website, including specific medications, peptides, and brand names
  */
 
-// Comprehensive treatment patterns organized by category
-const TREATMENT_PATTERNS = {
-  // HORMONE OPTIMIZATION
-  hormone_optimization: [
-    // Testosterone therapies
-    /\b(testosterone cypionate|test cyp|test-?c|cypionate|depo-?testosterone)\b/gi,
-    /\b(testosterone enanthate|test e|test-?e|enanthate|delatestryl)\b/gi,
-    /\b(testosterone propionate|test p|test-?p|propionate)\b/gi,
-    /\b(testosterone undecanoate|jatenzo|aveed|nebido)\b/gi,
-    /\b(androgel|testim|fortesta|axiron|natesto|vogelxo)\b/gi,
-    // Thyroid optimization
-    /\b(levothyroxine|synthroid|unithroid|levoxyl)\b/gi,
-    /\b(liothyronine|cytomel|t3)\b/gi,
-    /\b(armour thyroid|np thyroid|thyroid usp|desiccated thyroid)\b/gi,
-    // DHEA and other hormones
-    /\b(dhea|dehydroepiandrosterone|7-?keto dhea|micronized dhea)\b/gi,
-    // Estrogen blockers and support
-    /\b(anastrozole|arimidex|letrozole|femara|exemestane|aromasin)\b/gi,
-    /\b(clomiphene|clomid|enclomiphene|nolvadex|tamoxifen)\b/gi,
-    /\b(hcg|human chorionic gonadotropin|pregnyl|ovidrel)\b/gi
-  ],
-
-  // SEXUAL HEALTH
-  sexual_health: [
-    // ED medications
-    /\b(sildenafil|viagra|generic viagra)\b/gi,
-    /\b(tadalafil|cialis|generic cialis)\b/gi,
-    /\b(vardenafil|levitra|staxyn)\b/gi,
-    /\b(avanafil|stendra)\b/gi,
-    // Injectable ED treatments
-    /\b(trimix|tri-?mix|triple mix|bimix|bi-?mix|quadmix|quad-?mix)\b/gi,
-    /\b(alprostadil|caverject|edex|muse)\b/gi,
-    // Sexual enhancement
-    /\b(pt-?141|bremelanotide|vyleesi)\b/gi,
-    /\b(oxytocin|kisspeptin|melanotan)\b/gi,
-    // Procedures
-    /\b(p-?shot|priapus shot|prp penis|penile prp)\b/gi,
-    /\b(gainswave|gains wave|shockwave therapy|acoustic wave|eswt)\b/gi,
-    /\b(phoenix|pulse wave|radial wave)\b/gi
-  ],
-
-  // PEPTIDES & PERFORMANCE
-  peptides_performance: [
-    // Growth hormone secretagogues
-    /\b(cjc-?1295|cjc 1295|mod grf)\b/gi,
-    /\b(ipamorelin|ipa|ipam)\b/gi,
-    /\b(sermorelin|serm|grf)\b/gi,
-    /\b(tesamorelin|egrifta)\b/gi,
-    /\b(mk-?677|mk 677|ibutamoren)\b/gi,
-    /\b(ghrp-?[26]|ghrp [26]|hexarelin)\b/gi,
-    /\b(gh frag 176-?191|hgh frag|fragment 176)\b/gi,
-    /\b(igf-?1|igf1|lr3|des)\b/gi,
-    // Recovery peptides
-    /\b(bpc-?157|bpc 157|body protection compound)\b/gi,
-    /\b(tb-?500|tb 500|thymosin beta)\b/gi,
-    /\b(aod-?9604|aod 9604)\b/gi,
-    /\b(ghk-?cu|copper peptide)\b/gi,
-    // Other performance peptides
-    /\b(mots-?c|mitochondrial peptide)\b/gi,
-    /\b(5-?amino-?1mq|5amino1mq)\b/gi,
-    /\b(ll-?37|thymosin alpha)\b/gi,
-    /\b(epitalon|epithalon|semax|selank)\b/gi
-  ],
-
-  // HAIR LOSS & AESTHETICS
-  hair_aesthetics: [
-    // Hair medications
-    /\b(finasteride|propecia|proscar)\b/gi,
-    /\b(minoxidil|rogaine|foam|topical minoxidil|oral minoxidil)\b/gi,
-    /\b(dutasteride|avodart)\b/gi,
-    // Hair procedures
-    /\b(prp scalp|prp hair|platelet rich plasma hair)\b/gi,
-    /\b(hair transplant|fue|fut|follicular unit)\b/gi,
-    /\b(lllt|low level laser|laser cap|laser helmet)\b/gi,
-    /\b(microneedling|dermaroller|dermapen)\b/gi,
-    /\b(exosome scalp|stem cell hair)\b/gi,
-    // Aesthetics
-    /\b(botox|botulinum|dysport|xeomin|jeuveau)\b/gi,
-    /\b(dermal fillers?|juvederm|restylane|sculptra|radiesse)\b/gi,
-    /\b(prp facial|vampire facial|platelet rich plasma face)\b/gi,
-    /\b(chemical peel|glycolic|salicylic|tca peel)\b/gi
-  ],
-
-  // WEIGHT LOSS & METABOLIC
-  weight_metabolic: [
-    // GLP-1 medications
-    /\b(semaglutide|ozempic|wegovy|rybelsus)\b/gi,
-    /\b(tirzepatide|mounjaro|zepbound)\b/gi,
-    /\b(liraglutide|saxenda|victoza)\b/gi,
-    // Other weight loss meds
-    /\b(phentermine|adipex|lomaira)\b/gi,
-    /\b(topiramate|topamax|qsymia)\b/gi,
-    /\b(contrave|naltrexone|bupropion)\b/gi,
-    /\b(orlistat|xenical|alli)\b/gi,
-    /\b(metformin|glucophage)\b/gi,
-    // Injectable nutrients
-    /\b(lipotropic|lipo-?c|mic|mic-?b12)\b/gi,
-    /\b(b12 injection|methylcobalamin|cyanocobalamin)\b/gi,
-    /\b(l-?carnitine|carnitine injection)\b/gi,
-    /\b(glutathione|gsh|gluta)\b/gi
-  ],
-
-  // IV & INJECTION THERAPY
-  iv_therapy: [
-    // Popular IV cocktails
-    /\b(myers cocktail|myer's cocktail|myers' cocktail)\b/gi,
-    /\b(nad\+?|nad iv|nicotinamide adenine dinucleotide)\b/gi,
-    /\b(glutathione iv|glutathione push|gluta drip)\b/gi,
-    /\b(vitamin c iv|high dose c|ascorbic acid iv)\b/gi,
-    // Hydration and recovery
-    /\b(saline iv|lactated ringer|lr iv|hydration drip)\b/gi,
-    /\b(b-?complex|b complex iv|b vitamin drip)\b/gi,
-    /\b(magnesium iv|mag drip|magnesium push)\b/gi,
-    // Performance IVs
-    /\b(amino acid iv|amino blend|bcaa iv)\b/gi,
-    /\b(coq10|coenzyme q10|ubiquinol)\b/gi,
-    /\b(alpha lipoic acid|ala iv)\b/gi,
-    /\b(tri-?amino|arginine|citrulline)\b/gi
-  ],
-
-  // REGENERATIVE MEDICINE  
-  regenerative: [
-    // PRP variations
-    /\b(prp|platelet rich plasma|prp injection|prp therapy)\b/gi,
-    /\b(prf|platelet rich fibrin|advanced prf)\b/gi,
-    // Stem cell therapies
-    /\b(stem cell|stem cells|umbilical stem|adipose stem)\b/gi,
-    /\b(bmac|bone marrow aspirate)\b/gi,
-    /\b(exosomes?|exosome therapy|cell free)\b/gi,
-    /\b(amniotic|placental|wharton's jelly)\b/gi,
-    // Wave therapies
-    /\b(shockwave|shock wave|acoustic wave|eswt)\b/gi,
-    /\b(gainswave|phoenix|pulse wave|radial wave)\b/gi,
-    // Light and electromagnetic
-    /\b(red light therapy|lllt|photobiomodulation|infrared)\b/gi,
-    /\b(pemf|pulsed electromagnetic|magnetic therapy)\b/gi,
-    /\b(cryotherapy|cryo|cold therapy|ice therapy)\b/gi
-  ],
-
-  // DIAGNOSTICS & PANELS
-  diagnostics: [
-    // Hormone testing
-    /\b(total testosterone|free testosterone|bioavailable testosterone)\b/gi,
-    /\b(estradiol|e2|sensitive estradiol)\b/gi,
-    /\b(shbg|sex hormone binding globulin)\b/gi,
-    /\b(lh|luteinizing hormone|fsh|follicle stimulating)\b/gi,
-    /\b(dhea-?s|dhea sulfate|igf-?1|growth factor)\b/gi,
-    // Metabolic panels
-    /\b(cbc|complete blood count|cmp|comprehensive metabolic)\b/gi,
-    /\b(lipid panel|cholesterol panel|nmr lipoprofile)\b/gi,
-    /\b(a1c|hemoglobin a1c|glucose|insulin)\b/gi,
-    /\b(hs-?crp|c-?reactive protein|homocysteine)\b/gi,
-    // Thyroid testing
-    /\b(tsh|thyroid stimulating|free t3|free t4|reverse t3)\b/gi,
-    /\b(tpo antibodies|thyroglobulin|anti-?thyroid)\b/gi,
-    // Specialized testing
-    /\b(mthfr|methylation|apoe|genetic testing)\b/gi,
-    /\b(micronutrient|spectracell|nutreval)\b/gi,
-    /\b(gi-?map|gut testing|food sensitivity|igg)\b/gi
-  ]
-};
-
 // Flatten all patterns for backward compatibility
 const TREATMENT_PATTERNS_FLAT = Object.values(TREATMENT_PATTERNS).flat();
 